@@ -2,6 +2,10 @@
 
 import { useEffect, useState } from 'react';
 import { AlertsPanel } from '@/components/AlertsPanel';
+import { AlertRulesCard } from '@/components/AlertRulesCard';
+import { AlertLifecycleCard } from '@/components/AlertLifecycleCard';
+import { SilenceDraft, SilencesCard } from '@/components/SilencesCard';
+import { OnCallCard } from '@/components/OnCallCard';
 import { Card } from '@/components/Card';
 import { StatCard } from '@/components/StatCard';
 import { 
@@ -9,8 +13,11 @@ import {
   TrendingUp, Info, Zap, Server, AlertCircle 
 } from 'lucide-react';
 import { useNodes } from '@/hooks/useNodes';
-import { calculateHealthScore, detectAnomalies } from '@/lib/health';
+import { useClientAnalytics } from '@/hooks/useClientAnalytics';
+import { useOperator } from '@/hooks/useOnCall';
+import { calculateHealthScore } from '@/lib/health';
 import { calculateNetworkStats } from '@/lib/prpc';
+import { Anomaly } from '@/types';
 import Link from 'next/link';
 
 interface AlertStats {
@@ -23,7 +30,7 @@ interface AlertStats {
 }
 
 export default function AlertsPage() {
-  const { data: nodesData } = useNodes({ page: 1, pageSize: 500 });
+  const { data: nodesData } = useNodes({ pageSize: 500 });
   const [alertStats, setAlertStats] = useState<AlertStats>({
     total: 0,
     critical: 0,
@@ -33,6 +40,10 @@ export default function AlertsPage() {
     resolved: 0,
   });
   const [loading, setLoading] = useState(true);
+  // Silence being created from an alert row; `key` remounts the card's form with it
+  const { operator, setOperator } = useOperator();
+  const [mineOnly, setMineOnly] = useState(false);
+  const [silenceDraft, setSilenceDraft] = useState<{ key: number; draft: SilenceDraft } | null>(null);
 
   useEffect(() => {
     fetchAlertStats();
@@ -67,20 +78,33 @@ export default function AlertsPage() {
   const nodes = nodesData?.nodes || [];
   const stats = calculateNetworkStats(nodes);
   const healthScores = nodes.map(n => calculateHealthScore(n));
+  const { anomalyMap } = useClientAnalytics(nodes);
+  const withAnomaly = (type: Anomaly['type']) =>
+    nodes.filter(n => anomalyMap.get(n.id)?.some(a => a.type === type)).length;
   
-  // Count nodes that would trigger alerts
+  // Count nodes that would trigger alerts (same anomaly engine as ingest)
   const nodesWithIssues = {
-    offline: nodes.filter(n => n.status === 'offline').length,
-    highLatency: nodes.filter(n => n.latency && n.latency > 1000).length,
+    offline: withAnomaly('offline'),
+    highLatency: withAnomaly('latency_spike'),
     criticalHealth: healthScores.filter(h => h.score < 50).length,
     warningHealth: healthScores.filter(h => h.score >= 50 && h.score < 80).length,
     lowPeers: nodes.filter(n => n.peerCount < 5).length,
-    storageFull: nodes.filter(n => {
-      if (!n.storageCapacity || !n.storageUsed) return false;
-      return (n.storageUsed / n.storageCapacity) * 100 > 95;
-    }).length,
+    storageFull: nodes.filter(n =>
+      anomalyMap.get(n.id)?.some(a => a.type === 'storage_anomaly' && a.severity !== 'low')
+    ).length,
   };
 
+  function silenceAlert(alert: { nodeId: string | null; type: string; message: string }) {
+    setSilenceDraft(previous => ({
+      key: (previous?.key ?? 0) + 1,
+      draft: {
+        comment: `Silenced from alert: ${alert.message}`,
+        matchers: alert.nodeId ? { nodeIds: [alert.nodeId], types: [alert.type] } : { types: [alert.type] },
+      },
+    }));
+    document.getElementById('silences')?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }
+
   const potentialAlerts = 
     nodesWithIssues.offline +
     nodesWithIssues.highLatency +
@@ -117,7 +141,7 @@ export default function AlertsPage() {
         <StatCard
           title="Resolved"
           value={alertStats.resolved}
-          subtitle="Previously resolved alerts"
+          subtitle="Resolved by hand or automatically"
           icon={<CheckCircle2 className="w-8 h-8" />}
         />
         <StatCard
@@ -128,6 +152,9 @@ export default function AlertsPage() {
         />
       </div>
 
+      {/* Durations and MTTR */}
+      <AlertLifecycleCard />
+
       {/* Potential Issues Summary */}
       {nodes.length > 0 && (
         <Card title="Current Network Status & Potential Alerts">
@@ -234,6 +261,7 @@ export default function AlertsPage() {
                 <li>• Node is offline</li>
                 <li>• Node not seen for more than 24 hours</li>
                 <li>• Health score below 50</li>
+                <li>• Fewer than half of all nodes online</li>
               </ul>
             </div>
             <div className="p-4 border border-gray-200 dark:border-gray-800 rounded-lg">
@@ -243,8 +271,10 @@ export default function AlertsPage() {
               </div>
               <ul className="text-sm text-gray-600 dark:text-gray-400 space-y-1 ml-7">
                 <li>• Storage usage above 95%</li>
-                <li>• Latency above 2000ms</li>
+                <li>• Version below the minimum supported version</li>
+                <li>• Latency above 2000ms, or far above the node&apos;s own baseline</li>
                 <li>• Node not seen for 1-24 hours</li>
+                <li>• Network: online nodes below 80%, storage capacity down 20% in an hour, many nodes or a whole region gone at once</li>
               </ul>
             </div>
             <div className="p-4 border border-gray-200 dark:border-gray-800 rounded-lg">
@@ -253,9 +283,12 @@ export default function AlertsPage() {
                 <span className="font-semibold text-yellow-600 dark:text-yellow-400">Medium Priority</span>
               </div>
               <ul className="text-sm text-gray-600 dark:text-gray-400 space-y-1 ml-7">
-                <li>• Latency between 1000-2000ms</li>
-                <li>• Peer count drop &gt;50%</li>
+                <li>• Latency between 1000-2000ms, or a sustained rise</li>
+                <li>• Peer count drop &gt;50%, or well below the node&apos;s baseline</li>
+                <li>• Storage usage 90-95%</li>
+                <li>• Version too many minor releases behind the network</li>
                 <li>• Health score 50-79</li>
+                <li>• Network: over 90% of nodes on one release line</li>
               </ul>
             </div>
             <div className="p-4 border border-gray-200 dark:border-gray-800 rounded-lg">
@@ -264,8 +297,8 @@ export default function AlertsPage() {
                 <span className="font-semibold text-blue-600 dark:text-blue-400">Low Priority</span>
               </div>
               <ul className="text-sm text-gray-600 dark:text-gray-400 space-y-1 ml-7">
-                <li>• Minor performance issues</li>
-                <li>• Version mismatches</li>
+                <li>• Unusually fast storage growth</li>
+                <li>• Version older than the recommended version</li>
                 <li>• Non-critical anomalies</li>
               </ul>
             </div>
@@ -281,7 +314,8 @@ export default function AlertsPage() {
             <div>
               <h3 className="font-semibold text-lg mb-2">How Alerts Work</h3>
               <p className="text-gray-600 dark:text-gray-400 mb-3">
-                Alerts are automatically generated when you run the ingestion API. The system monitors:
+                Alerts are automatically generated when you run the ingestion API, and resolved again once the
+                condition has cleared. The system monitors:
               </p>
               <ul className="list-disc list-inside text-gray-600 dark:text-gray-400 space-y-1 mb-4">
                 <li>Node online/offline status</li>
@@ -295,10 +329,10 @@ export default function AlertsPage() {
                   To generate alerts:
                 </p>
                 <code className="block bg-gray-900 dark:bg-gray-950 text-gray-100 px-4 py-2 rounded text-sm">
-                  curl http://localhost:3000/api/ingest
+                  {'curl -X POST -H "Authorization: Bearer $INGEST_TOKEN" http://localhost:3000/api/ingest'}
                 </code>
                 <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
-                  Run this command periodically (e.g., every hour via cron) to continuously monitor and generate alerts.
+                  Or set INGEST_SCHEDULER_ENABLED=true to run ingestion on a schedule and continuously monitor and generate alerts.
                 </p>
               </div>
             </div>
@@ -306,8 +340,29 @@ export default function AlertsPage() {
         </Card>
       )}
 
+      {/* User-defined Rules */}
+      <AlertRulesCard nodes={nodes} />
+
+      {/* Ownership, escalation and "my open alerts" */}
+      <OnCallCard
+        operator={operator}
+        onOperatorChange={setOperator}
+        mineOnly={mineOnly && Boolean(operator.trim())}
+        onMineOnlyChange={setMineOnly}
+      />
+
+      {/* Silences and maintenance windows */}
+      <SilencesCard key={silenceDraft?.key ?? 0} draft={silenceDraft?.draft} />
+
       {/* Active Alerts */}
-      <AlertsPanel limit={100} showResolved={false} compact={false} />
+      <AlertsPanel
+        limit={100}
+        showResolved={false}
+        compact={false}
+        onSilence={silenceAlert}
+        operator={operator}
+        owner={mineOnly && operator.trim() ? operator.trim() : undefined}
+      />
     </div>
   );
 }
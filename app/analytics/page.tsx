@@ -4,6 +4,7 @@ import { useMemo } from 'react';
 import { useAllNodes } from '@/hooks/useAllNodes';
 import { CorrelationChart } from '@/components/CorrelationChart';
 import { DistributionHistogram } from '@/components/DistributionHistogram';
+import { ConcentrationSection } from '@/components/ConcentrationSection';
 import { Card } from '@/components/Card';
 import { Skeleton } from '@/components/Skeleton';
 import { BarChart3, TrendingUp, Activity, AlertTriangle, CheckCircle2, Server, HardDrive, Globe } from 'lucide-react';
@@ -352,6 +353,9 @@ export default function AnalyticsPage() {
         )}
       </div>
 
+      {/* Provider & Country Concentration */}
+      {nodes.length > 0 && <ConcentrationSection nodes={nodes} />}
+
       {/* Correlation Charts */}
       {nodes.length === 0 ? (
         <Card>
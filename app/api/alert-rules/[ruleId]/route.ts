@@ -0,0 +1,106 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { validateAlertRuleInput } from '@/lib/alertRules';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ ruleId: string }> };
+
+// Helper to safely check if database is available
+async function isDbAvailable(): Promise<boolean> {
+  try {
+    await prisma.$queryRaw`SELECT 1`;
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const dbUnavailable = () =>
+  NextResponse.json(
+    { error: 'Database not available. Alert rules cannot be changed without a database.' },
+    { status: 503 }
+  );
+
+// Prisma's "record to update/delete not found"
+const isNotFound = (error: unknown) => (error as { code?: unknown }).code === 'P2025';
+
+export async function GET(_req: Request, { params }: RouteContext) {
+  try {
+    const { ruleId } = await params;
+    if (!(await isDbAvailable())) {
+      return NextResponse.json({ error: `Alert rule ${ruleId} not found` }, { status: 404 });
+    }
+
+    const rule = await prisma.alertRule.findUnique({ where: { id: ruleId } });
+    if (!rule) {
+      return NextResponse.json({ error: `Alert rule ${ruleId} not found` }, { status: 404 });
+    }
+    return NextResponse.json({ rule });
+  } catch (error) {
+    console.error('API /alert-rules/[ruleId] error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(req: Request, { params }: RouteContext) {
+  try {
+    const { ruleId } = await params;
+    let data;
+    try {
+      data = validateAlertRuleInput(await req.json(), true);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : String(error) },
+        { status: 400 }
+      );
+    }
+
+    if (!(await isDbAvailable())) return dbUnavailable();
+
+    try {
+      const rule = await prisma.alertRule.update({ where: { id: ruleId }, data });
+      return NextResponse.json({ rule });
+    } catch (error) {
+      if (isNotFound(error)) {
+        return NextResponse.json({ error: `Alert rule ${ruleId} not found` }, { status: 404 });
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error('API /alert-rules/[ruleId] PATCH error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// Deleting a rule keeps the alerts it raised
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  try {
+    const { ruleId } = await params;
+    if (!(await isDbAvailable())) return dbUnavailable();
+
+    try {
+      await prisma.alertRule.delete({ where: { id: ruleId } });
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      if (isNotFound(error)) {
+        return NextResponse.json({ error: `Alert rule ${ruleId} not found` }, { status: 404 });
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error('API /alert-rules/[ruleId] DELETE error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
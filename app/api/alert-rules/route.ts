@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { validateAlertRuleInput } from '@/lib/alertRules';
+import { AlertRuleInput } from '@/types';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+export const runtime = 'nodejs';
+
+// Helper to safely check if database is available
+async function isDbAvailable(): Promise<boolean> {
+  try {
+    await prisma.$queryRaw`SELECT 1`;
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function GET() {
+  try {
+    const dbAvailable = await isDbAvailable();
+
+    if (!dbAvailable) {
+      // No database - no rules
+      return NextResponse.json({ rules: [] });
+    }
+
+    try {
+      const rules = await prisma.alertRule.findMany({ orderBy: { createdAt: 'asc' } });
+      return NextResponse.json({ rules });
+    } catch (dbError) {
+      console.warn('Database unavailable, returning no alert rules:', dbError);
+      return NextResponse.json({ rules: [] });
+    }
+  } catch (error) {
+    console.error('API /alert-rules error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    let data: AlertRuleInput;
+    try {
+      data = validateAlertRuleInput(await req.json()) as AlertRuleInput;
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : String(error) },
+        { status: 400 }
+      );
+    }
+
+    const dbAvailable = await isDbAvailable();
+
+    if (!dbAvailable) {
+      return NextResponse.json(
+        { error: 'Database not available. Alert rules cannot be saved without a database.' },
+        { status: 503 }
+      );
+    }
+
+    const rule = await prisma.alertRule.create({ data });
+    return NextResponse.json({ rule }, { status: 201 });
+  } catch (error) {
+    console.error('API /alert-rules POST error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
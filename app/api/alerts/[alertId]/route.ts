@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+export const runtime = 'nodejs';
+
+// Helper to safely check if database is available
+async function isDbAvailable(): Promise<boolean> {
+  try {
+    await prisma.$queryRaw`SELECT 1`;
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// One alert with its lifecycle history, oldest event first
+export async function GET(_req: Request, { params }: { params: Promise<{ alertId: string }> }) {
+  try {
+    const { alertId } = await params;
+
+    const dbAvailable = await isDbAvailable();
+    if (!dbAvailable) {
+      return NextResponse.json({ error: 'Alert not found' }, { status: 404 });
+    }
+
+    const alert = await prisma.alert.findUnique({
+      where: { id: alertId },
+      include: { events: { orderBy: { createdAt: 'asc' } } },
+    });
+    if (!alert) {
+      return NextResponse.json({ error: 'Alert not found' }, { status: 404 });
+    }
+
+    const { events, ...rest } = alert;
+    return NextResponse.json({
+      alert: { ...rest, details: rest.details ? JSON.parse(rest.details) : null },
+      events: events.map(event => ({ ...event, details: event.details ? JSON.parse(event.details) : null })),
+    });
+  } catch (error) {
+    console.error('API /alerts/[alertId] error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,18 @@
 import { NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/db';
+import { loadNotificationConfig } from '@/lib/notifications';
+import { teamsOf } from '@/lib/escalation';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
 // Force Node runtime on Vercel for Prisma
 export const runtime = 'nodejs';
 
+// Longest acknowledgement note and operator name
+const MAX_NOTE_LENGTH = 500;
+const MAX_NAME_LENGTH = 100;
+
 // Helper to safely check if database is available
 async function isDbAvailable(): Promise<boolean> {
   try {
@@ -31,6 +38,10 @@ export async function GET(req: Request) {
       const severity = searchParams.get('severity');
       const nodeId = searchParams.get('nodeId');
       const resolved = searchParams.get('resolved');
+      const assignee = searchParams.get('assignee');
+      const team = searchParams.get('team');
+      // An operator's alerts: assigned to them, or unassigned and owned by one of their teams
+      const owner = searchParams.get('owner')?.trim();
       const limit = Math.min(500, parseInt(searchParams.get('limit') || '100', 10));
       const hours = searchParams.get('hours')
         ? Math.max(1, Math.min(168, parseInt(searchParams.get('hours')!, 10)))
@@ -50,6 +61,24 @@ export async function GET(req: Request) {
         where.resolved = resolved === 'true';
       }
 
+      if (assignee) {
+        where.assignee = assignee;
+      }
+
+      if (team) {
+        where.team = team;
+      }
+
+      if (owner) {
+        let teams: string[] = [];
+        try {
+          teams = teamsOf(loadNotificationConfig()?.teams ?? [], owner);
+        } catch (error) {
+          console.warn('Notification config unusable, matching alerts by assignee only:', error);
+        }
+        where.OR = [{ assignee: owner }, { assignee: null, team: { in: teams } }];
+      }
+
       if (hours) {
         where.createdAt = {
           gte: new Date(Date.now() - hours * 60 * 60 * 1000),
@@ -83,7 +112,7 @@ export async function GET(req: Request) {
           details: a.details ? JSON.parse(a.details) : null,
           nodeInfo: node ? {
             publicKey: node.publicKey,
-            region: node.region,
+            region: node.country || node.region,
             version: node.version,
             isValidator: node.isValidator,
           } : null,
@@ -119,41 +148,113 @@ export async function PATCH(req: Request) {
 
     try {
       const body = await req.json();
-      const { id, acknowledged, resolved, clearAll } = body;
+      const { id, acknowledged, resolved, clearAll, note } = body;
+      // Recorded on the alert's history; there are no user accounts, so callers name themselves
+      const actor = typeof body.actor === 'string' && body.actor.trim() ? body.actor.trim().slice(0, MAX_NAME_LENGTH) : 'api';
+      const now = new Date();
 
       // Handle clear all alerts
       if (clearAll === true) {
-        const result = await prisma.alert.updateMany({
-          where: { resolved: false },
-          data: {
-            resolved: true,
-            resolvedAt: new Date(),
-          },
+        const cleared = await prisma.$transaction(async (tx) => {
+          const open = await tx.alert.findMany({ where: { resolved: false }, select: { id: true } });
+          const ids = open.map(a => a.id);
+          await tx.alert.updateMany({
+            where: { id: { in: ids } },
+            data: {
+              resolved: true,
+              resolvedAt: now,
+              resolvedBy: actor,
+              clearCount: 0,
+              clearSince: null,
+            },
+          });
+          await tx.alertEvent.createMany({
+            data: ids.map(alertId => ({ alertId, type: 'resolved', actor, details: JSON.stringify({ clearAll: true }), createdAt: now })),
+          });
+          return ids.length;
         });
-        return NextResponse.json({ success: true, cleared: result.count });
+        return NextResponse.json({ success: true, cleared });
       }
 
       if (!id) {
         return NextResponse.json({ error: 'Alert ID required' }, { status: 400 });
       }
 
-      const updateData: any = {};
-      if (acknowledged !== undefined) {
-        updateData.acknowledged = acknowledged;
+      if (note !== undefined && note !== null && (typeof note !== 'string' || note.length > MAX_NOTE_LENGTH)) {
+        return NextResponse.json({ error: `note must be a string of at most ${MAX_NOTE_LENGTH} characters` }, { status: 400 });
+      }
+      if (body.assignee !== undefined && body.assignee !== null &&
+          (typeof body.assignee !== 'string' || body.assignee.trim().length > MAX_NAME_LENGTH)) {
+        return NextResponse.json({ error: `assignee must be a name of at most ${MAX_NAME_LENGTH} characters, or null` }, { status: 400 });
+      }
+      // null or "" unassigns
+      const assignee: string | null | undefined = body.assignee === undefined ? undefined : body.assignee?.trim() || null;
+
+      const current = await prisma.alert.findUnique({ where: { id } });
+      if (!current) {
+        return NextResponse.json({ error: 'Alert not found' }, { status: 404 });
       }
-      if (resolved !== undefined) {
-        updateData.resolved = resolved;
+
+      const updateData: Prisma.AlertUpdateInput = {};
+      const events: Prisma.AlertEventCreateManyInput[] = [];
+      // A named caller acknowledging an unassigned alert takes it, unless an assignee is given
+      const nextAssignee = assignee !== undefined
+        ? assignee
+        : acknowledged && !current.acknowledged && !current.assignee && actor !== 'api' ? actor : current.assignee;
+      if (acknowledged !== undefined && Boolean(acknowledged) !== current.acknowledged) {
+        updateData.acknowledged = Boolean(acknowledged);
+        if (acknowledged) {
+          updateData.acknowledgedAt = now;
+          updateData.acknowledgedBy = actor;
+          updateData.ackNote = note?.trim() || null;
+          events.push({
+            alertId: id,
+            type: 'acknowledged',
+            actor,
+            details: JSON.stringify({ note: note?.trim() || undefined, assignee: nextAssignee ?? undefined }),
+            createdAt: now,
+          });
+        } else {
+          // Escalation starts over from the first tier
+          updateData.acknowledgedAt = null;
+          updateData.acknowledgedBy = null;
+          updateData.ackNote = null;
+          updateData.escalationLevel = 0;
+          updateData.escalationSince = now;
+          events.push({ alertId: id, type: 'unacknowledged', actor, createdAt: now });
+        }
+      }
+      if (nextAssignee !== current.assignee) {
+        updateData.assignee = nextAssignee;
+        events.push({
+          alertId: id,
+          type: 'assigned',
+          actor,
+          details: JSON.stringify({ assignee: nextAssignee, previous: current.assignee }),
+          createdAt: now,
+        });
+      }
+      if (resolved !== undefined && Boolean(resolved) !== current.resolved) {
+        updateData.resolved = Boolean(resolved);
+        updateData.clearCount = 0;
+        updateData.clearSince = null;
         if (resolved) {
-          updateData.resolvedAt = new Date();
+          updateData.resolvedAt = now;
+          updateData.resolvedBy = actor;
         } else {
           updateData.resolvedAt = null;
+          updateData.resolvedBy = null;
         }
+        events.push({ alertId: id, type: resolved ? 'resolved' : 'reopened', actor, createdAt: now });
       }
 
-      const alert = await prisma.alert.update({
-        where: { id },
-        data: updateData,
-      });
+      const [alert] = await prisma.$transaction([
+        prisma.alert.update({
+          where: { id },
+          data: updateData,
+        }),
+        prisma.alertEvent.createMany({ data: events }),
+      ]);
 
       return NextResponse.json({ alert });
     } catch (dbError) {
@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { summarizeAlertDurations } from '@/lib/alertLifecycle';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+export const runtime = 'nodejs';
+
+// Helper to safely check if database is available
+async function isDbAvailable(): Promise<boolean> {
+  try {
+    await prisma.$queryRaw`SELECT 1`;
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function emptyStats(days: number) {
+  return {
+    days,
+    open: 0,
+    flapping: 0,
+    oldestOpenAt: null,
+    raised: 0,
+    reopened: 0,
+    durations: summarizeAlertDurations([]),
+    byType: [],
+  };
+}
+
+// Alert durations and MTTR over the last `days` days (alerts resolved in that time),
+// plus what is open now
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const days = Math.max(1, Math.min(90, parseInt(searchParams.get('days') || '7', 10)));
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const dbAvailable = await isDbAvailable();
+    if (!dbAvailable) {
+      return NextResponse.json(emptyStats(days));
+    }
+
+    try {
+      const open = await prisma.alert.findMany({
+        where: { resolved: false },
+        select: { createdAt: true, flapping: true },
+        orderBy: { createdAt: 'asc' },
+      });
+      const resolved = await prisma.alert.findMany({
+        where: { resolved: true, resolvedAt: { gte: since } },
+        select: { type: true, createdAt: true, resolvedAt: true, resolvedBy: true },
+      });
+      const raised = await prisma.alertEvent.count({ where: { type: 'created', createdAt: { gte: since } } });
+      const reopened = await prisma.alertEvent.count({ where: { type: 'reopened', createdAt: { gte: since } } });
+
+      const byType = new Map<string, typeof resolved>();
+      for (const alert of resolved) {
+        byType.set(alert.type, [...(byType.get(alert.type) ?? []), alert]);
+      }
+
+      return NextResponse.json({
+        days,
+        open: open.length,
+        flapping: open.filter(alert => alert.flapping).length,
+        oldestOpenAt: open[0]?.createdAt ?? null,
+        raised,
+        reopened,
+        durations: summarizeAlertDurations(resolved),
+        byType: Array.from(byType.entries())
+          .map(([type, alerts]) => ({ type, ...summarizeAlertDurations(alerts) }))
+          .sort((a, b) => b.resolved - a.resolved),
+      });
+    } catch (dbError) {
+      console.warn('Database unavailable, returning empty alert stats:', dbError);
+      return NextResponse.json(emptyStats(days));
+    }
+  } catch (error) {
+    console.error('API /alerts/stats error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
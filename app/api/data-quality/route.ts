@@ -0,0 +1,83 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { fetchLiveNodes } from '@/lib/liveNodes';
+import { buildDataQualityReport } from '@/lib/validation';
+import { DataQualityReport } from '@/types';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+export const runtime = 'nodejs';
+
+// Helper to safely check if database is available
+async function isDbAvailable(): Promise<boolean> {
+  try {
+    await prisma.$queryRaw`SELECT 1`;
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function liveReport() {
+  const nodes = await fetchLiveNodes();
+  return NextResponse.json({ report: buildDataQualityReport(nodes), history: [], source: 'live' });
+}
+
+export async function GET(req: Request) {
+  try {
+    // Check if database is available
+    const dbAvailable = await isDbAvailable();
+
+    if (!dbAvailable) {
+      // No database - compute the report from live data
+      return await liveReport();
+    }
+
+    try {
+      const { searchParams } = new URL(req.url);
+      const limit = Math.max(1, Math.min(500, parseInt(searchParams.get('limit') || '48', 10)));
+
+      const rows = await prisma.dataQualityReport.findMany({
+        orderBy: { timestamp: 'desc' },
+        take: limit,
+      });
+
+      // Nothing ingested yet - compute from live data
+      if (rows.length === 0) {
+        return await liveReport();
+      }
+
+      const latest = rows[0];
+      const report: DataQualityReport = {
+        timestamp: latest.timestamp,
+        totalNodes: latest.totalNodes,
+        nodesWithIssues: latest.nodesWithIssues,
+        issueCount: latest.issueCount,
+        fields: JSON.parse(latest.fields),
+        sampleIssues: latest.sampleIssues ? JSON.parse(latest.sampleIssues) : [],
+      };
+
+      // Summary trend, oldest first
+      const history = rows
+        .map(r => ({
+          timestamp: r.timestamp,
+          totalNodes: r.totalNodes,
+          nodesWithIssues: r.nodesWithIssues,
+          issueCount: r.issueCount,
+        }))
+        .reverse();
+
+      return NextResponse.json({ report, history, source: 'db' });
+    } catch (dbError) {
+      // Database error - fall back to live data
+      console.warn('Database unavailable, computing data-quality report from live data:', dbError);
+      return await liveReport();
+    }
+  } catch (error) {
+    console.error('API /data-quality error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
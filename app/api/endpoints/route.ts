@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { getPoolStatus } from '@/lib/rpcPool';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+export const runtime = 'nodejs';
+
+export async function GET() {
+  try {
+    return NextResponse.json(getPoolStatus());
+  } catch (error) {
+    console.error('API /endpoints error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
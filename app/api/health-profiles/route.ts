@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { getActiveHealthProfile, healthProfileId, listHealthProfiles } from '@/lib/healthProfiles';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+export const runtime = 'nodejs';
+
+export async function GET() {
+  try {
+    return NextResponse.json({
+      active: healthProfileId(getActiveHealthProfile()),
+      profiles: listHealthProfiles(),
+    });
+  } catch (error) {
+    console.error('API /health-profiles error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
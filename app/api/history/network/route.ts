@@ -1,5 +1,11 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
+import {
+  MAX_NETWORK_HISTORY_POINTS,
+  RETENTION_HOURS,
+  getNetworkRollupWatermark,
+  pickNetworkHistoryResolution,
+} from '@/lib/retention';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
@@ -28,25 +34,56 @@ export async function GET(req: Request) {
 
     try {
       const { searchParams } = new URL(req.url);
-      const hours = Math.max(1, Math.min(720, parseInt(searchParams.get('hours') || '24', 10))); // up to 30 days
+      // Up to the hourly-rollup retention (a year by default)
+      const hours = Math.max(1, Math.min(RETENTION_HOURS['1h'], parseInt(searchParams.get('hours') || '24', 10)));
       const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+      const resolution = pickNetworkHistoryResolution(hours);
 
-      const snapshots = await prisma.networkSnapshot.findMany({
-        where: {
-          timestamp: { gte: since },
-        },
-        orderBy: { timestamp: 'asc' },
-        take: 1000, // Limit results
-      });
+      let snapshots;
+      if (resolution === 'raw') {
+        snapshots = await prisma.networkSnapshot.findMany({
+          where: {
+            timestamp: { gte: since },
+          },
+          orderBy: { timestamp: 'asc' },
+        });
+      } else {
+        // Rollups up to the last compaction, then raw snapshots not rolled up yet
+        const watermark = await getNetworkRollupWatermark(resolution);
+        const rollups = watermark
+          ? await prisma.networkSnapshotRollup.findMany({
+              where: { resolution, bucketStart: { gte: since, lt: watermark } },
+              orderBy: { bucketStart: 'asc' },
+            })
+          : [];
+        const tail = await prisma.networkSnapshot.findMany({
+          where: { timestamp: { gte: watermark && watermark > since ? watermark : since } },
+          orderBy: { timestamp: 'asc' },
+        });
+        snapshots = [
+          ...rollups.map(({ bucketStart, ...rollup }) => ({ ...rollup, timestamp: bucketStart })),
+          ...tail,
+        ];
+      }
+
+      // Thin evenly (rather than cutting off the end) if there are still too many points
+      const stride = Math.ceil(snapshots.length / MAX_NETWORK_HISTORY_POINTS);
+      if (stride > 1) {
+        snapshots = snapshots.filter((_, i) => i % stride === 0 || i === snapshots.length - 1);
+      }
 
       // Parse JSON fields
-      const formatted = snapshots.map((s: any) => ({
+      const formatted = snapshots.map((s) => ({
         ...s,
         versionDistribution: s.versionDistribution ? JSON.parse(s.versionDistribution) : {},
         regionDistribution: s.regionDistribution ? JSON.parse(s.regionDistribution) : {},
+        asnDistribution: s.asnDistribution ? JSON.parse(s.asnDistribution) : {},
+        providerDistribution: s.providerDistribution ? JSON.parse(s.providerDistribution) : {},
+        stakeVersionDistribution: s.stakeVersionDistribution ? JSON.parse(s.stakeVersionDistribution) : null,
+        stakeRegionDistribution: s.stakeRegionDistribution ? JSON.parse(s.stakeRegionDistribution) : null,
       }));
 
-      return NextResponse.json({ snapshots: formatted });
+      return NextResponse.json({ snapshots: formatted, resolution });
     } catch (dbError) {
       // Database error - return empty snapshots
       console.warn('Database unavailable, returning empty network history:', dbError);
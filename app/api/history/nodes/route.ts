@@ -1,10 +1,21 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
+import {
+  METRICS_RANGES,
+  isMetricsRange,
+  bucketNodeHistory,
+  bucketNodeRollups,
+  rollupNodeHistory,
+} from '@/lib/history';
+import { RETENTION_HOURS, getNodeRollupWatermark, pickHistoryResolution } from '@/lib/retention';
+import { dbHistoryProvider, getLatestIngestTime } from '@/lib/anomalyHistory';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
 export const runtime = 'nodejs';
 
+const MAX_ANOMALY_HISTORY_NODES = 200;
+
 // Helper to safely check if database is available
 async function isDbAvailable(): Promise<boolean> {
   try {
@@ -28,8 +39,90 @@ export async function GET(req: Request) {
     try {
       const { searchParams } = new URL(req.url);
       const nodeId = searchParams.get('nodeId');
-      const hours = Math.max(1, Math.min(720, parseInt(searchParams.get('hours') || '24', 10))); // up to 30 days
+      const range = searchParams.get('range');
+
+      // Bucketed per-node series for charts (?nodeId=...&range=1h|24h|7d|30d)
+      if (nodeId && range) {
+        if (!isMetricsRange(range)) {
+          return NextResponse.json(
+            { error: `Invalid range. Expected one of: ${Object.keys(METRICS_RANGES).join(', ')}` },
+            { status: 400 }
+          );
+        }
+
+        const { hours, bucketSeconds } = METRICS_RANGES[range];
+        const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+        const resolution = pickHistoryResolution(hours, bucketSeconds);
+
+        const rawSelect = {
+          nodeId: true,
+          timestamp: true,
+          peerCount: true,
+          latency: true,
+          storageUsed: true,
+          storageCapacity: true,
+          uptime: true,
+          healthScore: true,
+        } as const;
+
+        if (resolution === 'raw') {
+          const rows = await prisma.nodeHistory.findMany({
+            where: { nodeId, timestamp: { gte: since } },
+            orderBy: { timestamp: 'asc' },
+            select: rawSelect,
+          });
+
+          return NextResponse.json({
+            history: bucketNodeHistory(rows, bucketSeconds),
+            range,
+            bucketSeconds,
+            resolution,
+            rawCount: rows.length,
+          });
+        }
+
+        // Rollups up to the last compaction, then raw rows not rolled up yet
+        const watermark = await getNodeRollupWatermark(resolution);
+        const rollups = watermark
+          ? await prisma.nodeHistoryRollup.findMany({
+              where: { nodeId, resolution, bucketStart: { gte: since, lt: watermark } },
+              orderBy: { bucketStart: 'asc' },
+            })
+          : [];
+        const tail = await prisma.nodeHistory.findMany({
+          where: { nodeId, timestamp: { gte: watermark && watermark > since ? watermark : since } },
+          orderBy: { timestamp: 'asc' },
+          select: rawSelect,
+        });
+
+        return NextResponse.json({
+          history: bucketNodeRollups([...rollups, ...rollupNodeHistory(tail, resolution)], bucketSeconds),
+          range,
+          bucketSeconds,
+          resolution,
+          rawCount: rollups.reduce((sum, r) => sum + r.samples, 0) + tail.length,
+        });
+      }
+
+      // Anomaly detection history for a set of nodes (?nodeIds=a,b,c): the history window
+      // ingest compared each node's current state against, i.e. before the latest ingest
+      const nodeIds = searchParams.get('nodeIds')?.split(',').map(id => id.trim()).filter(Boolean);
+      if (nodeIds?.length) {
+        if (nodeIds.length > MAX_ANOMALY_HISTORY_NODES) {
+          return NextResponse.json(
+            { error: `Too many nodeIds. At most ${MAX_ANOMALY_HISTORY_NODES} per request` },
+            { status: 400 }
+          );
+        }
+        const before = (await getLatestIngestTime()) ?? new Date();
+        const history = await dbHistoryProvider.getHistory(nodeIds, before);
+        return NextResponse.json({ history: Object.fromEntries(history), before });
+      }
+
+      // Raw rows only exist for the raw retention window; longer ranges need ?range=
+      const hours = Math.max(1, Math.min(RETENTION_HOURS.raw, parseInt(searchParams.get('hours') || '24', 10)));
       const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+      const limit = nodeId ? 1000 : 5000; // Limit results for performance
 
       const where: any = {
         timestamp: { gte: since },
@@ -39,13 +132,16 @@ export async function GET(req: Request) {
         where.nodeId = nodeId;
       }
 
-      const history = await prisma.nodeHistory.findMany({
+      // Newest rows first so a capped result keeps the most recent data; flag truncation explicitly
+      const rows = await prisma.nodeHistory.findMany({
         where,
-        orderBy: { timestamp: 'asc' },
-        take: nodeId ? 1000 : 5000, // Limit results for performance
+        orderBy: { timestamp: 'desc' },
+        take: limit + 1,
       });
+      const truncated = rows.length > limit;
+      const history = rows.slice(0, limit).reverse();
 
-      return NextResponse.json({ history });
+      return NextResponse.json({ history, hours, truncated });
     } catch (dbError) {
       // Database error - return empty history
       console.warn('Database unavailable, returning empty node history:', dbError);
@@ -59,4 +155,3 @@ export async function GET(req: Request) {
     );
   }
 }
-
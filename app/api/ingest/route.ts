@@ -1,14 +1,18 @@
 import { NextResponse } from 'next/server';
-import { fetchAllpNodes, fetchChainMetrics, calculateNetworkStats } from '@/lib/prpc';
+import { fetchChainMetrics, calculateNetworkStats } from '@/lib/prpc';
+import { fetchLiveNodes } from '@/lib/liveNodes';
 import { prisma } from '@/lib/db';
-import { calculateHealthScore, detectAnomalies } from '@/lib/health';
-import { pNode } from '@/types';
+import { runIngest } from '@/lib/ingest';
+import { isAuthorized } from '@/lib/apiAuth';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
 // Ensure Node runtime on Vercel for Prisma + Node APIs
 export const runtime = 'nodejs';
 
+// Shared secret for triggering ingestion (checked by isAuthorized); required in production
+const INGEST_TOKEN = process.env.INGEST_TOKEN;
+
 // Helper to safely check if database is available
 async function isDbAvailable(): Promise<boolean> {
   try {
@@ -19,234 +23,70 @@ async function isDbAvailable(): Promise<boolean> {
   }
 }
 
+// Fetch live data without storing it (no database)
+async function liveOnlyResponse() {
+  const nodes = await fetchLiveNodes();
+  const networkStats = calculateNetworkStats(nodes);
+  const metrics = await fetchChainMetrics();
+
+  return NextResponse.json({
+    ok: true,
+    nodes: nodes.length,
+    metrics: metrics || null,
+    alerts: 0,
+    silenced: 0,
+    resolved: 0,
+    reopened: 0,
+    notifications: 0,
+    escalated: 0,
+    networkStats: {
+      totalNodes: networkStats.totalNodes,
+      healthyNodes: 0,
+      warningNodes: 0,
+      criticalNodes: 0,
+    },
+    message: 'Database not available. Data fetched but not stored.',
+  });
+}
+
+// Ingestion writes to the database, so it must not be reachable by crawlers or link prefetching
 export async function GET() {
+  return NextResponse.json(
+    { ok: false, error: 'Use POST to trigger ingestion' },
+    { status: 405, headers: { Allow: 'POST' } }
+  );
+}
+
+export async function POST(req: Request) {
+  if (!isAuthorized(req)) {
+    return NextResponse.json(
+      {
+        ok: false,
+        error: INGEST_TOKEN
+          ? 'Invalid or missing ingest token'
+          : 'INGEST_TOKEN must be configured to trigger ingestion in production',
+      },
+      { status: 401 }
+    );
+  }
+
   try {
     // Check if database is available
     const dbAvailable = await isDbAvailable();
 
     if (!dbAvailable) {
       // No database - just fetch and return live data without storing
-      const nodes = await fetchAllpNodes();
-      const networkStats = calculateNetworkStats(nodes);
-      const metrics = await fetchChainMetrics();
-      
-      return NextResponse.json({
-        ok: true,
-        nodes: nodes.length,
-        metrics: metrics || null,
-        alerts: 0,
-        networkStats: {
-          totalNodes: networkStats.totalNodes,
-          healthyNodes: 0,
-          warningNodes: 0,
-          criticalNodes: 0,
-        },
-        message: 'Database not available. Data fetched but not stored.',
-      });
+      return await liveOnlyResponse();
     }
 
-    try {
-      const timestamp = new Date();
-      
-      // Fetch nodes
-      const nodes = await fetchAllpNodes();
-      
-      // Get previous node states for anomaly detection
-      const previousNodesMap = new Map<string, pNode>();
-      const previousSnapshots = await prisma.nodeSnapshot.findMany({
-        where: { id: { in: nodes.map(n => n.id) } },
-      });
-    
-    // Build map of previous states (simplified - in production, fetch from NodeHistory)
-    for (const snapshot of previousSnapshots) {
-      previousNodesMap.set(snapshot.id, {
-        id: snapshot.id,
-        status: snapshot.status as any || 'unknown',
-        peerCount: snapshot.peerCount || 0,
-        lastSeen: snapshot.lastSeen || new Date(),
-      } as pNode);
-    }
-
-    const alerts: Array<{
-      nodeId: string | null;
-      type: string;
-      severity: string;
-      message: string;
-      details?: string;
-    }> = [];
-
-    // Upsert node snapshots and store history
-    for (const node of nodes) {
-      const isValidator = node.metadata?.isValidator === true;
-      const voteAccount = node.metadata?.voteAccount;
-      const commission = typeof node.metadata?.commission === 'number' ? node.metadata?.commission : null;
+    // A failed run is recorded on its IngestRun and rethrown, and answered with a 500 below
+    const outcome = await runIngest('api');
 
-      // Update current snapshot
-      await prisma.nodeSnapshot.upsert({
-        where: { id: node.id },
-        create: {
-          id: node.id,
-          publicKey: node.publicKey,
-          status: node.status,
-          version: node.softwareVersion,
-          region: node.location?.country || node.location?.region,
-          latitude: node.location?.latitude,
-          longitude: node.location?.longitude,
-          peerCount: node.peerCount,
-          isValidator,
-          voteAccount: voteAccount || undefined,
-          commission: commission ?? undefined,
-          lastSeen: node.lastSeen ? new Date(node.lastSeen) : null,
-        },
-        update: {
-          publicKey: node.publicKey,
-          status: node.status,
-          version: node.softwareVersion,
-          region: node.location?.country || node.location?.region,
-          latitude: node.location?.latitude,
-          longitude: node.location?.longitude,
-          peerCount: node.peerCount,
-          isValidator,
-          voteAccount: voteAccount || undefined,
-          commission: commission ?? undefined,
-          lastSeen: node.lastSeen ? new Date(node.lastSeen) : null,
-        },
-      });
-
-      // Calculate health score
-      const healthScore = calculateHealthScore(node);
-      
-      // Store historical snapshot
-      await prisma.nodeHistory.create({
-        data: {
-          nodeId: node.id,
-          timestamp,
-          status: node.status,
-          peerCount: node.peerCount,
-          latency: node.latency ?? null,
-          storageUsed: node.storageUsed ?? null,
-          storageCapacity: node.storageCapacity ?? null,
-          uptime: node.uptime ?? null,
-          healthScore: healthScore.score,
-        },
-      });
-
-      // Detect anomalies and create alerts
-      const previousNode = previousNodesMap.get(node.id);
-      const nodeAnomalies = detectAnomalies(node, previousNode);
-      
-      for (const anomaly of nodeAnomalies) {
-        // Check if alert already exists (not resolved) to avoid duplicates
-        const existingAlert = await prisma.alert.findFirst({
-          where: {
-            nodeId: node.id,
-            type: anomaly.type,
-            resolved: false,
-            createdAt: {
-              gte: new Date(Date.now() - 3600000), // Within last hour
-            },
-          },
-        });
-
-        if (!existingAlert) {
-          alerts.push({
-            nodeId: node.id,
-            type: anomaly.type,
-            severity: anomaly.severity,
-            message: anomaly.message,
-            details: JSON.stringify(anomaly.details || {}),
-          });
-        }
-      }
-    }
-
-    // Calculate network-level stats
-    const networkStats = calculateNetworkStats(nodes);
-    
-    // Calculate health distribution
-    const healthScores = nodes.map(n => calculateHealthScore(n));
-    const healthyNodes = healthScores.filter(h => h.score >= 80).length;
-    const warningNodes = healthScores.filter(h => h.score >= 50 && h.score < 80).length;
-    const criticalNodes = healthScores.filter(h => h.score < 50).length;
-
-    // Store network snapshot
-    await prisma.networkSnapshot.create({
-      data: {
-        timestamp,
-        totalNodes: networkStats.totalNodes,
-        onlineNodes: networkStats.onlineNodes,
-        offlineNodes: networkStats.offlineNodes,
-        healthyNodes,
-        warningNodes,
-        criticalNodes,
-        averagePeerCount: networkStats.averagePeerCount || null,
-        averageLatency: networkStats.averageLatency || null,
-        totalStorageCapacity: networkStats.totalStorageCapacity || null,
-        totalStorageUsed: networkStats.totalStorageUsed || null,
-        versionDistribution: JSON.stringify(networkStats.versionDistribution),
-        regionDistribution: JSON.stringify(networkStats.regionDistribution),
-      },
-    });
-
-    // Store alerts in batch
-    if (alerts.length > 0) {
-      await prisma.alert.createMany({
-        data: alerts.map(a => ({
-          nodeId: a.nodeId || null,
-          type: a.type,
-          severity: a.severity as any,
-          message: a.message,
-          details: a.details || null,
-        })),
-      });
-    }
-
-    // Fetch chain metrics
-    const metrics = await fetchChainMetrics();
-    if (metrics) {
-      await prisma.metricSnapshot.create({
-        data: {
-          tps: metrics.tps,
-          blockTimeMs: metrics.blockTimeMs,
-          slot: metrics.slot ?? null,
-          epoch: metrics.epoch ?? null,
-        },
-      });
+    if (outcome.status === 'skipped') {
+      return NextResponse.json({ ok: false, skipped: true, error: outcome.reason }, { status: 409 });
     }
 
-      return NextResponse.json({
-        ok: true,
-        nodes: nodes.length,
-        metrics: metrics || null,
-        alerts: alerts.length,
-        networkStats: {
-          totalNodes: networkStats.totalNodes,
-          healthyNodes,
-          warningNodes,
-          criticalNodes,
-        },
-      });
-    } catch (dbError) {
-      // Database error - fetch and return live data without storing
-      console.warn('Database unavailable during ingest, returning live data only:', dbError);
-      const nodes = await fetchAllpNodes();
-      const networkStats = calculateNetworkStats(nodes);
-      const metrics = await fetchChainMetrics();
-      
-      return NextResponse.json({
-        ok: true,
-        nodes: nodes.length,
-        metrics: metrics || null,
-        alerts: 0,
-        networkStats: {
-          totalNodes: networkStats.totalNodes,
-          healthyNodes: 0,
-          warningNodes: 0,
-          criticalNodes: 0,
-        },
-        message: 'Database not available. Data fetched but not stored.',
-      });
-    }
+    return NextResponse.json({ ok: true, runId: outcome.runId, ...outcome.result });
   } catch (error) {
     console.error('Ingest error:', error);
     return NextResponse.json(
@@ -255,4 +95,3 @@ export async function GET() {
     );
   }
 }
-
@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getSchedulerStatus } from '@/lib/scheduler';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+// Force Node runtime on Vercel so Prisma can load native bindings
+export const runtime = 'nodejs';
+
+// Helper to safely check if database is available
+async function isDbAvailable(): Promise<boolean> {
+  try {
+    await prisma.$queryRaw`SELECT 1`;
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Scheduler configuration, the current ingest lease and recent IngestRun rows
+ */
+export async function GET(req: Request) {
+  try {
+    const scheduler = getSchedulerStatus();
+    const dbAvailable = await isDbAvailable();
+
+    if (!dbAvailable) {
+      return NextResponse.json({ scheduler, lock: null, lastSuccess: null, runs: [] });
+    }
+
+    try {
+      const { searchParams } = new URL(req.url);
+      const limit = Math.max(1, Math.min(200, parseInt(searchParams.get('limit') || '20', 10)));
+
+      const [lock, lastSuccess, runs] = await Promise.all([
+        prisma.ingestLock.findUnique({ where: { id: 'ingest' } }),
+        prisma.ingestRun.findFirst({ where: { status: 'success' }, orderBy: { startedAt: 'desc' } }),
+        prisma.ingestRun.findMany({ orderBy: { startedAt: 'desc' }, take: limit }),
+      ]);
+
+      // Parse JSON fields
+      const parseRun = <T extends { timings: string | null }>(run: T) => ({
+        ...run,
+        timings: run.timings ? JSON.parse(run.timings) : null,
+      });
+
+      return NextResponse.json({
+        scheduler,
+        lock,
+        lastSuccess: lastSuccess ? parseRun(lastSuccess) : null,
+        runs: runs.map(parseRun),
+      });
+    } catch (dbError) {
+      console.warn('Database unavailable, returning scheduler status only:', dbError);
+      return NextResponse.json({ scheduler, lock: null, lastSuccess: null, runs: [] });
+    }
+  } catch (error) {
+    console.error('API /ingest/status error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { fetchLiveNodeById } from '@/lib/liveNodes';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+export const runtime = 'nodejs';
+
+export async function GET(_req: Request, { params }: { params: Promise<{ nodeId: string }> }) {
+  try {
+    const { nodeId } = await params;
+    const node = await fetchLiveNodeById(nodeId);
+
+    if (!node) {
+      return NextResponse.json({ error: `Node ${nodeId} not found` }, { status: 404 });
+    }
+
+    return NextResponse.json({ node });
+  } catch (error) {
+    console.error('API /nodes/[nodeId] error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
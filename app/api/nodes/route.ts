@@ -1,6 +1,9 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
-import { fetchAllpNodes } from '@/lib/prpc';
+import { fetchLiveNodes } from '@/lib/liveNodes';
+import { fromNodeSnapshot } from '@/lib/nodeSnapshot';
+import { applyNodeQuery, nextSnapshotCursor, nodeQueryArgs, parseNodeQuery } from '@/lib/nodeQuery';
+import { NodeQuery } from '@/types';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
@@ -17,98 +20,63 @@ async function isDbAvailable(): Promise<boolean> {
   }
 }
 
+// Live nodes (no database, or nothing ingested yet) run the same query in memory
+async function liveResponse(query: NodeQuery) {
+  const live = await fetchLiveNodes();
+  const result = applyNodeQuery(live, query);
+  return NextResponse.json({
+    ...result,
+    pageSize: query.limit,
+    source: 'live',
+  });
+}
+
+/**
+ * Filtered, sorted node list with cursor pagination.
+ * Accepts FilterOptions (status, version, region, min/maxPeerCount, min/maxStorageUsage),
+ * q, sort, direction, limit and cursor; see lib/nodeQuery.ts.
+ */
 export async function GET(req: Request) {
   try {
     const { searchParams } = new URL(req.url);
-    const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10));
-    const pageSize = Math.min(500, Math.max(10, parseInt(searchParams.get('pageSize') || '100', 10)));
-    const skip = (page - 1) * pageSize;
+    const query = parseNodeQuery(searchParams);
 
     // Check if database is available
     const dbAvailable = await isDbAvailable();
 
     if (!dbAvailable) {
       // No database - fetch live data
-      const live = await fetchAllpNodes();
-      const paginated = live.slice(skip, skip + pageSize);
-      return NextResponse.json({
-        nodes: paginated,
-        total: live.length,
-        page,
-        pageSize,
-        source: 'live',
-      });
+      return await liveResponse(query);
     }
 
     // Try to use database
     try {
-      const total = await prisma.nodeSnapshot.count();
-
       // If DB empty, fetch live and return
-      if (total === 0) {
-        const live = await fetchAllpNodes();
-        const paginated = live.slice(skip, skip + pageSize);
-        return NextResponse.json({
-          nodes: paginated,
-          total: live.length,
-          page,
-          pageSize,
-          source: 'live',
-        });
+      if (await prisma.nodeSnapshot.count() === 0) {
+        return await liveResponse(query);
       }
 
-      const rows = await prisma.nodeSnapshot.findMany({
-        skip,
-        take: pageSize,
-        orderBy: { updatedAt: 'desc' },
-      });
+      const { where, countWhere, orderBy } = nodeQueryArgs(query);
+      const [total, rows] = await Promise.all([
+        prisma.nodeSnapshot.count({ where: countWhere }),
+        // One extra row tells us whether there is a next page
+        prisma.nodeSnapshot.findMany({ where, orderBy, take: query.limit + 1 }),
+      ]);
 
-      const nodes = rows.map((r) => ({
-        id: r.id,
-        publicKey: r.publicKey || undefined,
-        status: (r.status as any) || 'unknown',
-        softwareVersion: r.version || undefined,
-        peerCount: r.peerCount || 0,
-        lastSeen: r.lastSeen || undefined,
-        location: r.region
-          ? {
-              country: r.region,
-              region: r.region,
-              latitude: r.latitude || undefined,
-              longitude: r.longitude || undefined,
-            }
-          : undefined,
-        endpoint: undefined,
-        ipAddress: undefined,
-        storageCapacity: undefined,
-        storageUsed: undefined,
-        metadata: {
-          isValidator: r.isValidator,
-          voteAccount: r.voteAccount || undefined,
-          commission: r.commission ?? undefined,
-        },
-        rawData: {},
-      }));
+      const page = rows.slice(0, query.limit);
+      const nextCursor = rows.length > query.limit ? nextSnapshotCursor(query, page[page.length - 1]) : null;
 
       return NextResponse.json({
-        nodes,
+        nodes: page.map(fromNodeSnapshot),
         total,
-        page,
-        pageSize,
+        nextCursor,
+        pageSize: query.limit,
         source: 'db',
       });
     } catch (dbError) {
       // Database error - fall back to live data
       console.warn('Database unavailable, falling back to live data:', dbError);
-      const live = await fetchAllpNodes();
-      const paginated = live.slice(skip, skip + pageSize);
-      return NextResponse.json({
-        nodes: paginated,
-        total: live.length,
-        page,
-        pageSize,
-        source: 'live',
-      });
+      return await liveResponse(query);
     }
   } catch (error) {
     console.error('API /nodes error:', error);
@@ -118,4 +86,3 @@ export async function GET(req: Request) {
     );
   }
 }
-
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { describeChannel, loadNotificationConfig } from '@/lib/notifications';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+export const runtime = 'nodejs';
+
+// Helper to safely check if database is available
+async function isDbAvailable(): Promise<boolean> {
+  try {
+    await prisma.$queryRaw`SELECT 1`;
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Configured channels (without secrets) and the delivery log, newest first
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const limit = Math.max(1, Math.min(500, parseInt(searchParams.get('limit') || '50', 10)));
+    const status = searchParams.get('status');
+
+    let channels: ReturnType<typeof describeChannel>[] = [];
+    let configError: string | null = null;
+    try {
+      channels = (loadNotificationConfig()?.channels ?? []).map(describeChannel);
+    } catch (error) {
+      configError = error instanceof Error ? error.message : String(error);
+    }
+    const configured = Boolean(process.env.NOTIFICATIONS_CONFIG);
+
+    const dbAvailable = await isDbAvailable();
+    if (!dbAvailable) {
+      // No database - nothing is queued or logged
+      return NextResponse.json({ configured, configError, channels, deliveries: [], counts: {} });
+    }
+
+    try {
+      const deliveries = await prisma.notificationDelivery.findMany({
+        where: status ? { status } : {},
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+      });
+      const counts = await prisma.notificationDelivery.groupBy({ by: ['status'], _count: { _all: true } });
+
+      return NextResponse.json({
+        configured,
+        configError,
+        channels,
+        deliveries: deliveries.map(d => ({ ...d, payload: JSON.parse(d.payload) })),
+        counts: Object.fromEntries(counts.map(c => [c.status, c._count._all])),
+      });
+    } catch (dbError) {
+      console.warn('Database unavailable, returning no notification deliveries:', dbError);
+      return NextResponse.json({ configured, configError, channels, deliveries: [], counts: {} });
+    }
+  } catch (error) {
+    console.error('API /notifications error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { isAuthorized } from '@/lib/apiAuth';
+import { loadNotificationConfig, sendTestNotification } from '@/lib/notifications';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+export const runtime = 'nodejs';
+
+// Helper to safely check if database is available
+async function isDbAvailable(): Promise<boolean> {
+  try {
+    await prisma.$queryRaw`SELECT 1`;
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Send a test notification to one channel ({"channel": "<name>"}) or to every enabled channel
+export async function POST(req: Request) {
+  // Same shared secret as /api/ingest: test sends reach real people
+  if (!isAuthorized(req)) {
+    return NextResponse.json({ error: 'Invalid or missing ingest token' }, { status: 401 });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const name = typeof body?.channel === 'string' ? body.channel : null;
+
+    let config;
+    try {
+      config = loadNotificationConfig();
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : String(error) },
+        { status: 400 }
+      );
+    }
+    if (!config) {
+      return NextResponse.json(
+        { error: 'Notifications are not configured. Set NOTIFICATIONS_CONFIG to a channels file.' },
+        { status: 400 }
+      );
+    }
+
+    const channels = name
+      ? config.channels.filter(channel => channel.name === name)
+      : config.channels.filter(channel => channel.enabled !== false);
+    if (name && channels.length === 0) {
+      return NextResponse.json({ error: `Unknown notification channel "${name}"` }, { status: 404 });
+    }
+
+    const results = await sendTestNotification(channels, await isDbAvailable());
+    return NextResponse.json({ ok: results.every(result => result.ok), results });
+  } catch (error) {
+    console.error('API /notifications/test error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { loadNotificationConfig } from '@/lib/notifications';
+import { EscalationPolicy, NotificationTeam } from '@/types';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+export const runtime = 'nodejs';
+
+// Helper to safely check if database is available
+async function isDbAvailable(): Promise<boolean> {
+  try {
+    await prisma.$queryRaw`SELECT 1`;
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Teams, their members and escalation policies from the notifications config,
+// with open alerts per team and per assignee
+export async function GET() {
+  try {
+    let teams: NotificationTeam[] = [];
+    let escalation: EscalationPolicy[] = [];
+    let configError: string | null = null;
+    try {
+      const config = loadNotificationConfig();
+      teams = config?.teams ?? [];
+      escalation = config?.escalation ?? [];
+    } catch (error) {
+      configError = error instanceof Error ? error.message : String(error);
+    }
+    const operators = Array.from(new Set(teams.flatMap(team => team.members ?? []))).sort();
+    const empty = { configError, teams, escalation, operators, openByTeam: {}, openByAssignee: {}, unacknowledged: 0 };
+
+    const dbAvailable = await isDbAvailable();
+    if (!dbAvailable) {
+      // No database - no alerts to count
+      return NextResponse.json(empty);
+    }
+
+    try {
+      const byTeam = await prisma.alert.groupBy({ by: ['team'], where: { resolved: false }, _count: { _all: true } });
+      const byAssignee = await prisma.alert.groupBy({ by: ['assignee'], where: { resolved: false }, _count: { _all: true } });
+      const unacknowledged = await prisma.alert.count({ where: { resolved: false, acknowledged: false } });
+
+      return NextResponse.json({
+        ...empty,
+        openByTeam: Object.fromEntries(byTeam.filter(row => row.team).map(row => [row.team, row._count._all])),
+        openByAssignee: Object.fromEntries(byAssignee.filter(row => row.assignee).map(row => [row.assignee, row._count._all])),
+        unacknowledged,
+      });
+    } catch (dbError) {
+      console.warn('Database unavailable, returning on-call config without alert counts:', dbError);
+      return NextResponse.json(empty);
+    }
+  } catch (error) {
+    console.error('API /oncall error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { parseSilence, presentSilence, serializeSilence, validateSilenceInput } from '@/lib/silences';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ silenceId: string }> };
+
+// Helper to safely check if database is available
+async function isDbAvailable(): Promise<boolean> {
+  try {
+    await prisma.$queryRaw`SELECT 1`;
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const dbUnavailable = () =>
+  NextResponse.json(
+    { error: 'Database not available. Silences cannot be changed without a database.' },
+    { status: 503 }
+  );
+
+const notFound = (silenceId: string) =>
+  NextResponse.json({ error: `Silence ${silenceId} not found` }, { status: 404 });
+
+// Prisma's "record to update/delete not found"
+const isNotFound = (error: unknown) => (error as { code?: unknown }).code === 'P2025';
+
+export async function GET(_req: Request, { params }: RouteContext) {
+  try {
+    const { silenceId } = await params;
+    if (!(await isDbAvailable())) return notFound(silenceId);
+
+    const silence = await prisma.silence.findUnique({ where: { id: silenceId } });
+    if (!silence) return notFound(silenceId);
+    return NextResponse.json({ silence: presentSilence(parseSilence(silence), new Date()) });
+  } catch (error) {
+    console.error('API /silences/[silenceId] error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// Changes are merged into the stored silence and checked as a whole.
+// To end a silence early, set endsAt to now.
+export async function PATCH(req: Request, { params }: RouteContext) {
+  try {
+    const { silenceId } = await params;
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'Silence must be a JSON object' }, { status: 400 });
+    }
+
+    if (!(await isDbAvailable())) return dbUnavailable();
+
+    const stored = await prisma.silence.findUnique({ where: { id: silenceId } });
+    if (!stored) return notFound(silenceId);
+
+    let data;
+    try {
+      const current = parseSilence(stored);
+      data = validateSilenceInput({
+        comment: current.comment,
+        createdBy: current.createdBy,
+        matchers: current.matchers,
+        startsAt: stored.startsAt.toISOString(),
+        endsAt: stored.endsAt?.toISOString() ?? null,
+        recurrence: current.recurrence,
+        ...body,
+      });
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : String(error) },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const silence = await prisma.silence.update({ where: { id: silenceId }, data: serializeSilence(data) });
+      return NextResponse.json({ silence: presentSilence(parseSilence(silence), new Date()) });
+    } catch (error) {
+      if (isNotFound(error)) return notFound(silenceId);
+      throw error;
+    }
+  } catch (error) {
+    console.error('API /silences/[silenceId] PATCH error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+// Alerts it covered stay recorded; the next ingest lifts the silence from open ones
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  try {
+    const { silenceId } = await params;
+    if (!(await isDbAvailable())) return dbUnavailable();
+
+    try {
+      await prisma.silence.delete({ where: { id: silenceId } });
+      return NextResponse.json({ success: true });
+    } catch (error) {
+      if (isNotFound(error)) return notFound(silenceId);
+      throw error;
+    }
+  } catch (error) {
+    console.error('API /silences/[silenceId] DELETE error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
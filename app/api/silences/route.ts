@@ -0,0 +1,83 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { parseSilence, presentSilence, serializeSilence, validateSilenceInput } from '@/lib/silences';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+export const runtime = 'nodejs';
+
+// Helper to safely check if database is available
+async function isDbAvailable(): Promise<boolean> {
+  try {
+    await prisma.$queryRaw`SELECT 1`;
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Silences and maintenance windows, newest first; ?state=active|scheduled|expired to filter
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const state = searchParams.get('state');
+    const limit = Math.max(1, Math.min(500, parseInt(searchParams.get('limit') || '100', 10)));
+
+    const dbAvailable = await isDbAvailable();
+
+    if (!dbAvailable) {
+      // No database - no silences
+      return NextResponse.json({ silences: [] });
+    }
+
+    try {
+      const now = new Date();
+      const rows = await prisma.silence.findMany({ orderBy: { createdAt: 'desc' }, take: limit });
+      const silences = rows
+        .map(row => presentSilence(parseSilence(row), now))
+        .filter(silence => !state || silence.state === state);
+      return NextResponse.json({ silences });
+    } catch (dbError) {
+      console.warn('Database unavailable, returning no silences:', dbError);
+      return NextResponse.json({ silences: [] });
+    }
+  } catch (error) {
+    console.error('API /silences error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    let data;
+    try {
+      data = validateSilenceInput(await req.json());
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : String(error) },
+        { status: 400 }
+      );
+    }
+
+    const dbAvailable = await isDbAvailable();
+
+    if (!dbAvailable) {
+      return NextResponse.json(
+        { error: 'Database not available. Silences cannot be saved without a database.' },
+        { status: 503 }
+      );
+    }
+
+    const silence = await prisma.silence.create({ data: serializeSilence(data) });
+    return NextResponse.json({ silence: presentSilence(parseSilence(silence), new Date()) }, { status: 201 });
+  } catch (error) {
+    console.error('API /silences POST error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,124 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { fetchLiveNodes } from '@/lib/liveNodes';
+import { fromNodeSnapshot } from '@/lib/nodeSnapshot';
+import { assessValidators, clusterCreditMedians } from '@/lib/validators';
+import { CommissionChange, EpochCredits, pNode } from '@/types';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+export const runtime = 'nodejs';
+
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT = 2000;
+// Stored epochs read for the leaderboard and the median chart
+const HISTORY_EPOCHS = 20;
+// Commission changes listed
+const COMMISSION_CHANGE_DAYS = 30;
+const MAX_COMMISSION_CHANGES = 100;
+
+// Helper to safely check if database is available
+async function isDbAvailable(): Promise<boolean> {
+  try {
+    await prisma.$queryRaw`SELECT 1`;
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function summarize(
+  nodes: pNode[],
+  storedCredits: Map<string, EpochCredits[]>,
+  commissionChanges: CommissionChange[],
+  limit: number,
+  source: 'db' | 'live'
+) {
+  const validators = assessValidators(nodes, storedCredits);
+  const medians = Array.from(clusterCreditMedians(validators.map(v => v.credits)), ([epoch, median]) => ({ epoch, median }))
+    .sort((a, b) => a.epoch - b.epoch)
+    .slice(-HISTORY_EPOCHS);
+  const commissions = validators.map(v => v.commission).filter((c): c is number => c !== null);
+
+  return NextResponse.json({
+    summary: {
+      validators: validators.length,
+      delinquent: validators.filter(v => v.delinquent).length,
+      epoch: validators[0]?.epoch ?? null,
+      medianEarned: medians.length > 0 ? medians[medians.length - 1].median : null,
+      averageCommission: commissions.length > 0 ? commissions.reduce((sum, c) => sum + c, 0) / commissions.length : null,
+    },
+    medians,
+    validators: validators.slice(0, limit),
+    total: validators.length,
+    commissionChanges,
+    source,
+  });
+}
+
+async function liveSummary(limit: number) {
+  const nodes = await fetchLiveNodes();
+  return summarize(nodes, new Map(), [], limit, 'live');
+}
+
+/**
+ * Validator leaderboard: vote credits against the cluster median per epoch,
+ * delinquency, and recent commission changes
+ */
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const limit = Math.max(1, Math.min(MAX_LIMIT, parseInt(searchParams.get('limit') || String(DEFAULT_LIMIT), 10) || DEFAULT_LIMIT));
+
+    // Check if database is available
+    const dbAvailable = await isDbAvailable();
+
+    if (!dbAvailable) {
+      // No database - assess live nodes
+      return await liveSummary(limit);
+    }
+
+    try {
+      const rows = await prisma.nodeSnapshot.findMany({ where: { isValidator: true } });
+
+      // Nothing ingested yet - assess live nodes
+      if (rows.length === 0 && (await prisma.nodeSnapshot.count()) === 0) {
+        return await liveSummary(limit);
+      }
+
+      const latest = await prisma.validatorEpochCredits.findFirst({ orderBy: { epoch: 'desc' }, select: { epoch: true } });
+      const creditRows = latest
+        ? await prisma.validatorEpochCredits.findMany({
+            where: { epoch: { gt: latest.epoch - HISTORY_EPOCHS } },
+            orderBy: { epoch: 'asc' },
+            select: { nodeId: true, epoch: true, credits: true, previousCredits: true, earned: true },
+          })
+        : [];
+      const storedCredits = new Map<string, EpochCredits[]>();
+      for (const { nodeId, ...entry } of creditRows) {
+        const entries = storedCredits.get(nodeId) ?? [];
+        entries.push(entry);
+        storedCredits.set(nodeId, entries);
+      }
+
+      const commissionChanges = await prisma.commissionChange.findMany({
+        where: { changedAt: { gte: new Date(Date.now() - COMMISSION_CHANGE_DAYS * 24 * 60 * 60 * 1000) } },
+        orderBy: { changedAt: 'desc' },
+        take: MAX_COMMISSION_CHANGES,
+        select: { nodeId: true, voteAccount: true, previous: true, commission: true, changedAt: true },
+      });
+
+      return summarize(rows.map(fromNodeSnapshot), storedCredits, commissionChanges, limit, 'db');
+    } catch (dbError) {
+      // Database error - fall back to live data
+      console.warn('Database unavailable, assessing live validators:', dbError);
+      return await liveSummary(limit);
+    }
+  } catch (error) {
+    console.error('API /validators error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
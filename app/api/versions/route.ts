@@ -0,0 +1,121 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { fetchLiveNodes } from '@/lib/liveNodes';
+import {
+  VERSION_POLICY,
+  buildVersionDistribution,
+  checkVersion,
+  compareVersions,
+  majorityVersionLine,
+  parseVersion,
+} from '@/lib/versions';
+import { VersionCheck, VersionStatus, pNode } from '@/types';
+
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+export const runtime = 'nodejs';
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+// Helper to safely check if database is available
+async function isDbAvailable(): Promise<boolean> {
+  try {
+    await prisma.$queryRaw`SELECT 1`;
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+type VersionedNode = Pick<pNode, 'id' | 'status' | 'softwareVersion'>;
+
+// Unsupported before outdated, then oldest version first
+function byUrgency(a: { check: VersionCheck }, b: { check: VersionCheck }): number {
+  if (a.check.status !== b.check.status) return a.check.status === 'unsupported' ? -1 : 1;
+  const versionA = parseVersion(a.check.version);
+  const versionB = parseVersion(b.check.version);
+  return versionA && versionB ? compareVersions(versionA, versionB) : 0;
+}
+
+function summarize(nodes: VersionedNode[], distribution: Record<string, number>, limit: number, source: 'db' | 'live') {
+  const majority = majorityVersionLine(distribution);
+  const counts: Record<VersionStatus, number> = { current: 0, outdated: 0, unsupported: 0, unknown: 0 };
+  const flagged: Array<{ id: string; status: pNode['status']; check: VersionCheck }> = [];
+
+  for (const node of nodes) {
+    const check = checkVersion(node.softwareVersion, majority);
+    counts[check.status]++;
+    if (check.status === 'outdated' || check.status === 'unsupported') {
+      flagged.push({ id: node.id, status: node.status, check });
+    }
+  }
+  flagged.sort(byUrgency);
+
+  return NextResponse.json({
+    policy: VERSION_POLICY,
+    majority,
+    distribution,
+    counts,
+    nodes: flagged.slice(0, limit),
+    total: flagged.length,
+    source,
+  });
+}
+
+async function liveSummary(limit: number) {
+  const nodes = await fetchLiveNodes();
+  return summarize(nodes, buildVersionDistribution(nodes.map(n => n.softwareVersion)), limit, 'live');
+}
+
+export async function GET(req: Request) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const limit = Math.max(1, Math.min(MAX_LIMIT, parseInt(searchParams.get('limit') || String(DEFAULT_LIMIT), 10) || DEFAULT_LIMIT));
+
+    // Check if database is available
+    const dbAvailable = await isDbAvailable();
+
+    if (!dbAvailable) {
+      // No database - check live nodes
+      return await liveSummary(limit);
+    }
+
+    try {
+      const rows = await prisma.nodeSnapshot.findMany({
+        select: { id: true, status: true, version: true },
+      });
+
+      // Nothing ingested yet - check live nodes
+      if (rows.length === 0) {
+        return await liveSummary(limit);
+      }
+
+      // The majority comes from the last ingest's distribution, as it did for ingest's alerts
+      const latest = await prisma.networkSnapshot.findFirst({
+        orderBy: { timestamp: 'desc' },
+        select: { versionDistribution: true },
+      });
+      const nodes = rows.map(row => ({
+        id: row.id,
+        status: (row.status as pNode['status']) || 'unknown',
+        softwareVersion: row.version ?? undefined,
+      }));
+      const distribution = latest?.versionDistribution
+        ? JSON.parse(latest.versionDistribution)
+        : buildVersionDistribution(nodes.map(n => n.softwareVersion));
+
+      return summarize(nodes, distribution, limit, 'db');
+    } catch (dbError) {
+      // Database error - fall back to live data
+      console.warn('Database unavailable, checking versions of live nodes:', dbError);
+      return await liveSummary(limit);
+    }
+  } catch (error) {
+    console.error('API /versions error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 }
+    );
+  }
+}
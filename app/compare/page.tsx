@@ -13,7 +13,7 @@ import { Skeleton } from '@/components/Skeleton';
 import { useEffect } from 'react';
 
 export default function ComparePage() {
-  const { data, isLoading, error } = useNodes({ page: 1, pageSize: 500 });
+  const { data, isLoading, error } = useNodes({ pageSize: 500 });
   const nodes = data?.nodes || [];
   const [selectedNodeIds, setSelectedNodeIds] = useState<string[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
@@ -27,7 +27,7 @@ const NodeMap = dynamic(
 
 export default function MapPage() {
   // Fetch first page for map (capped by map marker limit internally)
-  const { data, isLoading, error } = useNodes({ page: 1, pageSize: 800 });
+  const { data, isLoading, error } = useNodes({ pageSize: 800 });
   const nodes = data?.nodes || [];
 
   if (isLoading) {
@@ -1,23 +1,32 @@
 'use client';
 
+import { useMemo, useState } from 'react';
 import { useNode, useNodeMetrics } from '@/hooks/useNodes';
+import { useClientAnalytics } from '@/hooks/useClientAnalytics';
 import { useParams } from 'next/navigation';
 import { Card } from '@/components/Card';
 import { StatCard } from '@/components/StatCard';
 import { TimeSeriesChart } from '@/components/TimeSeriesChart';
-import { calculateHealthScore, detectAnomalies } from '@/lib/health';
+import { HealthBreakdown } from '@/components/HealthBreakdown';
+import { calculateHealthScore } from '@/lib/health';
 import { formatBytes, formatLatency, formatUptime, getStatusColor, cn, getStoragePercentage, getHealthStatusColor, getHealthStatusLabel } from '@/lib/utils';
 import { Activity, Server, HardDrive, Clock, MapPin, Code, AlertTriangle, Network, BadgeCheck } from 'lucide-react';
 import { Download, ArrowLeft } from 'lucide-react';
 import Link from 'next/link';
 import { Button } from '@/components/Button';
+import { METRICS_RANGES, DEFAULT_METRICS_RANGE } from '@/lib/history';
+import { MetricsRange } from '@/types';
 
 export default function NodeDetailPage() {
   const params = useParams();
   const nodeId = params.nodeId as string;
   
+  const [metricsRange, setMetricsRange] = useState<MetricsRange>(DEFAULT_METRICS_RANGE);
+  
   const { data: node, isLoading, error } = useNode(nodeId);
-  const { data: metrics = [] } = useNodeMetrics(nodeId, 24);
+  const { data: metrics = [], isLoading: metricsLoading } = useNodeMetrics(nodeId, metricsRange);
+  const analyticsNodes = useMemo(() => (node ? [node] : []), [node]);
+  const { anomalyMap } = useClientAnalytics(analyticsNodes);
 
   if (isLoading) {
     return (
@@ -46,7 +55,7 @@ export default function NodeDetailPage() {
   }
 
   const health = calculateHealthScore(node);
-  const anomalies = detectAnomalies(node);
+  const anomalies = anomalyMap.get(node.id) ?? [];
   const storagePercent = getStoragePercentage(node.storageUsed, node.storageCapacity);
   const isValidator = node.metadata?.isValidator;
   const voteAccount = node.metadata?.voteAccount;
@@ -149,6 +158,8 @@ export default function NodeDetailPage() {
         </Card>
       )}
 
+      <HealthBreakdown health={health} />
+
       {/* Storage & Performance */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <Card title="Storage">
@@ -206,32 +217,79 @@ export default function NodeDetailPage() {
       </div>
 
       {/* Time Series Charts */}
+      <Card
+        title="Metrics History"
+        action={
+          <div className="flex gap-2">
+            {(Object.keys(METRICS_RANGES) as MetricsRange[]).map((range) => (
+              <button
+                key={range}
+                onClick={() => setMetricsRange(range)}
+                className={cn(
+                  "px-3 py-1 rounded-lg text-sm transition-colors",
+                  metricsRange === range
+                    ? "bg-blue-600 text-white"
+                    : "bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700"
+                )}
+              >
+                {METRICS_RANGES[range].label}
+              </button>
+            ))}
+          </div>
+        }
+      >
+        {metricsLoading ? (
+          <div className="text-center py-8 text-gray-500 dark:text-gray-400 text-sm">
+            Loading history...
+          </div>
+        ) : metrics.length === 0 ? (
+          <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+            <p className="font-semibold mb-2">No history yet</p>
+            <p className="text-sm">
+              No ingested samples for this node in the last {METRICS_RANGES[metricsRange].label}.
+              History appears once the ingestion API has stored snapshots for it.
+            </p>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {metrics.length} data points from {metrics.reduce((sum, m) => sum + (m.samples || 0), 0)} ingested samples
+          </p>
+        )}
+      </Card>
+
       {metrics.length > 0 && (
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           <Card title="Latency Over Time">
             <TimeSeriesChart
               data={metrics}
-              title="Latency Over Time"
-              dataKey="latency"
+              yKey="latency"
               unit="ms"
-              color="#3b82f6"
+              formatValue={(v) => formatLatency(v)}
+              colors={['#3b82f6']}
             />
           </Card>
           <Card title="Peer Count Over Time">
             <TimeSeriesChart
               data={metrics}
-              title="Peer Count Over Time"
-              dataKey="peerCount"
-              color="#10b981"
+              yKey="peerCount"
+              formatValue={(v) => String(v)}
+              colors={['#10b981']}
             />
           </Card>
           <Card title="Storage Usage Over Time">
             <TimeSeriesChart
               data={metrics}
-              title="Storage Usage Over Time"
-              dataKey="storageUsed"
-              unit=""
-              color="#f59e0b"
+              yKey="storageUsed"
+              formatValue={(v) => formatBytes(v)}
+              colors={['#f59e0b']}
+            />
+          </Card>
+          <Card title="Health Score Over Time">
+            <TimeSeriesChart
+              data={metrics}
+              yKey="healthScore"
+              formatValue={(v) => String(v)}
+              colors={['#8b5cf6']}
             />
           </Card>
         </div>
@@ -315,6 +373,34 @@ export default function NodeDetailPage() {
                 <dt className="text-sm font-medium text-gray-600 dark:text-gray-400">Coordinates</dt>
                 <dd className="mt-1 text-sm text-gray-900 dark:text-gray-100 font-mono">
                   {node.location.latitude.toFixed(4)}, {node.location.longitude.toFixed(4)}
+                  {node.location.approximate && (
+                    <span className="ml-2 font-sans text-xs text-yellow-600 dark:text-yellow-400">approximate</span>
+                  )}
+                </dd>
+              </div>
+            )}
+            {node.location?.source && (
+              <div>
+                <dt className="text-sm font-medium text-gray-600 dark:text-gray-400">Location Source</dt>
+                <dd className="mt-1 text-sm text-gray-900 dark:text-gray-100">
+                  {node.location.source === 'geoip'
+                    ? 'GeoIP database'
+                    : node.location.source === 'heuristic'
+                      ? 'IP range estimate (approximate)'
+                      : 'Reported by node'}
+                </dd>
+              </div>
+            )}
+            {node.network?.provider && (
+              <div>
+                <dt className="text-sm font-medium text-gray-600 dark:text-gray-400">Hosting Provider</dt>
+                <dd className="mt-1 text-sm text-gray-900 dark:text-gray-100">
+                  {node.network.provider}
+                  {node.network.asn !== undefined && (
+                    <span className="ml-2 font-mono text-xs text-gray-500 dark:text-gray-400">
+                      AS{node.network.asn}{node.network.organization ? ` · ${node.network.organization}` : ''}
+                    </span>
+                  )}
                 </dd>
               </div>
             )}
@@ -1,20 +1,35 @@
 'use client';
 
 import { useNodes } from '@/hooks/useNodes';
-import { NodeTable } from '@/components/NodeTable';
+import { NodeTable, NodeTableQuery } from '@/components/NodeTable';
 import { Download } from 'lucide-react';
 import { Card } from '@/components/Card';
 import { Button } from '@/components/Button';
 import { Skeleton } from '@/components/Skeleton';
-import { useState } from 'react';
+import { useCallback, useState } from 'react';
 
 export default function NodesPage() {
-  const [page, setPage] = useState(1);
+  const [query, setQuery] = useState<NodeTableQuery>({ filters: {}, sort: 'id', direction: 'asc' });
   const [pageSize, setPageSize] = useState(200);
-  const { data, isLoading, error } = useNodes({ page, pageSize });
+  // Cursor of every page visited so far; the last one is the current page
+  const [cursors, setCursors] = useState<Array<string | undefined>>([undefined]);
+  const { data, isLoading, error } = useNodes({ ...query, pageSize, cursor: cursors[cursors.length - 1] });
   const nodes = data?.nodes || [];
   const total = data?.total || nodes.length;
 
+  const handleQueryChange = useCallback((next: NodeTableQuery) => {
+    setQuery(next);
+    setCursors([undefined]);
+  }, []);
+
+  const handlePageChange = (direction: 'next' | 'prev') => {
+    if (direction === 'next' && data?.nextCursor) {
+      setCursors([...cursors, data.nextCursor]);
+    } else if (direction === 'prev' && cursors.length > 1) {
+      setCursors(cursors.slice(0, -1));
+    }
+  };
+
   const handleExport = () => {
     const dataStr = JSON.stringify(nodes, null, 2);
     const dataBlob = new Blob([dataStr], { type: 'application/json' });
@@ -115,12 +130,15 @@ export default function NodesPage() {
       <NodeTable
         nodes={nodes}
         total={total}
-        page={page}
+        page={cursors.length}
         pageSize={pageSize}
-        onPageChange={setPage}
+        hasNextPage={!!data?.nextCursor}
+        query={query}
+        onQueryChange={handleQueryChange}
+        onPageChange={handlePageChange}
         onPageSizeChange={(size) => {
           setPageSize(size);
-          setPage(1);
+          setCursors([undefined]);
         }}
       />
     </div>
@@ -1,13 +1,17 @@
 'use client';
 
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { useNodes } from '@/hooks/useNodes';
 import { calculateNetworkStats } from '@/lib/prpc';
 import { StatCard } from '@/components/StatCard';
 import { DistributionChart } from '@/components/DistributionChart';
 import { AlertsPanel } from '@/components/AlertsPanel';
+import { EndpointStatusCard } from '@/components/EndpointStatusCard';
+import { DataQualityCard } from '@/components/DataQualityCard';
+import { OutdatedNodesCard } from '@/components/OutdatedNodesCard';
 import { TrendCharts } from '@/components/TrendCharts';
-import { Network, Server, HardDrive, Activity, TrendingUp, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { Weighting, WeightingToggle } from '@/components/WeightingToggle';
+import { Network, Server, HardDrive, Activity, TrendingUp, AlertTriangle, CheckCircle2, Scale } from 'lucide-react';
 import { formatBytes } from '@/lib/utils';
 import { Card } from '@/components/Card';
 import { Tooltip } from '@/components/Tooltip';
@@ -15,13 +19,18 @@ import Link from 'next/link';
 import { ArrowRight } from 'lucide-react';
 import { calculateHealthScore } from '@/lib/health';
 import { saveNetworkSnapshot } from '@/lib/clientHistory';
+import { formatWeight, weightShares } from '@/lib/stake';
 
 export default function DashboardPage() {
-  const { data, isLoading, error } = useNodes({ page: 1, pageSize: 500 });
+  const { data, isLoading, error } = useNodes({ pageSize: 500 });
   const nodes = data?.nodes || [];
   const totalNodes = data?.total ?? nodes.length;
   const stats = calculateNetworkStats(nodes);
   const validatorCount = stats.validatorCount || 0;
+  const [weighting, setWeighting] = useState<Weighting>('count');
+  // Stake-weighted figures when asked for and known, node counts otherwise
+  const weighted = weighting === 'stake' ? stats.stakeWeighted : null;
+  const weightLabel = weighted?.basis === 'storage' ? 'capacity' : 'stake';
 
   // Save network snapshot periodically (every 5 minutes)
   useEffect(() => {
@@ -62,9 +71,11 @@ export default function DashboardPage() {
     );
   }
 
-  const onlinePercentage = stats.totalNodes > 0 
-    ? Math.round((stats.onlineNodes / stats.totalNodes) * 100) 
-    : 0;
+  const onlinePercentage = weighted
+    ? Math.round(weighted.onlineShare * 100)
+    : stats.totalNodes > 0 
+      ? Math.round((stats.onlineNodes / stats.totalNodes) * 100) 
+      : 0;
   const storagePercentage = stats.totalStorageCapacity > 0
     ? Math.round((stats.totalStorageUsed / stats.totalStorageCapacity) * 100)
     : 0;
@@ -82,13 +93,16 @@ export default function DashboardPage() {
 
   return (
     <div className="space-y-8">
-      <div>
-        <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100 mb-2">
-          Network Overview
-        </h1>
-        <p className="text-gray-600 dark:text-gray-400">
-          Real-time monitoring and analytics for Xandeum pNodes
-        </p>
+      <div className="flex items-end justify-between flex-wrap gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100 mb-2">
+            Network Overview
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Real-time monitoring and analytics for Xandeum pNodes
+          </p>
+        </div>
+        <WeightingToggle value={weighting} onChange={setWeighting} basis={stats.stakeWeighted?.basis ?? null} />
       </div>
 
       {/* Alerts Summary - Show at top if there are critical alerts */}
@@ -122,13 +136,32 @@ export default function DashboardPage() {
           title={
             <div className="flex items-center gap-2">
               Online Status
-              <Tooltip content="Percentage of nodes currently online and responding. Offline nodes may be experiencing issues or maintenance." />
+              <Tooltip content={weighted
+                ? `Share of ${weightLabel} held by nodes currently online. Delinquent validators don't count as online.`
+                : 'Percentage of nodes currently online and responding. Offline nodes may be experiencing issues or maintenance.'} />
             </div>
           }
           value={`${onlinePercentage}%`}
-          subtitle={`${stats.onlineNodes} of ${stats.totalNodes} nodes`}
+          subtitle={weighted
+            ? `${formatWeight(weighted.onlineWeight, weighted.basis)} of ${formatWeight(weighted.totalWeight, weighted.basis)}`
+            : `${stats.onlineNodes} of ${stats.totalNodes} nodes`}
           icon={<Activity className="w-8 h-8" />}
         />
+        {weighted && (
+          <StatCard
+            title={
+              <div className="flex items-center gap-2">
+                Superminority
+                <Tooltip content={weighted.basis === 'stake'
+                  ? 'Fewest validators that together hold more than a third of the stake: enough to halt consensus if they fail or collude. Higher is more decentralized.'
+                  : 'Fewest nodes that together hold more than a third of the storage capacity. Higher is more decentralized.'} />
+              </div>
+            }
+            value={weighted.nakamoto}
+            subtitle={`of ${weighted.weightedNodes} nodes with ${weightLabel}`}
+            icon={<Scale className="w-8 h-8" />}
+          />
+        )}
         <StatCard
           title={
             <div className="flex items-center gap-2">
@@ -173,20 +206,29 @@ export default function DashboardPage() {
           type="pie"
         />
         <DistributionChart
-          data={stats.versionDistribution}
-          title="Version Distribution"
+          data={weighted ? weightShares(weighted.versionDistribution) : stats.versionDistribution}
+          title={weighted ? `Version Distribution (% of ${weightLabel})` : 'Version Distribution'}
           type="pie"
         />
         <DistributionChart
-          data={stats.regionDistribution}
-          title="Regional Distribution"
+          data={weighted ? weightShares(weighted.regionDistribution) : stats.regionDistribution}
+          title={weighted ? `Regional Distribution (% of ${weightLabel})` : 'Regional Distribution'}
           type="bar"
         />
       </div>
 
+      {/* Nodes running versions outside the version policy */}
+      <OutdatedNodesCard />
+
       {/* Trend Charts */}
       <TrendCharts hours={24} compact={false} />
 
+      {/* Data source health: pRPC seeds and payload quality */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <EndpointStatusCard />
+        <DataQualityCard />
+      </div>
+
       {/* Quick Actions */}
       <Card title="Quick Actions">
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -0,0 +1,216 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useAllNodes } from '@/hooks/useAllNodes';
+import { Card } from '@/components/Card';
+import { StatCard } from '@/components/StatCard';
+import { Skeleton } from '@/components/Skeleton';
+import { Tooltip } from '@/components/Tooltip';
+import { DistributionChart } from '@/components/DistributionChart';
+import { TopologyColorMode, TopologyGraph } from '@/components/TopologyGraph';
+import { analyzePeerGraph, buildPeerGraph } from '@/lib/topology';
+import { AlertTriangle, GitBranch, Network, Share2, Unlink, Waypoints } from 'lucide-react';
+
+const colorModes: Array<{ value: TopologyColorMode; label: string }> = [
+  { value: 'health', label: 'Health' },
+  { value: 'version', label: 'Version' },
+  { value: 'region', label: 'Region' },
+];
+
+export default function TopologyPage() {
+  const { data: nodes = [], isLoading, error } = useAllNodes();
+  const [colorBy, setColorBy] = useState<TopologyColorMode>('health');
+
+  // Must be before conditional returns (Rules of Hooks)
+  const graph = useMemo(() => buildPeerGraph(nodes), [nodes]);
+  const metrics = useMemo(() => analyzePeerGraph(graph), [graph]);
+
+  const degreeChart = useMemo(() => {
+    const chart: Record<string, number> = {};
+    Object.entries(metrics.degreeDistribution)
+      .sort(([a], [b]) => Number(a) - Number(b))
+      .forEach(([degree, count]) => {
+        chart[`${degree} ${degree === '1' ? 'peer' : 'peers'}`] = count;
+      });
+    return chart;
+  }, [metrics]);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <Skeleton className="h-7 w-48 mb-2" />
+          <Skeleton className="h-4 w-64" />
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          {Array.from({ length: 4 }).map((_, i) => (
+            <Card key={i} className="p-4">
+              <Skeleton className="h-4 w-24 mb-3" />
+              <Skeleton className="h-8 w-16" />
+            </Card>
+          ))}
+        </div>
+        <Card title="Peer Graph">
+          <Skeleton className="h-[500px] w-full rounded-lg" />
+        </Card>
+      </div>
+    );
+  }
+
+  if (error) {
+    const errorMessage = error instanceof Error
+      ? error.message
+      : typeof error === 'string'
+        ? error
+        : 'Unknown error occurred';
+
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Card>
+          <div className="text-center py-12">
+            <p className="text-red-600 dark:text-red-400 mb-4">Error loading topology data</p>
+            <p className="text-sm text-gray-500 dark:text-gray-500">{errorMessage}</p>
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
+  const fragmented = metrics.components > 1;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100 mb-2">
+          Peer Topology
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400">
+          How pNodes connect to each other, built from the peer lists they report ({metrics.nodes} nodes, {metrics.edges} links)
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <StatCard
+          title="Components"
+          value={metrics.components}
+          subtitle={fragmented
+            ? `Largest holds ${metrics.largestComponent} of ${metrics.nodes} nodes`
+            : 'Every node can reach every other'}
+          icon={<Network className="w-6 h-6" />}
+        />
+        <StatCard
+          title="Average Degree"
+          value={metrics.averageDegree.toFixed(1)}
+          subtitle={`Max ${metrics.maxDegree} • ${metrics.isolated} isolated`}
+          icon={<Share2 className="w-6 h-6" />}
+        />
+        <StatCard
+          title="Clustering"
+          value={metrics.averageClustering.toFixed(2)}
+          subtitle="Share of a node's peers that peer with each other"
+          icon={<Waypoints className="w-6 h-6" />}
+        />
+        <StatCard
+          title="Single Points of Failure"
+          value={metrics.articulationPoints.length}
+          subtitle={`${metrics.bridges.length} bridge ${metrics.bridges.length === 1 ? 'link' : 'links'}`}
+          icon={<AlertTriangle className="w-6 h-6" />}
+        />
+      </div>
+
+      <Card
+        title={
+          <div className="flex items-center gap-2">
+            <GitBranch className="w-5 h-5" />
+            Peer Graph
+            <Tooltip content="Force-directed layout of the peer graph: linked nodes pull together, all nodes push apart. Node size follows peer count. Outlined nodes and dashed red links are single points of failure. Click a node to open it." />
+          </div>
+        }
+        action={
+          <select
+            className="px-3 py-1.5 border border-gray-300 dark:border-gray-700 rounded-md bg-white dark:bg-gray-800 text-sm"
+            value={colorBy}
+            onChange={e => setColorBy(e.target.value as TopologyColorMode)}
+            aria-label="Colour nodes by"
+          >
+            {colorModes.map(mode => (
+              <option key={mode.value} value={mode.value}>Colour by {mode.label.toLowerCase()}</option>
+            ))}
+          </select>
+        }
+      >
+        {metrics.nodes === 0 ? (
+          <p className="text-center py-8 text-gray-500 dark:text-gray-400">No nodes to draw</p>
+        ) : (
+          <>
+            {metrics.edges === 0 && (
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+                No node reports peers that are in the dataset, so there are no links to draw.
+              </p>
+            )}
+            <TopologyGraph nodes={nodes} graph={graph} metrics={metrics} colorBy={colorBy} />
+          </>
+        )}
+        {metrics.unresolvedPeers > 0 && (
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-3">
+            {metrics.unresolvedPeers} reported {metrics.unresolvedPeers === 1 ? 'peer does' : 'peers do'} not match any known node and {metrics.unresolvedPeers === 1 ? 'is' : 'are'} left out.
+          </p>
+        )}
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card
+          title={
+            <div className="flex items-center gap-2">
+              <Unlink className="w-5 h-5" />
+              Partition-Critical Nodes
+              <Tooltip content="Articulation points: nodes whose loss splits their part of the network. Cut off counts the nodes that would lose their path to the rest." />
+            </div>
+          }
+        >
+          {metrics.criticalNodes.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              No single node failure splits the network.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-800">
+                    <th className="py-2 pr-4 font-medium">Node</th>
+                    <th className="py-2 pr-4 font-medium text-right">Peers</th>
+                    <th className="py-2 font-medium text-right">Cut off</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {metrics.criticalNodes.slice(0, 20).map(node => (
+                    <tr key={node.id} className="border-b border-gray-100 dark:border-gray-800/50">
+                      <td className="py-2 pr-4">
+                        <Link
+                          href={`/nodes/${encodeURIComponent(node.id)}`}
+                          className="font-mono text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          {node.id.length > 20 ? `${node.id.slice(0, 8)}...${node.id.slice(-6)}` : node.id}
+                        </Link>
+                      </td>
+                      <td className="py-2 pr-4 text-right">{graph.adjacency.get(node.id)?.size ?? 0}</td>
+                      <td className="py-2 text-right font-medium">{node.cutOff}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {metrics.criticalNodes.length > 20 && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                  Showing 20 of {metrics.criticalNodes.length}
+                </p>
+              )}
+            </div>
+          )}
+        </Card>
+
+        <DistributionChart data={degreeChart} title="Degree Distribution" type="bar" />
+      </div>
+    </div>
+  );
+}
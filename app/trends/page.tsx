@@ -11,7 +11,10 @@ import {
   ArrowDownRight, Minus, Target
 } from 'lucide-react';
 import { formatBytes } from '@/lib/utils';
+import { formatWeight, weightShares } from '@/lib/stake';
 import { Tooltip } from '@/components/Tooltip';
+import { Weighting, WeightingToggle } from '@/components/WeightingToggle';
+import { StakeWeightBasis } from '@/types';
 
 interface NetworkSnapshot {
   id: number;
@@ -28,6 +31,22 @@ interface NetworkSnapshot {
   totalStorageUsed: number | null;
   versionDistribution: Record<string, number>;
   regionDistribution: Record<string, number>;
+  // Peer graph connectivity; null before any node reported peers
+  peerComponents?: number | null;
+  largestComponentShare?: number | null;
+  largestComponentShareMin?: number | null; // rollups only: the worst reading in the bucket
+  articulationPoints?: number | null;
+  bridgeLinks?: number | null;
+  peerMinCut?: number | null;
+  // Stake-weighted statistics (by storage capacity without stake); null when neither is known
+  stakeBasis?: StakeWeightBasis | null;
+  totalStake?: number | null;
+  onlineStakeShare?: number | null;
+  onlineStakeShareMin?: number | null; // rollups only
+  stakeNakamoto?: number | null;
+  stakeNakamotoMin?: number | null; // rollups only
+  stakeVersionDistribution?: Record<string, number> | null;
+  stakeRegionDistribution?: Record<string, number> | null;
 }
 
 interface TrendInsight {
@@ -49,6 +68,7 @@ export default function TrendsPage() {
   const [snapshots, setSnapshots] = useState<NetworkSnapshot[]>([]);
   const [loading, setLoading] = useState(true);
   const [currentStats, setCurrentStats] = useState<any>(null);
+  const [weighting, setWeighting] = useState<Weighting>('count');
 
   useEffect(() => {
     fetchTrends();
@@ -307,6 +327,28 @@ export default function TrendsPage() {
       });
     }
 
+    // Peer graph fragmentation
+    if (last.peerComponents && last.peerComponents > 1 && last.largestComponentShare != null) {
+      insights.push({
+        type: last.largestComponentShare <= 0.5 ? 'critical' : 'warning',
+        metric: 'Peer Connectivity',
+        message: `Peer graph split into ${Math.round(last.peerComponents)} parts; the largest holds ${(last.largestComponentShare * 100).toFixed(1)}% of nodes`,
+        change: (1 - last.largestComponentShare) * 100,
+        icon: Network,
+      });
+    }
+
+    // Validators holding a third of the stake offline stall consensus
+    if (last.stakeBasis === 'stake' && last.onlineStakeShare != null && last.onlineStakeShare < 2 / 3) {
+      insights.push({
+        type: 'critical',
+        metric: 'Online Stake',
+        message: `Only ${(last.onlineStakeShare * 100).toFixed(1)}% of stake is online; consensus needs more than two thirds`,
+        change: (1 - last.onlineStakeShare) * 100,
+        icon: AlertTriangle,
+      });
+    }
+
     // Peak and low values
     const peakValues = {
       nodes: Math.max(...effectiveSnapshots.map(s => s.totalNodes)),
@@ -376,6 +418,43 @@ export default function TrendsPage() {
     value: s.averagePeerCount || 0,
   }));
 
+  // Average peer count can hold steady while the network splits into islands,
+  // so the peer graph's own metrics are charted next to it
+  const connectivitySnapshots = chartSnapshots.filter(s => s.largestComponentShare != null);
+  const reachableData = connectivitySnapshots.map(s => ({
+    timestamp: new Date(s.timestamp),
+    value: Math.round(s.largestComponentShare! * 1000) / 10,
+  }));
+  const componentData = connectivitySnapshots.map(s => ({
+    timestamp: new Date(s.timestamp),
+    value: s.peerComponents ?? 0,
+  }));
+  const lowestReachable = Math.round(
+    Math.min(...connectivitySnapshots.map(s => s.largestComponentShareMin ?? s.largestComponentShare!)) * 1000
+  ) / 10;
+  const latestConnectivity = connectivitySnapshots.length > 0
+    ? connectivitySnapshots[connectivitySnapshots.length - 1]
+    : null;
+
+  // Stake-weighted availability and superminority, from snapshots that have them
+  const stakeSnapshots = chartSnapshots.filter(s => s.onlineStakeShare != null);
+  const latestStake = stakeSnapshots.length > 0 ? stakeSnapshots[stakeSnapshots.length - 1] : null;
+  const stakeBasis = latestStake?.stakeBasis ?? null;
+  const weighted = weighting === 'stake' && latestStake ? latestStake : null;
+  const weightLabel = stakeBasis === 'storage' ? 'capacity' : 'stake';
+  const onlineStakeData = stakeSnapshots.map(s => ({
+    timestamp: new Date(s.timestamp),
+    value: Math.round(s.onlineStakeShare! * 1000) / 10,
+  }));
+  const stakeNakamotoData = stakeSnapshots.map(s => ({
+    timestamp: new Date(s.timestamp),
+    value: s.stakeNakamoto ?? 0,
+  }));
+  const lowestOnlineStake = Math.round(
+    Math.min(...stakeSnapshots.map(s => s.onlineStakeShareMin ?? s.onlineStakeShare!)) * 1000
+  ) / 10;
+  const lowestStakeNakamoto = Math.min(...stakeSnapshots.map(s => s.stakeNakamotoMin ?? s.stakeNakamoto ?? 0));
+
   const storageData = chartSnapshots.map(s => {
     const used = s.totalStorageUsed || 0;
     const capacity = s.totalStorageCapacity || 1;
@@ -387,15 +466,19 @@ export default function TrendsPage() {
     };
   });
 
-  // Version distribution over time (latest snapshot)
-  const latestVersionDist = chartSnapshots.length > 0 
-    ? chartSnapshots[chartSnapshots.length - 1].versionDistribution 
-    : {};
+  // Version distribution over time (latest snapshot), as shares of stake when weighted
+  const latestVersionDist = weighted
+    ? weightShares(weighted.stakeVersionDistribution ?? {})
+    : chartSnapshots.length > 0 
+      ? chartSnapshots[chartSnapshots.length - 1].versionDistribution 
+      : {};
   
   // Region distribution over time (latest snapshot)
-  const latestRegionDist = chartSnapshots.length > 0 
-    ? chartSnapshots[chartSnapshots.length - 1].regionDistribution 
-    : {};
+  const latestRegionDist = weighted
+    ? weightShares(weighted.stakeRegionDistribution ?? {})
+    : chartSnapshots.length > 0 
+      ? chartSnapshots[chartSnapshots.length - 1].regionDistribution 
+      : {};
 
   const { insights, stats } = calculateInsights();
   const latestSnapshot = chartSnapshots.length > 0 ? chartSnapshots[chartSnapshots.length - 1] : null;
@@ -418,7 +501,8 @@ export default function TrendsPage() {
             <BarChart3 className="w-5 h-5 text-gray-500 dark:text-gray-400" />
             <span className="font-medium">Time Range:</span>
           </div>
-          <div className="flex gap-2 flex-wrap">
+          <div className="flex gap-2 flex-wrap items-center">
+            <WeightingToggle value={weighting} onChange={setWeighting} basis={stakeBasis} />
             {timeRanges.map((range) => (
               <button
                 key={range.hours}
@@ -448,10 +532,10 @@ export default function TrendsPage() {
             <p className="font-semibold mb-2">No historical data available</p>
             <p className="text-sm mb-4">To start tracking trends, run the ingestion API:</p>
             <code className="block bg-gray-100 dark:bg-gray-800 px-4 py-2 rounded text-sm">
-              curl http://localhost:3000/api/ingest
+              {'curl -X POST -H "Authorization: Bearer $INGEST_TOKEN" http://localhost:3000/api/ingest'}
             </code>
             <p className="text-xs mt-4 text-gray-400 dark:text-gray-500">
-              Or click the ingest endpoint in your browser to populate data
+              Or set INGEST_SCHEDULER_ENABLED=true to ingest automatically in the background
             </p>
           </div>
         </Card>
@@ -677,6 +761,54 @@ export default function TrendsPage() {
             </Card>
           </div>
 
+          {/* Stake-weighted availability */}
+          {weighted && (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card title={
+                <div className="flex items-center gap-2">
+                  {stakeBasis === 'storage' ? 'Online Capacity' : 'Online Stake'}
+                  <Tooltip content={stakeBasis === 'storage'
+                    ? 'Share of total storage capacity held by online nodes. The network has no stake, so capacity stands in for it.'
+                    : 'Share of activated stake held by online validators. Delinquent validators count as offline. Consensus stalls below two thirds.'} />
+                </div>
+              }>
+                <div className="mt-4">
+                  <TimeSeriesChart
+                    data={onlineStakeData}
+                    xKey="timestamp"
+                    yKey="value"
+                    height={250}
+                    unit="%"
+                  />
+                </div>
+                <div className="mt-4 text-sm text-gray-600 dark:text-gray-400 space-y-1">
+                  <p>• Current: {onlineStakeData[onlineStakeData.length - 1].value}% of {weighted.totalStake ? formatWeight(weighted.totalStake, stakeBasis ?? 'stake') : `the ${weightLabel}`} online</p>
+                  <p>• Lowest in range: {lowestOnlineStake}%</p>
+                </div>
+              </Card>
+
+              <Card title={
+                <div className="flex items-center gap-2">
+                  Superminority
+                  <Tooltip content={`Fewest nodes that together hold more than a third of the ${weightLabel}. Higher is more decentralized; a drop means ${weightLabel} is concentrating.`} />
+                </div>
+              }>
+                <div className="mt-4">
+                  <TimeSeriesChart
+                    data={stakeNakamotoData}
+                    xKey="timestamp"
+                    yKey="value"
+                    height={250}
+                  />
+                </div>
+                <div className="mt-4 text-sm text-gray-600 dark:text-gray-400 space-y-1">
+                  <p>• Current: {Math.round(weighted.stakeNakamoto ?? 0)} nodes</p>
+                  <p>• Lowest in range: {Math.round(lowestStakeNakamoto)} nodes</p>
+                </div>
+              </Card>
+            </div>
+          )}
+
           {/* Performance Metrics */}
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             <Card title="Network Latency">
@@ -705,12 +837,61 @@ export default function TrendsPage() {
                   height={250}
                 />
               </div>
-              <div className="mt-4 text-sm text-gray-600 dark:text-gray-400">
+              <div className="mt-4 text-sm text-gray-600 dark:text-gray-400 space-y-1">
                 <p>• Current average: {latestSnapshot?.averagePeerCount?.toFixed(1) || currentStats?.averagePeerCount?.toFixed(1) || 'N/A'} peers per node</p>
+                {latestConnectivity?.peerMinCut != null && (
+                  <p>• Min cut: {Math.round(latestConnectivity.peerMinCut)} {Math.round(latestConnectivity.peerMinCut) === 1 ? 'link' : 'links'} to split the main component</p>
+                )}
               </div>
             </Card>
           </div>
 
+          {/* Partition Risk */}
+          {connectivitySnapshots.length > 0 && (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card title={
+                <div className="flex items-center gap-2">
+                  Reachable Nodes
+                  <Tooltip content="Share of nodes with known peers that sit in the largest connected part of the peer graph. Below 100% the network is partitioned: some nodes have no peer path to the rest." />
+                </div>
+              }>
+                <div className="mt-4">
+                  <TimeSeriesChart
+                    data={reachableData}
+                    xKey="timestamp"
+                    yKey="value"
+                    height={250}
+                    unit="%"
+                  />
+                </div>
+                <div className="mt-4 text-sm text-gray-600 dark:text-gray-400 space-y-1">
+                  <p>• Current: {reachableData[reachableData.length - 1].value}% in the largest component</p>
+                  <p>• Lowest in range: {lowestReachable}%</p>
+                </div>
+              </Card>
+
+              <Card title={
+                <div className="flex items-center gap-2">
+                  Peer Graph Components
+                  <Tooltip content="Separate parts of the peer graph. One means every node can reach every other. Articulation points and bridges are nodes and links whose loss would split the graph further." />
+                </div>
+              }>
+                <div className="mt-4">
+                  <TimeSeriesChart
+                    data={componentData}
+                    xKey="timestamp"
+                    yKey="value"
+                    height={250}
+                  />
+                </div>
+                <div className="mt-4 text-sm text-gray-600 dark:text-gray-400 space-y-1">
+                  <p>• Current: {Math.round(latestConnectivity?.peerComponents ?? 0)} {Math.round(latestConnectivity?.peerComponents ?? 0) === 1 ? 'component' : 'components'}</p>
+                  <p>• Single points of failure: {Math.round(latestConnectivity?.articulationPoints ?? 0)} nodes, {Math.round(latestConnectivity?.bridgeLinks ?? 0)} links</p>
+                </div>
+              </Card>
+            </div>
+          )}
+
           {/* Storage & Distribution */}
           <Card title="Storage Usage Trends">
             <div className="mt-4">
@@ -735,12 +916,12 @@ export default function TrendsPage() {
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             <DistributionChart
               data={latestVersionDist}
-              title="Current Version Distribution"
+              title={weighted ? `Current Version Distribution (% of ${weightLabel})` : 'Current Version Distribution'}
               type="pie"
             />
             <DistributionChart
               data={latestRegionDist}
-              title="Current Regional Distribution"
+              title={weighted ? `Current Regional Distribution (% of ${weightLabel})` : 'Current Regional Distribution'}
               type="bar"
             />
           </div>
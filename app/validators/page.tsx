@@ -0,0 +1,263 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { formatDistanceToNow } from 'date-fns';
+import { useValidators } from '@/hooks/useValidators';
+import { Card } from '@/components/Card';
+import { StatCard } from '@/components/StatCard';
+import { Skeleton } from '@/components/Skeleton';
+import { Tooltip } from '@/components/Tooltip';
+import { DistributionChart } from '@/components/DistributionChart';
+import { ValidatorPerformance } from '@/types';
+import { AlertTriangle, ArrowDownRight, ArrowUpRight, Award, Percent, Trophy, Vote } from 'lucide-react';
+
+const shortId = (id: string) => (id.length > 20 ? `${id.slice(0, 8)}...${id.slice(-6)}` : id);
+
+const formatRatio = (ratio: number | null) => (ratio === null ? '—' : `${(ratio * 100).toFixed(1)}%`);
+
+function ratioClass(ratio: number | null): string {
+  if (ratio === null) return 'text-gray-400 dark:text-gray-500';
+  if (ratio >= 0.95) return 'text-green-600 dark:text-green-400';
+  if (ratio >= 0.8) return 'text-yellow-600 dark:text-yellow-400';
+  return 'text-red-600 dark:text-red-400';
+}
+
+function DelinquentBadge({ validator }: { validator: ValidatorPerformance }) {
+  if (!validator.delinquent) return null;
+  const reason = validator.delinquentReason === 'reported'
+    ? 'Listed as delinquent by getVoteAccounts'
+    : `Last vote ${validator.voteLag} slots behind the cluster`;
+  return (
+    <span
+      title={reason}
+      className="inline-flex items-center gap-1 text-xs px-1.5 py-0.5 rounded bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400"
+    >
+      <AlertTriangle className="w-3 h-3" />
+      Delinquent
+    </span>
+  );
+}
+
+export default function ValidatorsPage() {
+  const { data, isLoading, error } = useValidators();
+  const [delinquentOnly, setDelinquentOnly] = useState(false);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <Skeleton className="h-7 w-48 mb-2" />
+          <Skeleton className="h-4 w-64" />
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          {Array.from({ length: 4 }).map((_, i) => (
+            <Card key={i} className="p-4">
+              <Skeleton className="h-4 w-24 mb-3" />
+              <Skeleton className="h-8 w-16" />
+            </Card>
+          ))}
+        </div>
+        <Card title="Leaderboard">
+          <Skeleton className="h-[400px] w-full rounded-lg" />
+        </Card>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    const errorMessage = error instanceof Error
+      ? error.message
+      : typeof error === 'string'
+        ? error
+        : 'Unknown error occurred';
+
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Card>
+          <div className="text-center py-12">
+            <p className="text-red-600 dark:text-red-400 mb-4">Error loading validator data</p>
+            <p className="text-sm text-gray-500 dark:text-gray-500">{errorMessage}</p>
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
+  const { summary, medians, commissionChanges } = data;
+  const validators = delinquentOnly ? data.validators.filter(v => v.delinquent) : data.validators;
+  const medianChart: Record<string, number> = {};
+  medians.forEach(({ epoch, median }) => {
+    medianChart[`Epoch ${epoch}`] = Math.round(median);
+  });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100 mb-2">
+          Validators
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400">
+          Vote credits against the cluster median, delinquency and commission changes, from vote accounts
+        </p>
+      </div>
+
+      {summary.validators === 0 ? (
+        <Card>
+          <p className="text-center py-8 text-gray-500 dark:text-gray-400">
+            No validators found. Vote account data comes from <code>getVoteAccounts</code> when the node source is a
+            Solana-style JSON-RPC endpoint.
+          </p>
+        </Card>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            <StatCard
+              title="Validators"
+              value={summary.validators}
+              subtitle={data.source === 'live' ? 'Live data, no stored history' : 'From the latest ingest'}
+              icon={<Vote className="w-6 h-6" />}
+            />
+            <StatCard
+              title="Delinquent"
+              value={summary.delinquent}
+              subtitle={`${summary.validators > 0 ? ((summary.delinquent / summary.validators) * 100).toFixed(1) : 0}% of validators`}
+              icon={<AlertTriangle className="w-6 h-6" />}
+            />
+            <StatCard
+              title="Median Credits"
+              value={summary.medianEarned !== null ? Math.round(summary.medianEarned).toLocaleString() : 'N/A'}
+              subtitle={summary.epoch !== null ? `Epoch ${summary.epoch} so far` : 'No epoch credits reported'}
+              icon={<Award className="w-6 h-6" />}
+            />
+            <StatCard
+              title="Average Commission"
+              value={summary.averageCommission !== null ? `${summary.averageCommission.toFixed(1)}%` : 'N/A'}
+              subtitle={`${commissionChanges.length} ${commissionChanges.length === 1 ? 'change' : 'changes'} in 30 days`}
+              icon={<Percent className="w-6 h-6" />}
+            />
+          </div>
+
+          <Card
+            title={
+              <div className="flex items-center gap-2">
+                <Trophy className="w-5 h-5" />
+                Leaderboard
+                <Tooltip content="Validators ranked by vote credits as a share of the cluster median, averaged over recent epochs. This epoch's share is measured so far. Epochs before a validator's first credits don't count against it." />
+              </div>
+            }
+            action={
+              <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                <input type="checkbox" checked={delinquentOnly} onChange={e => setDelinquentOnly(e.target.checked)} />
+                Delinquent only
+              </label>
+            }
+          >
+            {validators.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No delinquent validators.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-800">
+                      <th className="py-2 pr-4 font-medium">#</th>
+                      <th className="py-2 pr-4 font-medium">Node</th>
+                      <th className="py-2 pr-4 font-medium">Vote account</th>
+                      <th className="py-2 pr-4 font-medium text-right">Commission</th>
+                      <th className="py-2 pr-4 font-medium text-right">Credits</th>
+                      <th className="py-2 pr-4 font-medium text-right">vs median</th>
+                      <th className="py-2 pr-4 font-medium text-right">Recent average</th>
+                      <th className="py-2 font-medium">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {validators.map(validator => (
+                      <tr key={validator.nodeId} className="border-b border-gray-100 dark:border-gray-800/50">
+                        <td className="py-2 pr-4 text-gray-500 dark:text-gray-400">{validator.rank}</td>
+                        <td className="py-2 pr-4">
+                          <Link
+                            href={`/nodes/${encodeURIComponent(validator.nodeId)}`}
+                            className="font-mono text-blue-600 dark:text-blue-400 hover:underline"
+                          >
+                            {shortId(validator.nodeId)}
+                          </Link>
+                        </td>
+                        <td className="py-2 pr-4 font-mono text-xs text-gray-600 dark:text-gray-400">
+                          {validator.voteAccount ? shortId(validator.voteAccount) : '—'}
+                        </td>
+                        <td className="py-2 pr-4 text-right">{validator.commission !== null ? `${validator.commission}%` : '—'}</td>
+                        <td className="py-2 pr-4 text-right">{validator.earned !== null ? validator.earned.toLocaleString() : '—'}</td>
+                        <td className={`py-2 pr-4 text-right font-medium ${ratioClass(validator.creditRatio)}`}>
+                          {formatRatio(validator.creditRatio)}
+                        </td>
+                        <td className={`py-2 pr-4 text-right font-medium ${ratioClass(validator.averageRatio)}`}>
+                          {formatRatio(validator.averageRatio)}
+                        </td>
+                        <td className="py-2">
+                          <div className="flex items-center gap-1.5">
+                            <DelinquentBadge validator={validator} />
+                            {!validator.delinquent && (
+                              <span className="text-xs text-gray-500 dark:text-gray-400">{validator.status}</span>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {data.total > data.validators.length && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                    Showing the top {data.validators.length} of {data.total}
+                  </p>
+                )}
+              </div>
+            )}
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <DistributionChart data={medianChart} title="Cluster Median Credits per Epoch" type="bar" />
+
+            <Card
+              title={
+                <div className="flex items-center gap-2">
+                  <Percent className="w-5 h-5" />
+                  Commission Changes
+                  <Tooltip content="Commission changes seen between ingests over the last 30 days. Increases raise commission_increase alerts." />
+                </div>
+              }
+            >
+              {commissionChanges.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {data.source === 'live' ? 'Commission history needs a database.' : 'No commission changes in the last 30 days.'}
+                </p>
+              ) : (
+                <ul className="space-y-2 text-sm">
+                  {commissionChanges.map(change => {
+                    const increase = change.commission > change.previous;
+                    return (
+                      <li key={`${change.nodeId}-${change.changedAt}`} className="flex items-center justify-between gap-3">
+                        <Link
+                          href={`/nodes/${encodeURIComponent(change.nodeId)}`}
+                          className="font-mono text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          {shortId(change.nodeId)}
+                        </Link>
+                        <span className={`inline-flex items-center gap-1 font-medium ${increase ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+                          {increase ? <ArrowUpRight className="w-4 h-4" /> : <ArrowDownRight className="w-4 h-4" />}
+                          {change.previous}% → {change.commission}%
+                        </span>
+                        <span className="text-xs text-gray-500 dark:text-gray-400">
+                          {formatDistanceToNow(new Date(change.changedAt), { addSuffix: true })}
+                        </span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </Card>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+'use client';
+
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Card } from './Card';
+import { Tooltip } from './Tooltip';
+import { useAlertStats } from '@/hooks/useAlerts';
+import { formatAlertDuration } from '@/lib/alertLifecycle';
+import { Timer } from 'lucide-react';
+
+const RANGES = [1, 7, 30];
+
+/**
+ * How long alerts stay open: MTTR and spread, auto-resolution and flapping
+ */
+export function AlertLifecycleCard() {
+  const [days, setDays] = useState(7);
+  const { data, isLoading, error } = useAlertStats(days);
+
+  const title = (
+    <div className="flex items-center gap-2">
+      <Timer className="w-5 h-5" />
+      Alert Lifecycle
+      <Tooltip content="Time from an alert being raised to its resolution, for alerts resolved in the selected period. Ingest resolves alerts once their condition has been clear for a few ingests; a condition that comes back soon after reopens its alert, and alerts reopened repeatedly are marked flapping." />
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <Card title={title}>
+        <div className="text-center py-8 text-gray-500 dark:text-gray-400">Loading alert statistics...</div>
+      </Card>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <Card title={title}>
+        <p className="text-sm text-red-600 dark:text-red-400">Failed to load alert statistics</p>
+      </Card>
+    );
+  }
+
+  const { durations } = data;
+  const autoShare = durations.resolved > 0 ? Math.round((durations.autoResolved / durations.resolved) * 100) : null;
+  const tiles = [
+    { label: 'MTTR', value: formatAlertDuration(durations.meanMs), hint: `${durations.resolved} resolved` },
+    { label: 'Median', value: formatAlertDuration(durations.medianMs), hint: `p90 ${formatAlertDuration(durations.p90Ms)}` },
+    { label: 'Auto-resolved', value: autoShare === null ? 'N/A' : `${autoShare}%`, hint: `${durations.autoResolved} by ingest` },
+    { label: 'Raised', value: String(data.raised), hint: `${data.reopened} reopened` },
+    {
+      label: 'Open',
+      value: String(data.open),
+      hint: data.oldestOpenAt
+        ? `oldest ${formatDistanceToNow(new Date(data.oldestOpenAt), { addSuffix: true })}`
+        : 'none open',
+    },
+    { label: 'Flapping', value: String(data.flapping), hint: 'open alerts' },
+  ];
+
+  return (
+    <Card title={title}>
+      <div className="space-y-4">
+        <div className="flex items-center gap-1">
+          {RANGES.map(range => (
+            <button
+              key={range}
+              onClick={() => setDays(range)}
+              className={`text-xs px-2 py-1 rounded ${
+                range === days
+                  ? 'bg-gray-900 dark:bg-gray-100 text-white dark:text-gray-900'
+                  : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800'
+              }`}
+            >
+              {range === 1 ? '24h' : `${range}d`}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+          {tiles.map(tile => (
+            <div key={tile.label} className="text-center p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+              <div className="text-2xl font-bold text-gray-900 dark:text-gray-100">{tile.value}</div>
+              <div className="text-sm text-gray-600 dark:text-gray-400 mt-1">{tile.label}</div>
+              <div className="text-xs text-gray-500 dark:text-gray-500 mt-1">{tile.hint}</div>
+            </div>
+          ))}
+        </div>
+
+        {data.byType.length > 0 && (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 dark:text-gray-400">
+                <th className="py-1 font-medium">Type</th>
+                <th className="py-1 font-medium text-right">Resolved</th>
+                <th className="py-1 font-medium text-right">MTTR</th>
+                <th className="py-1 font-medium text-right">Median</th>
+                <th className="py-1 font-medium text-right">p90</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-800">
+              {data.byType.map(row => (
+                <tr key={row.type}>
+                  <td className="py-1.5 font-mono text-xs">{row.type}</td>
+                  <td className="py-1.5 text-right">{row.resolved}</td>
+                  <td className="py-1.5 text-right">{formatAlertDuration(row.meanMs)}</td>
+                  <td className="py-1.5 text-right">{formatAlertDuration(row.medianMs)}</td>
+                  <td className="py-1.5 text-right">{formatAlertDuration(row.p90Ms)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,315 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Card } from './Card';
+import { Button } from './Button';
+import { Tooltip } from './Tooltip';
+import { useAlertRules, useDeleteAlertRule, useSaveAlertRule } from '@/hooks/useAlertRules';
+import { ALERT_RULE_FIELDS, compileCondition, describeRuleDuration } from '@/lib/alertRules';
+import { calculateHealthScore } from '@/lib/health';
+import { AlertRule, pNode } from '@/types';
+import { Eye, Pencil, Plus, SlidersHorizontal, Trash2 } from 'lucide-react';
+
+interface AlertRulesCardProps {
+  nodes: pNode[]; // current nodes, for previews
+}
+
+type RuleForm = {
+  id?: string;
+  name: string;
+  description: string;
+  condition: string;
+  severity: AlertRule['severity'];
+  forIngests: number;
+  forMinutes: number;
+  enabled: boolean;
+};
+
+type Preview =
+  | { error: string }
+  | { matches: Array<{ node: pNode; values: Record<string, unknown> }>; total: number };
+
+const emptyForm: RuleForm = {
+  name: '',
+  description: '',
+  condition: '',
+  severity: 'medium',
+  forIngests: 1,
+  forMinutes: 0,
+  enabled: true,
+};
+
+const severityBadge: Record<AlertRule['severity'], string> = {
+  critical: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300',
+  high: 'bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300',
+  medium: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300',
+  low: 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300',
+};
+
+const PREVIEW_LIMIT = 10;
+
+const inputClass =
+  'w-full px-3 py-1.5 border border-gray-300 dark:border-gray-700 rounded-md bg-white dark:bg-gray-800 text-sm';
+
+function formatValue(value: unknown): string {
+  if (typeof value === 'number') return String(Math.round(value * 10) / 10);
+  if (value === undefined) return '–';
+  return String(value);
+}
+
+export function AlertRulesCard({ nodes }: AlertRulesCardProps) {
+  const { data: rules, isLoading, error } = useAlertRules();
+  const saveRule = useSaveAlertRule();
+  const deleteRule = useDeleteAlertRule();
+  const [form, setForm] = useState<RuleForm | null>(null);
+  const [preview, setPreview] = useState<Preview | null>(null);
+
+  const title = (
+    <div className="flex items-center gap-2">
+      <SlidersHorizontal className="w-5 h-5" />
+      Alert Rules
+      <Tooltip content="Your own alert conditions, checked at every ingest alongside the built-in anomaly rules. A rule raises a custom_rule alert for each node that has matched it for long enough." />
+    </div>
+  );
+
+  const edit = (next: RuleForm | null) => {
+    setForm(next);
+    setPreview(null);
+    saveRule.reset();
+  };
+  const update = (changes: Partial<RuleForm>) => form && setForm({ ...form, ...changes });
+
+  function runPreview() {
+    if (!form) return;
+    try {
+      const condition = compileCondition(form.condition);
+      const now = Date.now();
+      const matches = nodes
+        .map(node => ({ node, health: calculateHealthScore(node) }))
+        .filter(({ node, health }) => condition.matches(node, health, now))
+        .map(({ node, health }) => ({ node, values: condition.values(node, health, now) }));
+      setPreview({ matches: matches.slice(0, PREVIEW_LIMIT), total: matches.length });
+    } catch (previewError) {
+      setPreview({ error: previewError instanceof Error ? previewError.message : String(previewError) });
+    }
+  }
+
+  async function submit() {
+    if (!form) return;
+    try {
+      await saveRule.mutateAsync(form);
+      edit(null);
+    } catch {
+      // shown from saveRule.error
+    }
+  }
+
+  function remove(rule: AlertRule) {
+    if (!confirm(`Delete alert rule "${rule.name}"? Alerts it already raised are kept.`)) return;
+    deleteRule.mutate(rule.id);
+  }
+
+  if (isLoading) {
+    return (
+      <Card title={title}>
+        <div className="text-center py-8 text-gray-500 dark:text-gray-400">Loading alert rules...</div>
+      </Card>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card title={title}>
+        <p className="text-sm text-red-600 dark:text-red-400">Failed to load alert rules</p>
+      </Card>
+    );
+  }
+
+  return (
+    <Card title={title}>
+      <div className="space-y-4">
+        {rules && rules.length > 0 ? (
+          <div className="divide-y divide-gray-200 dark:divide-gray-800">
+            {rules.map(rule => (
+              <div key={rule.id} className="py-3 flex items-start justify-between gap-3">
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className={`font-semibold text-sm ${rule.enabled ? '' : 'opacity-50'}`}>{rule.name}</span>
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium ${severityBadge[rule.severity]}`}>
+                      {rule.severity}
+                    </span>
+                    {!rule.enabled && <span className="text-xs text-gray-500 dark:text-gray-400">disabled</span>}
+                  </div>
+                  <code className="block text-xs mt-1 text-gray-700 dark:text-gray-300 break-all">{rule.condition}</code>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    Fires after {describeRuleDuration(rule)}
+                    {rule.description ? ` • ${rule.description}` : ''}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <button
+                    onClick={() => saveRule.mutate({ id: rule.id, enabled: !rule.enabled })}
+                    className="text-xs px-2 py-1 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 rounded"
+                  >
+                    {rule.enabled ? 'Disable' : 'Enable'}
+                  </button>
+                  <button
+                    onClick={() => edit({
+                      id: rule.id,
+                      name: rule.name,
+                      description: rule.description ?? '',
+                      condition: rule.condition,
+                      severity: rule.severity,
+                      forIngests: rule.forIngests,
+                      forMinutes: rule.forMinutes,
+                      enabled: rule.enabled,
+                    })}
+                    className="p-1.5 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 rounded"
+                    title="Edit rule"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => remove(rule)}
+                    className="p-1.5 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 rounded"
+                    title="Delete rule"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No alert rules yet.</p>
+        )}
+
+        {!form && (
+          <Button variant="outline" size="sm" onClick={() => edit({ ...emptyForm })} className="flex items-center gap-1">
+            <Plus className="w-4 h-4" />
+            New rule
+          </Button>
+        )}
+
+        {form && (
+          <div className="p-4 border border-gray-200 dark:border-gray-800 rounded-lg space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <label className="text-sm space-y-1">
+                <span className="text-gray-600 dark:text-gray-400">Name</span>
+                <input className={inputClass} value={form.name} onChange={e => update({ name: e.target.value })} />
+              </label>
+              <label className="text-sm space-y-1">
+                <span className="text-gray-600 dark:text-gray-400">Description</span>
+                <input className={inputClass} value={form.description} onChange={e => update({ description: e.target.value })} />
+              </label>
+            </div>
+            <label className="text-sm space-y-1 block">
+              <span className="text-gray-600 dark:text-gray-400">Condition</span>
+              <textarea
+                className={`${inputClass} font-mono`}
+                rows={2}
+                placeholder="latency > 800 and region == 'Europe'"
+                value={form.condition}
+                onChange={e => update({ condition: e.target.value })}
+              />
+            </label>
+            <details className="text-xs text-gray-600 dark:text-gray-400">
+              <summary className="cursor-pointer">Fields and syntax</summary>
+              <p className="mt-2">
+                Compare fields with <code>== != &lt; &lt;= &gt; &gt;=</code> or <code>in [&apos;a&apos;, &apos;b&apos;]</code>,
+                and combine with <code>and</code>, <code>or</code>, <code>not</code> and parentheses. Strings take quotes.
+              </p>
+              <ul className="mt-2 grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-0.5">
+                {Object.entries(ALERT_RULE_FIELDS).map(([name, field]) => (
+                  <li key={name}>
+                    <code>{name}</code> ({field.type}): {field.description}
+                  </li>
+                ))}
+              </ul>
+            </details>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+              <label className="text-sm space-y-1">
+                <span className="text-gray-600 dark:text-gray-400">Severity</span>
+                <select
+                  className={inputClass}
+                  value={form.severity}
+                  onChange={e => update({ severity: e.target.value as AlertRule['severity'] })}
+                >
+                  <option value="critical">Critical</option>
+                  <option value="high">High</option>
+                  <option value="medium">Medium</option>
+                  <option value="low">Low</option>
+                </select>
+              </label>
+              <label className="text-sm space-y-1">
+                <span className="text-gray-600 dark:text-gray-400">For ingests</span>
+                <input
+                  type="number"
+                  min={1}
+                  className={inputClass}
+                  value={form.forIngests}
+                  onChange={e => update({ forIngests: parseInt(e.target.value, 10) || 1 })}
+                />
+              </label>
+              <label className="text-sm space-y-1">
+                <span className="text-gray-600 dark:text-gray-400">For minutes</span>
+                <input
+                  type="number"
+                  min={0}
+                  className={inputClass}
+                  value={form.forMinutes}
+                  onChange={e => update({ forMinutes: parseInt(e.target.value, 10) || 0 })}
+                />
+              </label>
+              <label className="text-sm flex items-center gap-2 md:pt-6">
+                <input type="checkbox" checked={form.enabled} onChange={e => update({ enabled: e.target.checked })} />
+                Enabled
+              </label>
+            </div>
+
+            {preview && 'error' in preview && (
+              <p className="text-sm text-red-600 dark:text-red-400">{preview.error}</p>
+            )}
+            {preview && 'matches' in preview && (
+              <div className="text-sm">
+                <p className="text-gray-600 dark:text-gray-400 mb-1">
+                  Matches {preview.total} of {nodes.length} current nodes now
+                  {form.forIngests > 1 || form.forMinutes > 0 ? ` (would fire after ${describeRuleDuration(form)})` : ''}
+                </p>
+                <ul className="space-y-0.5 text-xs">
+                  {preview.matches.map(({ node, values }) => (
+                    <li key={node.id}>
+                      <Link href={`/nodes/${node.id}`} className="font-mono hover:underline">
+                        {node.id.slice(0, 8)}...{node.id.slice(-6)}
+                      </Link>{' '}
+                      <span className="text-gray-500 dark:text-gray-400">
+                        {Object.entries(values).map(([field, value]) => `${field}=${formatValue(value)}`).join(', ')}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {saveRule.error && (
+              <p className="text-sm text-red-600 dark:text-red-400">{saveRule.error.message}</p>
+            )}
+
+            <div className="flex items-center gap-2">
+              <Button size="sm" onClick={submit} disabled={saveRule.isPending}>
+                {form.id ? 'Save rule' : 'Create rule'}
+              </Button>
+              <Button variant="outline" size="sm" onClick={runPreview} className="flex items-center gap-1">
+                <Eye className="w-4 h-4" />
+                Preview against current nodes
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => edit(null)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
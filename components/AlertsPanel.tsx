@@ -2,9 +2,10 @@
 
 import { useEffect, useState } from 'react';
 import { Card } from './Card';
-import { AlertCircle, X, CheckCircle2, Bell, AlertTriangle, ExternalLink } from 'lucide-react';
+import { AlertCircle, X, CheckCircle2, Bell, AlertTriangle, ExternalLink, Globe, History, Repeat, BellOff, UserCheck, ArrowUpCircle } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import Link from 'next/link';
+import { useAlertHistory } from '@/hooks/useAlerts';
 
 interface Alert {
   id: string;
@@ -14,7 +15,16 @@ interface Alert {
   message: string;
   details: any;
   acknowledged: boolean;
+  acknowledgedBy: string | null;
+  ackNote: string | null;
+  assignee: string | null;
+  team: string | null;
+  escalationLevel: number;
   resolved: boolean;
+  clearCount: number;
+  reopenCount: number;
+  flapping: boolean;
+  silenceId: string | null;
   createdAt: Date | string;
   nodeInfo?: {
     publicKey?: string | null;
@@ -28,6 +38,9 @@ interface AlertsPanelProps {
   limit?: number;
   showResolved?: boolean;
   compact?: boolean;
+  onSilence?: (alert: Alert) => void; // offers a "Silence" action on each alert
+  operator?: string; // who is using the dashboard, recorded on changes made here
+  owner?: string; // only this operator's alerts: assigned to them or unassigned in their teams
 }
 
 const severityColors = {
@@ -44,17 +57,164 @@ const severityIcons = {
   low: Bell,
 };
 
-export function AlertsPanel({ limit = 10, showResolved = false, compact = false }: AlertsPanelProps) {
+// network_issue alerts, by the rule that raised them (lib/networkRules.ts)
+const networkRuleLabels: Record<string, string> = {
+  online_ratio: 'Online ratio',
+  storage_capacity_drop: 'Storage capacity',
+  version_dominance: 'Version concentration',
+  mass_disappearance: 'Correlated outage',
+  region_loss: 'Regional outage',
+  peer_partition: 'Peer partition',
+};
+
+const networkAlertClass = 'border-l-4 ring-1 ring-indigo-300 dark:ring-indigo-700';
+
+// Actor recorded on the alert's history for changes made here, unless the operator named themselves
+const DASHBOARD_ACTOR = 'dashboard';
+
+function ReopenBadge({ alert }: { alert: Alert }) {
+  if (alert.flapping) {
+    return (
+      <span
+        className="text-xs px-1.5 py-0.5 bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 rounded inline-flex items-center gap-1"
+        title={`Reopened ${alert.reopenCount} times shortly after resolving; further reopens don't notify`}
+      >
+        <Repeat className="w-3 h-3" />
+        Flapping
+      </span>
+    );
+  }
+  if (alert.reopenCount > 0) {
+    return (
+      <span className="text-xs opacity-75 inline-flex items-center gap-1" title="Came back shortly after resolving">
+        <Repeat className="w-3 h-3" />
+        Reopened{alert.reopenCount > 1 ? ` ×${alert.reopenCount}` : ''}
+      </span>
+    );
+  }
+  return null;
+}
+
+function SilencedBadge({ alert }: { alert: Alert }) {
+  if (!alert.silenceId) return null;
+  return (
+    <span className="text-xs opacity-75 inline-flex items-center gap-1" title="Matched by an active silence; notifications are suppressed">
+      <BellOff className="w-3 h-3" />
+      Silenced
+    </span>
+  );
+}
+
+function OwnershipBadges({ alert }: { alert: Alert }) {
+  return (
+    <>
+      {alert.acknowledged && (
+        <span
+          className="text-xs px-1.5 py-0.5 bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 rounded inline-flex items-center gap-1"
+          title={alert.ackNote ? `Note: ${alert.ackNote}` : 'Acknowledged; escalation stopped'}
+        >
+          <UserCheck className="w-3 h-3" />
+          Acked{alert.acknowledgedBy ? ` by ${alert.acknowledgedBy}` : ''}
+        </span>
+      )}
+      {!alert.acknowledged && alert.escalationLevel > 0 && (
+        <span
+          className="text-xs px-1.5 py-0.5 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 rounded inline-flex items-center gap-1"
+          title="Unacknowledged; escalated to further channels"
+        >
+          <ArrowUpCircle className="w-3 h-3" />
+          Escalated (tier {alert.escalationLevel})
+        </span>
+      )}
+    </>
+  );
+}
+
+function AcknowledgeForm({ alert, operator, onSubmit, onCancel }: {
+  alert: Alert;
+  operator: string;
+  onSubmit: (note: string, assignee: string) => void;
+  onCancel: () => void;
+}) {
+  const [note, setNote] = useState('');
+  const [assignee, setAssignee] = useState(alert.assignee ?? operator);
+  const inputClass = 'px-2 py-1 border border-gray-300 dark:border-gray-700 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-xs';
+  return (
+    <div className="mt-2 flex items-center gap-2 flex-wrap">
+      <input className={`${inputClass} flex-1 min-w-[12rem]`} placeholder="Note (optional)" value={note} onChange={e => setNote(e.target.value)} />
+      <input className={`${inputClass} w-32`} placeholder="Assignee" value={assignee} onChange={e => setAssignee(e.target.value)} />
+      <button onClick={() => onSubmit(note, assignee)} className="text-xs px-2 py-1 rounded bg-white/60 dark:bg-black/30 font-medium hover:underline">
+        Acknowledge
+      </button>
+      <button onClick={onCancel} className="text-xs hover:underline">Cancel</button>
+    </div>
+  );
+}
+
+const eventLabels: Record<string, string> = {
+  created: 'Raised',
+  acknowledged: 'Acknowledged',
+  unacknowledged: 'Unacknowledged',
+  resolved: 'Resolved',
+  reopened: 'Reopened',
+  silenced: 'Silenced',
+  unsilenced: 'Silence ended',
+  assigned: 'Assigned',
+  escalated: 'Escalated',
+};
+
+// What an event's details add, e.g. " → alice" for an assignment
+function describeEvent(type: string, details: Record<string, unknown> | null | undefined): string {
+  if (!details) return '';
+  if (type === 'assigned') return details.assignee ? ` → ${details.assignee}` : ' (unassigned)';
+  if (type === 'escalated') return ` (tier ${details.tier}: ${(details.channels as string[] | undefined)?.join(', ')})`;
+  if (type === 'acknowledged' && details.note) return `: "${details.note}"`;
+  return '';
+}
+
+function AlertHistory({ alertId }: { alertId: string }) {
+  const { data, isLoading, error } = useAlertHistory(alertId, true);
+  if (isLoading) return <p className="text-xs opacity-75 mt-2">Loading history...</p>;
+  if (error || !data) return <p className="text-xs mt-2">Failed to load history</p>;
+  if (data.events.length === 0) return <p className="text-xs opacity-75 mt-2">No history recorded</p>;
+  return (
+    <ol className="mt-2 space-y-0.5 text-xs border-l border-gray-300 dark:border-gray-600 pl-3">
+      {data.events.map(event => (
+        <li key={event.id}>
+          <span className="font-medium">{eventLabels[event.type] ?? event.type}</span>
+          {' by '}
+          {event.actor === 'ingest' ? 'ingest (automatic)' : event.actor}
+          {describeEvent(event.type, event.details)}
+          <span className="opacity-75">
+            {' • '}
+            {new Date(event.createdAt).toLocaleString()}
+          </span>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+function networkRuleLabel(alert: Alert): string {
+  const rule = alert.details?.rule;
+  const label = (rule && networkRuleLabels[rule]) || 'Network issue';
+  return alert.details?.scope ? `${label}: ${alert.details.scope}` : label;
+}
+
+export function AlertsPanel({ limit = 10, showResolved = false, compact = false, onSilence, operator, owner }: AlertsPanelProps) {
   const [alerts, setAlerts] = useState<Alert[]>([]);
   const [loading, setLoading] = useState(true);
   const [filterSeverity, setFilterSeverity] = useState<string>('all');
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+  const [ackFor, setAckFor] = useState<string | null>(null);
+  const actor = operator?.trim() || DASHBOARD_ACTOR;
 
   useEffect(() => {
     fetchAlerts();
     // Refresh every 30 seconds
     const interval = setInterval(fetchAlerts, 30000);
     return () => clearInterval(interval);
-  }, [filterSeverity, showResolved]);
+  }, [filterSeverity, showResolved, owner]);
 
   async function fetchAlerts() {
     try {
@@ -65,6 +225,9 @@ export function AlertsPanel({ limit = 10, showResolved = false, compact = false
       if (filterSeverity !== 'all') {
         params.append('severity', filterSeverity);
       }
+      if (owner) {
+        params.append('owner', owner);
+      }
 
       const res = await fetch(`/api/alerts?${params}`);
       const data = await res.json();
@@ -81,7 +244,7 @@ export function AlertsPanel({ limit = 10, showResolved = false, compact = false
       await fetch('/api/alerts', {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ id: alertId, resolved: true }),
+        body: JSON.stringify({ id: alertId, resolved: true, actor }),
       });
       fetchAlerts();
     } catch (error) {
@@ -89,13 +252,27 @@ export function AlertsPanel({ limit = 10, showResolved = false, compact = false
     }
   }
 
+  async function setAcknowledged(alertId: string, acknowledged: boolean, changes: { note?: string; assignee?: string | null } = {}) {
+    try {
+      await fetch('/api/alerts', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: alertId, acknowledged, ...changes, actor }),
+      });
+      setAckFor(null);
+      fetchAlerts();
+    } catch (error) {
+      console.error('Failed to acknowledge alert:', error);
+    }
+  }
+
   async function clearAllAlerts() {
     if (!confirm('Clear all active alerts?')) return;
     try {
       await fetch('/api/alerts', {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ clearAll: true }),
+        body: JSON.stringify({ clearAll: true, actor }),
       });
       fetchAlerts();
     } catch (error) {
@@ -123,7 +300,11 @@ export function AlertsPanel({ limit = 10, showResolved = false, compact = false
     );
   }
 
-  const activeAlerts = alerts.filter(a => !a.resolved);
+  // Network-wide alerts first: they usually explain the per-node ones
+  const activeAlerts = alerts
+    .filter(a => !a.resolved)
+    .sort((a, b) => Number(Boolean(a.nodeId)) - Number(Boolean(b.nodeId)));
+  const networkCount = activeAlerts.filter(a => !a.nodeId).length;
   const criticalCount = activeAlerts.filter(a => a.severity === 'critical').length;
   const highCount = activeAlerts.filter(a => a.severity === 'high').length;
 
@@ -166,7 +347,7 @@ export function AlertsPanel({ limit = 10, showResolved = false, compact = false
               return (
                 <div
                   key={alert.id}
-                  className={`p-3 rounded-lg border ${severityColors[alert.severity]}`}
+                  className={`p-3 rounded-lg border ${severityColors[alert.severity]} ${alert.nodeId ? '' : networkAlertClass} ${alert.silenceId ? 'opacity-60' : ''}`}
                 >
                   <div className="flex items-start justify-between gap-2">
                     <div className="flex items-start gap-2 flex-1 min-w-0">
@@ -186,8 +367,15 @@ export function AlertsPanel({ limit = 10, showResolved = false, compact = false
                             </Link>
                           )}
                           {!alert.nodeId && (
-                            <span className="font-semibold text-sm">Network Alert</span>
+                            <span className="font-semibold text-sm flex items-center gap-1">
+                              <Globe className="w-3.5 h-3.5" />
+                              Network
+                              <span className="text-xs font-normal opacity-75">({networkRuleLabel(alert)})</span>
+                            </span>
                           )}
+                          <ReopenBadge alert={alert} />
+                          <SilencedBadge alert={alert} />
+                          <OwnershipBadges alert={alert} />
                         </div>
                         <p className="text-sm mt-1 break-words">{alert.message}</p>
                         <p className="text-xs mt-1 opacity-75">
@@ -213,7 +401,7 @@ export function AlertsPanel({ limit = 10, showResolved = false, compact = false
   }
 
   return (
-    <Card title="Alerts">
+    <Card title={owner ? `My Open Alerts (${owner})` : 'Alerts'}>
       <div className="mb-4 flex items-center justify-between gap-2 flex-wrap">
         <div className="flex items-center gap-2 flex-wrap">
           <select
@@ -237,6 +425,12 @@ export function AlertsPanel({ limit = 10, showResolved = false, compact = false
               {highCount} High
             </span>
           )}
+          {networkCount > 0 && (
+            <span className="px-2 py-1 bg-indigo-100 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 rounded text-xs font-medium flex items-center gap-1">
+              <Globe className="w-3 h-3" />
+              {networkCount} Network
+            </span>
+          )}
         </div>
         {activeAlerts.length > 0 && (
           <button
@@ -278,7 +472,7 @@ export function AlertsPanel({ limit = 10, showResolved = false, compact = false
             return (
               <div
                 key={alert.id}
-                className={`p-4 rounded-lg border ${severityColors[alert.severity]}`}
+                className={`p-4 rounded-lg border ${severityColors[alert.severity]} ${alert.nodeId ? '' : networkAlertClass} ${alert.silenceId ? 'opacity-60' : ''}`}
               >
                 <div className="flex items-start justify-between gap-3">
                   <div className="flex items-start gap-3 flex-1 min-w-0">
@@ -289,7 +483,12 @@ export function AlertsPanel({ limit = 10, showResolved = false, compact = false
                           {alert.severity}
                         </span>
                         <span className="text-xs opacity-75">•</span>
-                        <span className="text-xs opacity-75">{alert.type}</span>
+                        <span className="text-xs opacity-75">
+                          {alert.nodeId ? alert.type : networkRuleLabel(alert)}
+                        </span>
+                        <ReopenBadge alert={alert} />
+                        <SilencedBadge alert={alert} />
+                        <OwnershipBadges alert={alert} />
                       </div>
                       <div className="mb-2">
                         {alert.nodeId ? (
@@ -311,7 +510,10 @@ export function AlertsPanel({ limit = 10, showResolved = false, compact = false
                             <ExternalLink className="w-3.5 h-3.5" />
                           </Link>
                         ) : (
-                          <span className="text-sm font-semibold">Network Alert</span>
+                          <span className="inline-flex items-center gap-1.5 text-sm font-semibold">
+                            <Globe className="w-4 h-4" />
+                            Network Alert
+                          </span>
                         )}
                         <p className="text-sm mt-1">{alert.message}</p>
                       </div>
@@ -322,7 +524,53 @@ export function AlertsPanel({ limit = 10, showResolved = false, compact = false
                         <span>
                           {formatDistanceToNow(new Date(alert.createdAt), { addSuffix: true })}
                         </span>
+                        {alert.assignee && <span>Assignee: {alert.assignee}</span>}
+                        {alert.team && <span>Team: {alert.team}</span>}
+                        {alert.clearCount > 0 && (
+                          <span title="The condition has cleared; ingest resolves the alert if it stays clear">
+                            Clearing ({alert.clearCount} {alert.clearCount === 1 ? 'ingest' : 'ingests'})
+                          </span>
+                        )}
+                        <button
+                          onClick={() => setHistoryFor(historyFor === alert.id ? null : alert.id)}
+                          className="inline-flex items-center gap-1 hover:underline"
+                        >
+                          <History className="w-3 h-3" />
+                          {historyFor === alert.id ? 'Hide history' : 'History'}
+                        </button>
+                        {alert.acknowledged ? (
+                          <button onClick={() => setAcknowledged(alert.id, false)} className="inline-flex items-center gap-1 hover:underline">
+                            <UserCheck className="w-3 h-3" />
+                            Unacknowledge
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => setAckFor(ackFor === alert.id ? null : alert.id)}
+                            className="inline-flex items-center gap-1 hover:underline"
+                          >
+                            <UserCheck className="w-3 h-3" />
+                            Acknowledge
+                          </button>
+                        )}
+                        {onSilence && !alert.silenceId && (
+                          <button
+                            onClick={() => onSilence(alert)}
+                            className="inline-flex items-center gap-1 hover:underline"
+                          >
+                            <BellOff className="w-3 h-3" />
+                            Silence
+                          </button>
+                        )}
                       </div>
+                      {ackFor === alert.id && (
+                        <AcknowledgeForm
+                          alert={alert}
+                          operator={operator?.trim() ?? ''}
+                          onSubmit={(note, assignee) => setAcknowledged(alert.id, true, { note, assignee: assignee.trim() || null })}
+                          onCancel={() => setAckFor(null)}
+                        />
+                      )}
+                      {historyFor === alert.id && <AlertHistory alertId={alert.id} />}
                     </div>
                   </div>
                   <button
@@ -0,0 +1,168 @@
+'use client';
+
+import { ReactNode, useMemo } from 'react';
+import { Card } from './Card';
+import { Tooltip } from './Tooltip';
+import { TimeSeriesChart } from './TimeSeriesChart';
+import { useNetworkHistory } from '@/hooks/useNetworkHistory';
+import { calculateNetworkStats } from '@/lib/prpc';
+import { NAKAMOTO_THRESHOLD } from '@/lib/concentration';
+import { ConcentrationMetrics, pNode } from '@/types';
+import { Building2, Globe, TrendingUp } from 'lucide-react';
+
+interface ConcentrationSectionProps {
+  nodes: pNode[];
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+// Rough HHI bands used by competition regulators
+function hhiLabel(hhi: number): { label: string; className: string } {
+  if (hhi >= 2500) return { label: 'highly concentrated', className: 'text-red-600 dark:text-red-400' };
+  if (hhi >= 1500) return { label: 'moderately concentrated', className: 'text-yellow-600 dark:text-yellow-400' };
+  return { label: 'unconcentrated', className: 'text-green-600 dark:text-green-400' };
+}
+
+function MetricsColumn({ title, icon, metrics }: { title: string; icon: ReactNode; metrics: ConcentrationMetrics }) {
+  const hhi = hhiLabel(metrics.hhi);
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3 flex items-center gap-2">
+        {icon}
+        {title}
+      </h3>
+      <dl className="grid grid-cols-2 gap-4">
+        <div>
+          <dt className="text-xs text-gray-500 dark:text-gray-400">Nakamoto coefficient</dt>
+          <dd className="text-2xl font-bold text-gray-900 dark:text-gray-100">{metrics.nakamoto}</dd>
+        </div>
+        <div>
+          <dt className="text-xs text-gray-500 dark:text-gray-400">Herfindahl index</dt>
+          <dd className="text-2xl font-bold text-gray-900 dark:text-gray-100">{metrics.hhi}</dd>
+          <dd className={`text-xs ${hhi.className}`}>{hhi.label}</dd>
+        </div>
+        <div>
+          <dt className="text-xs text-gray-500 dark:text-gray-400">Top 1 / 3 / 5 share</dt>
+          <dd className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+            {percent(metrics.top1Share)} / {percent(metrics.top3Share)} / {percent(metrics.top5Share)}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-xs text-gray-500 dark:text-gray-400">Distinct</dt>
+          <dd className="text-sm font-semibold text-gray-900 dark:text-gray-100">{metrics.entities}</dd>
+          {metrics.unknownShare > 0 && (
+            <dd className="text-xs text-gray-500 dark:text-gray-400">{percent(metrics.unknownShare)} of nodes unknown</dd>
+          )}
+        </div>
+      </dl>
+    </div>
+  );
+}
+
+/**
+ * Analytics section: how concentrated pNodes are across hosting providers
+ * and countries, now and over the stored network snapshots
+ */
+export function ConcentrationSection({ nodes }: ConcentrationSectionProps) {
+  const stats = useMemo(() => calculateNetworkStats(nodes), [nodes]);
+  const { data: history = [], isLoading: historyLoading, error: historyError } = useNetworkHistory();
+
+  // Snapshots stored before concentration tracking have no metrics
+  const chartData = useMemo(
+    () => history
+      .filter(s => s.providerNakamoto !== null)
+      .map(s => ({
+        timestamp: new Date(s.timestamp),
+        providerNakamoto: s.providerNakamoto,
+        countryNakamoto: s.countryNakamoto,
+        providerHhi: s.providerHhi,
+        countryHhi: s.countryHhi,
+      })),
+    [history]
+  );
+
+  const topProviders = Object.entries(stats.providerDistribution)
+    .filter(([provider]) => provider !== 'unknown')
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, 10);
+
+  const title = (
+    <div className="flex items-center gap-2">
+      <Building2 className="w-5 h-5" />
+      Provider & Country Concentration
+      <Tooltip content={`How many pNodes share a hosting provider (from the node's ASN) or a country. The Nakamoto coefficient is the fewest providers or countries holding more than ${Math.round(NAKAMOTO_THRESHOLD * 100)}% of nodes; higher is more decentralized. The Herfindahl index runs from 0 (evenly spread) to 10000 (a single entity).`} />
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card title={title}>
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <MetricsColumn title="By provider" icon={<Building2 className="w-4 h-4" />} metrics={stats.concentration.provider} />
+          <MetricsColumn title="By country" icon={<Globe className="w-4 h-4" />} metrics={stats.concentration.country} />
+          <div>
+            <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">Top providers</h3>
+            {topProviders.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                No ASN data yet. Set ASN_DATABASE_PATH (or use a GeoIP database with ASN fields).
+              </p>
+            ) : (
+              <div className="space-y-2 max-h-64 overflow-y-auto">
+                {topProviders.map(([provider, count]) => {
+                  const percentage = (count / stats.totalNodes) * 100;
+                  return (
+                    <div key={provider} className="flex items-center justify-between gap-3">
+                      <span className="text-sm text-gray-700 dark:text-gray-300 truncate">{provider}</span>
+                      <div className="flex items-center gap-3 flex-shrink-0">
+                        <div className="w-20 bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                          <div className="bg-purple-600 h-2 rounded-full" style={{ width: `${percentage}%` }} />
+                        </div>
+                        <span className="text-xs text-gray-500 w-12 text-right">{percentage.toFixed(1)}%</span>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      </Card>
+
+      <Card title={
+        <div className="flex items-center gap-2">
+          <TrendingUp className="w-5 h-5" />
+          Concentration Over Time
+        </div>
+      }>
+        {historyLoading ? (
+          <div className="text-center py-8 text-gray-500 dark:text-gray-400">Loading concentration history...</div>
+        ) : historyError ? (
+          <p className="text-sm text-red-600 dark:text-red-400">Failed to load network history</p>
+        ) : chartData.length === 0 ? (
+          <div className="text-center py-8 text-gray-500 dark:text-gray-400 text-sm">
+            No stored snapshots with concentration metrics yet. They are recorded on each ingest.
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">Nakamoto coefficient by provider</p>
+              <TimeSeriesChart data={chartData} yKey="providerNakamoto" height={200} formatValue={(v) => String(v)} />
+            </div>
+            <div>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">Nakamoto coefficient by country</p>
+              <TimeSeriesChart data={chartData} yKey="countryNakamoto" height={200} formatValue={(v) => String(v)} />
+            </div>
+            <div>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">Herfindahl index by provider</p>
+              <TimeSeriesChart data={chartData} yKey="providerHhi" height={200} formatValue={(v) => Math.round(v).toString()} />
+            </div>
+            <div>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">Herfindahl index by country</p>
+              <TimeSeriesChart data={chartData} yKey="countryHhi" height={200} formatValue={(v) => Math.round(v).toString()} />
+            </div>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
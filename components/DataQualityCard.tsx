@@ -0,0 +1,129 @@
+'use client';
+
+import { Card } from './Card';
+import { Tooltip } from './Tooltip';
+import { useDataQuality } from '@/hooks/useDataQuality';
+import { TRACKED_NODE_FIELDS } from '@/lib/validation';
+import { FieldQuality, TrackedNodeField } from '@/types';
+import { formatDistanceToNow } from 'date-fns';
+import { ClipboardCheck } from 'lucide-react';
+
+const fieldLabels: Record<TrackedNodeField, string> = {
+  publicKey: 'Public key',
+  ipAddress: 'IP address',
+  status: 'Status',
+  lastSeen: 'Last seen',
+  peerCount: 'Peer count',
+  storageCapacity: 'Storage capacity',
+  storageUsed: 'Storage used',
+  softwareVersion: 'Version',
+  latency: 'Latency',
+  uptime: 'Uptime',
+  availability: 'Availability',
+  location: 'Location',
+};
+
+const segments: Array<{ key: keyof FieldQuality; label: string; className: string }> = [
+  { key: 'reported', label: 'Reported', className: 'bg-green-500' },
+  { key: 'inferred', label: 'Inferred', className: 'bg-blue-500' },
+  { key: 'defaulted', label: 'Defaulted', className: 'bg-yellow-500' },
+  { key: 'missing', label: 'Missing', className: 'bg-gray-300 dark:bg-gray-700' },
+];
+
+export function DataQualityCard() {
+  const { data, isLoading, error } = useDataQuality();
+
+  const title = (
+    <div className="flex items-center gap-2">
+      <ClipboardCheck className="w-5 h-5" />
+      Data Quality
+      <Tooltip content="Where each node field came from in the last ingest: reported by the node, inferred from other data, filled with a default, or missing. Health scores skip factors whose input was defaulted." />
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <Card title={title}>
+        <div className="text-center py-8 text-gray-500 dark:text-gray-400">Loading data quality...</div>
+      </Card>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <Card title={title}>
+        <p className="text-sm text-red-600 dark:text-red-400">Failed to load data-quality report</p>
+      </Card>
+    );
+  }
+
+  const { report, source } = data;
+  const total = report.totalNodes;
+
+  return (
+    <Card title={title}>
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-gray-600 dark:text-gray-400">
+          <span>
+            {total} nodes • {report.nodesWithIssues} with validation issues ({report.issueCount} total)
+          </span>
+          <span className="text-xs text-gray-500 dark:text-gray-500">
+            {source === 'live' ? 'Live (not yet ingested)' : `Ingested ${formatDistanceToNow(new Date(report.timestamp), { addSuffix: true })}`}
+          </span>
+        </div>
+
+        <div className="flex flex-wrap gap-4 text-xs text-gray-600 dark:text-gray-400">
+          {segments.map(segment => (
+            <span key={segment.key} className="flex items-center gap-1">
+              <span className={`inline-block w-3 h-3 rounded-sm ${segment.className}`} />
+              {segment.label}
+            </span>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          {TRACKED_NODE_FIELDS.map(field => {
+            const quality = report.fields[field];
+            if (!quality) return null;
+            const reportedPct = total > 0 ? Math.round((quality.reported / total) * 100) : 0;
+            return (
+              <div key={field} className="flex items-center gap-3">
+                <span className="w-32 flex-shrink-0 text-sm text-gray-700 dark:text-gray-300">{fieldLabels[field]}</span>
+                <div
+                  className="flex-1 flex h-3 rounded-full overflow-hidden bg-gray-100 dark:bg-gray-800"
+                  title={segments.map(s => `${s.label}: ${quality[s.key]}`).join(' • ')}
+                >
+                  {total > 0 && segments.map(segment => (
+                    quality[segment.key] > 0 && (
+                      <div
+                        key={segment.key}
+                        className={segment.className}
+                        style={{ width: `${(quality[segment.key] / total) * 100}%` }}
+                      />
+                    )
+                  ))}
+                </div>
+                <span className="w-12 text-right text-xs text-gray-500 dark:text-gray-400">{reportedPct}%</span>
+              </div>
+            );
+          })}
+        </div>
+
+        {report.sampleIssues.length > 0 && (
+          <details className="text-sm">
+            <summary className="cursor-pointer text-gray-700 dark:text-gray-300">
+              Validation issues ({report.issueCount})
+            </summary>
+            <ul className="mt-2 space-y-1 max-h-48 overflow-y-auto">
+              {report.sampleIssues.map((item, i) => (
+                <li key={i} className="text-xs text-gray-600 dark:text-gray-400">
+                  <span className="font-mono">{item.nodeId.slice(0, 12)}</span> — {item.issue}
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+      </div>
+    </Card>
+  );
+}
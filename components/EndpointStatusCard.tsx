@@ -0,0 +1,102 @@
+'use client';
+
+import { Card } from './Card';
+import { Tooltip } from './Tooltip';
+import { useEndpointStatus } from '@/hooks/useEndpointStatus';
+import type { CircuitState } from '@/lib/rpcPool';
+import { formatDistanceToNow } from 'date-fns';
+import { Radio } from 'lucide-react';
+
+const stateColors: Record<CircuitState, string> = {
+  closed: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300',
+  'half-open': 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300',
+  open: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300',
+};
+
+const stateLabels: Record<CircuitState, string> = {
+  closed: 'Healthy',
+  'half-open': 'Probing',
+  open: 'Circuit open',
+};
+
+export function EndpointStatusCard() {
+  const { data, isLoading, error } = useEndpointStatus();
+
+  const title = (
+    <div className="flex items-center gap-2">
+      <Radio className="w-5 h-5" />
+      pRPC Endpoints
+      <Tooltip content="Seed endpoints the dashboard reads from. Failing seeds are skipped after repeated errors (circuit open) and retried after a cooldown." />
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <Card title={title}>
+        <div className="text-center py-8 text-gray-500 dark:text-gray-400">Loading endpoint status...</div>
+      </Card>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <Card title={title}>
+        <p className="text-sm text-red-600 dark:text-red-400">Failed to load endpoint status</p>
+      </Card>
+    );
+  }
+
+  const served = data.lastServed;
+
+  return (
+    <Card title={title}>
+      <div className="space-y-3">
+        {served && (
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {served.mode === 'mock'
+              ? 'Last node list came from mock data'
+              : `Last node list (${served.nodeCount} nodes) served by ${served.endpoints.join(', ')}${served.mode === 'quorum' ? ` • quorum ${data.quorum}` : ''}`}
+            {' • '}
+            {formatDistanceToNow(new Date(served.at), { addSuffix: true })}
+          </p>
+        )}
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-800">
+                <th className="py-2 pr-4 font-medium">Endpoint</th>
+                <th className="py-2 pr-4 font-medium">State</th>
+                <th className="py-2 pr-4 font-medium">Avg Latency</th>
+                <th className="py-2 pr-4 font-medium">Success / Fail</th>
+                <th className="py-2 font-medium">Last Error</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.endpoints.map((endpoint) => (
+                <tr key={endpoint.url} className="border-b border-gray-100 dark:border-gray-800/50 last:border-0">
+                  <td className="py-2 pr-4 font-mono text-xs text-gray-900 dark:text-gray-100 break-all">{endpoint.url}</td>
+                  <td className="py-2 pr-4">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${stateColors[endpoint.state]}`}>
+                      {stateLabels[endpoint.state]}
+                    </span>
+                  </td>
+                  <td className="py-2 pr-4 text-gray-700 dark:text-gray-300">
+                    {endpoint.avgLatencyMs !== null ? `${endpoint.avgLatencyMs}ms` : '—'}
+                  </td>
+                  <td className="py-2 pr-4 text-gray-700 dark:text-gray-300">
+                    {endpoint.successes} / {endpoint.failures}
+                  </td>
+                  <td className="py-2 text-xs text-gray-500 dark:text-gray-400 break-words">
+                    {endpoint.lastError
+                      ? `${endpoint.lastError}${endpoint.lastFailureAt ? ` (${formatDistanceToNow(new Date(endpoint.lastFailureAt), { addSuffix: true })})` : ''}`
+                      : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,77 @@
+'use client';
+
+import { Card } from './Card';
+import { Tooltip } from './Tooltip';
+import { HEALTH_FACTORS, formatFactorValue } from '@/lib/healthProfiles';
+import { cn, getHealthStatusColor } from '@/lib/utils';
+import { HealthScore } from '@/types';
+import { Activity } from 'lucide-react';
+
+interface HealthBreakdownProps {
+  health: HealthScore;
+}
+
+/**
+ * Per-factor explanation of a health score: input value, matching band,
+ * effective weight and the points each factor contributed
+ */
+export function HealthBreakdown({ health }: HealthBreakdownProps) {
+  return (
+    <Card
+      title={
+        <div className="flex items-center gap-2">
+          <Activity className="w-5 h-5" />
+          Health Breakdown
+          <Tooltip content="Weighted sum of per-factor scores. Weights are shared among the factors the node reports; missing or defaulted inputs are skipped." />
+        </div>
+      }
+    >
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200 dark:border-gray-800 text-left text-gray-600 dark:text-gray-400">
+              <th className="py-2 pr-4 font-medium">Factor</th>
+              <th className="py-2 pr-4 font-medium">Value</th>
+              <th className="py-2 pr-4 font-medium">Rule</th>
+              <th className="py-2 pr-4 font-medium text-right">Weight</th>
+              <th className="py-2 font-medium text-right">Points</th>
+            </tr>
+          </thead>
+          <tbody>
+            {health.breakdown.map(result => {
+              const { label } = HEALTH_FACTORS[result.factor];
+              return (
+                <tr
+                  key={result.factor}
+                  className={cn(
+                    "border-b border-gray-100/50 dark:border-white/5",
+                    result.excluded && "text-gray-400 dark:text-gray-600"
+                  )}
+                >
+                  <td className="py-2 pr-4 font-medium">{label}</td>
+                  <td className="py-2 pr-4">{result.value !== undefined ? formatFactorValue(result.factor, result.value) : '—'}</td>
+                  <td className="py-2 pr-4 font-mono text-xs">{result.rule}</td>
+                  <td className="py-2 pr-4 text-right">{Math.round(result.weight * 100)}%</td>
+                  <td className="py-2 text-right font-semibold">{result.contribution.toFixed(1)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+          <tfoot>
+            <tr>
+              <td colSpan={4} className="pt-3 text-gray-600 dark:text-gray-400">
+                {health.cap ? `Capped: ${health.cap}` : 'Total'}
+              </td>
+              <td className={cn("pt-3 text-right text-lg font-bold", getHealthStatusColor(health.score))}>
+                {health.score}
+              </td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+      <p className="mt-3 text-xs text-gray-500 dark:text-gray-500">
+        Scoring profile <span className="font-mono">{health.profile}</span>
+      </p>
+    </Card>
+  );
+}
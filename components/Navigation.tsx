@@ -2,7 +2,7 @@
 
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import { LayoutDashboard, Network, GitCompare, Map, Share2, TrendingUp, Bell, BarChart3 } from 'lucide-react';
+import { LayoutDashboard, Network, GitCompare, Map, Share2, Vote, TrendingUp, Bell, BarChart3 } from 'lucide-react';
 import { ThemeToggle } from './ThemeToggle';
 import { cn } from '@/lib/utils';
 
@@ -13,6 +13,8 @@ const navItems = [
   { href: '/analytics', label: 'Analytics', icon: BarChart3 },
   { href: '/compare', label: 'Compare', icon: GitCompare },
   { href: '/map', label: 'Map', icon: Map },
+  { href: '/topology', label: 'Topology', icon: Share2 },
+  { href: '/validators', label: 'Validators', icon: Vote },
   { href: '/alerts', label: 'Alerts', icon: Bell },
 ];
 
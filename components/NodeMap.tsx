@@ -209,8 +209,9 @@ export function NodeMap({ nodes }: NodeMapProps) {
                   <div className="space-y-1 text-xs text-gray-600 dark:text-gray-400">
                     {node.location.country && (
                       <p>
-                        <span className="font-medium">Location:</span> {node.location.country}
-                        {node.location.region && `, ${node.location.region}`}
+                        <span className="font-medium">Location:</span> {node.location.city ? `${node.location.city}, ` : ''}{node.location.country}
+                        {node.location.region && node.location.region !== node.location.country && `, ${node.location.region}`}
+                        {node.location.approximate && <span className="italic"> (approximate)</span>}
                       </p>
                     )}
                     <p>
@@ -1,8 +1,8 @@
 'use client';
 
-import { useState, useMemo } from 'react';
+import { useEffect, useState, useMemo } from 'react';
 import Link from 'next/link';
-import { pNode, FilterOptions } from '@/types';
+import { pNode, NodeQuery, NodeSortField, SortDirection } from '@/types';
 import { formatBytes, formatLatency, getStatusColor, cn, getStoragePercentage, getHealthStatusColor, getHealthStatusLabel } from '@/lib/utils';
 import { calculateHealthScore } from '@/lib/health';
 import { Search, ArrowUpDown, ArrowUp, ArrowDown, AlertTriangle } from 'lucide-react';
@@ -11,33 +11,77 @@ import { useClientAnalytics } from '@/hooks/useClientAnalytics';
 import { getRiskStatusColor, getRiskStatusLabel, getAnomalySeverityColor } from '@/lib/clientAnalytics';
 import { SavedFiltersPanel } from './SavedFiltersPanel';
 
+// Filters, search and sort applied server-side by /api/nodes
+export type NodeTableQuery = Pick<NodeQuery, 'filters' | 'search' | 'sort' | 'direction'>;
+
 interface NodeTableProps {
   nodes: pNode[];
   total: number;
   page: number;
   pageSize: number;
-  onPageChange: (page: number) => void;
+  hasNextPage: boolean;
+  query: NodeTableQuery;
+  onQueryChange: (query: NodeTableQuery) => void;
+  onPageChange: (direction: 'next' | 'prev') => void;
   onPageSizeChange: (size: number) => void;
 }
 
-type SortField = 'id' | 'status' | 'peerCount' | 'storageUsed' | 'latency' | 'health' | 'risk';
-type SortDirection = 'asc' | 'desc';
+// Wait for typing to pause before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface SortButtonProps {
+  field: NodeSortField;
+  sortBy: NodeSortField;
+  sortDir: SortDirection;
+  onSort: (field: NodeSortField) => void;
+  children: React.ReactNode;
+}
+
+// Column header that sorts by `field`, showing the current direction when it is the sort column
+function SortButton({ field, sortBy, sortDir, onSort, children }: SortButtonProps) {
+  return (
+    <button
+      onClick={() => onSort(field)}
+      className="flex items-center gap-1 hover:text-gray-900 dark:hover:text-gray-100"
+    >
+      {children}
+      {sortBy === field ? (
+        sortDir === 'asc' ? (
+          <ArrowUp className="w-4 h-4" />
+        ) : (
+          <ArrowDown className="w-4 h-4" />
+        )
+      ) : (
+        <ArrowUpDown className="w-4 h-4 opacity-50" />
+      )}
+    </button>
+  );
+}
+
 export function NodeTable({
   nodes,
   total,
   page,
   pageSize,
+  hasNextPage,
+  query,
+  onQueryChange,
   onPageChange,
   onPageSizeChange,
 }: NodeTableProps) {
-  const [search, setSearch] = useState('');
-  const [sortField, setSortField] = useState<SortField>('id');
-  const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
-  const [filters, setFilters] = useState<FilterOptions>({});
+  const [search, setSearch] = useState(query.search ?? '');
   const [showAnomaliesOnly, setShowAnomaliesOnly] = useState(false);
+  const { sort: sortField, direction: sortDirection, filters } = query;
 
   const { riskScores, anomalyMap } = useClientAnalytics(nodes);
 
+  useEffect(() => {
+    const trimmed = search.trim();
+    if (trimmed === (query.search ?? '')) return;
+    const timer = setTimeout(() => onQueryChange({ ...query, search: trimmed || undefined }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search, query, onQueryChange]);
+
   // Calculate health scores
   const healthScores = useMemo(() => {
     const scores = new Map<string, number>();
@@ -48,124 +92,24 @@ export function NodeTable({
     return scores;
   }, [nodes]);
 
-  // Filter and sort nodes
-  const filteredAndSortedNodes = useMemo(() => {
-    let filtered = nodes.filter(node => {
-      // Search filter
-      if (search && !node.id.toLowerCase().includes(search.toLowerCase()) &&
-          !node.ipAddress?.toLowerCase().includes(search.toLowerCase()) &&
-          !node.location?.country?.toLowerCase().includes(search.toLowerCase())) {
-        return false;
-      }
-
-      // Anomaly filter
-      if (showAnomaliesOnly) {
-        const anomalies = anomalyMap.get(node.id) || [];
-        if (anomalies.length === 0) return false;
-      }
-
-      // Status filter
-      if (filters.status && filters.status.length > 0 && !filters.status.includes(node.status)) {
-        return false;
-      }
+  // Anomalies come from client-side history, so this filter only applies to the current page
+  const visibleNodes = useMemo(() => {
+    if (!showAnomaliesOnly) return nodes;
+    return nodes.filter(node => (anomalyMap.get(node.id) || []).length > 0);
+  }, [nodes, showAnomaliesOnly, anomalyMap]);
 
-      // Version filter
-      if (filters.version && filters.version.length > 0 && 
-          node.softwareVersion && !filters.version.includes(node.softwareVersion)) {
-        return false;
-      }
-
-      // Peer count filter
-      if (filters.minPeerCount !== undefined && node.peerCount < filters.minPeerCount) {
-        return false;
-      }
-      if (filters.maxPeerCount !== undefined && node.peerCount > filters.maxPeerCount) {
-        return false;
-      }
-
-      return true;
-    });
-
-    // Sort
-    filtered.sort((a, b) => {
-      let aVal: any, bVal: any;
-
-      switch (sortField) {
-        case 'id':
-          aVal = a.id;
-          bVal = b.id;
-          break;
-        case 'status':
-          aVal = a.status;
-          bVal = b.status;
-          break;
-        case 'peerCount':
-          aVal = a.peerCount;
-          bVal = b.peerCount;
-          break;
-        case 'storageUsed':
-          aVal = a.storageUsed || 0;
-          bVal = b.storageUsed || 0;
-          break;
-        case 'latency':
-          aVal = a.latency || Infinity;
-          bVal = b.latency || Infinity;
-          break;
-        case 'health':
-          aVal = healthScores.get(a.id) || 0;
-          bVal = healthScores.get(b.id) || 0;
-          break;
-        case 'risk':
-          aVal = riskScores.get(a.id) ?? 0;
-          bVal = riskScores.get(b.id) ?? 0;
-          break;
-        default:
-          return 0;
-      }
-
-      if (aVal < bVal) return sortDirection === 'asc' ? -1 : 1;
-      if (aVal > bVal) return sortDirection === 'asc' ? 1 : -1;
-      return 0;
-    });
-
-    return filtered;
-  }, [nodes, search, filters, sortField, sortDirection, healthScores, showAnomaliesOnly, anomalyMap, riskScores]);
-
-  // Note: server-driven pagination; nodes are already paged from API
+  // Note: server-driven pagination; nodes are already filtered, sorted and paged by the API
   const totalPages = Math.max(1, Math.ceil(total / pageSize));
-  const currentPage = Math.min(page, totalPages);
-  const startIndex = (currentPage - 1) * pageSize;
-  const endIndex = startIndex + nodes.length;
-  const visibleNodes = filteredAndSortedNodes; // already paged by API
-  // Determine validator flag
+  const startIndex = (page - 1) * pageSize;
 
-  const handleSort = (field: SortField) => {
+  const handleSort = (field: NodeSortField) => {
     if (sortField === field) {
-      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+      onQueryChange({ ...query, direction: sortDirection === 'asc' ? 'desc' : 'asc' });
     } else {
-      setSortField(field);
-      setSortDirection('asc');
+      onQueryChange({ ...query, sort: field, direction: 'asc' });
     }
   };
 
-  const SortButton = ({ field, children }: { field: SortField; children: React.ReactNode }) => (
-    <button
-      onClick={() => handleSort(field)}
-      className="flex items-center gap-1 hover:text-gray-900 dark:hover:text-gray-100"
-    >
-      {children}
-      {sortField === field ? (
-        sortDirection === 'asc' ? (
-          <ArrowUp className="w-4 h-4" />
-        ) : (
-          <ArrowDown className="w-4 h-4" />
-        )
-      ) : (
-        <ArrowUpDown className="w-4 h-4 opacity-50" />
-      )}
-    </button>
-  );
-
   return (
     <Card>
       <div className="mb-4 space-y-3">
@@ -174,7 +118,7 @@ export function NodeTable({
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
             <input
               type="text"
-              placeholder="Search nodes by ID, IP, or location..."
+              placeholder="Search nodes by ID, public key, IP, or country..."
               value={search}
               onChange={(e) => setSearch(e.target.value)}
               className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
@@ -183,7 +127,7 @@ export function NodeTable({
           <div className="flex items-center gap-3">
             <SavedFiltersPanel
               currentFilters={filters}
-              onApplyFilter={setFilters}
+              onApplyFilter={(next) => onQueryChange({ ...query, filters: next })}
               compact={true}
             />
             <label className="inline-flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
@@ -207,25 +151,25 @@ export function NodeTable({
           <thead>
             <tr className="border-b border-gray-200 dark:border-gray-800">
               <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">
-                <SortButton field="id">Node ID</SortButton>
+                <SortButton field="id" sortBy={sortField} sortDir={sortDirection} onSort={handleSort}>Node ID</SortButton>
               </th>
               <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">
-                <SortButton field="status">Status</SortButton>
+                <SortButton field="status" sortBy={sortField} sortDir={sortDirection} onSort={handleSort}>Status</SortButton>
               </th>
               <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">
-                <SortButton field="health">Health</SortButton>
+                <SortButton field="health" sortBy={sortField} sortDir={sortDirection} onSort={handleSort}>Health</SortButton>
               </th>
               <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">
-                <SortButton field="risk">Risk</SortButton>
+                <SortButton field="risk" sortBy={sortField} sortDir={sortDirection} onSort={handleSort}>Risk</SortButton>
               </th>
               <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">
-                <SortButton field="peerCount">Peers</SortButton>
+                <SortButton field="peerCount" sortBy={sortField} sortDir={sortDirection} onSort={handleSort}>Peers</SortButton>
               </th>
               <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">
-                Storage
+                <SortButton field="storageUsed" sortBy={sortField} sortDir={sortDirection} onSort={handleSort}>Storage</SortButton>
               </th>
               <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">
-                <SortButton field="latency">Latency</SortButton>
+                <SortButton field="latency" sortBy={sortField} sortDir={sortDirection} onSort={handleSort}>Latency</SortButton>
               </th>
               <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">
                 Anomalies
@@ -346,25 +290,25 @@ export function NodeTable({
       </div>
 
       {/* Pagination */}
-      {filteredAndSortedNodes.length > 0 && (
+      {visibleNodes.length > 0 && (
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 px-2 py-3 border-t border-gray-200 dark:border-gray-800 mt-4">
           <div className="text-sm text-gray-600 dark:text-gray-400">
-            Showing {startIndex + 1}-{startIndex + visibleNodes.length} of {total}
+            Showing {startIndex + 1}-{startIndex + nodes.length} of {total}
           </div>
           <div className="flex items-center gap-2">
             <button
-              onClick={() => onPageChange(currentPage - 1)}
-              disabled={currentPage === 1}
+              onClick={() => onPageChange('prev')}
+              disabled={page === 1}
               className="px-3 py-1 rounded border border-gray-300 dark:border-gray-700 text-sm disabled:opacity-50"
             >
               Prev
             </button>
             <div className="text-sm text-gray-700 dark:text-gray-300">
-              Page {currentPage} / {totalPages}
+              Page {page} / {totalPages}
             </div>
             <button
-              onClick={() => onPageChange(currentPage + 1)}
-              disabled={currentPage === totalPages}
+              onClick={() => onPageChange('next')}
+              disabled={!hasNextPage}
               className="px-3 py-1 rounded border border-gray-300 dark:border-gray-700 text-sm disabled:opacity-50"
             >
               Next
@@ -382,7 +326,7 @@ export function NodeTable({
         </div>
       )}
 
-      {filteredAndSortedNodes.length === 0 && (
+      {visibleNodes.length === 0 && (
         <div className="text-center py-12 text-gray-500 dark:text-gray-500">
           No nodes found matching your filters.
         </div>
@@ -0,0 +1,158 @@
+'use client';
+
+import { Card } from './Card';
+import { Tooltip } from './Tooltip';
+import { useOnCall } from '@/hooks/useOnCall';
+import { EscalationPolicy, NotificationRoute, NotificationTeam } from '@/types';
+import { UserCheck } from 'lucide-react';
+
+interface OnCallCardProps {
+  operator: string;
+  onOperatorChange: (operator: string) => void;
+  mineOnly: boolean;
+  onMineOnlyChange: (mineOnly: boolean) => void;
+}
+
+function describeRoute(route: NotificationRoute | undefined): string {
+  const parts = [
+    route?.minSeverity && `${route.minSeverity}+`,
+    route?.types?.length && `type: ${route.types.join(', ')}`,
+    route?.nodeTags?.length && `tags: ${route.nodeTags.join(', ')}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' • ') : 'all alerts';
+}
+
+function describeOwnership(team: NotificationTeam): string {
+  const parts = [
+    team.nodeIds?.length && `${team.nodeIds.length} ${team.nodeIds.length === 1 ? 'node' : 'nodes'}`,
+    team.nodeTags?.length && `tags: ${team.nodeTags.join(', ')}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' • ') : 'no nodes';
+}
+
+function describeTiers(policy: EscalationPolicy): string {
+  return policy.tiers.map(tier => `${tier.afterMinutes}m → ${tier.channels.join(', ')}`).join('; ');
+}
+
+/**
+ * Who the dashboard user is, their teams and open alerts, and the escalation policies
+ */
+export function OnCallCard({ operator, onOperatorChange, mineOnly, onMineOnlyChange }: OnCallCardProps) {
+  const { data, isLoading, error } = useOnCall();
+  const me = operator.trim().toLowerCase();
+
+  const title = (
+    <div className="flex items-center gap-2">
+      <UserCheck className="w-5 h-5" />
+      On Call
+      <Tooltip content="Teams own nodes by id or tag, and escalation policies notify further channels while an alert stays unacknowledged. Both are set in the notifications config. Your name is kept in this browser and recorded on the alerts you acknowledge or assign." />
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <Card title={title}>
+        <div className="text-center py-8 text-gray-500 dark:text-gray-400">Loading on-call setup...</div>
+      </Card>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <Card title={title}>
+        <p className="text-sm text-red-600 dark:text-red-400">Failed to load on-call setup</p>
+      </Card>
+    );
+  }
+
+  const myTeams = data.teams.filter(team => team.members?.some(member => member.toLowerCase() === me));
+  const assignedToMe = Object.entries(data.openByAssignee)
+    .filter(([assignee]) => assignee.toLowerCase() === me)
+    .reduce((sum, [, count]) => sum + count, 0);
+
+  return (
+    <Card title={title}>
+      <div className="space-y-4">
+        {data.configError && (
+          <p className="text-sm text-red-600 dark:text-red-400">Notifications config error: {data.configError}</p>
+        )}
+
+        <div className="flex items-end gap-3 flex-wrap">
+          <label className="text-sm space-y-1">
+            <span className="text-gray-600 dark:text-gray-400 block">You are</span>
+            <input
+              list="oncall-operators"
+              className="px-3 py-1.5 border border-gray-300 dark:border-gray-700 rounded-md bg-white dark:bg-gray-800 text-sm"
+              placeholder="Your name"
+              value={operator}
+              onChange={e => onOperatorChange(e.target.value)}
+            />
+            <datalist id="oncall-operators">
+              {data.operators.map(name => <option key={name} value={name} />)}
+            </datalist>
+          </label>
+          <button
+            onClick={() => onMineOnlyChange(!mineOnly)}
+            disabled={!me}
+            className={`text-sm px-3 py-1.5 rounded-md disabled:opacity-50 ${
+              mineOnly
+                ? 'bg-gray-900 dark:bg-gray-100 text-white dark:text-gray-900'
+                : 'border border-gray-300 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-800'
+            }`}
+          >
+            {mineOnly ? 'Showing my open alerts' : 'Show my open alerts'}
+          </button>
+          {me && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {assignedToMe} assigned to you
+              {myTeams.length > 0 && ` • teams: ${myTeams.map(team => team.name).join(', ')}`}
+              {` • ${data.unacknowledged} unacknowledged overall`}
+            </p>
+          )}
+        </div>
+
+        {data.teams.length === 0 && data.escalation.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No teams or escalation policies configured. Add <code>teams</code> and <code>escalation</code> to the
+            notifications config to route ownership and escalate unacknowledged alerts.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <h4 className="text-sm font-semibold mb-2">Teams</h4>
+              <ul className="space-y-2 text-sm">
+                {data.teams.map(team => (
+                  <li key={team.name}>
+                    <span className="font-medium">{team.name}</span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {' '}• {data.openByTeam[team.name] ?? 0} open
+                    </span>
+                    <p className="text-xs text-gray-600 dark:text-gray-400">
+                      {describeOwnership(team)}
+                      {team.members?.length ? ` • ${team.members.join(', ')}` : ''}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <div>
+              <h4 className="text-sm font-semibold mb-2">Escalation</h4>
+              <ul className="space-y-2 text-sm">
+                {data.escalation.map(policy => (
+                  <li key={policy.name}>
+                    <span className="font-medium">{policy.name}</span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {' '}• {describeRoute(policy.route)}
+                      {policy.teams?.length ? ` • ${policy.teams.join(', ')}` : ''}
+                    </span>
+                    <p className="text-xs text-gray-600 dark:text-gray-400">{describeTiers(policy)}</p>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
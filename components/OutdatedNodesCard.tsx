@@ -0,0 +1,99 @@
+'use client';
+
+import Link from 'next/link';
+import { Card } from './Card';
+import { Tooltip } from './Tooltip';
+import { useVersions } from '@/hooks/useVersions';
+import { getAnomalySeverityColor } from '@/lib/clientAnalytics';
+import { cn } from '@/lib/utils';
+import { VersionStatus } from '@/types';
+import { PackageCheck } from 'lucide-react';
+
+// Nodes listed on the dashboard; the rest are summarized as "+N more"
+const MAX_LISTED = 10;
+
+const statusLabels: Array<{ key: VersionStatus; label: string; className: string }> = [
+  { key: 'current', label: 'Current', className: 'text-green-600 dark:text-green-400' },
+  { key: 'outdated', label: 'Outdated', className: 'text-yellow-600 dark:text-yellow-400' },
+  { key: 'unsupported', label: 'Unsupported', className: 'text-red-600 dark:text-red-400' },
+  { key: 'unknown', label: 'Unknown', className: 'text-gray-500 dark:text-gray-400' },
+];
+
+/**
+ * Nodes running versions outside the version policy, most urgent first
+ */
+export function OutdatedNodesCard() {
+  const { data, isLoading, error } = useVersions();
+
+  const title = (
+    <div className="flex items-center gap-2">
+      <PackageCheck className="w-5 h-5" />
+      Outdated Nodes
+      <Tooltip content="Nodes below the minimum supported version are unsupported. Nodes below the recommended version, or too many minor releases behind the version most of the network runs, are outdated. Both raise version_mismatch alerts at ingest." />
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <Card title={title}>
+        <div className="text-center py-8 text-gray-500 dark:text-gray-400">Loading versions...</div>
+      </Card>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <Card title={title}>
+        <p className="text-sm text-red-600 dark:text-red-400">Failed to load version policy</p>
+      </Card>
+    );
+  }
+
+  const { policy, majority, counts, nodes, total } = data;
+  const rules = [
+    majority && `majority ${majority.major}.${majority.minor}.x, up to ${policy.maxMinorBehind} minor behind`,
+    policy.minimumVersion && `minimum ${policy.minimumVersion}`,
+    policy.recommendedVersion && `recommended ${policy.recommendedVersion}`,
+  ].filter(Boolean);
+
+  return (
+    <Card title={title}>
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {statusLabels.map(status => (
+            <div key={status.key} className="text-center p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+              <div className={cn("text-2xl font-bold", status.className)}>{counts[status.key]}</div>
+              <div className="text-sm text-gray-600 dark:text-gray-400 mt-1">{status.label}</div>
+            </div>
+          ))}
+        </div>
+
+        <p className="text-xs text-gray-500 dark:text-gray-500">
+          Policy: {rules.length > 0 ? rules.join(' • ') : 'no versions reported yet'}
+        </p>
+
+        {nodes.length === 0 ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400">All nodes with a known version are within policy.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 dark:divide-gray-800">
+            {nodes.slice(0, MAX_LISTED).map(({ id, check }) => (
+              <li key={id} className="flex flex-wrap items-center justify-between gap-2 py-2 text-sm">
+                <Link href={`/nodes/${encodeURIComponent(id)}`} className="font-mono text-blue-600 dark:text-blue-400 hover:underline">
+                  {id.slice(0, 12)}
+                </Link>
+                <span className={cn("font-mono", check.severity && getAnomalySeverityColor(check.severity))}>
+                  {check.version}
+                </span>
+                <span className="w-full text-xs text-gray-500 dark:text-gray-400">{check.reasons.join(' • ')}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {total > MAX_LISTED && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">+{total - MAX_LISTED} more</p>
+        )}
+      </div>
+    </Card>
+  );
+}
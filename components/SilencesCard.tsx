@@ -0,0 +1,394 @@
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Card } from './Card';
+import { Button } from './Button';
+import { Tooltip } from './Tooltip';
+import { SilenceWithState, useDeleteSilence, useSaveSilence, useSilences } from '@/hooks/useSilences';
+import { describeMatchers, describeRecurrence } from '@/lib/silences';
+import { Anomaly, SilenceInput, SilenceMatchers, SilenceState } from '@/types';
+import { BellOff, Plus, Trash2 } from 'lucide-react';
+
+/**
+ * A silence to start from, e.g. one built from an alert row
+ */
+export interface SilenceDraft {
+  comment: string;
+  matchers: SilenceMatchers;
+}
+
+interface SilencesCardProps {
+  draft?: SilenceDraft | null; // opens the form prefilled
+}
+
+type Timing = 'now' | 'window' | 'recurring';
+
+type SilenceForm = {
+  comment: string;
+  nodeIds: string;
+  regions: string;
+  versions: string;
+  types: string;
+  severities: Anomaly['severity'][];
+  timing: Timing;
+  hours: number; // 'now'
+  startsAt: string; // 'window' (local datetime-local values)
+  endsAt: string;
+  frequency: 'daily' | 'weekly'; // 'recurring'
+  weekdays: number[];
+  startTime: string; // "HH:MM" UTC
+  durationMinutes: number;
+};
+
+const SEVERITIES: Anomaly['severity'][] = ['critical', 'high', 'medium', 'low'];
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const stateBadge: Record<SilenceState, string> = {
+  active: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300',
+  scheduled: 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300',
+  expired: 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400',
+};
+
+const inputClass =
+  'w-full px-3 py-1.5 border border-gray-300 dark:border-gray-700 rounded-md bg-white dark:bg-gray-800 text-sm';
+
+const list = (value?: string[]) => (value ?? []).join(', ');
+const split = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+const localInput = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+function formFromDraft(draft: SilenceDraft): SilenceForm {
+  const now = new Date();
+  return {
+    comment: draft.comment,
+    nodeIds: list(draft.matchers.nodeIds),
+    regions: list(draft.matchers.regions),
+    versions: list(draft.matchers.versions),
+    types: list(draft.matchers.types),
+    severities: draft.matchers.severities ?? [],
+    timing: 'now',
+    hours: 2,
+    startsAt: localInput(now),
+    endsAt: localInput(new Date(now.getTime() + 2 * 60 * 60 * 1000)),
+    frequency: 'weekly',
+    weekdays: [now.getUTCDay()],
+    startTime: '02:00',
+    durationMinutes: 120,
+  };
+}
+
+function toInput(form: SilenceForm): SilenceInput {
+  const matchers: SilenceMatchers = {
+    nodeIds: split(form.nodeIds),
+    regions: split(form.regions),
+    versions: split(form.versions),
+    types: split(form.types),
+    severities: form.severities,
+  };
+  const base = { comment: form.comment, createdBy: 'dashboard', matchers };
+  if (form.timing === 'now') {
+    return { ...base, startsAt: new Date().toISOString(), endsAt: new Date(Date.now() + form.hours * 60 * 60 * 1000).toISOString() };
+  }
+  if (form.timing === 'window') {
+    return { ...base, startsAt: new Date(form.startsAt).toISOString(), endsAt: new Date(form.endsAt).toISOString() };
+  }
+  return {
+    ...base,
+    startsAt: new Date().toISOString(),
+    endsAt: null,
+    recurrence: {
+      frequency: form.frequency,
+      weekdays: form.frequency === 'weekly' ? form.weekdays : undefined,
+      startTime: form.startTime,
+      durationMinutes: form.durationMinutes,
+    },
+  };
+}
+
+function describeTiming(silence: SilenceWithState): string {
+  const range = (start: string | Date, end: string | Date) =>
+    `${format(new Date(start), 'MMM d, HH:mm')} – ${format(new Date(end), 'MMM d, HH:mm')}`;
+  if (silence.recurrence) {
+    const next = silence.window ? ` • ${silence.state === 'active' ? 'now' : 'next'}: ${range(silence.window.start, silence.window.end)}` : '';
+    return `${describeRecurrence(silence.recurrence)}${next}`;
+  }
+  return range(silence.startsAt, silence.endsAt!);
+}
+
+export function SilencesCard({ draft }: SilencesCardProps) {
+  const { data: silences, isLoading, error } = useSilences();
+  const saveSilence = useSaveSilence();
+  const deleteSilence = useDeleteSilence();
+  const [form, setForm] = useState<SilenceForm | null>(draft ? formFromDraft(draft) : null);
+  const [showExpired, setShowExpired] = useState(false);
+
+  const title = (
+    <div className="flex items-center gap-2">
+      <BellOff className="w-5 h-5" />
+      Silences &amp; Maintenance
+      <Tooltip content="Alerts matching an active silence are still recorded but don't send notifications. Use a one-off silence for an incident or planned upgrade, or a recurring maintenance window (times in UTC). An alert still open when its silence ends notifies then." />
+    </div>
+  );
+
+  const edit = (next: SilenceForm | null) => {
+    setForm(next);
+    saveSilence.reset();
+  };
+  const update = (changes: Partial<SilenceForm>) => form && setForm({ ...form, ...changes });
+
+  async function submit() {
+    if (!form) return;
+    try {
+      await saveSilence.mutateAsync(toInput(form));
+      edit(null);
+    } catch {
+      // shown from saveSilence.error
+    }
+  }
+
+  function remove(silence: SilenceWithState) {
+    if (!confirm(`Delete silence "${silence.comment}"? Alerts it covered stay recorded.`)) return;
+    deleteSilence.mutate(silence.id);
+  }
+
+  if (isLoading) {
+    return (
+      <Card title={title}>
+        <div className="text-center py-8 text-gray-500 dark:text-gray-400">Loading silences...</div>
+      </Card>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card title={title}>
+        <p className="text-sm text-red-600 dark:text-red-400">Failed to load silences</p>
+      </Card>
+    );
+  }
+
+  const current = (silences ?? []).filter(silence => silence.state !== 'expired');
+  const expired = (silences ?? []).filter(silence => silence.state === 'expired');
+  const shown = showExpired ? [...current, ...expired] : current;
+
+  return (
+    <Card title={title}>
+      <div id="silences" className="space-y-4">
+        {shown.length > 0 ? (
+          <div className="divide-y divide-gray-200 dark:divide-gray-800">
+            {shown.map(silence => (
+              <div key={silence.id} className="py-3 flex items-start justify-between gap-3">
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className={`font-semibold text-sm ${silence.state === 'expired' ? 'opacity-50' : ''}`}>
+                      {silence.comment}
+                    </span>
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium ${stateBadge[silence.state]}`}>
+                      {silence.state}
+                    </span>
+                    {silence.recurrence && (
+                      <span className="text-xs text-gray-500 dark:text-gray-400">maintenance window</span>
+                    )}
+                  </div>
+                  <p className="text-xs mt-1 text-gray-700 dark:text-gray-300 break-all">{describeMatchers(silence.matchers)}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    {describeTiming(silence)} • by {silence.createdBy}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  {silence.state !== 'expired' && (
+                    <button
+                      onClick={() => saveSilence.mutate({ id: silence.id, endsAt: new Date().toISOString() })}
+                      className="text-xs px-2 py-1 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 rounded"
+                    >
+                      End now
+                    </button>
+                  )}
+                  <button
+                    onClick={() => remove(silence)}
+                    className="p-1.5 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 rounded"
+                    title="Delete silence"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No active or scheduled silences.</p>
+        )}
+
+        <div className="flex items-center gap-3">
+          {!form && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => edit(formFromDraft({ comment: '', matchers: {} }))}
+              className="flex items-center gap-1"
+            >
+              <Plus className="w-4 h-4" />
+              New silence
+            </Button>
+          )}
+          {expired.length > 0 && (
+            <button
+              onClick={() => setShowExpired(!showExpired)}
+              className="text-xs text-gray-600 dark:text-gray-400 hover:underline"
+            >
+              {showExpired ? 'Hide expired' : `Show expired (${expired.length})`}
+            </button>
+          )}
+        </div>
+
+        {form && (
+          <div className="p-4 border border-gray-200 dark:border-gray-800 rounded-lg space-y-3">
+            <label className="text-sm space-y-1 block">
+              <span className="text-gray-600 dark:text-gray-400">Comment</span>
+              <input
+                className={inputClass}
+                placeholder="Upgrading EU nodes to 0.8.1"
+                value={form.comment}
+                onChange={e => update({ comment: e.target.value })}
+              />
+            </label>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Matches alerts that fit every filled-in field; separate several values with commas.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <label className="text-sm space-y-1">
+                <span className="text-gray-600 dark:text-gray-400">Node IDs</span>
+                <input className={`${inputClass} font-mono`} value={form.nodeIds} onChange={e => update({ nodeIds: e.target.value })} />
+              </label>
+              <label className="text-sm space-y-1">
+                <span className="text-gray-600 dark:text-gray-400">Regions (country, code or region)</span>
+                <input className={inputClass} placeholder="Germany, FR" value={form.regions} onChange={e => update({ regions: e.target.value })} />
+              </label>
+              <label className="text-sm space-y-1">
+                <span className="text-gray-600 dark:text-gray-400">Versions (exact or release line)</span>
+                <input className={inputClass} placeholder="0.8.x" value={form.versions} onChange={e => update({ versions: e.target.value })} />
+              </label>
+              <label className="text-sm space-y-1">
+                <span className="text-gray-600 dark:text-gray-400">Alert types</span>
+                <input className={inputClass} placeholder="offline, peer_drop" value={form.types} onChange={e => update({ types: e.target.value })} />
+              </label>
+            </div>
+            <div className="text-sm flex items-center gap-3 flex-wrap">
+              <span className="text-gray-600 dark:text-gray-400">Severities</span>
+              {SEVERITIES.map(severity => (
+                <label key={severity} className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={form.severities.includes(severity)}
+                    onChange={e => update({
+                      severities: e.target.checked
+                        ? [...form.severities, severity]
+                        : form.severities.filter(s => s !== severity),
+                    })}
+                  />
+                  {severity}
+                </label>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+              <label className="text-sm space-y-1">
+                <span className="text-gray-600 dark:text-gray-400">When</span>
+                <select className={inputClass} value={form.timing} onChange={e => update({ timing: e.target.value as Timing })}>
+                  <option value="now">Starting now</option>
+                  <option value="window">One-off window</option>
+                  <option value="recurring">Recurring window</option>
+                </select>
+              </label>
+              {form.timing === 'now' && (
+                <label className="text-sm space-y-1">
+                  <span className="text-gray-600 dark:text-gray-400">For hours</span>
+                  <input
+                    type="number"
+                    min={1}
+                    className={inputClass}
+                    value={form.hours}
+                    onChange={e => update({ hours: parseInt(e.target.value, 10) || 1 })}
+                  />
+                </label>
+              )}
+              {form.timing === 'window' && (
+                <>
+                  <label className="text-sm space-y-1">
+                    <span className="text-gray-600 dark:text-gray-400">Starts</span>
+                    <input type="datetime-local" className={inputClass} value={form.startsAt} onChange={e => update({ startsAt: e.target.value })} />
+                  </label>
+                  <label className="text-sm space-y-1">
+                    <span className="text-gray-600 dark:text-gray-400">Ends</span>
+                    <input type="datetime-local" className={inputClass} value={form.endsAt} onChange={e => update({ endsAt: e.target.value })} />
+                  </label>
+                </>
+              )}
+              {form.timing === 'recurring' && (
+                <>
+                  <label className="text-sm space-y-1">
+                    <span className="text-gray-600 dark:text-gray-400">Repeats</span>
+                    <select
+                      className={inputClass}
+                      value={form.frequency}
+                      onChange={e => update({ frequency: e.target.value as SilenceForm['frequency'] })}
+                    >
+                      <option value="daily">Daily</option>
+                      <option value="weekly">Weekly</option>
+                    </select>
+                  </label>
+                  <label className="text-sm space-y-1">
+                    <span className="text-gray-600 dark:text-gray-400">Starts at (UTC)</span>
+                    <input type="time" className={inputClass} value={form.startTime} onChange={e => update({ startTime: e.target.value })} />
+                  </label>
+                  <label className="text-sm space-y-1">
+                    <span className="text-gray-600 dark:text-gray-400">For minutes</span>
+                    <input
+                      type="number"
+                      min={1}
+                      className={inputClass}
+                      value={form.durationMinutes}
+                      onChange={e => update({ durationMinutes: parseInt(e.target.value, 10) || 1 })}
+                    />
+                  </label>
+                </>
+              )}
+            </div>
+            {form.timing === 'recurring' && form.frequency === 'weekly' && (
+              <div className="text-sm flex items-center gap-3 flex-wrap">
+                <span className="text-gray-600 dark:text-gray-400">On</span>
+                {WEEKDAYS.map((day, index) => (
+                  <label key={day} className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={form.weekdays.includes(index)}
+                      onChange={e => update({
+                        weekdays: e.target.checked
+                          ? [...form.weekdays, index]
+                          : form.weekdays.filter(d => d !== index),
+                      })}
+                    />
+                    {day}
+                  </label>
+                ))}
+              </div>
+            )}
+
+            {saveSilence.error && (
+              <p className="text-sm text-red-600 dark:text-red-400">{saveSilence.error.message}</p>
+            )}
+
+            <div className="flex items-center gap-2">
+              <Button size="sm" onClick={submit} disabled={saveSilence.isPending}>
+                {form.timing === 'recurring' ? 'Create maintenance window' : 'Create silence'}
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => edit(null)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -118,6 +118,7 @@ export function TimeSeriesChart(props: TimeSeriesChartProps) {
     // Add yKey values
     if (yKey) {
       formatted.value = item[yKey];
+      formatted[yKey] = item[yKey];
     }
     if (yKeys) {
       yKeys.forEach(key => {
@@ -0,0 +1,171 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { PeerGraph, forceLayout } from '@/lib/topology';
+import { calculateHealthScore } from '@/lib/health';
+import { versionBucket } from '@/lib/versions';
+import { PeerGraphMetrics, pNode } from '@/types';
+
+export type TopologyColorMode = 'health' | 'version' | 'region';
+
+interface TopologyGraphProps {
+  nodes: pNode[];
+  graph: PeerGraph;
+  metrics: PeerGraphMetrics;
+  colorBy: TopologyColorMode;
+}
+
+const WIDTH = 1000;
+const HEIGHT = 640;
+
+const PALETTE = ['#00d9ff', '#8b5cf6', '#10b981', '#ec4899', '#f59e0b', '#0080ff', '#14b8a6', '#ef4444'];
+const OTHER_COLOR = '#9ca3af';
+const OFFLINE_COLOR = '#6b7280';
+
+const healthLegend = [
+  { label: 'Healthy (80+)', color: '#10b981' },
+  { label: 'Warning (50-79)', color: '#f59e0b' },
+  { label: 'Critical (<50)', color: '#ef4444' },
+  { label: 'Offline', color: OFFLINE_COLOR },
+];
+
+function healthColor(node: pNode): string {
+  if (node.status === 'offline') return OFFLINE_COLOR;
+  const score = calculateHealthScore(node).score;
+  return score >= 80 ? '#10b981' : score >= 50 ? '#f59e0b' : '#ef4444';
+}
+
+function categoryOf(node: pNode, colorBy: TopologyColorMode): string {
+  if (colorBy === 'version') return versionBucket(node.softwareVersion);
+  return node.location?.country || 'unknown';
+}
+
+/**
+ * Force-directed drawing of the peer graph. Cut points are outlined and
+ * bridges dashed; hovering a node highlights its peers, clicking opens it.
+ */
+export function TopologyGraph({ nodes, graph, metrics, colorBy }: TopologyGraphProps) {
+  const router = useRouter();
+  const [hovered, setHovered] = useState<string | null>(null);
+
+  const positions = useMemo(() => forceLayout(graph, WIDTH, HEIGHT), [graph]);
+  const byId = useMemo(() => new Map(nodes.map(node => [node.id, node])), [nodes]);
+  const articulation = useMemo(() => new Set(metrics.articulationPoints), [metrics]);
+  const bridges = useMemo(() => new Set(metrics.bridges.map(([a, b]) => `${a}|${b}`)), [metrics]);
+
+  // Largest categories get their own colour, the rest share one
+  const { colors, legend } = useMemo(() => {
+    if (colorBy === 'health') {
+      return { colors: new Map(nodes.map(node => [node.id, healthColor(node)])), legend: healthLegend };
+    }
+    const counts = new Map<string, number>();
+    for (const node of nodes) {
+      const category = categoryOf(node, colorBy);
+      counts.set(category, (counts.get(category) ?? 0) + 1);
+    }
+    const top = Array.from(counts.entries())
+      .filter(([category]) => category !== 'unknown')
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, PALETTE.length)
+      .map(([category], i) => ({ label: category, color: PALETTE[i] }));
+    const colorOf = new Map(top.map(entry => [entry.label, entry.color]));
+    return {
+      colors: new Map(nodes.map(node => [node.id, colorOf.get(categoryOf(node, colorBy)) ?? OTHER_COLOR])),
+      legend: [...top, { label: 'Other / unknown', color: OTHER_COLOR }],
+    };
+  }, [nodes, colorBy]);
+
+  const neighbors = hovered ? graph.adjacency.get(hovered) : undefined;
+  const hoveredNode = hovered ? byId.get(hovered) : undefined;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-4 flex-wrap text-xs text-gray-600 dark:text-gray-400">
+        {legend.map(entry => (
+          <span key={entry.label} className="inline-flex items-center gap-1.5">
+            <span className="w-3 h-3 rounded-full inline-block" style={{ backgroundColor: entry.color }} />
+            {entry.label}
+          </span>
+        ))}
+        <span className="inline-flex items-center gap-1.5">
+          <span className="w-3 h-3 rounded-full inline-block border-2 border-gray-900 dark:border-white" />
+          Articulation point
+        </span>
+        <span className="inline-flex items-center gap-1.5">
+          <span className="w-5 border-t-2 border-dashed border-red-500 inline-block" />
+          Bridge
+        </span>
+      </div>
+
+      <div className="relative">
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full h-auto bg-gray-50 dark:bg-gray-900/50 rounded-lg"
+          role="img"
+          aria-label="Peer topology graph"
+        >
+          <g>
+            {graph.edges.map(([a, b]) => {
+              const from = positions.get(a)!;
+              const to = positions.get(b)!;
+              const isBridge = bridges.has(`${a}|${b}`) || bridges.has(`${b}|${a}`);
+              const active = hovered !== null && (a === hovered || b === hovered);
+              return (
+                <line
+                  key={`${a}|${b}`}
+                  x1={from.x}
+                  y1={from.y}
+                  x2={to.x}
+                  y2={to.y}
+                  stroke={isBridge ? '#ef4444' : active ? '#0080ff' : '#9ca3af'}
+                  strokeWidth={isBridge || active ? 2 : 0.75}
+                  strokeDasharray={isBridge ? '6 4' : undefined}
+                  strokeOpacity={hovered && !active && !isBridge ? 0.15 : 0.6}
+                />
+              );
+            })}
+          </g>
+          <g>
+            {graph.ids.map(id => {
+              const point = positions.get(id)!;
+              const degree = graph.adjacency.get(id)!.size;
+              const dimmed = hovered !== null && id !== hovered && !neighbors?.has(id);
+              return (
+                <circle
+                  key={id}
+                  cx={point.x}
+                  cy={point.y}
+                  r={4 + Math.sqrt(degree) * 1.5}
+                  fill={colors.get(id) ?? OTHER_COLOR}
+                  fillOpacity={dimmed ? 0.25 : 1}
+                  className={articulation.has(id) ? 'stroke-gray-900 dark:stroke-white cursor-pointer' : 'cursor-pointer'}
+                  stroke={articulation.has(id) ? undefined : 'transparent'}
+                  strokeWidth={articulation.has(id) ? 2.5 : 6}
+                  onMouseEnter={() => setHovered(id)}
+                  onMouseLeave={() => setHovered(null)}
+                  onClick={() => router.push(`/nodes/${encodeURIComponent(id)}`)}
+                >
+                  <title>{`${id} • ${degree} ${degree === 1 ? 'peer' : 'peers'}`}</title>
+                </circle>
+              );
+            })}
+          </g>
+        </svg>
+
+        {hoveredNode && (
+          <div className="absolute top-2 left-2 p-2 rounded-md bg-white/90 dark:bg-gray-800/90 border border-gray-200 dark:border-gray-700 text-xs space-y-0.5 pointer-events-none">
+            <p className="font-mono font-semibold">{hoveredNode.id.length > 20 ? `${hoveredNode.id.slice(0, 8)}...${hoveredNode.id.slice(-6)}` : hoveredNode.id}</p>
+            <p>{neighbors?.size ?? 0} peers in graph • {hoveredNode.status}</p>
+            <p>
+              {hoveredNode.softwareVersion || 'unknown version'} • {hoveredNode.location?.country || 'unknown location'}
+            </p>
+            {articulation.has(hoveredNode.id) && (
+              <p className="text-red-600 dark:text-red-400">Losing this node splits the network</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
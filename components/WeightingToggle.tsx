@@ -0,0 +1,45 @@
+'use client';
+
+import { StakeWeightBasis } from '@/types';
+import { cn } from '@/lib/utils';
+
+export type Weighting = 'count' | 'stake';
+
+interface WeightingToggleProps {
+  value: Weighting;
+  onChange: (value: Weighting) => void;
+  basis: StakeWeightBasis | null; // null disables "by stake"
+}
+
+/**
+ * Switch between statistics by node count and by stake (or by storage
+ * capacity where the network has no stake)
+ */
+export function WeightingToggle({ value, onChange, basis }: WeightingToggleProps) {
+  const options: Array<{ value: Weighting; label: string; disabled?: boolean }> = [
+    { value: 'count', label: 'By count' },
+    { value: 'stake', label: basis === 'storage' ? 'By capacity' : 'By stake', disabled: basis === null },
+  ];
+
+  return (
+    <div className="inline-flex rounded-lg bg-gray-100 dark:bg-gray-800 p-1">
+      {options.map(option => (
+        <button
+          key={option.value}
+          onClick={() => onChange(option.value)}
+          disabled={option.disabled}
+          title={option.disabled ? 'No node reports stake or storage capacity' : undefined}
+          className={cn(
+            'px-3 py-1.5 text-sm rounded-md transition-colors',
+            value === option.value
+              ? 'bg-blue-600 text-white'
+              : 'text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700',
+            option.disabled && 'opacity-50 cursor-not-allowed hover:bg-transparent dark:hover:bg-transparent'
+          )}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
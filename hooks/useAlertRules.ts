@@ -0,0 +1,55 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { AlertRule, AlertRuleInput } from '@/types';
+
+async function readError(res: Response): Promise<Error> {
+  const body = await res.json().catch(() => null);
+  return new Error(body?.error || `Request failed with status ${res.status}`);
+}
+
+/**
+ * Operator-defined alert rules
+ */
+export function useAlertRules() {
+  return useQuery<AlertRule[]>({
+    queryKey: ['alert-rules'],
+    queryFn: async () => {
+      const res = await fetch('/api/alert-rules');
+      if (!res.ok) throw await readError(res);
+      const data = await res.json();
+      return data.rules;
+    },
+    staleTime: 10000,
+  });
+}
+
+/**
+ * Create a rule, or update one when an id is given. Errors carry the API's message.
+ */
+export function useSaveAlertRule() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, ...rule }: Partial<AlertRuleInput> & { id?: string }): Promise<AlertRule> => {
+      const res = await fetch(id ? `/api/alert-rules/${id}` : '/api/alert-rules', {
+        method: id ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(rule),
+      });
+      if (!res.ok) throw await readError(res);
+      return (await res.json()).rule;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['alert-rules'] }),
+  });
+}
+
+export function useDeleteAlertRule() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const res = await fetch(`/api/alert-rules/${id}`, { method: 'DELETE' });
+      if (!res.ok) throw await readError(res);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['alert-rules'] }),
+  });
+}
@@ -0,0 +1,49 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { AlertDurationStats, AlertEvent } from '@/types';
+
+const REFETCH_INTERVAL = 60000; // 1 minute
+
+export interface AlertStatsResponse {
+  days: number;
+  open: number;
+  flapping: number;
+  oldestOpenAt: string | null;
+  raised: number; // alerts created in the window
+  reopened: number; // reopen transitions in the window
+  durations: AlertDurationStats; // alerts resolved in the window
+  byType: Array<AlertDurationStats & { type: string }>;
+}
+
+/**
+ * Alert durations, MTTR and reopen counts over the last `days` days
+ */
+export function useAlertStats(days = 7) {
+  return useQuery<AlertStatsResponse>({
+    queryKey: ['alert-stats', days],
+    queryFn: async () => {
+      const res = await fetch(`/api/alerts/stats?days=${days}`);
+      if (!res.ok) throw new Error(await res.text());
+      return res.json();
+    },
+    refetchInterval: REFETCH_INTERVAL,
+    staleTime: 30000,
+  });
+}
+
+/**
+ * An alert's lifecycle history, fetched only while `enabled`
+ */
+export function useAlertHistory(alertId: string, enabled: boolean) {
+  return useQuery<{ events: AlertEvent[] }>({
+    queryKey: ['alert-history', alertId],
+    queryFn: async () => {
+      const res = await fetch(`/api/alerts/${alertId}`);
+      if (!res.ok) throw new Error(await res.text());
+      return res.json();
+    },
+    enabled,
+    staleTime: 30000,
+  });
+}
@@ -1,7 +1,9 @@
 'use client';
 
 import { useEffect, useMemo, useState } from 'react';
-import { computeClientInsights } from '@/lib/clientAnalytics';
+import { useQueryClient } from '@tanstack/react-query';
+import { computeClientInsights, createBrowserHistoryProvider } from '@/lib/clientAnalytics';
+import { useVersions } from './useVersions';
 import { pNode } from '@/types';
 
 interface AnalyticsResult {
@@ -10,23 +12,33 @@ interface AnalyticsResult {
 }
 
 export function useClientAnalytics(nodes: pNode[]) {
-  const [ready, setReady] = useState(false);
+  const queryClient = useQueryClient();
+  const provider = useMemo(() => createBrowserHistoryProvider(queryClient), [queryClient]);
+  // Version rules need the whole network's majority, not just these nodes'
+  const { data: versions, isPending: versionsPending } = useVersions();
+  const majorityVersion = versions?.majority;
+  const context = useMemo(
+    () => (majorityVersion !== undefined ? { majorityVersion } : undefined),
+    [majorityVersion],
+  );
   const [analytics, setAnalytics] = useState<AnalyticsResult>({
     riskScores: new Map(),
     anomalyMap: new Map(),
   });
 
-  // Wait for client to avoid localStorage on server
-  useEffect(() => {
-    setReady(true);
-  }, []);
-
+  // Effects only run in the browser, so localStorage and fetch are safe here
   useEffect(() => {
-    if (!ready || nodes.length === 0) return;
-    const next = computeClientInsights(nodes);
-    setAnalytics(next);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [nodes, ready]);
+    if (nodes.length === 0 || versionsPending) return;
+    let cancelled = false;
+    computeClientInsights(nodes, provider, context)
+      .then(next => {
+        if (!cancelled) setAnalytics(next);
+      })
+      .catch(error => console.warn('Anomaly detection failed:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [nodes, provider, context, versionsPending]);
 
   return useMemo(
     () => ({
@@ -36,4 +48,3 @@ export function useClientAnalytics(nodes: pNode[]) {
     [analytics],
   );
 }
-
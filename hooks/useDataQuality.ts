@@ -0,0 +1,33 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { DataQualityReport } from '@/types';
+
+const REFETCH_INTERVAL = 30000; // 30 seconds
+
+interface DataQualityResponse {
+  report: DataQualityReport;
+  history: Array<{
+    timestamp: string;
+    totalNodes: number;
+    nodesWithIssues: number;
+    issueCount: number;
+  }>;
+  source: 'db' | 'live';
+}
+
+/**
+ * Latest data-quality report (field coverage and validation issues from the last ingest)
+ */
+export function useDataQuality() {
+  return useQuery<DataQualityResponse>({
+    queryKey: ['data-quality'],
+    queryFn: async () => {
+      const res = await fetch('/api/data-quality');
+      if (!res.ok) throw new Error(await res.text());
+      return res.json();
+    },
+    refetchInterval: REFETCH_INTERVAL,
+    staleTime: 10000,
+  });
+}
@@ -0,0 +1,22 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import type { PoolStatus } from '@/lib/rpcPool';
+
+const REFETCH_INTERVAL = 30000; // 30 seconds
+
+/**
+ * Health of the configured pRPC seed endpoints (circuit state, latency, last error)
+ */
+export function useEndpointStatus() {
+  return useQuery<PoolStatus>({
+    queryKey: ['endpoint-status'],
+    queryFn: async () => {
+      const res = await fetch('/api/endpoints');
+      if (!res.ok) throw new Error(await res.text());
+      return res.json();
+    },
+    refetchInterval: REFETCH_INTERVAL,
+    staleTime: 10000,
+  });
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { StakeWeightBasis } from '@/types';
+
+const REFETCH_INTERVAL = 30000; // 30 seconds
+
+export interface NetworkHistorySnapshot {
+  id: number;
+  timestamp: string;
+  totalNodes: number;
+  onlineNodes: number;
+  offlineNodes: number;
+  versionDistribution: Record<string, number>;
+  regionDistribution: Record<string, number>;
+  asnDistribution: Record<string, number>;
+  providerDistribution: Record<string, number>;
+  providerHhi: number | null;
+  providerTop3Share: number | null;
+  providerNakamoto: number | null;
+  countryHhi: number | null;
+  countryTop3Share: number | null;
+  countryNakamoto: number | null;
+  // Peer graph connectivity; null when no node reported peers
+  peerNodes: number | null;
+  peerLinks: number | null;
+  peerComponents: number | null;
+  largestComponentShare: number | null;
+  isolatedNodes: number | null;
+  articulationPoints: number | null;
+  bridgeLinks: number | null;
+  peerMinCut: number | null;
+  // Stake-weighted statistics; null when no node had stake or storage capacity
+  stakeBasis: StakeWeightBasis | null;
+  totalStake: number | null;
+  onlineStakeShare: number | null;
+  stakeNakamoto: number | null;
+  stakeVersionDistribution: Record<string, number> | null;
+  stakeRegionDistribution: Record<string, number> | null;
+}
+
+/**
+ * Stored network snapshots for the last `hours` hours (empty without a database)
+ */
+export function useNetworkHistory(hours: number = 168) {
+  return useQuery<NetworkHistorySnapshot[]>({
+    queryKey: ['network-history', hours],
+    queryFn: async () => {
+      const res = await fetch(`/api/history/network?hours=${hours}`);
+      if (!res.ok) throw new Error(await res.text());
+      const data = await res.json();
+      return data.snapshots || [];
+    },
+    refetchInterval: REFETCH_INTERVAL,
+    staleTime: 10000,
+  });
+}
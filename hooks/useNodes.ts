@@ -1,40 +1,46 @@
 'use client';
 
-import { useQuery } from '@tanstack/react-query';
-import { fetchpNodeById, fetchNodeMetrics } from '@/lib/prpc';
-import { pNode, pNodeMetrics } from '@/types';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { fetchNodeMetrics } from '@/lib/prpc';
+import { DEFAULT_NODE_PAGE_SIZE, nodeQueryToSearchParams } from '@/lib/nodeQuery';
+import { pNode, pNodeMetrics, MetricsRange, NodeQuery } from '@/types';
 
 const REFETCH_INTERVAL = 30000; // 30 seconds
 
-interface UseNodesOptions {
-  page?: number;
+type UseNodesOptions = Partial<Omit<NodeQuery, 'limit'>> & {
   pageSize?: number;
-}
+};
 
 interface PagedNodes {
   nodes: pNode[];
-  total: number;
-  page: number;
+  total: number; // nodes matching the filters, across all pages
   pageSize: number;
+  nextCursor: string | null;
 }
 
+/**
+ * One page of nodes, filtered and sorted server-side.
+ * Pass the previous page's nextCursor as `cursor` to fetch the next one.
+ */
 export function useNodes(options: UseNodesOptions = {}) {
-  const page = options.page ?? 1;
-  const pageSize = options.pageSize ?? 200;
+  const { pageSize = DEFAULT_NODE_PAGE_SIZE, ...query } = options;
+  const params = nodeQueryToSearchParams({ ...query, limit: pageSize }).toString();
 
   return useQuery<PagedNodes>({
-    queryKey: ['nodes', page, pageSize],
+    queryKey: ['nodes', params],
     queryFn: async () => {
-      const res = await fetch(`/api/nodes?page=${page}&pageSize=${pageSize}`);
+      const res = await fetch(`/api/nodes?${params}`);
       if (!res.ok) throw new Error(await res.text());
       const data = await res.json();
       return {
         nodes: data.nodes || [],
         total: data.total || 0,
-        page: data.page || page,
         pageSize: data.pageSize || pageSize,
+        nextCursor: data.nextCursor ?? null,
       };
     },
+    // Keep showing the current page while a new filter/sort/page loads
+    placeholderData: keepPreviousData,
     refetchInterval: REFETCH_INTERVAL,
     staleTime: 10000,
   });
@@ -43,17 +49,24 @@ export function useNodes(options: UseNodesOptions = {}) {
 export function useNode(nodeId: string) {
   return useQuery<pNode | null>({
     queryKey: ['node', nodeId],
-    queryFn: () => fetchpNodeById(nodeId),
+    queryFn: async () => {
+      // Goes through the API so locations are resolved server-side
+      const res = await fetch(`/api/nodes/${encodeURIComponent(nodeId)}`);
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error(await res.text());
+      const data = await res.json();
+      return data.node || null;
+    },
     enabled: !!nodeId,
     refetchInterval: REFETCH_INTERVAL,
     staleTime: 10000,
   });
 }
 
-export function useNodeMetrics(nodeId: string, hours: number = 24) {
+export function useNodeMetrics(nodeId: string, range: MetricsRange = '24h') {
   return useQuery<pNodeMetrics[]>({
-    queryKey: ['node-metrics', nodeId, hours],
-    queryFn: () => fetchNodeMetrics(nodeId, hours),
+    queryKey: ['node-metrics', nodeId, range],
+    queryFn: () => fetchNodeMetrics(nodeId, range),
     enabled: !!nodeId,
     refetchInterval: REFETCH_INTERVAL,
     staleTime: 10000,
@@ -0,0 +1,75 @@
+'use client';
+
+import { useCallback, useSyncExternalStore } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { EscalationPolicy, NotificationTeam } from '@/types';
+
+const REFETCH_INTERVAL = 60000; // 1 minute
+const OPERATOR_KEY = 'xpic_operator_v1';
+
+export interface OnCallResponse {
+  configError: string | null;
+  teams: NotificationTeam[];
+  escalation: EscalationPolicy[];
+  operators: string[]; // members of any team
+  openByTeam: Record<string, number>;
+  openByAssignee: Record<string, number>;
+  unacknowledged: number;
+}
+
+/**
+ * Teams, escalation policies and open alert counts
+ */
+export function useOnCall() {
+  return useQuery<OnCallResponse>({
+    queryKey: ['oncall'],
+    queryFn: async () => {
+      const res = await fetch('/api/oncall');
+      if (!res.ok) throw new Error(await res.text());
+      return res.json();
+    },
+    refetchInterval: REFETCH_INTERVAL,
+    staleTime: 30000,
+  });
+}
+
+// Components reading the operator, told when it changes
+const operatorListeners = new Set<() => void>();
+
+function subscribeOperator(listener: () => void) {
+  operatorListeners.add(listener);
+  window.addEventListener('storage', listener);
+  return () => {
+    operatorListeners.delete(listener);
+    window.removeEventListener('storage', listener);
+  };
+}
+
+function readOperator(): string {
+  try {
+    return window.localStorage.getItem(OPERATOR_KEY) ?? '';
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * The operator using this browser, as they named themselves. There are no
+ * accounts: the name is kept in localStorage and recorded as the actor of
+ * acknowledgements and other changes made here.
+ */
+export function useOperator() {
+  const operator = useSyncExternalStore(subscribeOperator, readOperator, () => '');
+
+  const setOperator = useCallback((name: string) => {
+    try {
+      if (name) window.localStorage.setItem(OPERATOR_KEY, name);
+      else window.localStorage.removeItem(OPERATOR_KEY);
+    } catch {
+      // ignore
+    }
+    operatorListeners.forEach(listener => listener());
+  }, []);
+
+  return { operator, setOperator };
+}
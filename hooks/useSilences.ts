@@ -0,0 +1,64 @@
+'use client';
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Silence, SilenceInput, SilenceState } from '@/types';
+
+const REFETCH_INTERVAL = 60000; // 1 minute
+
+// A silence as the API returns it
+export interface SilenceWithState extends Silence {
+  state: SilenceState;
+  window: { start: string; end: string } | null; // current or next window; null once expired
+}
+
+async function readError(res: Response): Promise<Error> {
+  const body = await res.json().catch(() => null);
+  return new Error(body?.error || `Request failed with status ${res.status}`);
+}
+
+/**
+ * Silences and maintenance windows, newest first
+ */
+export function useSilences() {
+  return useQuery<SilenceWithState[]>({
+    queryKey: ['silences'],
+    queryFn: async () => {
+      const res = await fetch('/api/silences');
+      if (!res.ok) throw await readError(res);
+      const data = await res.json();
+      return data.silences;
+    },
+    refetchInterval: REFETCH_INTERVAL,
+    staleTime: 10000,
+  });
+}
+
+/**
+ * Create a silence, or update one when an id is given. Errors carry the API's message.
+ */
+export function useSaveSilence() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, ...silence }: Partial<SilenceInput> & { id?: string }): Promise<SilenceWithState> => {
+      const res = await fetch(id ? `/api/silences/${id}` : '/api/silences', {
+        method: id ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(silence),
+      });
+      if (!res.ok) throw await readError(res);
+      return (await res.json()).silence;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['silences'] }),
+  });
+}
+
+export function useDeleteSilence() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const res = await fetch(`/api/silences/${id}`, { method: 'DELETE' });
+      if (!res.ok) throw await readError(res);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['silences'] }),
+  });
+}
@@ -0,0 +1,37 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { CommissionChange, ValidatorPerformance } from '@/types';
+
+const REFETCH_INTERVAL = 30000; // 30 seconds
+
+export interface ValidatorsResponse {
+  summary: {
+    validators: number;
+    delinquent: number;
+    epoch: number | null;
+    medianEarned: number | null; // cluster median credits in the latest epoch
+    averageCommission: number | null;
+  };
+  medians: Array<{ epoch: number; median: number }>; // cluster median credits per epoch, oldest first
+  validators: ValidatorPerformance[]; // best first
+  total: number;
+  commissionChanges: CommissionChange[]; // newest first
+  source: 'db' | 'live';
+}
+
+/**
+ * Validator leaderboard, cluster credit medians and recent commission changes
+ */
+export function useValidators(limit?: number) {
+  return useQuery<ValidatorsResponse>({
+    queryKey: ['validators', limit],
+    queryFn: async () => {
+      const res = await fetch(`/api/validators${limit ? `?limit=${limit}` : ''}`);
+      if (!res.ok) throw new Error(await res.text());
+      return res.json();
+    },
+    refetchInterval: REFETCH_INTERVAL,
+    staleTime: 10000,
+  });
+}
@@ -0,0 +1,32 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { VersionCheck, VersionLine, VersionPolicy, VersionStatus, pNode } from '@/types';
+
+const REFETCH_INTERVAL = 30000; // 30 seconds
+
+export interface VersionsResponse {
+  policy: VersionPolicy;
+  majority: VersionLine | null;
+  distribution: Record<string, number>;
+  counts: Record<VersionStatus, number>;
+  nodes: Array<{ id: string; status: pNode['status']; check: VersionCheck }>; // outdated and unsupported, most urgent first
+  total: number;
+  source: 'db' | 'live';
+}
+
+/**
+ * Version policy, the network's majority release line and the nodes outside the policy
+ */
+export function useVersions(limit?: number) {
+  return useQuery<VersionsResponse>({
+    queryKey: ['versions', limit],
+    queryFn: async () => {
+      const res = await fetch(`/api/versions${limit ? `?limit=${limit}` : ''}`);
+      if (!res.ok) throw new Error(await res.text());
+      return res.json();
+    },
+    refetchInterval: REFETCH_INTERVAL,
+    staleTime: 10000,
+  });
+}
@@ -0,0 +1,8 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  // The scheduler needs Prisma and Node APIs; skip the edge runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startIngestScheduler } = await import('./lib/scheduler');
+    startIngestScheduler();
+  }
+}
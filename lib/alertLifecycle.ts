@@ -0,0 +1,144 @@
+import { AlertDurationStats } from '@/types';
+
+// Alert lifecycle: when ingest resolves an alert on its own, and when a
+// condition that comes back reopens the alert it had before instead of raising
+// a new one. Pure functions; lib/ingest.ts loads the alerts, works out each
+// one's condition and writes the plan (and its AlertEvent rows) back.
+
+export const ALERT_LIFECYCLE = {
+  // Consecutive clear ingests before an alert is resolved (hysteresis)
+  resolveAfterIngests: Math.max(1, parseInt(process.env.ALERT_RESOLVE_AFTER_INGESTS || '2', 10)),
+  // ...and the minimum time it must have been clear for
+  resolveAfterMinutes: Math.max(0, parseInt(process.env.ALERT_RESOLVE_AFTER_MINUTES || '0', 10)),
+  // A condition that returns this soon after its alert resolved reopens that alert
+  reopenWindowMs: Math.max(0, parseInt(process.env.ALERT_REOPEN_WINDOW_MINUTES || '60', 10)) * 60000,
+  // Reopens after which an alert counts as flapping
+  flapThreshold: Math.max(1, parseInt(process.env.ALERT_FLAP_THRESHOLD || '3', 10)),
+};
+
+/**
+ * Whether an open alert's condition holds at this ingest. 'unknown' (e.g. the
+ * node is missing from this ingest) leaves the alert as it is.
+ */
+export type AlertCondition = 'active' | 'clear' | 'unknown';
+
+export interface OpenAlertState {
+  id: string;
+  condition: AlertCondition;
+  clearCount: number;
+  clearSince: Date | null;
+  flapping: boolean;
+}
+
+export interface ResolvedAlertState {
+  id: string;
+  resolvedAt: Date;
+  reopenCount: number;
+  flapping: boolean;
+}
+
+export interface AlertLifecyclePlan {
+  recovered: string[]; // condition back before resolving: clear streak reset
+  startedClearing: string[];
+  stillClearing: string[];
+  resolve: Array<{ id: string; clearCount: number }>;
+}
+
+export interface AlertReopen {
+  id: string;
+  reopenCount: number;
+  flapping: boolean;
+  becameFlapping: boolean;
+}
+
+/**
+ * Clear streaks needed to resolve an alert; flapping alerts wait twice as long
+ */
+export function ingestsToResolve(flapping: boolean, settings = ALERT_LIFECYCLE): number {
+  return flapping ? settings.resolveAfterIngests * 2 : settings.resolveAfterIngests;
+}
+
+/**
+ * Decide what happens to each open alert at this ingest
+ */
+export function planAlertLifecycle(
+  open: OpenAlertState[],
+  now: Date,
+  settings = ALERT_LIFECYCLE
+): AlertLifecyclePlan {
+  const plan: AlertLifecyclePlan = { recovered: [], startedClearing: [], stillClearing: [], resolve: [] };
+
+  for (const alert of open) {
+    if (alert.condition === 'unknown') continue;
+    if (alert.condition === 'active') {
+      if (alert.clearCount > 0) plan.recovered.push(alert.id);
+      continue;
+    }
+
+    const clearCount = alert.clearCount + 1;
+    const clearSince = alert.clearSince ?? now;
+    const clearMs = now.getTime() - clearSince.getTime();
+    if (clearCount >= ingestsToResolve(alert.flapping, settings) && clearMs >= settings.resolveAfterMinutes * 60000) {
+      plan.resolve.push({ id: alert.id, clearCount });
+    } else if (alert.clearCount === 0) {
+      plan.startedClearing.push(alert.id);
+    } else {
+      plan.stillClearing.push(alert.id);
+    }
+  }
+  return plan;
+}
+
+/**
+ * The alert to reopen for a condition that fired again, if it resolved recently enough
+ */
+export function planReopen(
+  resolved: ResolvedAlertState | undefined,
+  now: Date,
+  settings = ALERT_LIFECYCLE
+): AlertReopen | null {
+  if (!resolved || now.getTime() - resolved.resolvedAt.getTime() > settings.reopenWindowMs) return null;
+  const reopenCount = resolved.reopenCount + 1;
+  const flapping = resolved.flapping || reopenCount >= settings.flapThreshold;
+  return { id: resolved.id, reopenCount, flapping, becameFlapping: flapping && !resolved.flapping };
+}
+
+function percentile(sorted: number[], p: number): number {
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1));
+  return sorted[index];
+}
+
+/**
+ * Time-to-resolve statistics for resolved alerts
+ */
+export function summarizeAlertDurations(
+  alerts: Array<{ createdAt: Date | string; resolvedAt: Date | string | null; resolvedBy?: string | null }>
+): AlertDurationStats {
+  const resolved = alerts.filter(alert => alert.resolvedAt);
+  const durations = resolved
+    .map(alert => new Date(alert.resolvedAt!).getTime() - new Date(alert.createdAt).getTime())
+    .filter(ms => ms >= 0)
+    .sort((a, b) => a - b);
+
+  return {
+    resolved: resolved.length,
+    autoResolved: resolved.filter(alert => alert.resolvedBy === 'ingest').length,
+    meanMs: durations.length > 0 ? durations.reduce((sum, ms) => sum + ms, 0) / durations.length : null,
+    medianMs: durations.length > 0 ? percentile(durations, 0.5) : null,
+    p90Ms: durations.length > 0 ? percentile(durations, 0.9) : null,
+  };
+}
+
+/**
+ * Compact duration, e.g. "45s", "12m", "3h 20m", "2d 4h"
+ */
+export function formatAlertDuration(ms: number | null | undefined): string {
+  if (ms === null || ms === undefined) return 'N/A';
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return `${Math.max(0, Math.round(ms / 1000))}s`;
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+  const days = Math.floor(hours / 24);
+  return hours % 24 ? `${days}d ${hours % 24}h` : `${days}d`;
+}
@@ -0,0 +1,480 @@
+import { AlertRule, AlertRuleInput, HealthFactor, HealthScore, pNode } from '@/types';
+import { isDefaulted } from './validation';
+
+// Operator-defined alert rules. A rule's condition is a small expression over
+// node and health-score fields, e.g.
+//
+//   latency > 800 and region == 'Europe'
+//   healthScore < 50 and isValidator
+//   id == 'abc123' and status == 'offline'
+//
+// Comparisons are `field op value` with ==, !=, <, <=, >, >= or `in [...]`,
+// combined with and / or / not (or &&, ||, !) and parentheses; a boolean field
+// on its own is true when set. A comparison on a field the node didn't report
+// is false. Rules fire once the condition has held on `forIngests` consecutive
+// ingests and for at least `forMinutes`. The module is pure, so ingest and the
+// rule editor's preview evaluate conditions identically.
+
+type FieldType = 'number' | 'string' | 'boolean';
+type FieldValue = number | string | boolean | undefined;
+
+interface RuleFieldContext {
+  node: pNode;
+  health: HealthScore;
+  now: number; // ms since epoch
+}
+
+interface RuleField {
+  type: FieldType;
+  description: string;
+  get(ctx: RuleFieldContext): FieldValue;
+}
+
+const factorField = (factor: HealthFactor, label: string): RuleField => ({
+  type: 'number',
+  description: `${label} factor score (0-100)`,
+  get: ({ health }) => health.factors[factor],
+});
+
+/**
+ * Fields a rule condition can refer to
+ */
+export const ALERT_RULE_FIELDS: Record<string, RuleField> = {
+  id: { type: 'string', description: 'Node id', get: ({ node }) => node.id },
+  publicKey: { type: 'string', description: 'Node public key', get: ({ node }) => node.publicKey },
+  status: { type: 'string', description: "'online', 'offline' or 'unknown'", get: ({ node }) => node.status },
+  version: { type: 'string', description: 'Software version', get: ({ node }) => node.softwareVersion },
+  country: { type: 'string', description: 'Country name', get: ({ node }) => node.location?.country },
+  countryCode: { type: 'string', description: 'ISO country code, e.g. DE', get: ({ node }) => node.location?.countryCode },
+  region: { type: 'string', description: 'Region', get: ({ node }) => node.location?.region },
+  city: { type: 'string', description: 'City', get: ({ node }) => node.location?.city },
+  provider: { type: 'string', description: 'Hosting provider', get: ({ node }) => node.network?.provider },
+  asn: { type: 'number', description: 'Autonomous system number', get: ({ node }) => node.network?.asn },
+  isValidator: { type: 'boolean', description: 'Node is a validator', get: ({ node }) => node.metadata?.isValidator === true },
+  latency: {
+    type: 'number',
+    description: 'Latency in ms',
+    get: ({ node }) => (isDefaulted(node, 'latency') ? undefined : node.latency),
+  },
+  peerCount: {
+    type: 'number',
+    description: 'Connected peers',
+    get: ({ node }) => (isDefaulted(node, 'peerCount') ? undefined : node.peerCount),
+  },
+  uptimeHours: {
+    type: 'number',
+    description: 'Uptime in hours',
+    get: ({ node }) => (node.uptime !== undefined ? node.uptime / 3600 : undefined),
+  },
+  storageUsed: { type: 'number', description: 'Used storage in bytes', get: ({ node }) => node.storageUsed },
+  storageCapacity: { type: 'number', description: 'Storage capacity in bytes', get: ({ node }) => node.storageCapacity },
+  storageUsagePercent: {
+    type: 'number',
+    description: 'Used share of storage capacity (0-100)',
+    get: ({ node }) =>
+      node.storageCapacity && node.storageUsed !== undefined ? (node.storageUsed / node.storageCapacity) * 100 : undefined,
+  },
+  lastSeenMinutes: {
+    type: 'number',
+    description: 'Minutes since the node was last seen',
+    get: ({ node, now }) => (isDefaulted(node, 'lastSeen') ? undefined : (now - new Date(node.lastSeen).getTime()) / 60000),
+  },
+  healthScore: { type: 'number', description: 'Health score (0-100)', get: ({ health }) => health.score },
+  healthStatus: { type: 'string', description: "'healthy', 'warning' or 'critical'", get: ({ health }) => health.status },
+  uptimeScore: factorField('uptime', 'Uptime'),
+  latencyScore: factorField('latency', 'Latency'),
+  peerCountScore: factorField('peerCount', 'Peers'),
+  lastSeenScore: factorField('lastSeen', 'Last seen'),
+  storageUsageScore: factorField('storageUsage', 'Storage used'),
+};
+
+// --- parsing ---
+
+type Literal = number | string | boolean;
+type CompareOp = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in';
+
+type RuleExpr =
+  | { kind: 'and' | 'or'; left: RuleExpr; right: RuleExpr }
+  | { kind: 'not'; expr: RuleExpr }
+  | { kind: 'compare'; field: string; op: CompareOp; value: Literal | Literal[] }
+  | { kind: 'flag'; field: string };
+
+type Token =
+  | { type: 'number'; value: number; pos: number }
+  | { type: 'string'; value: string; pos: number }
+  | { type: 'word'; value: string; pos: number }
+  | { type: 'symbol'; value: string; pos: number }
+  | { type: 'end'; pos: number };
+
+const SYMBOLS = ['==', '!=', '<=', '>=', '&&', '||', '<', '>', '!', '(', ')', '[', ']', ','];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (ch === "'" || ch === '"') {
+      const end = source.indexOf(ch, i + 1);
+      if (end === -1) throw new Error(`Unterminated string at position ${i + 1}`);
+      tokens.push({ type: 'string', value: source.slice(i + 1, end), pos: i });
+      i = end + 1;
+      continue;
+    }
+    const number = source.slice(i).match(/^-?\d+(\.\d+)?/);
+    if (number) {
+      tokens.push({ type: 'number', value: parseFloat(number[0]), pos: i });
+      i += number[0].length;
+      continue;
+    }
+    const word = source.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/);
+    if (word) {
+      tokens.push({ type: 'word', value: word[0], pos: i });
+      i += word[0].length;
+      continue;
+    }
+    const symbol = SYMBOLS.find(s => source.startsWith(s, i));
+    if (!symbol) throw new Error(`Unexpected "${ch}" at position ${i + 1}`);
+    tokens.push({ type: 'symbol', value: symbol, pos: i });
+    i += symbol.length;
+  }
+  tokens.push({ type: 'end', pos: source.length });
+  return tokens;
+}
+
+function parseCondition(source: string): RuleExpr {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const describe = (token: Token) =>
+    token.type === 'end' ? 'end of condition' : `"${token.value}" at position ${token.pos + 1}`;
+  const isKeyword = (token: Token, keyword: string) =>
+    token.type === 'word' && token.value.toLowerCase() === keyword;
+  const isSymbol = (token: Token, symbol: string) => token.type === 'symbol' && token.value === symbol;
+  const expect = (symbol: string) => {
+    const token = peek();
+    if (!isSymbol(token, symbol)) throw new Error(`Expected "${symbol}" but found ${describe(token)}`);
+    index++;
+  };
+
+  function literal(): Literal {
+    const token = peek();
+    index++;
+    if (token.type === 'number' || token.type === 'string') return token.value;
+    if (isKeyword(token, 'true')) return true;
+    if (isKeyword(token, 'false')) return false;
+    throw new Error(`Expected a value but found ${describe(token)}`);
+  }
+
+  function comparison(): RuleExpr {
+    const token = peek();
+    if (isSymbol(token, '(')) {
+      index++;
+      const expr = or();
+      expect(')');
+      return expr;
+    }
+    if (token.type !== 'word') throw new Error(`Expected a field but found ${describe(token)}`);
+    // Own keys only: inherited ones such as "constructor" aren't fields
+    const field = Object.hasOwn(ALERT_RULE_FIELDS, token.value) ? ALERT_RULE_FIELDS[token.value] : undefined;
+    if (!field) throw new Error(`Unknown field "${token.value}" at position ${token.pos + 1}`);
+    index++;
+
+    const next = peek();
+    if (isKeyword(next, 'in')) {
+      index++;
+      expect('[');
+      const values: Literal[] = [];
+      while (!isSymbol(peek(), ']')) {
+        values.push(literal());
+        if (!isSymbol(peek(), ']')) expect(',');
+      }
+      index++;
+      values.forEach(value => checkType(token.value, field.type, value));
+      return { kind: 'compare', field: token.value, op: 'in', value: values };
+    }
+    if (next.type === 'symbol' && ['==', '!=', '<', '<=', '>', '>='].includes(next.value)) {
+      index++;
+      const op = next.value as CompareOp;
+      const value = literal();
+      checkType(token.value, field.type, value);
+      if (field.type !== 'number' && op !== '==' && op !== '!=') {
+        throw new Error(`${token.value} can only be compared with == or !=`);
+      }
+      return { kind: 'compare', field: token.value, op, value };
+    }
+    if (field.type === 'boolean') return { kind: 'flag', field: token.value };
+    throw new Error(`Expected a comparison after ${token.value} but found ${describe(next)}`);
+  }
+
+  function not(): RuleExpr {
+    const token = peek();
+    if (isKeyword(token, 'not') || isSymbol(token, '!')) {
+      index++;
+      return { kind: 'not', expr: not() };
+    }
+    return comparison();
+  }
+
+  function and(): RuleExpr {
+    let left = not();
+    while (isKeyword(peek(), 'and') || isSymbol(peek(), '&&')) {
+      index++;
+      left = { kind: 'and', left, right: not() };
+    }
+    return left;
+  }
+
+  function or(): RuleExpr {
+    let left = and();
+    while (isKeyword(peek(), 'or') || isSymbol(peek(), '||')) {
+      index++;
+      left = { kind: 'or', left, right: and() };
+    }
+    return left;
+  }
+
+  if (peek().type === 'end') throw new Error('Condition is empty');
+  const expr = or();
+  if (peek().type !== 'end') throw new Error(`Unexpected ${describe(peek())}`);
+  return expr;
+}
+
+function checkType(field: string, type: FieldType, value: Literal): void {
+  if (typeof value !== type) {
+    throw new Error(`${field} is a ${type}; compare it with a ${type}`);
+  }
+}
+
+function collectFields(expr: RuleExpr, fields: Set<string>): Set<string> {
+  switch (expr.kind) {
+    case 'and':
+    case 'or':
+      collectFields(expr.left, fields);
+      collectFields(expr.right, fields);
+      break;
+    case 'not':
+      collectFields(expr.expr, fields);
+      break;
+    default:
+      fields.add(expr.field);
+  }
+  return fields;
+}
+
+function evaluate(expr: RuleExpr, ctx: RuleFieldContext): boolean {
+  switch (expr.kind) {
+    case 'and':
+      return evaluate(expr.left, ctx) && evaluate(expr.right, ctx);
+    case 'or':
+      return evaluate(expr.left, ctx) || evaluate(expr.right, ctx);
+    case 'not':
+      return !evaluate(expr.expr, ctx);
+    case 'flag':
+      return ALERT_RULE_FIELDS[expr.field].get(ctx) === true;
+    case 'compare': {
+      const actual = ALERT_RULE_FIELDS[expr.field].get(ctx);
+      if (actual === undefined) return false;
+      const expected = expr.value;
+      switch (expr.op) {
+        case 'in':
+          return (expected as Literal[]).includes(actual);
+        case '==':
+          return actual === expected;
+        case '!=':
+          return actual !== expected;
+        case '<':
+          return (actual as number) < (expected as number);
+        case '<=':
+          return (actual as number) <= (expected as number);
+        case '>':
+          return (actual as number) > (expected as number);
+        case '>=':
+          return (actual as number) >= (expected as number);
+      }
+    }
+  }
+}
+
+/**
+ * A parsed rule condition
+ */
+export interface CompiledCondition {
+  fields: string[]; // fields the condition refers to
+  matches(node: pNode, health: HealthScore, now?: number): boolean;
+  values(node: pNode, health: HealthScore, now?: number): Record<string, FieldValue>; // the referenced fields' values
+}
+
+/**
+ * Parse a rule condition; throws an Error describing the first problem found
+ */
+export function compileCondition(condition: string): CompiledCondition {
+  const expr = parseCondition(condition);
+  const fields = Array.from(collectFields(expr, new Set()));
+  return {
+    fields,
+    matches: (node, health, now = Date.now()) => evaluate(expr, { node, health, now }),
+    values: (node, health, now = Date.now()) =>
+      Object.fromEntries(fields.map(field => [field, ALERT_RULE_FIELDS[field].get({ node, health, now })])),
+  };
+}
+
+// --- rule input ---
+
+const SEVERITIES: AlertRule['severity'][] = ['low', 'medium', 'high', 'critical'];
+const MAX_FOR_INGESTS = 1000;
+const MAX_FOR_MINUTES = 7 * 24 * 60;
+
+/**
+ * Check a rule from the API. With `partial`, only the given fields are checked
+ * (for updates). Throws an Error describing the first problem found.
+ */
+export function validateAlertRuleInput(input: unknown, partial = false): Partial<AlertRuleInput> {
+  if (!input || typeof input !== 'object') throw new Error('Rule must be a JSON object');
+  const body = input as Record<string, unknown>;
+  const rule: Partial<AlertRuleInput> = {};
+  const has = (key: string) => body[key] !== undefined;
+
+  if (has('name') || !partial) {
+    if (typeof body.name !== 'string' || !body.name.trim()) throw new Error('Rule needs a name');
+    rule.name = body.name.trim();
+  }
+  if (has('description')) {
+    if (body.description !== null && typeof body.description !== 'string') {
+      throw new Error('Rule description must be a string');
+    }
+    rule.description = (body.description as string | null)?.trim() || null;
+  }
+  if (has('condition') || !partial) {
+    if (typeof body.condition !== 'string') throw new Error('Rule needs a condition');
+    try {
+      compileCondition(body.condition);
+    } catch (error) {
+      throw new Error(`Rule condition: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    rule.condition = body.condition.trim();
+  }
+  if (has('severity') || !partial) {
+    if (!SEVERITIES.includes(body.severity as AlertRule['severity'])) {
+      throw new Error(`Rule severity must be one of ${SEVERITIES.join(', ')}`);
+    }
+    rule.severity = body.severity as AlertRule['severity'];
+  }
+  if (has('forIngests')) {
+    const value = body.forIngests;
+    if (!Number.isInteger(value) || (value as number) < 1 || (value as number) > MAX_FOR_INGESTS) {
+      throw new Error(`Rule forIngests must be a whole number from 1 to ${MAX_FOR_INGESTS}`);
+    }
+    rule.forIngests = value as number;
+  }
+  if (has('forMinutes')) {
+    const value = body.forMinutes;
+    if (!Number.isInteger(value) || (value as number) < 0 || (value as number) > MAX_FOR_MINUTES) {
+      throw new Error(`Rule forMinutes must be a whole number from 0 to ${MAX_FOR_MINUTES}`);
+    }
+    rule.forMinutes = value as number;
+  }
+  if (has('enabled')) {
+    if (typeof body.enabled !== 'boolean') throw new Error('Rule enabled must be true or false');
+    rule.enabled = body.enabled;
+  }
+  return rule;
+}
+
+// --- evaluation ---
+
+/**
+ * A node matching a rule on consecutive ingests
+ */
+export interface AlertRuleState {
+  ruleId: string;
+  nodeId: string;
+  since: Date; // first ingest of the current run of matches
+  matches: number; // consecutive matching ingests, including the latest
+}
+
+export interface AlertRuleMatch {
+  rule: AlertRule;
+  nodeId: string;
+  since: Date;
+  matches: number;
+  values: Record<string, FieldValue>;
+}
+
+export interface AlertRuleEvaluation {
+  states: AlertRuleState[]; // every node matching an enabled rule now
+  firing: AlertRuleMatch[]; // matches that have held for the rule's duration
+}
+
+/**
+ * How long a rule's condition must hold, e.g. "3 ingests and 10 min"
+ */
+export function describeRuleDuration(rule: Pick<AlertRule, 'forIngests' | 'forMinutes'>): string {
+  const parts: string[] = [];
+  if (rule.forIngests > 1) parts.push(`${rule.forIngests} ingests`);
+  if (rule.forMinutes > 0) parts.push(`${rule.forMinutes} min`);
+  return parts.length > 0 ? parts.join(' and ') : 'immediately';
+}
+
+/**
+ * Evaluate rules against one ingest's nodes. `previous` is the state left by
+ * the previous evaluation; nodes that stop matching start over.
+ * Rules whose condition no longer parses, or fails on a node, are skipped with a warning.
+ */
+export function evaluateAlertRules(
+  rules: AlertRule[],
+  nodes: pNode[],
+  healthScores: Map<string, HealthScore>,
+  previous: AlertRuleState[],
+  now: Date = new Date()
+): AlertRuleEvaluation {
+  const previousByKey = new Map(previous.map(state => [`${state.ruleId}:${state.nodeId}`, state]));
+  const states: AlertRuleState[] = [];
+  const firing: AlertRuleMatch[] = [];
+
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+    let condition: CompiledCondition;
+    try {
+      condition = compileCondition(rule.condition);
+    } catch (error) {
+      console.warn(`Skipping alert rule "${rule.name}" (${rule.id}):`, error);
+      continue;
+    }
+
+    // A rule's states and matches count only if it evaluates on every node
+    const ruleStates: AlertRuleState[] = [];
+    const ruleFiring: AlertRuleMatch[] = [];
+    try {
+      for (const node of nodes) {
+        const health = healthScores.get(node.id);
+        if (!health || !condition.matches(node, health, now.getTime())) continue;
+
+        const last = previousByKey.get(`${rule.id}:${node.id}`);
+        const state: AlertRuleState = {
+          ruleId: rule.id,
+          nodeId: node.id,
+          since: last?.since ?? now,
+          matches: (last?.matches ?? 0) + 1,
+        };
+        ruleStates.push(state);
+
+        const heldMs = now.getTime() - new Date(state.since).getTime();
+        if (state.matches >= rule.forIngests && heldMs >= rule.forMinutes * 60000) {
+          ruleFiring.push({ rule, nodeId: node.id, since: state.since, matches: state.matches, values: condition.values(node, health, now.getTime()) });
+        }
+      }
+    } catch (error) {
+      console.warn(`Skipping alert rule "${rule.name}" (${rule.id}):`, error);
+      continue;
+    }
+    states.push(...ruleStates);
+    firing.push(...ruleFiring);
+  }
+
+  return { states, firing };
+}
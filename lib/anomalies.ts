@@ -0,0 +1,259 @@
+import { Anomaly, AnomalyDetectionConfig, DetectorFinding, DetectorMetric, VersionLine, pNode } from '@/types';
+import { isDefaulted } from './validation';
+import { buildVersionDistribution, checkVersion, majorityVersionLine } from './versions';
+import { ANOMALY_DETECTION_CONFIG, SeasonalBaseline, TimedValue, detectMetricAnomaly } from './detectors';
+import { formatBytes } from './utils';
+
+// Anomaly detection engine shared by ingest (server) and the node table,
+// detail and alerts pages (browser). Both sides run detectNodeAnomalies with
+// the same rules; only where the node's recent history comes from differs
+// (see HistoryProvider), so stored alerts and on-screen badges agree.
+// Fixed thresholds (offline, absolute latency, full storage, sudden peer
+// loss) sit alongside the statistical detectors in lib/detectors.ts.
+// Version rules also need the whole network's majority version (AnomalyContext).
+
+/**
+ * Fixed detection thresholds
+ */
+export const ANOMALY_RULES = {
+  // Absolute latency: above warn → medium, above high → high
+  latencyWarnMs: 1000,
+  latencyHighMs: 2000,
+  // Peer count below this fraction of the previous sample
+  peerDropRatio: 0.5,
+  // Storage usage percent: ≥ warn → medium, ≥ high → high
+  storageWarnPercent: 90,
+  storageHighPercent: 95,
+  // Not seen for longer than stale → high, longer than dead → critical
+  staleAfterMs: 60 * 60 * 1000,
+  deadAfterMs: 24 * 60 * 60 * 1000,
+} as const;
+
+const severityRank: Record<Anomaly['severity'], number> = { low: 1, medium: 2, high: 3, critical: 4 };
+
+/**
+ * One past observation of a node. Null means the value wasn't reported.
+ */
+export interface AnomalySample {
+  timestamp: number; // ms since epoch
+  status?: pNode['status'] | null;
+  latency?: number | null;
+  peerCount?: number | null;
+  storageUsed?: number | null;
+  storageCapacity?: number | null;
+}
+
+/**
+ * History a node's current state is compared with
+ */
+export interface NodeHistoryWindow {
+  recent: AnomalySample[]; // raw samples, oldest first, not including the current state
+  seasonal?: SeasonalBaseline; // hour-of-day baselines, when enough hourly history exists
+}
+
+/**
+ * Source of recent node history for detection
+ */
+export interface HistoryProvider {
+  /**
+   * Each node's history window before `before`: up to window.maxSamples raw
+   * samples from the last window.recentHours, plus seasonal baselines from
+   * the last window.seasonalDays where available (see AnomalyDetectionConfig).
+   * Nodes without history may be missing from the map.
+   */
+  getHistory(nodeIds: string[], before: Date): Promise<Map<string, NodeHistoryWindow>>;
+}
+
+/**
+ * Network-wide inputs for rules that compare a node with the rest of the network
+ */
+export interface AnomalyContext {
+  majorityVersion: VersionLine | null; // release line most nodes run (see majorityVersionLine)
+}
+
+export interface DetectOptions {
+  now?: number; // ms since epoch
+  context?: AnomalyContext;
+  config?: AnomalyDetectionConfig;
+}
+
+/**
+ * Context computed from a full node list
+ */
+export function buildAnomalyContext(nodes: pNode[]): AnomalyContext {
+  return { majorityVersion: majorityVersionLine(buildVersionDistribution(nodes.map(n => n.softwareVersion))) };
+}
+
+/**
+ * Sample of a node's current state, for providers that record history themselves
+ */
+export function toAnomalySample(node: pNode, timestamp: number): AnomalySample {
+  return {
+    timestamp,
+    status: node.status,
+    latency: node.latency ?? null,
+    peerCount: isDefaulted(node, 'peerCount') ? null : node.peerCount,
+    storageUsed: node.storageUsed ?? null,
+    storageCapacity: node.storageCapacity ?? null,
+  };
+}
+
+// Most recent sample with a reported peer count
+function lastReportedPeers(history: AnomalySample[]): number | undefined {
+  for (let i = history.length - 1; i >= 0; i--) {
+    const value = history[i].peerCount;
+    if (typeof value === 'number') return value;
+  }
+  return undefined;
+}
+
+function series(history: AnomalySample[], metric: DetectorMetric): TimedValue[] {
+  const values: TimedValue[] = [];
+  for (const sample of history) {
+    const value = sample[metric];
+    if (typeof value === 'number' && (metric !== 'latency' || value > 0)) {
+      values.push({ timestamp: sample.timestamp, value });
+    }
+  }
+  return values;
+}
+
+function formatMetric(metric: DetectorMetric, value: number): string {
+  if (metric === 'latency') return `${Math.round(value)}ms`;
+  if (metric === 'storageUsed') return formatBytes(value);
+  return String(Math.round(value * 10) / 10);
+}
+
+function describeFinding(finding: DetectorFinding): string {
+  const value = formatMetric(finding.metric, finding.value);
+  const expected = formatMetric(finding.metric, finding.expected);
+  switch (finding.method) {
+    case 'robust_z':
+      return `${value} vs typical ${expected} (robust z=${finding.score.toFixed(1)})`;
+    case 'ewma':
+      return `${value} vs recent baseline ${expected} (EWMA z=${finding.score.toFixed(1)})`;
+    case 'change_point':
+      return `shifted from ${expected} to ${value}`;
+  }
+}
+
+function higher(a: Anomaly['severity'] | null, b: Anomaly['severity'] | null): Anomaly['severity'] | null {
+  if (!a) return b;
+  if (!b) return a;
+  return severityRank[b] > severityRank[a] ? b : a;
+}
+
+/**
+ * Detect anomalies in a node's current state, compared with its history and,
+ * for versions, with the rest of the network
+ */
+export function detectNodeAnomalies(node: pNode, history?: NodeHistoryWindow, options: DetectOptions = {}): Anomaly[] {
+  const { now = Date.now(), context, config = ANOMALY_DETECTION_CONFIG } = options;
+  const recent = history?.recent ?? [];
+  const anomalies: Anomaly[] = [];
+  const timestamp = new Date(now);
+  const add = (anomaly: Omit<Anomaly, 'nodeId' | 'timestamp'>) =>
+    anomalies.push({ nodeId: node.id, timestamp, ...anomaly });
+  const detect = (metric: DetectorMetric, value: number) =>
+    detectMetricAnomaly(metric, series(recent, metric), { timestamp: now, value }, config.metrics[metric], history?.seasonal?.[metric]);
+
+  // Offline, or no heartbeat for a while
+  const lastSeenMs = now - new Date(node.lastSeen).getTime();
+  if (node.status === 'offline') {
+    add({ type: 'offline', severity: 'critical', message: 'Node is offline' });
+  } else if (!isDefaulted(node, 'lastSeen') && lastSeenMs > ANOMALY_RULES.staleAfterMs) {
+    add({
+      type: 'offline',
+      severity: lastSeenMs > ANOMALY_RULES.deadAfterMs ? 'critical' : 'high',
+      message: `Node not seen for ${Math.round(lastSeenMs / 60000)} minutes`,
+      details: { lastSeenMs },
+    });
+  }
+
+  // Latency: absolute level, and deviations from the node's own history
+  if (node.latency !== undefined && node.latency > 0 && !isDefaulted(node, 'latency')) {
+    const absolute = node.latency > ANOMALY_RULES.latencyHighMs ? 'high' : node.latency > ANOMALY_RULES.latencyWarnMs ? 'medium' : null;
+    const finding = detect('latency', node.latency);
+    const severity = higher(absolute, finding?.severity ?? null);
+    if (severity) {
+      add({
+        type: 'latency_spike',
+        severity,
+        message: absolute || !finding
+          ? `High latency detected: ${Math.round(node.latency)}ms`
+          : `Latency anomaly: ${describeFinding(finding)}`,
+        details: { latency: node.latency, ...(finding ? { detector: finding } : {}) },
+      });
+    }
+  }
+
+  // Peer count: sudden loss since the last report, or a drop against the node's history
+  if (!isDefaulted(node, 'peerCount')) {
+    const previousPeers = lastReportedPeers(recent);
+    const sudden = previousPeers !== undefined && node.peerCount < previousPeers * ANOMALY_RULES.peerDropRatio;
+    const finding = detect('peerCount', node.peerCount);
+    const severity = higher(sudden ? 'medium' : null, finding?.severity ?? null);
+    if (severity) {
+      add({
+        type: 'peer_drop',
+        severity,
+        message: sudden || !finding
+          ? `Significant peer count drop: ${previousPeers} → ${node.peerCount}`
+          : `Peer count anomaly: ${describeFinding(finding)}`,
+        details: { previous: previousPeers, current: node.peerCount, ...(finding ? { detector: finding } : {}) },
+      });
+    }
+  }
+
+  // Storage nearly full, or growing unusually fast
+  if (node.storageCapacity && node.storageUsed) {
+    const usagePercent = (node.storageUsed / node.storageCapacity) * 100;
+    const finding = usagePercent < ANOMALY_RULES.storageWarnPercent ? detect('storageUsed', node.storageUsed) : null;
+    if (usagePercent >= ANOMALY_RULES.storageWarnPercent) {
+      add({
+        type: 'storage_anomaly',
+        severity: usagePercent >= ANOMALY_RULES.storageHighPercent ? 'high' : 'medium',
+        message: `Storage nearly full: ${usagePercent.toFixed(1)}%`,
+        details: { usagePercent, used: node.storageUsed, capacity: node.storageCapacity },
+      });
+    } else if (finding) {
+      add({
+        type: 'storage_anomaly',
+        severity: finding.severity,
+        message: `Storage grew unusually fast: ${describeFinding(finding)}`,
+        details: { usagePercent, used: node.storageUsed, detector: finding },
+      });
+    }
+  }
+
+  // Software version outside the version policy
+  const version = checkVersion(node.softwareVersion, context?.majorityVersion ?? null);
+  if (version.severity) {
+    add({
+      type: 'version_mismatch',
+      severity: version.severity,
+      message: `Version ${node.softwareVersion}: ${version.reasons.join('; ')}`,
+      details: { version: node.softwareVersion, status: version.status, reasons: version.reasons },
+    });
+  }
+
+  return anomalies;
+}
+
+/**
+ * Detect anomalies for many nodes, loading their history from `provider`.
+ * Without a context, network-wide rules compare against `nodes` alone.
+ */
+export async function detectAnomaliesForNodes(
+  nodes: pNode[],
+  provider: HistoryProvider,
+  now: Date = new Date(),
+  context: AnomalyContext = buildAnomalyContext(nodes)
+): Promise<Map<string, Anomaly[]>> {
+  const history = await provider.getHistory(nodes.map(n => n.id), now);
+  const result = new Map<string, Anomaly[]>();
+  for (const node of nodes) {
+    result.set(node.id, detectNodeAnomalies(node, history.get(node.id), { now: now.getTime(), context }));
+  }
+  return result;
+}
@@ -0,0 +1,107 @@
+import { AnomalyDetectionConfig, pNode } from '@/types';
+import { prisma } from './db';
+import { AnomalySample, HistoryProvider, NodeHistoryWindow } from './anomalies';
+import { ANOMALY_DETECTION_CONFIG, buildSeasonalBaseline } from './detectors';
+
+// Server-side history for the anomaly engine: recent raw samples from
+// NodeHistory, and hour-of-day baselines from the hourly NodeHistoryRollup
+// rows. Ingest uses it directly; /api/history/nodes?nodeIds= serves the same
+// windows to the browser provider in lib/clientAnalytics.ts.
+
+// Node ids per query, to stay under SQLite's bound-parameter limit
+const HISTORY_QUERY_BATCH = 500;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * History provider reading NodeHistory and hourly rollups, windowed per `config`
+ */
+export function createDbHistoryProvider(config: AnomalyDetectionConfig = ANOMALY_DETECTION_CONFIG): HistoryProvider {
+  const { recentHours, maxSamples, seasonalDays } = config.window;
+
+  return {
+    async getHistory(nodeIds, before) {
+      const since = new Date(before.getTime() - recentHours * HOUR_MS);
+      const seasonalSince = new Date(before.getTime() - seasonalDays * 24 * HOUR_MS);
+      const history = new Map<string, NodeHistoryWindow>();
+      const windowFor = (nodeId: string) => {
+        let window = history.get(nodeId);
+        if (!window) {
+          window = { recent: [] };
+          history.set(nodeId, window);
+        }
+        return window;
+      };
+
+      for (let i = 0; i < nodeIds.length; i += HISTORY_QUERY_BATCH) {
+        const ids = nodeIds.slice(i, i + HISTORY_QUERY_BATCH);
+        const rows = await prisma.nodeHistory.findMany({
+          where: { nodeId: { in: ids }, timestamp: { gte: since, lt: before } },
+          orderBy: { timestamp: 'asc' },
+          select: {
+            nodeId: true,
+            timestamp: true,
+            status: true,
+            latency: true,
+            peerCount: true,
+            storageUsed: true,
+            storageCapacity: true,
+          },
+        });
+        for (const row of rows) {
+          windowFor(row.nodeId).recent.push({
+            timestamp: row.timestamp.getTime(),
+            status: row.status as pNode['status'] | null,
+            latency: row.latency,
+            peerCount: row.peerCount,
+            storageUsed: row.storageUsed,
+            storageCapacity: row.storageCapacity,
+          } satisfies AnomalySample);
+        }
+
+        if (seasonalDays === 0) continue;
+        const rollups = await prisma.nodeHistoryRollup.findMany({
+          where: { nodeId: { in: ids }, resolution: '1h', bucketStart: { gte: seasonalSince, lt: before } },
+          select: { nodeId: true, bucketStart: true, latencyAvg: true, peerCountAvg: true, storageUsedAvg: true },
+        });
+        const hourlyByNode = new Map<string, Array<{ timestamp: number; latency: number | null; peerCount: number | null; storageUsed: number | null }>>();
+        for (const rollup of rollups) {
+          const hourly = hourlyByNode.get(rollup.nodeId) ?? [];
+          hourly.push({
+            timestamp: rollup.bucketStart.getTime(),
+            latency: rollup.latencyAvg,
+            peerCount: rollup.peerCountAvg,
+            storageUsed: rollup.storageUsedAvg,
+          });
+          hourlyByNode.set(rollup.nodeId, hourly);
+        }
+        for (const [nodeId, hourly] of hourlyByNode) {
+          const seasonal = buildSeasonalBaseline(hourly);
+          if (Object.keys(seasonal).length > 0) windowFor(nodeId).seasonal = seasonal;
+        }
+      }
+
+      for (const window of history.values()) {
+        if (window.recent.length > maxSamples) window.recent = window.recent.slice(-maxSamples);
+      }
+      return history;
+    },
+  };
+}
+
+/**
+ * History provider for the bundled detection config
+ */
+export const dbHistoryProvider = createDbHistoryProvider();
+
+/**
+ * Time of the most recent ingest, i.e. the point the current node state dates from.
+ * History before it is what ingest compared the current state against.
+ */
+export async function getLatestIngestTime(): Promise<Date | null> {
+  const latest = await prisma.networkSnapshot.findFirst({
+    orderBy: { timestamp: 'desc' },
+    select: { timestamp: true },
+  });
+  return latest?.timestamp ?? null;
+}
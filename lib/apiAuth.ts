@@ -0,0 +1,21 @@
+import { timingSafeEqual } from 'crypto';
+
+// Shared secret for API routes that write to the database or reach real people
+// (ingestion, test notifications); required in production
+const INGEST_TOKEN = process.env.INGEST_TOKEN;
+
+// Accepts "Authorization: Bearer <token>" or "x-ingest-token: <token>".
+// Without INGEST_TOKEN, only non-production servers accept unauthenticated requests.
+export function isAuthorized(req: Request): boolean {
+  if (!INGEST_TOKEN) {
+    return process.env.NODE_ENV !== 'production';
+  }
+  const header = req.headers.get('authorization');
+  const provided = header?.startsWith('Bearer ')
+    ? header.slice('Bearer '.length).trim()
+    : req.headers.get('x-ingest-token') || '';
+
+  const expected = Buffer.from(INGEST_TOKEN);
+  const actual = Buffer.from(provided);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
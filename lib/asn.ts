@@ -0,0 +1,219 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import maxmind, { AsnResponse, Reader } from 'maxmind';
+import { NodeNetwork, pNode } from '@/types';
+import { lookupIp } from './geoip';
+import { IpRange, IpRangeTable, ipv4ToInt } from './ipRanges';
+
+// Offline IP-to-ASN lookups (server-only: reads from disk).
+// ASN_DATABASE_PATH points at either a MaxMind-format ASN .mmdb (GeoLite2-ASN,
+// IPinfo ASN, ...) or the iptoasn.com ip2asn-v4.tsv dump. Without it, ASN
+// fields from the GeoIP database are used when that database carries them.
+
+const ASN_DATABASE_PATH = process.env.ASN_DATABASE_PATH;
+
+// Upper bound on cached per-IP results (oldest entries are evicted first)
+const MAX_CACHE_ENTRIES = 50000;
+
+export interface AsnRecord {
+  asn: number;
+  organization?: string;
+}
+
+export interface AsnProvider {
+  name: string;
+  lookup(ip: string): AsnRecord | null;
+}
+
+export class MmdbAsnProvider implements AsnProvider {
+  name = 'mmdb';
+
+  constructor(private reader: Reader<AsnResponse>) {}
+
+  lookup(ip: string): AsnRecord | null {
+    if (!maxmind.validate(ip)) return null;
+
+    const record = this.reader.get(ip);
+    if (!record?.autonomous_system_number) return null;
+    return {
+      asn: record.autonomous_system_number,
+      organization: record.autonomous_system_organization,
+    };
+  }
+}
+
+/**
+ * iptoasn.com ip2asn-v4.tsv: tab-separated, no header:
+ *   range_start  range_end  AS_number  country_code  AS_description
+ * AS 0 marks unrouted space and is skipped.
+ */
+export class TsvAsnProvider implements AsnProvider {
+  name = 'tsv';
+  private table: IpRangeTable<AsnRecord>;
+
+  constructor(contents: string) {
+    const ranges: IpRange<AsnRecord>[] = [];
+    for (const line of contents.split(/\r?\n/)) {
+      const [startIp, endIp, asnText, , description] = line.split('\t');
+      const start = ipv4ToInt(startIp || '');
+      const end = ipv4ToInt(endIp || '');
+      const asn = Number(asnText);
+      if (start === null || end === null || start > end || !Number.isInteger(asn) || asn <= 0) continue;
+
+      ranges.push({
+        start,
+        end,
+        record: { asn, organization: description?.trim() || undefined },
+      });
+    }
+    this.table = new IpRangeTable(ranges);
+  }
+
+  lookup(ip: string): AsnRecord | null {
+    return this.table.lookup(ip);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Provider classification
+// ---------------------------------------------------------------------------
+
+// Hosting providers that announce from several ASNs or under legal names that
+// differ from the brand; everything else is grouped by AS organization.
+const KNOWN_PROVIDERS: Array<{ name: string; asns: number[]; pattern: RegExp }> = [
+  { name: 'AWS', asns: [16509, 14618, 8987], pattern: /amazon/i },
+  { name: 'Google Cloud', asns: [15169, 396982, 19527], pattern: /google/i },
+  { name: 'Microsoft Azure', asns: [8075, 8068], pattern: /microsoft/i },
+  { name: 'Hetzner', asns: [24940, 213230, 212317], pattern: /hetzner/i },
+  { name: 'OVHcloud', asns: [16276, 35540], pattern: /\bovh/i },
+  { name: 'DigitalOcean', asns: [14061], pattern: /digitalocean/i },
+  { name: 'Vultr', asns: [20473], pattern: /vultr|choopa/i },
+  { name: 'Akamai (Linode)', asns: [63949], pattern: /linode|akamai/i },
+  { name: 'Contabo', asns: [51167, 40021, 141995], pattern: /contabo/i },
+  { name: 'Oracle Cloud', asns: [31898], pattern: /oracle/i },
+  { name: 'Alibaba Cloud', asns: [45102, 37963], pattern: /alibaba|aliyun/i },
+  { name: 'Tencent Cloud', asns: [132203, 45090], pattern: /tencent/i },
+  { name: 'Scaleway', asns: [12876], pattern: /scaleway|online s\.?a\.?s/i },
+  { name: 'Leaseweb', asns: [60781, 16265, 28753, 30633], pattern: /leaseweb/i },
+  { name: 'IONOS', asns: [8560], pattern: /ionos|1&1/i },
+  { name: 'netcup', asns: [197540], pattern: /netcup/i },
+  { name: 'Cherry Servers', asns: [59642], pattern: /cherry servers/i },
+  { name: 'Latitude.sh', asns: [396356], pattern: /latitude/i },
+  { name: 'Equinix Metal', asns: [54825], pattern: /packet host|equinix/i },
+  { name: 'Teraswitch', asns: [397423], pattern: /teraswitch/i },
+  { name: 'Cloudflare', asns: [13335], pattern: /cloudflare/i },
+];
+
+/**
+ * Normalized hosting-provider name for an AS: a known provider when the ASN
+ * or organization matches one, otherwise the organization itself (or "AS<n>")
+ */
+export function classifyProvider(asn?: number, organization?: string): string | undefined {
+  if (asn === undefined && !organization) return undefined;
+
+  const known =
+    (asn !== undefined && KNOWN_PROVIDERS.find(p => p.asns.includes(asn))) ||
+    (organization && KNOWN_PROVIDERS.find(p => p.pattern.test(organization)));
+  if (known) return known.name;
+
+  return organization || `AS${asn}`;
+}
+
+// ---------------------------------------------------------------------------
+// Provider + cache
+// ---------------------------------------------------------------------------
+
+interface AsnState {
+  provider: Promise<AsnProvider | null> | null;
+  cache: Map<string, AsnRecord | null>;
+}
+
+// Keep the opened database and cache on globalThis so routes (and dev hot reloads) share them
+const globalForAsn = globalThis as unknown as { asn?: AsnState };
+
+function getState(): AsnState {
+  if (!globalForAsn.asn) {
+    globalForAsn.asn = { provider: null, cache: new Map() };
+  }
+  return globalForAsn.asn;
+}
+
+async function openProvider(databasePath: string): Promise<AsnProvider | null> {
+  const resolved = path.resolve(databasePath);
+  try {
+    if (resolved.toLowerCase().endsWith('.tsv')) {
+      const provider = new TsvAsnProvider(readFileSync(resolved, 'utf8'));
+      console.log(`🛰️ Loaded IP-to-ASN TSV database: ${resolved}`);
+      return provider;
+    }
+    const reader = await maxmind.open<AsnResponse>(resolved);
+    console.log(`🛰️ Loaded ASN MMDB database: ${resolved}`);
+    return new MmdbAsnProvider(reader);
+  } catch (error) {
+    console.warn(`⚠️ Could not open ASN database ${resolved}, falling back to GeoIP ASN data:`, error);
+    return null;
+  }
+}
+
+/**
+ * The configured ASN provider, or null when ASN_DATABASE_PATH is unset or unreadable
+ */
+export function getAsnProvider(): Promise<AsnProvider | null> {
+  const state = getState();
+  if (!state.provider) {
+    state.provider = ASN_DATABASE_PATH ? openProvider(ASN_DATABASE_PATH) : Promise.resolve(null);
+  }
+  return state.provider;
+}
+
+/**
+ * Look up the AS for an IP, caching the result (including misses) per IP.
+ * Falls back to the ASN fields of the GeoIP database.
+ */
+export async function lookupAsn(ip: string): Promise<AsnRecord | null> {
+  const state = getState();
+  if (state.cache.has(ip)) {
+    return state.cache.get(ip) ?? null;
+  }
+
+  const provider = await getAsnProvider();
+  let record = provider ? provider.lookup(ip) : null;
+  if (!record) {
+    const geo = await lookupIp(ip);
+    record = geo?.asn ? { asn: geo.asn, organization: geo.asOrganization } : null;
+  }
+
+  if (state.cache.size >= MAX_CACHE_ENTRIES) {
+    const oldest = state.cache.keys().next().value;
+    if (oldest !== undefined) state.cache.delete(oldest);
+  }
+  state.cache.set(ip, record);
+  return record;
+}
+
+/**
+ * Attach ASN, AS organization and hosting provider to nodes from their IP addresses.
+ * Nodes whose IP isn't in any dataset are left without network info.
+ */
+export async function enrichNodesWithNetwork(nodes: pNode[]): Promise<void> {
+  let resolved = 0;
+
+  for (const node of nodes) {
+    if (!node.ipAddress) continue;
+
+    const record = await lookupAsn(node.ipAddress);
+    if (!record) continue;
+
+    const network: NodeNetwork = {
+      asn: record.asn,
+      organization: record.organization,
+      provider: classifyProvider(record.asn, record.organization),
+    };
+    node.network = network;
+    resolved++;
+  }
+
+  if (resolved > 0) {
+    console.log(`🛰️ Resolved ASN for ${resolved} of ${nodes.length} nodes`);
+  }
+}
@@ -1,19 +1,21 @@
+import type { QueryClient } from '@tanstack/react-query';
 import { Anomaly, pNode } from '@/types';
+import {
+  AnomalyContext,
+  AnomalySample,
+  HistoryProvider,
+  NodeHistoryWindow,
+  detectAnomaliesForNodes,
+  toAnomalySample,
+} from './anomalies';
+import { ANOMALY_DETECTION_CONFIG } from './detectors';
 
-type MetricSnapshot = {
-  timestamp: number;
-  latency?: number;
-  peerCount?: number;
-  storageUsed?: number;
-  storageCapacity?: number;
-  uptime?: number;
-  status: pNode['status'];
-};
+const HISTORY_KEY = 'xpic_node_history_v2';
 
-const HISTORY_KEY = 'xpic_node_history_v1';
-const MAX_HISTORY = 50;
+// Node ids per /api/history/nodes request (the route accepts up to 200)
+const HISTORY_FETCH_BATCH = 100;
 
-type History = Record<string, MetricSnapshot[]>;
+type History = Record<string, AnomalySample[]>;
 
 const severityWeights: Record<Anomaly['severity'], number> = {
   critical: 35,
@@ -41,127 +43,93 @@ function persistHistory(history: History) {
   }
 }
 
-function mean(values: number[]): number {
-  if (!values.length) return 0;
-  return values.reduce((sum, v) => sum + v, 0) / values.length;
+// Same observation seen again (a refetch between ingests), ignoring when it was recorded
+function sameObservation(a: AnomalySample, b: AnomalySample): boolean {
+  return a.status === b.status &&
+    a.latency === b.latency &&
+    a.peerCount === b.peerCount &&
+    a.storageUsed === b.storageUsed &&
+    a.storageCapacity === b.storageCapacity;
 }
 
-function stddev(values: number[]): number {
-  if (values.length < 2) return 0;
-  const m = mean(values);
-  const variance = values.reduce((acc, v) => acc + Math.pow(v - m, 2), 0) / (values.length - 1);
-  return Math.sqrt(variance);
+function recordLocalHistory(nodes: pNode[], now: number) {
+  const history = safeParseHistory();
+  for (const node of nodes) {
+    const list = history[node.id] ? [...history[node.id]] : [];
+    const sample = toAnomalySample(node, now);
+    const last = list[list.length - 1];
+    if (last && sameObservation(last, sample)) continue;
+    list.push(sample);
+    history[node.id] = list.slice(-ANOMALY_DETECTION_CONFIG.window.maxSamples);
+  }
+  persistHistory(history);
 }
 
-function zScore(value: number, values: number[]): number {
-  const sigma = stddev(values);
-  if (sigma === 0) return 0;
-  return (value - mean(values)) / sigma;
-}
+/**
+ * Samples this browser recorded itself (see computeClientInsights)
+ */
+export const localHistoryProvider: HistoryProvider = {
+  async getHistory(nodeIds, before) {
+    const since = before.getTime() - ANOMALY_DETECTION_CONFIG.window.recentHours * 60 * 60 * 1000;
+    const local = safeParseHistory();
+    const history = new Map<string, NodeHistoryWindow>();
+    for (const nodeId of nodeIds) {
+      const samples = (local[nodeId] ?? []).filter(s => s.timestamp >= since && s.timestamp < before.getTime());
+      if (samples.length > 0) history.set(nodeId, { recent: samples });
+    }
+    return history;
+  },
+};
 
-function toSnapshot(node: pNode, timestamp: number): MetricSnapshot {
+/**
+ * History provider for the browser. Reads the same history windows ingest
+ * used (via /api/history/nodes?nodeIds=, cached by React Query), so badges
+ * match stored alerts. Nodes the server has no history for (e.g. no database)
+ * fall back to localHistoryProvider. For server samples `before` is decided by
+ * the server: history stops at the latest ingest.
+ */
+export function createBrowserHistoryProvider(queryClient: QueryClient): HistoryProvider {
   return {
-    timestamp,
-    latency: node.latency,
-    peerCount: node.peerCount,
-    storageUsed: node.storageUsed,
-    storageCapacity: node.storageCapacity,
-    uptime: node.uptime,
-    status: node.status,
+    async getHistory(nodeIds, before) {
+      const history = new Map<string, NodeHistoryWindow>();
+
+      for (let i = 0; i < nodeIds.length; i += HISTORY_FETCH_BATCH) {
+        const ids = nodeIds.slice(i, i + HISTORY_FETCH_BATCH);
+        try {
+          const data = await queryClient.fetchQuery({
+            queryKey: ['anomaly-history', ids],
+            queryFn: async () => {
+              const res = await fetch(`/api/history/nodes?nodeIds=${encodeURIComponent(ids.join(','))}`);
+              if (!res.ok) throw new Error(`Failed to fetch anomaly history: ${res.status}`);
+              return res.json() as Promise<{ history: Record<string, NodeHistoryWindow> | unknown[] }>;
+            },
+            staleTime: 10000,
+          });
+          // Without a database the route answers with an empty list
+          if (!Array.isArray(data.history)) {
+            for (const [nodeId, window] of Object.entries(data.history)) {
+              if (window.recent.length > 0 || window.seasonal) history.set(nodeId, window);
+            }
+          }
+        } catch (error) {
+          console.warn('Anomaly history unavailable, using local history:', error);
+        }
+      }
+
+      const missing = nodeIds.filter(nodeId => !history.has(nodeId));
+      if (missing.length > 0) {
+        const local = await localHistoryProvider.getHistory(missing, before);
+        local.forEach((window, nodeId) => history.set(nodeId, window));
+      }
+      return history;
+    },
   };
 }
 
-function updateHistory(nodes: pNode[], current: History): History {
-  const next: History = { ...current };
-  const now = Date.now();
-
-  nodes.forEach((node) => {
-    const list = next[node.id] ? [...next[node.id]] : [];
-    list.push(toSnapshot(node, now));
-    if (list.length > MAX_HISTORY) {
-      list.splice(0, list.length - MAX_HISTORY);
-    }
-    next[node.id] = list;
-  });
-
-  persistHistory(next);
-  return next;
-}
-
-function detectAnomaliesForNode(node: pNode, history: MetricSnapshot[]): Anomaly[] {
-  const anomalies: Anomaly[] = [];
-  if (!history.length) return anomalies;
-
-  const latest = history[history.length - 1];
-  const previous = history[history.length - 2];
-
-  // Offline or missing heartbeat
-  if (node.status === 'offline') {
-    anomalies.push({
-      nodeId: node.id,
-      type: 'offline',
-      severity: 'critical',
-      message: 'Node is offline',
-      timestamp: new Date(),
-    });
-  }
-
-  // Latency spike vs own history
-  if (node.latency && history.length >= 4) {
-    const latencySeries = history.map((h) => h.latency ?? 0).filter(Boolean);
-    const score = zScore(node.latency, latencySeries);
-    if (score >= 2.5) {
-      anomalies.push({
-        nodeId: node.id,
-        type: 'latency_spike',
-        severity: score >= 3 ? 'high' : 'medium',
-        message: `Latency anomaly: ${Math.round(node.latency)}ms (z=${score.toFixed(1)})`,
-        timestamp: new Date(),
-        details: { zScore: score },
-      });
-    }
-  }
-
-  // Peer drop vs previous snapshot
-  if (previous?.peerCount !== undefined && node.peerCount < previous.peerCount * 0.6) {
-    anomalies.push({
-      nodeId: node.id,
-      type: 'peer_drop',
-      severity: 'medium',
-      message: `Peer drop: ${previous.peerCount} → ${node.peerCount}`,
-      timestamp: new Date(),
-      details: { previous: previous.peerCount, current: node.peerCount },
-    });
-  }
-
-  // Storage nearly full or sudden jump
-  if (node.storageCapacity && node.storageUsed) {
-    const usagePercent = (node.storageUsed / node.storageCapacity) * 100;
-    if (usagePercent >= 90) {
-      anomalies.push({
-        nodeId: node.id,
-        type: 'storage_anomaly',
-        severity: usagePercent >= 98 ? 'high' : 'medium',
-        message: `Storage high: ${usagePercent.toFixed(1)}%`,
-        timestamp: new Date(),
-        details: { usagePercent },
-      });
-    } else if (previous?.storageUsed && node.storageUsed > previous.storageUsed * 1.2) {
-      anomalies.push({
-        nodeId: node.id,
-        type: 'storage_anomaly',
-        severity: 'low',
-        message: 'Storage grew unusually fast',
-        timestamp: new Date(),
-        details: { previous: previous.storageUsed, current: node.storageUsed },
-      });
-    }
-  }
-
-  return anomalies;
-}
-
-function deriveRiskScore(node: pNode, anomalies: Anomaly[]): number {
+/**
+ * Risk score (0-100, higher is safer) from a node's current state and its anomalies
+ */
+export function deriveRiskScore(node: pNode, anomalies: Anomaly[]): number {
   let score = 100;
 
   // Status penalty
@@ -224,21 +192,20 @@ export function getAnomalySeverityColor(severity: Anomaly['severity']): string {
   }
 }
 
-export function computeClientInsights(nodes: pNode[]) {
-  const baseHistory = safeParseHistory();
-  const history = updateHistory(nodes, baseHistory);
+/**
+ * Anomalies and risk scores for the given nodes, using the shared anomaly engine.
+ * Pass the network-wide context when `nodes` is only part of the network.
+ */
+export async function computeClientInsights(nodes: pNode[], provider: HistoryProvider, context?: AnomalyContext) {
+  const now = new Date();
+  const anomalyMap = await detectAnomaliesForNodes(nodes, provider, now, context);
+  // Recorded after detection, so a node's own history never includes its current state
+  recordLocalHistory(nodes, now.getTime());
 
   const riskScores = new Map<string, number>();
-  const anomalyMap = new Map<string, Anomaly[]>();
-
   nodes.forEach((node) => {
-    const h = history[node.id] || [];
-    const anomalies = detectAnomaliesForNode(node, h);
-    const riskScore = deriveRiskScore(node, anomalies);
-    riskScores.set(node.id, riskScore);
-    anomalyMap.set(node.id, anomalies);
+    riskScores.set(node.id, deriveRiskScore(node, anomalyMap.get(node.id) ?? []));
   });
 
   return { riskScores, anomalyMap };
 }
-
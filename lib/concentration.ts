@@ -0,0 +1,81 @@
+import { ConcentrationMetrics } from '@/types';
+
+// Concentration (decentralization) metrics over a distribution of nodes per
+// entity, e.g. per hosting provider or per country.
+
+// Share an entity set must exceed to count towards the Nakamoto coefficient.
+// One third is the point at which colluding (or jointly failing) operators
+// can halt a BFT-style network.
+export const NAKAMOTO_THRESHOLD = 1 / 3;
+
+// Distribution keys that mean "we don't know"; they are not an entity
+const UNKNOWN_KEYS = new Set(['unknown', 'Unknown', '']);
+
+function knownCounts(distribution: Record<string, number>): number[] {
+  return Object.entries(distribution)
+    .filter(([key, count]) => !UNKNOWN_KEYS.has(key) && count > 0)
+    .map(([, count]) => count)
+    .sort((a, b) => b - a);
+}
+
+function total(counts: number[]): number {
+  return counts.reduce((sum, c) => sum + c, 0);
+}
+
+/**
+ * Herfindahl-Hirschman index on the 0-10000 scale: the sum of squared
+ * percentage shares. Below 1500 is usually read as unconcentrated, above
+ * 2500 as highly concentrated.
+ */
+export function herfindahlIndex(distribution: Record<string, number>): number {
+  const counts = knownCounts(distribution);
+  const sum = total(counts);
+  if (sum === 0) return 0;
+  return counts.reduce((hhi, c) => hhi + ((c / sum) * 100) ** 2, 0);
+}
+
+/**
+ * Fraction (0-1) of known nodes held by the n largest entities
+ */
+export function topNShare(distribution: Record<string, number>, n: number): number {
+  const counts = knownCounts(distribution);
+  const sum = total(counts);
+  if (sum === 0) return 0;
+  return total(counts.slice(0, n)) / sum;
+}
+
+/**
+ * Fewest entities that together hold more than `threshold` of the known
+ * nodes. Higher is more decentralized; 0 when there is no known entity.
+ */
+export function nakamotoCoefficient(
+  distribution: Record<string, number>,
+  threshold: number = NAKAMOTO_THRESHOLD
+): number {
+  const counts = knownCounts(distribution);
+  const sum = total(counts);
+  if (sum === 0) return 0;
+
+  let held = 0;
+  for (let i = 0; i < counts.length; i++) {
+    held += counts[i];
+    if (held / sum > threshold) return i + 1;
+  }
+  return counts.length;
+}
+
+export function calculateConcentration(distribution: Record<string, number>): ConcentrationMetrics {
+  const all = Object.values(distribution).reduce((sum, c) => sum + c, 0);
+  const known = total(knownCounts(distribution));
+  const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+  return {
+    entities: knownCounts(distribution).length,
+    hhi: Math.round(herfindahlIndex(distribution)),
+    top1Share: round(topNShare(distribution, 1), 4),
+    top3Share: round(topNShare(distribution, 3), 4),
+    top5Share: round(topNShare(distribution, 5), 4),
+    nakamoto: nakamotoCoefficient(distribution),
+    unknownShare: all > 0 ? round((all - known) / all, 4) : 0,
+  };
+}
@@ -0,0 +1,252 @@
+import {
+  Anomaly,
+  AnomalyDetectionConfig,
+  DetectorFinding,
+  DetectorMethod,
+  DetectorMetric,
+  MetricDetectorConfig,
+} from '@/types';
+import detectionConfig from '@/config/anomaly-detection.json';
+
+// Statistical detectors for node metrics, used by the anomaly engine
+// (lib/anomalies.ts). Each metric's recent history is compared with the
+// current value three ways, all on robust statistics so single outliers in
+// the history don't mask or trigger anything:
+//   - robust z-score: distance from the median in MAD-based standard deviations
+//   - EWMA: distance from an exponentially weighted baseline (outliers clipped)
+//   - change point: two-sided CUSUM against the older half of the history,
+//     which catches step changes and slow drifts a single-point test misses
+// Metrics with a daily rhythm can be compared against hour-of-day (UTC)
+// baselines built from hourly rollups. Sensitivity per metric lives in
+// config/anomaly-detection.json.
+
+export const DETECTOR_METRICS: DetectorMetric[] = ['latency', 'peerCount', 'storageUsed'];
+
+// MAD → standard deviation for normally distributed data
+const MAD_SCALE = 1.4826;
+// An hour-of-day slot needs values from at least this many days
+const SEASONAL_MIN_DAYS = 3;
+
+const severityRank: Record<Anomaly['severity'], number> = { low: 1, medium: 2, high: 3, critical: 4 };
+// Preferred method when several reach the same severity
+const methodOrder: DetectorMethod[] = ['robust_z', 'change_point', 'ewma'];
+
+/**
+ * Expected value of each metric per UTC hour of day (index 0-23); null where history is too thin
+ */
+export type SeasonalBaseline = Partial<Record<DetectorMetric, Array<number | null>>>;
+
+export interface TimedValue {
+  timestamp: number; // ms since epoch
+  value: number;
+}
+
+export function median(values: number[]): number {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Median absolute deviation from `center`
+ */
+export function mad(values: number[], center: number = median(values)): number {
+  return median(values.map(v => Math.abs(v - center)));
+}
+
+function robustScale(values: number[], minScale: number): number {
+  return Math.max(MAD_SCALE * mad(values), minScale);
+}
+
+/**
+ * Hour-of-day baselines from hourly samples (e.g. 1h rollup averages) covering several days
+ */
+export function buildSeasonalBaseline(
+  hourly: Array<{ timestamp: number } & Partial<Record<DetectorMetric, number | null>>>
+): SeasonalBaseline {
+  const baseline: SeasonalBaseline = {};
+  for (const metric of DETECTOR_METRICS) {
+    const slots: number[][] = Array.from({ length: 24 }, () => []);
+    for (const sample of hourly) {
+      const value = sample[metric];
+      if (typeof value === 'number') slots[new Date(sample.timestamp).getUTCHours()].push(value);
+    }
+    const medians = slots.map(values => (values.length >= SEASONAL_MIN_DAYS ? median(values) : null));
+    if (medians.some(value => value !== null)) baseline[metric] = medians;
+  }
+  return baseline;
+}
+
+function hourOf(timestamp: number): number {
+  return new Date(timestamp).getUTCHours();
+}
+
+/**
+ * Check a metric's current value against its history (oldest first, not including the current value).
+ * Returns the most severe finding, or null when nothing stands out.
+ */
+export function detectMetricAnomaly(
+  metric: DetectorMetric,
+  history: TimedValue[],
+  current: TimedValue,
+  config: MetricDetectorConfig,
+  seasonal?: Array<number | null>
+): DetectorFinding | null {
+  if (!config.enabled || history.length < config.minSamples) return null;
+
+  // Work on residuals from the hour-of-day baseline when there is one for the current hour
+  const useSeasonal = config.seasonal && seasonal !== undefined && seasonal[hourOf(current.timestamp)] !== null;
+  const offset = (timestamp: number) => (useSeasonal ? seasonal![hourOf(timestamp)] : 0);
+  const residuals = history
+    .filter(sample => offset(sample.timestamp) !== null)
+    .map(sample => sample.value - offset(sample.timestamp)!);
+  if (residuals.length < config.minSamples) return null;
+
+  const currentOffset = offset(current.timestamp)!;
+  const residual = current.value - currentOffset;
+  const directed = (deviation: number) =>
+    config.direction === 'up' ? deviation : config.direction === 'down' ? -deviation : Math.abs(deviation);
+
+  const findings: DetectorFinding[] = [];
+  const consider = (method: DetectorMethod, expectedResidual: number, score: number, levels: { medium: number; high: number }) => {
+    const expected = expectedResidual + currentOffset;
+    const relative = Math.abs(current.value - expected) / Math.max(Math.abs(expected), config.minScale);
+    if (relative < config.minRelativeChange) return;
+
+    let severity: Anomaly['severity'] | null = score >= levels.high ? 'high' : score >= levels.medium ? 'medium' : null;
+    if (!severity) return;
+    if (severityRank[severity] > severityRank[config.maxSeverity]) severity = config.maxSeverity;
+    findings.push({ metric, method, severity, value: current.value, expected, score });
+  };
+
+  // Robust z-score
+  const center = median(residuals);
+  const scale = robustScale(residuals, config.minScale);
+  consider('robust_z', center, directed((residual - center) / scale), config.robustZ);
+
+  // EWMA baseline, with past outliers clipped so one spike doesn't drag it along
+  const clip = config.robustZ.high * scale;
+  const { alpha } = config.ewma;
+  let mean = center;
+  let variance = scale * scale;
+  for (const value of residuals) {
+    const diff = Math.max(center - clip, Math.min(center + clip, value)) - mean;
+    mean += alpha * diff;
+    variance = (1 - alpha) * (variance + alpha * diff * diff);
+  }
+  const ewmaScale = Math.max(Math.sqrt(variance), config.minScale);
+  consider('ewma', mean, directed((residual - mean) / ewmaScale), config.ewma);
+
+  // Change point: CUSUM of the newer half plus the current value, against the older half
+  const { threshold, drift, minRun } = config.changePoint;
+  const reference = residuals.slice(0, Math.ceil(residuals.length / 2));
+  const referenceCenter = median(reference);
+  const referenceScale = robustScale(reference, config.minScale);
+  const series = [...residuals.slice(reference.length), residual].map(value => (value - referenceCenter) / referenceScale);
+  let up = 0;
+  let down = 0;
+  for (const z of series) {
+    up = Math.max(0, up + z - drift);
+    down = Math.max(0, down - z - drift);
+  }
+  // The shift must still hold for the last minRun values, including the current one
+  const tail = series.slice(-minRun);
+  const sustained = tail.length === minRun && (
+    config.direction === 'up' ? tail.every(z => z > drift)
+      : config.direction === 'down' ? tail.every(z => z < -drift)
+        : tail.every(z => z > drift) || tail.every(z => z < -drift)
+  );
+  const sum = config.direction === 'up' ? up : config.direction === 'down' ? down : Math.max(up, down);
+  if (sustained) {
+    consider('change_point', referenceCenter, sum, { medium: threshold, high: threshold * 2 });
+  }
+
+  if (!findings.length) return null;
+  return findings.sort((a, b) =>
+    severityRank[b.severity] - severityRank[a.severity] || methodOrder.indexOf(a.method) - methodOrder.indexOf(b.method)
+  )[0];
+}
+
+// ---------------------------------------------------------------------------
+// Configuration
+// ---------------------------------------------------------------------------
+
+export type DetectionConfigOverrides = {
+  name?: string;
+  window?: Partial<AnomalyDetectionConfig['window']>;
+  metrics?: Partial<{
+    [M in DetectorMetric]: Partial<Omit<MetricDetectorConfig, 'robustZ' | 'ewma' | 'changePoint'>> & {
+      robustZ?: Partial<MetricDetectorConfig['robustZ']>;
+      ewma?: Partial<MetricDetectorConfig['ewma']>;
+      changePoint?: Partial<MetricDetectorConfig['changePoint']>;
+    };
+  }>;
+};
+
+function checkLevels(name: string, metric: DetectorMetric, method: string, levels: { medium: number; high: number }): void {
+  if (!(levels.medium > 0) || !(levels.high >= levels.medium)) {
+    throw new Error(`Anomaly detection config "${name}": ${metric} ${method} needs 0 < medium ≤ high`);
+  }
+}
+
+/**
+ * Check a detection config; throws on the first problem found
+ */
+export function validateDetectionConfig(config: AnomalyDetectionConfig): AnomalyDetectionConfig {
+  const { name, window } = config;
+  if (!name) throw new Error('Anomaly detection config needs a name');
+  if (!(window?.recentHours > 0) || !(window.maxSamples > 0) || !(window.seasonalDays >= 0)) {
+    throw new Error(`Anomaly detection config "${name}": window needs positive recentHours and maxSamples`);
+  }
+  for (const metric of DETECTOR_METRICS) {
+    const settings = config.metrics?.[metric];
+    if (!settings) throw new Error(`Anomaly detection config "${name}": ${metric} is missing`);
+    if (!['up', 'down', 'both'].includes(settings.direction)) {
+      throw new Error(`Anomaly detection config "${name}": ${metric} direction must be up, down or both`);
+    }
+    if (!['low', 'medium', 'high'].includes(settings.maxSeverity)) {
+      throw new Error(`Anomaly detection config "${name}": ${metric} maxSeverity must be low, medium or high`);
+    }
+    if (!(settings.minSamples >= 2) || !(settings.minScale > 0) || !(settings.minRelativeChange >= 0)) {
+      throw new Error(`Anomaly detection config "${name}": ${metric} needs minSamples ≥ 2, minScale > 0 and minRelativeChange ≥ 0`);
+    }
+    checkLevels(name, metric, 'robustZ', settings.robustZ);
+    checkLevels(name, metric, 'ewma', settings.ewma);
+    if (!(settings.ewma.alpha > 0 && settings.ewma.alpha <= 1)) {
+      throw new Error(`Anomaly detection config "${name}": ${metric} ewma.alpha must be in (0, 1]`);
+    }
+    const { threshold, drift, minRun } = settings.changePoint;
+    if (!(threshold > 0) || !(drift >= 0) || !(minRun >= 1)) {
+      throw new Error(`Anomaly detection config "${name}": ${metric} changePoint needs threshold > 0, drift ≥ 0 and minRun ≥ 1`);
+    }
+  }
+  return config;
+}
+
+/**
+ * A config with some settings replaced, e.g. to try a variant in a backtest
+ */
+export function mergeDetectionConfig(base: AnomalyDetectionConfig, overrides: DetectionConfigOverrides): AnomalyDetectionConfig {
+  const metrics = { ...base.metrics };
+  for (const metric of DETECTOR_METRICS) {
+    const override = overrides.metrics?.[metric];
+    if (!override) continue;
+    const settings = base.metrics[metric];
+    metrics[metric] = {
+      ...settings,
+      ...override,
+      robustZ: { ...settings.robustZ, ...override.robustZ },
+      ewma: { ...settings.ewma, ...override.ewma },
+      changePoint: { ...settings.changePoint, ...override.changePoint },
+    };
+  }
+  return validateDetectionConfig({
+    name: overrides.name ?? `${base.name} (modified)`,
+    window: { ...base.window, ...overrides.window },
+    metrics,
+  });
+}
+
+// Bundled at build time, so ingest and the browser detect alike
+export const ANOMALY_DETECTION_CONFIG = validateDetectionConfig(detectionConfig as AnomalyDetectionConfig);
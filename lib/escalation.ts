@@ -0,0 +1,146 @@
+import { Prisma } from '@prisma/client';
+import { EscalationPolicy, NotificationConfig, NotificationMessage, NotificationTeam, pNode } from '@/types';
+import { alertMessage, loadNotificationConfig, matchesRoute, nodeTags } from './notifications';
+import { formatAlertDuration } from './alertLifecycle';
+
+// Alert ownership and escalation (server-only). Teams in the notifications
+// config own nodes by id or tag, and ingest records the owning team on each
+// alert it raises. Escalation policies select alerts by route and team; while
+// such an alert stays open, unacknowledged and unsilenced, each ingest notifies
+// the channels of every tier whose delay has passed. Acknowledging stops the
+// escalation, and unacknowledging restarts its clock.
+
+export interface EscalationCandidate {
+  id: string;
+  type: string;
+  severity: string;
+  message: string;
+  nodeId: string | null;
+  details: string | null;
+  team: string | null;
+  escalationLevel: number;
+  escalationSince: Date | null;
+  createdAt: Date;
+}
+
+export interface Escalation {
+  id: string;
+  policy: string;
+  level: number; // the tier reached, from 1
+  channels: string[];
+}
+
+// Ownership and escalation are extras: a broken config is logged and skipped
+function usableConfig(): NotificationConfig | null {
+  try {
+    return loadNotificationConfig();
+  } catch (error) {
+    console.warn('Notification config unusable, skipping alert ownership and escalation:', error);
+    return null;
+  }
+}
+
+/**
+ * The first team owning a node by id or by one of its tags
+ */
+export function owningTeam(teams: NotificationTeam[], nodeId: string | null, tags: string[]): string | null {
+  const team = teams.find(team =>
+    (nodeId !== null && team.nodeIds?.includes(nodeId)) || team.nodeTags?.some(tag => tags.includes(tag))
+  );
+  return team?.name ?? null;
+}
+
+/**
+ * Teams an operator is a member of (names compare case-insensitively)
+ */
+export function teamsOf(teams: NotificationTeam[], operator: string): string[] {
+  const name = operator.trim().toLowerCase();
+  return teams
+    .filter(team => team.members?.some(member => member.toLowerCase() === name))
+    .map(team => team.name);
+}
+
+/**
+ * The team owning alerts for a node id (null for network alerts), from the current config
+ */
+export function alertTeamResolver(nodes: Map<string, pNode>): (nodeId: string | null | undefined) => string | null {
+  const config = usableConfig();
+  const teams = config?.teams ?? [];
+  return nodeId => {
+    if (teams.length === 0) return null;
+    const node = nodeId ? nodes.get(nodeId) : undefined;
+    const tags = node ? nodeTags(node, config!.tags) : nodeId ? [] : ['network'];
+    return owningTeam(teams, nodeId ?? null, tags);
+  };
+}
+
+/**
+ * The first policy whose route and teams accept the alert
+ */
+export function escalationPolicyFor(
+  policies: EscalationPolicy[],
+  message: NotificationMessage
+): EscalationPolicy | undefined {
+  return policies.find(policy =>
+    matchesRoute(policy.route, message) &&
+    (!policy.teams || (Boolean(message.team) && policy.teams.includes(message.team!)))
+  );
+}
+
+/**
+ * The last tier past `level` whose delay has passed, from 1; 0 when none is due
+ */
+export function dueTier(policy: EscalationPolicy, level: number, since: Date, now: Date): number {
+  const elapsedMinutes = (now.getTime() - since.getTime()) / 60000;
+  let due = 0;
+  policy.tiers.forEach((tier, index) => {
+    if (index + 1 > level && elapsedMinutes >= tier.afterMinutes) due = index + 1;
+  });
+  return due;
+}
+
+/**
+ * Escalations due at this ingest, with deliveries for each tier's enabled channels.
+ * Several tiers falling due at once notify only the last of them.
+ */
+export function buildEscalations(
+  alerts: EscalationCandidate[],
+  nodes: Map<string, pNode>,
+  now: Date = new Date()
+): { escalations: Escalation[]; deliveries: Prisma.NotificationDeliveryCreateManyInput[] } {
+  const escalations: Escalation[] = [];
+  const deliveries: Prisma.NotificationDeliveryCreateManyInput[] = [];
+  const config = usableConfig();
+  const policies = config?.escalation ?? [];
+  if (policies.length === 0) return { escalations, deliveries };
+  const channels = new Map(config!.channels.filter(channel => channel.enabled !== false).map(channel => [channel.name, channel]));
+
+  for (const alert of alerts) {
+    const message = alertMessage(alert, alert.nodeId ? nodes.get(alert.nodeId) : undefined, config!, now);
+    const policy = escalationPolicyFor(policies, message);
+    if (!policy) continue;
+    const since = alert.escalationSince ?? alert.createdAt;
+    const level = dueTier(policy, alert.escalationLevel, since, now);
+    if (level === 0) continue;
+
+    const tier = policy.tiers[level - 1];
+    escalations.push({ id: alert.id, policy: policy.name, level, channels: tier.channels });
+    const escalated: NotificationMessage = {
+      ...message,
+      message: `Escalated (tier ${level}, unacknowledged for ${formatAlertDuration(now.getTime() - since.getTime())}): ${alert.message}`,
+      escalation: { policy: policy.name, tier: level, afterMinutes: tier.afterMinutes },
+    };
+    for (const name of tier.channels) {
+      const channel = channels.get(name);
+      if (!channel) continue;
+      deliveries.push({
+        alertId: alert.id,
+        channel: channel.name,
+        channelType: channel.type,
+        payload: JSON.stringify(escalated),
+        nextAttemptAt: now,
+      });
+    }
+  }
+  return { escalations, deliveries };
+}
@@ -0,0 +1,101 @@
+import { pNode } from '@/types';
+
+// IP-range heuristics for locating nodes when no GeoIP database is available.
+// Results are coarse (continent-level) and always flagged as approximate.
+// Kept free of server-only imports so it can be shared with client code.
+
+/**
+ * Get approximate coordinates for a region
+ * Returns center coordinates for major regions
+ */
+export function getRegionCoordinates(region: string): { latitude: number; longitude: number } | undefined {
+  const regionCoords: Record<string, { latitude: number; longitude: number }> = {
+    'USA': { latitude: 39.8283, longitude: -98.5795 },      // Geographic center of USA
+    'Europe': { latitude: 54.5260, longitude: 15.2551 },    // Center of Europe
+    'Asia': { latitude: 34.0479, longitude: 100.6197 },     // Center of Asia
+    'South America': { latitude: -14.2350, longitude: -51.9253 }, // Center of South America
+    'Africa': { latitude: 8.7832, longitude: 34.5085 },     // Center of Africa
+    'Australia': { latitude: -25.2744, longitude: 133.7751 }, // Center of Australia
+  };
+  
+  return regionCoords[region];
+}
+
+/**
+ * Detect region/country from IP address using simple heuristics
+ * Only a fallback for when no GeoIP database is configured (see geoip.ts)
+ */
+export function detectRegionFromIP(ip: string): string | undefined {
+  // Simple IP range detection (basic heuristic)
+  
+  // Private/local IPs
+  if (ip.startsWith('192.168.') || ip.startsWith('10.') || ip.startsWith('172.')) {
+    return undefined; // Can't determine location for private IPs
+  }
+  
+  // Extract first octet for basic region estimation
+  const parts = ip.split('.');
+  if (parts.length === 4) {
+    const firstOctet = parseInt(parts[0], 10);
+    
+    // Very basic IP range to region mapping (rough estimates)
+    // This is a simplified heuristic - for accurate results, use a geoIP service
+    if (firstOctet >= 1 && firstOctet <= 126) {
+      // Class A - mostly North America, some Asia
+      return 'USA';
+    } else if (firstOctet >= 128 && firstOctet <= 191) {
+      // Class B - mixed regions (simplified to most common)
+      if (firstOctet >= 128 && firstOctet <= 143) return 'Europe';
+      if (firstOctet >= 144 && firstOctet <= 159) return 'USA';
+      if (firstOctet >= 160 && firstOctet <= 175) return 'Asia';
+      if (firstOctet >= 176 && firstOctet <= 191) return 'Europe';
+    } else if (firstOctet >= 192 && firstOctet <= 223) {
+      // Class C - mixed regions
+      if (firstOctet >= 192 && firstOctet <= 207) return 'Europe';
+      if (firstOctet >= 208 && firstOctet <= 223) return 'USA';
+    }
+  }
+  
+  return undefined;
+}
+
+/**
+ * Stable hash of a string in [0, 1), so the same IP always lands on the same spot
+ */
+function unitHash(value: string, seed: number): number {
+  // FNV-1a
+  let hash = 0x811c9dc5 ^ seed;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+/**
+ * Approximate location for an IP from the heuristic region table.
+ * Nodes are spread around the region centre by a deterministic per-IP
+ * offset so they don't all stack on one point and don't move between refreshes.
+ * Returns undefined when the region can't be guessed (e.g. private ranges).
+ */
+export function approximateLocation(ip: string, knownRegion?: string): pNode['location'] | undefined {
+  const region = knownRegion || detectRegionFromIP(ip);
+  if (!region) return undefined;
+
+  const coords = getRegionCoordinates(region);
+  if (!coords) {
+    return { country: region, region, source: 'heuristic', approximate: true };
+  }
+
+  const latOffset = (unitHash(ip, 1) - 0.5) * 20; // ±10 degrees
+  const lngOffset = (unitHash(ip, 2) - 0.5) * 40; // ±20 degrees
+
+  return {
+    country: region,
+    region,
+    latitude: coords.latitude + latOffset,
+    longitude: coords.longitude + lngOffset,
+    source: 'heuristic',
+    approximate: true,
+  };
+}
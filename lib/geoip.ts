@@ -0,0 +1,310 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import maxmind, { Reader, Response } from 'maxmind';
+import { pNode } from '@/types';
+import { approximateLocation } from './geoHeuristics';
+import { IpRange, IpRangeTable, cidrToRange, ipv4ToInt } from './ipRanges';
+
+// Offline GeoIP lookups from a local database file (server-only: reads from disk).
+// GEOIP_DATABASE_PATH points at either a MaxMind-format .mmdb (GeoLite2-City,
+// DB-IP City Lite, IPinfo, ...) or a CSV of IPv4 ranges; see CsvGeoIpProvider.
+// Without a database, nodes fall back to the approximate IP-range heuristics.
+
+const GEOIP_DATABASE_PATH = process.env.GEOIP_DATABASE_PATH;
+
+// Upper bound on cached per-IP results (oldest entries are evicted first)
+const MAX_CACHE_ENTRIES = 50000;
+
+export interface GeoIpRecord {
+  country?: string;
+  countryCode?: string;
+  region?: string; // state / province
+  city?: string;
+  latitude?: number;
+  longitude?: number;
+  asn?: number;
+  asOrganization?: string;
+}
+
+export interface GeoIpProvider {
+  name: string;
+  lookup(ip: string): GeoIpRecord | null;
+}
+
+// ---------------------------------------------------------------------------
+// MMDB
+// ---------------------------------------------------------------------------
+
+// Union of the fields we read from City / ASN / combined MMDB databases
+interface MmdbRecord {
+  country?: { iso_code?: string; names?: { en?: string } };
+  registered_country?: { iso_code?: string; names?: { en?: string } };
+  subdivisions?: Array<{ names?: { en?: string } }>;
+  city?: { names?: { en?: string } };
+  location?: { latitude?: number; longitude?: number };
+  autonomous_system_number?: number;
+  autonomous_system_organization?: string;
+}
+
+export class MmdbGeoIpProvider implements GeoIpProvider {
+  name = 'mmdb';
+
+  constructor(private reader: Reader<Response>) {}
+
+  lookup(ip: string): GeoIpRecord | null {
+    if (!maxmind.validate(ip)) return null;
+
+    const record = this.reader.get(ip) as MmdbRecord | null;
+    if (!record) return null;
+
+    const country = record.country || record.registered_country;
+    return {
+      country: country?.names?.en,
+      countryCode: country?.iso_code,
+      region: record.subdivisions?.[0]?.names?.en,
+      city: record.city?.names?.en,
+      latitude: record.location?.latitude,
+      longitude: record.location?.longitude,
+      asn: record.autonomous_system_number,
+      asOrganization: record.autonomous_system_organization,
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+// Minimal CSV line splitter with support for quoted fields
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        current += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      fields.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  fields.push(current);
+  return fields.map(f => f.trim());
+}
+
+/**
+ * IPv4 range database in CSV form. The first line is a header; columns are
+ * matched by name so extra columns are ignored:
+ *   network (CIDR) or start_ip + end_ip (also ip_start / ip_end)
+ *   country_code, country, region, city, latitude, longitude, asn, as_organization
+ * Rows that overlap are resolved in favour of the narrowest range.
+ */
+export class CsvGeoIpProvider implements GeoIpProvider {
+  name = 'csv';
+  private table: IpRangeTable<GeoIpRecord>;
+
+  constructor(contents: string) {
+    const lines = contents.split(/\r?\n/).filter(l => l.trim().length > 0);
+    const header = splitCsvLine(lines[0] || '').map(h => h.toLowerCase());
+    const col = (...names: string[]) => names.map(n => header.indexOf(n)).find(i => i >= 0) ?? -1;
+
+    const networkCol = col('network', 'cidr');
+    const startCol = col('start_ip', 'ip_start');
+    const endCol = col('end_ip', 'ip_end');
+    const countryCodeCol = col('country_code', 'country_iso_code');
+    const countryCol = col('country', 'country_name');
+    const regionCol = col('region', 'stateprov', 'subdivision');
+    const cityCol = col('city', 'city_name');
+    const latCol = col('latitude', 'lat');
+    const lngCol = col('longitude', 'lng', 'lon');
+    const asnCol = col('asn', 'autonomous_system_number');
+    const asOrgCol = col('as_organization', 'as_org', 'autonomous_system_organization');
+
+    if (networkCol < 0 && (startCol < 0 || endCol < 0)) {
+      throw new Error('GeoIP CSV needs a "network" column or "start_ip"/"end_ip" columns');
+    }
+
+    const text = (row: string[], i: number) => (i >= 0 && row[i] ? row[i] : undefined);
+    const num = (row: string[], i: number) => {
+      const value = text(row, i);
+      const parsed = value !== undefined ? Number(value) : NaN;
+      return Number.isFinite(parsed) ? parsed : undefined;
+    };
+
+    const ranges: IpRange<GeoIpRecord>[] = [];
+    for (const line of lines.slice(1)) {
+      const row = splitCsvLine(line);
+      let bounds: [number, number] | null = null;
+      if (networkCol >= 0) {
+        bounds = cidrToRange(row[networkCol] || '');
+      } else {
+        const start = ipv4ToInt(row[startCol] || '');
+        const end = ipv4ToInt(row[endCol] || '');
+        bounds = start !== null && end !== null && start <= end ? [start, end] : null;
+      }
+      // IPv6 and malformed rows are skipped
+      if (!bounds) continue;
+
+      const asn = text(row, asnCol);
+      ranges.push({
+        start: bounds[0],
+        end: bounds[1],
+        record: {
+          countryCode: text(row, countryCodeCol),
+          country: text(row, countryCol) || text(row, countryCodeCol),
+          region: text(row, regionCol),
+          city: text(row, cityCol),
+          latitude: num(row, latCol),
+          longitude: num(row, lngCol),
+          asn: asn ? Number(asn.replace(/^AS/i, '')) || undefined : undefined,
+          asOrganization: text(row, asOrgCol),
+        },
+      });
+    }
+
+    this.table = new IpRangeTable(ranges);
+  }
+
+  lookup(ip: string): GeoIpRecord | null {
+    return this.table.lookup(ip);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Provider + cache
+// ---------------------------------------------------------------------------
+
+interface GeoIpState {
+  provider: Promise<GeoIpProvider | null> | null;
+  cache: Map<string, GeoIpRecord | null>;
+}
+
+// Keep the opened database and cache on globalThis so routes (and dev hot reloads) share them
+const globalForGeoIp = globalThis as unknown as { geoip?: GeoIpState };
+
+function getState(): GeoIpState {
+  if (!globalForGeoIp.geoip) {
+    globalForGeoIp.geoip = { provider: null, cache: new Map() };
+  }
+  return globalForGeoIp.geoip;
+}
+
+async function openProvider(databasePath: string): Promise<GeoIpProvider | null> {
+  const resolved = path.resolve(databasePath);
+  try {
+    if (resolved.toLowerCase().endsWith('.csv')) {
+      const provider = new CsvGeoIpProvider(readFileSync(resolved, 'utf8'));
+      console.log(`🌍 Loaded GeoIP CSV database: ${resolved}`);
+      return provider;
+    }
+    const reader = await maxmind.open<Response>(resolved);
+    console.log(`🌍 Loaded GeoIP MMDB database: ${resolved}`);
+    return new MmdbGeoIpProvider(reader);
+  } catch (error) {
+    console.warn(`⚠️ Could not open GeoIP database ${resolved}, using approximate locations:`, error);
+    return null;
+  }
+}
+
+/**
+ * The configured GeoIP provider, or null when GEOIP_DATABASE_PATH is unset or unreadable
+ */
+export function getGeoIpProvider(): Promise<GeoIpProvider | null> {
+  const state = getState();
+  if (!state.provider) {
+    state.provider = GEOIP_DATABASE_PATH ? openProvider(GEOIP_DATABASE_PATH) : Promise.resolve(null);
+  }
+  return state.provider;
+}
+
+/**
+ * Look up an IP, caching the result (including misses) per IP
+ */
+export async function lookupIp(ip: string): Promise<GeoIpRecord | null> {
+  const state = getState();
+  if (state.cache.has(ip)) {
+    return state.cache.get(ip) ?? null;
+  }
+
+  const provider = await getGeoIpProvider();
+  const record = provider ? provider.lookup(ip) : null;
+
+  if (state.cache.size >= MAX_CACHE_ENTRIES) {
+    const oldest = state.cache.keys().next().value;
+    if (oldest !== undefined) state.cache.delete(oldest);
+  }
+  state.cache.set(ip, record);
+  return record;
+}
+
+function hasCoordinates(location: pNode['location']): boolean {
+  return location?.latitude !== undefined && location?.longitude !== undefined;
+}
+
+/**
+ * Resolve node locations from their IP addresses.
+ * Locations the node reported itself are kept. Otherwise the GeoIP database
+ * is used, and only when it has no answer do we fall back to the IP-range
+ * heuristics, flagged approximate. Results are deterministic per IP.
+ */
+export async function enrichNodesWithLocation(nodes: pNode[]): Promise<void> {
+  let geoipCount = 0;
+  let approximateCount = 0;
+
+  for (const node of nodes) {
+    if (hasCoordinates(node.location) && node.location?.source !== 'heuristic') {
+      if (node.location && !node.location.source) {
+        node.location = { ...node.location, source: 'reported' };
+      }
+      continue;
+    }
+    if (!node.ipAddress) continue;
+
+    const record = await lookupIp(node.ipAddress);
+    if (record && (record.country || hasCoordinates(record))) {
+      node.location = {
+        country: record.country,
+        countryCode: record.countryCode,
+        region: record.region || record.country,
+        city: record.city,
+        latitude: record.latitude,
+        longitude: record.longitude,
+        source: 'geoip',
+        approximate: false,
+      };
+      node.provenance = { ...node.provenance, location: 'inferred' };
+      geoipCount++;
+      continue;
+    }
+
+    // Keep a reported country/region name if we have one, just add approximate coordinates
+    const knownRegion = node.location?.country || node.location?.region;
+    const approximate = approximateLocation(node.ipAddress, knownRegion);
+    if (approximate) {
+      node.location = {
+        ...approximate,
+        country: node.location?.country || approximate.country,
+        region: node.location?.region || approximate.region,
+        city: node.location?.city,
+      };
+      node.provenance = { ...node.provenance, location: 'inferred' };
+      approximateCount++;
+    }
+  }
+
+  if (geoipCount > 0 || approximateCount > 0) {
+    console.log(`🌍 Located ${geoipCount} nodes via GeoIP, ${approximateCount} approximately from IP ranges`);
+  }
+}
@@ -1,155 +1,90 @@
-import { pNode, HealthScore, Anomaly } from '@/types';
+import { pNode, HealthScore, HealthFactor, HealthFactorResult, HealthProfile } from '@/types';
+import { isDefaulted } from './validation';
+import { getActiveHealthProfile, healthProfileId, matchHealthBand } from './healthProfiles';
+
+// Raw input of each factor in its HEALTH_FACTORS unit, or why it's unavailable
+function factorInput(node: pNode, factor: HealthFactor): number | 'defaulted' | 'missing' {
+  switch (factor) {
+    case 'uptime':
+      if (isDefaulted(node, 'uptime')) return 'defaulted';
+      return node.uptime ? node.uptime / (24 * 3600) : 'missing';
+    case 'latency':
+      if (isDefaulted(node, 'latency')) return 'defaulted';
+      return node.latency !== undefined ? node.latency : 'missing';
+    case 'peerCount':
+      return isDefaulted(node, 'peerCount') ? 'defaulted' : node.peerCount;
+    case 'lastSeen': {
+      if (isDefaulted(node, 'lastSeen')) return 'defaulted';
+      const lastSeenMs = typeof node.lastSeen === 'string'
+        ? Date.now() - new Date(node.lastSeen).getTime()
+        : Date.now() - node.lastSeen.getTime();
+      return lastSeenMs / 60000;
+    }
+    case 'storageUsage':
+      if (isDefaulted(node, 'storageUsed')) return 'defaulted';
+      return node.storageCapacity && node.storageUsed
+        ? (node.storageUsed / node.storageCapacity) * 100
+        : 'missing';
+  }
+}
 
 /**
  * Calculate health score for a pNode
- * Score is 0-100, combining multiple factors
+ * Score is 0-100: a weighted sum of per-factor band scores from the health
+ * profile, with weights normalized over the factors the node actually reports.
+ * Factors whose input was defaulted or is missing are skipped, then the
+ * profile's status caps apply (e.g. offline nodes score at most 20).
  */
-export function calculateHealthScore(node: pNode): HealthScore {
-  let score = 100;
-  const factors = {
-    uptime: 100,
-    latency: 100,
-    peerCount: 100,
-    lastSeen: 100,
-    storageUsage: 100,
-  };
-  
-  // Uptime factor (0-30 points)
-  if (node.uptime) {
-    const uptimeDays = node.uptime / (24 * 3600);
-    factors.uptime = Math.min(100, (uptimeDays / 30) * 100);
-    score = score * 0.3 + factors.uptime * 0.3;
-  }
-  
-  // Latency factor (0-20 points)
-  if (node.latency !== undefined) {
-    if (node.latency < 100) factors.latency = 100;
-    else if (node.latency < 500) factors.latency = 80;
-    else if (node.latency < 1000) factors.latency = 60;
-    else factors.latency = 40;
-    score = score * 0.8 + factors.latency * 0.2;
-  }
-  
-  // Peer count factor (0-20 points)
-  if (node.peerCount < 5) factors.peerCount = 50;
-  else if (node.peerCount < 10) factors.peerCount = 70;
-  else if (node.peerCount < 20) factors.peerCount = 85;
-  else factors.peerCount = 100;
-  score = score * 0.8 + factors.peerCount * 0.2;
-  
-  // Last seen factor (0-15 points)
-  const lastSeenMs = typeof node.lastSeen === 'string' 
-    ? Date.now() - new Date(node.lastSeen).getTime()
-    : Date.now() - node.lastSeen.getTime();
-  const lastSeenMinutes = lastSeenMs / 60000;
-  if (lastSeenMinutes < 5) factors.lastSeen = 100;
-  else if (lastSeenMinutes < 15) factors.lastSeen = 80;
-  else if (lastSeenMinutes < 60) factors.lastSeen = 60;
-  else factors.lastSeen = 30;
-  score = score * 0.85 + factors.lastSeen * 0.15;
-  
-  // Storage usage factor (0-15 points)
-  if (node.storageCapacity && node.storageUsed) {
-    const usagePercent = (node.storageUsed / node.storageCapacity) * 100;
-    if (usagePercent < 70) factors.storageUsage = 100;
-    else if (usagePercent < 85) factors.storageUsage = 80;
-    else if (usagePercent < 95) factors.storageUsage = 60;
-    else factors.storageUsage = 30;
-    score = score * 0.85 + factors.storageUsage * 0.15;
-  }
-  
-  // Status penalty
-  if (node.status === 'offline') {
-    score = Math.min(score, 20);
-  } else if (node.status === 'unknown') {
-    score = Math.min(score, 50);
+export function calculateHealthScore(node: pNode, profile: HealthProfile = getActiveHealthProfile()): HealthScore {
+  const factors = { uptime: 100, latency: 100, peerCount: 100, lastSeen: 100, storageUsage: 100 };
+  const excludedFactors: string[] = [];
+  const inputs = (Object.keys(factors) as HealthFactor[]).map(factor => ({ factor, input: factorInput(node, factor) }));
+
+  const totalWeight = inputs
+    .filter(({ input }) => typeof input === 'number')
+    .reduce((sum, { factor }) => sum + profile.factors[factor].weight, 0);
+
+  const breakdown: HealthFactorResult[] = inputs.map(({ factor, input }) => {
+    if (typeof input !== 'number') {
+      if (input === 'defaulted') excludedFactors.push(factor);
+      return {
+        factor,
+        weight: 0,
+        contribution: 0,
+        rule: input === 'defaulted' ? 'not reported (defaulted), skipped' : 'no data, skipped',
+        excluded: input,
+      };
+    }
+    const { score, rule } = matchHealthBand(factor, profile.factors[factor].bands, input);
+    const weight = totalWeight > 0 ? profile.factors[factor].weight / totalWeight : 0;
+    factors[factor] = score;
+    return { factor, value: input, score, weight, contribution: score * weight, rule };
+  });
+
+  // Nothing to judge the node on: start from a perfect score and let the status caps decide
+  let score = totalWeight > 0 ? breakdown.reduce((sum, f) => sum + f.contribution, 0) : 100;
+
+  let cap: string | undefined;
+  const statusCap = node.status === 'offline' || node.status === 'unknown' ? profile.statusCaps[node.status] : undefined;
+  if (statusCap !== undefined && score > statusCap) {
+    score = statusCap;
+    cap = `status ${node.status} → at most ${statusCap}`;
   }
-  
+
   const finalScore = Math.round(Math.max(0, Math.min(100, score)));
-  
+
   return {
     nodeId: node.id,
     score: finalScore,
-    status: finalScore >= 80 ? 'healthy' : finalScore >= 50 ? 'warning' : 'critical',
+    status: finalScore >= profile.thresholds.healthy ? 'healthy' : finalScore >= profile.thresholds.warning ? 'warning' : 'critical',
     factors,
+    excludedFactors: excludedFactors.length > 0 ? excludedFactors : undefined,
+    profile: healthProfileId(profile),
+    breakdown,
+    cap,
   };
 }
 
-/**
- * Detect anomalies in node behavior
- */
-export function detectAnomalies(node: pNode, previousNode?: pNode): Anomaly[] {
-  const anomalies: Anomaly[] = [];
-  const now = Date.now();
-  const lastSeenMs = typeof node.lastSeen === 'string' 
-    ? now - new Date(node.lastSeen).getTime()
-    : now - node.lastSeen.getTime();
-  
-  // Offline detection
-  if (node.status === 'offline') {
-    anomalies.push({
-      nodeId: node.id,
-      type: 'offline',
-      severity: 'critical',
-      message: 'Node is offline',
-      timestamp: new Date(),
-    });
-  }
-  
-  // Latency spike
-  if (node.latency && node.latency > 1000) {
-    anomalies.push({
-      nodeId: node.id,
-      type: 'latency_spike',
-      severity: node.latency > 2000 ? 'high' : 'medium',
-      message: `High latency detected: ${Math.round(node.latency)}ms`,
-      timestamp: new Date(),
-      details: { latency: node.latency },
-    });
-  }
-  
-  // Peer count drop
-  if (previousNode && node.peerCount < previousNode.peerCount * 0.5) {
-    anomalies.push({
-      nodeId: node.id,
-      type: 'peer_drop',
-      severity: 'medium',
-      message: `Significant peer count drop: ${previousNode.peerCount} → ${node.peerCount}`,
-      timestamp: new Date(),
-      details: { previous: previousNode.peerCount, current: node.peerCount },
-    });
-  }
-  
-  // Storage anomaly
-  if (node.storageCapacity && node.storageUsed) {
-    const usagePercent = (node.storageUsed / node.storageCapacity) * 100;
-    if (usagePercent > 95) {
-      anomalies.push({
-        nodeId: node.id,
-        type: 'storage_anomaly',
-        severity: 'high',
-        message: `Storage nearly full: ${usagePercent.toFixed(1)}%`,
-        timestamp: new Date(),
-        details: { usagePercent, used: node.storageUsed, capacity: node.storageCapacity },
-      });
-    }
-  }
-  
-  // Last seen too long ago
-  if (lastSeenMs > 3600000) { // 1 hour
-    anomalies.push({
-      nodeId: node.id,
-      type: 'offline',
-      severity: lastSeenMs > 86400000 ? 'critical' : 'high',
-      message: `Node not seen for ${Math.round(lastSeenMs / 60000)} minutes`,
-      timestamp: new Date(),
-      details: { lastSeenMs },
-    });
-  }
-  
-  return anomalies;
-}
-
 /**
  * Calculate health scores for all nodes
  */
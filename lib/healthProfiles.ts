@@ -0,0 +1,135 @@
+import { HealthBand, HealthFactor, HealthProfile } from '@/types';
+import profilesConfig from '@/config/health-profiles.json';
+
+// Health scoring profiles. Profiles live in config/health-profiles.json and
+// are bundled at build time, so the server (ingest, history) and the browser
+// score nodes identically. NEXT_PUBLIC_HEALTH_PROFILE selects the active
+// profile; otherwise the config's "default" is used.
+
+/**
+ * Display label and input unit of each health factor
+ */
+export const HEALTH_FACTORS: Record<HealthFactor, { label: string; unit: string }> = {
+  uptime: { label: 'Uptime', unit: 'days' },
+  latency: { label: 'Latency', unit: 'ms' },
+  peerCount: { label: 'Peers', unit: '' },
+  lastSeen: { label: 'Last seen', unit: 'min ago' },
+  storageUsage: { label: 'Storage used', unit: '%' },
+};
+
+const FACTOR_NAMES = Object.keys(HEALTH_FACTORS) as HealthFactor[];
+
+/**
+ * A factor value with its unit, e.g. "500 ms", "95%", "12"
+ */
+export function formatFactorValue(factor: HealthFactor, value: number): string {
+  const { unit } = HEALTH_FACTORS[factor];
+  const rounded = value >= 100 ? Math.round(value) : Math.round(value * 10) / 10;
+  if (!unit) return String(rounded);
+  return unit === '%' ? `${rounded}%` : `${rounded} ${unit}`;
+}
+
+function validateBands(profile: string, factor: HealthFactor, bands: HealthBand[]): void {
+  if (!Array.isArray(bands) || bands.length === 0) {
+    throw new Error(`Health profile "${profile}": ${factor} has no bands`);
+  }
+  bands.forEach((band, i) => {
+    const last = i === bands.length - 1;
+    if (typeof band.score !== 'number' || band.score < 0 || band.score > 100) {
+      throw new Error(`Health profile "${profile}": ${factor} band ${i + 1} needs a score between 0 and 100`);
+    }
+    if (last !== (band.below === undefined)) {
+      throw new Error(`Health profile "${profile}": only the last ${factor} band may (and must) omit "below"`);
+    }
+    const previous = bands[i - 1]?.below;
+    if (band.below !== undefined && previous !== undefined && band.below <= previous) {
+      throw new Error(`Health profile "${profile}": ${factor} band bounds must increase`);
+    }
+  });
+}
+
+/**
+ * Check a profile loaded from config; throws on the first problem found
+ */
+export function validateHealthProfile(profile: HealthProfile): HealthProfile {
+  if (!profile.name || !Number.isInteger(profile.version)) {
+    throw new Error('Health profile needs a name and an integer version');
+  }
+  for (const factor of FACTOR_NAMES) {
+    const config = profile.factors?.[factor];
+    if (!config || typeof config.weight !== 'number' || config.weight < 0) {
+      throw new Error(`Health profile "${profile.name}": ${factor} needs a non-negative weight`);
+    }
+    validateBands(profile.name, factor, config.bands);
+  }
+  if (FACTOR_NAMES.every(factor => profile.factors[factor].weight === 0)) {
+    throw new Error(`Health profile "${profile.name}": at least one factor needs a weight`);
+  }
+  if (profile.thresholds.warning > profile.thresholds.healthy) {
+    throw new Error(`Health profile "${profile.name}": warning threshold is above the healthy threshold`);
+  }
+  return profile;
+}
+
+const profiles = new Map<string, HealthProfile>(
+  (profilesConfig.profiles as HealthProfile[]).map(profile => [profile.name, validateHealthProfile(profile)])
+);
+
+function resolveActiveProfile(): HealthProfile {
+  const requested = process.env.NEXT_PUBLIC_HEALTH_PROFILE || profilesConfig.default;
+  const profile = profiles.get(requested);
+  if (profile) return profile;
+
+  const fallback = profiles.get(profilesConfig.default);
+  if (!fallback) {
+    throw new Error(`Default health profile "${profilesConfig.default}" is not defined in config/health-profiles.json`);
+  }
+  console.warn(`⚠️ Unknown health profile "${requested}", using "${fallback.name}"`);
+  return fallback;
+}
+
+const activeProfile = resolveActiveProfile();
+
+/**
+ * All configured profiles
+ */
+export function listHealthProfiles(): HealthProfile[] {
+  return Array.from(profiles.values());
+}
+
+/**
+ * The profile calculateHealthScore uses by default
+ */
+export function getActiveHealthProfile(): HealthProfile {
+  return activeProfile;
+}
+
+/**
+ * Identifier stored alongside scores, e.g. "standard@1"
+ */
+export function healthProfileId(profile: HealthProfile): string {
+  return `${profile.name}@${profile.version}`;
+}
+
+/**
+ * The band a value falls into, with a readable description of the rule
+ */
+export function matchHealthBand(factor: HealthFactor, bands: HealthBand[], value: number): { score: number; rule: string } {
+  const { label } = HEALTH_FACTORS[factor];
+  const bound = (value: number) => formatFactorValue(factor, value);
+  const index = bands.findIndex(band => band.below === undefined || value < band.below);
+  const band = bands[index];
+  const previous = bands[index - 1];
+
+  let condition: string;
+  if (band.below !== undefined && previous?.below !== undefined) {
+    condition = `${previous.below} ≤ ${label} < ${bound(band.below)}`;
+  } else if (band.below !== undefined) {
+    condition = `${label} < ${bound(band.below)}`;
+  } else if (previous?.below !== undefined) {
+    condition = `${label} ≥ ${bound(previous.below)}`;
+  } else {
+    condition = `any ${label.toLowerCase()}`;
+  }
+  return { score: band.score, rule: `${condition} → ${band.score}` };
+}
@@ -0,0 +1,368 @@
+import { MetricsRange, RollupResolution, pNodeMetrics } from '@/types';
+
+/**
+ * Range definitions for per-node metrics history.
+ * Each range is bucketed so the chart stays around 60-170 points
+ * no matter how often ingestion runs.
+ */
+export const METRICS_RANGES: Record<MetricsRange, { label: string; hours: number; bucketSeconds: number }> = {
+  '1h': { label: '1h', hours: 1, bucketSeconds: 60 },
+  '24h': { label: '24h', hours: 24, bucketSeconds: 15 * 60 },
+  '7d': { label: '7d', hours: 168, bucketSeconds: 60 * 60 },
+  '30d': { label: '30d', hours: 720, bucketSeconds: 6 * 60 * 60 },
+};
+
+export const DEFAULT_METRICS_RANGE: MetricsRange = '24h';
+
+export function isMetricsRange(value: unknown): value is MetricsRange {
+  return typeof value === 'string' && Object.hasOwn(METRICS_RANGES, value);
+}
+
+/**
+ * Bucket sizes of the stored rollup resolutions
+ */
+export const ROLLUP_RESOLUTIONS: Record<RollupResolution, { bucketSeconds: number }> = {
+  '5m': { bucketSeconds: 5 * 60 },
+  '1h': { bucketSeconds: 60 * 60 },
+};
+
+/**
+ * Raw NodeHistory row shape used for bucketing (subset of the Prisma model)
+ */
+export interface NodeHistoryRow {
+  nodeId: string;
+  timestamp: Date | string;
+  peerCount: number | null;
+  latency: number | null;
+  storageUsed: number | null;
+  storageCapacity: number | null;
+  uptime: number | null;
+  healthScore: number | null;
+}
+
+type NumericField = 'peerCount' | 'latency' | 'storageUsed' | 'storageCapacity' | 'uptime' | 'healthScore';
+
+const NUMERIC_FIELDS: NumericField[] = ['peerCount', 'latency', 'storageUsed', 'storageCapacity', 'uptime', 'healthScore'];
+
+/**
+ * Fold raw NodeHistory rows into fixed-size time buckets.
+ * Each field is averaged over the rows that actually reported it, so a
+ * missing latency sample doesn't drag the bucket average towards zero.
+ * Empty buckets are omitted rather than filled with fabricated values.
+ */
+export function bucketNodeHistory(rows: NodeHistoryRow[], bucketSeconds: number): pNodeMetrics[] {
+  const bucketMs = bucketSeconds * 1000;
+  const buckets = new Map<number, {
+    nodeId: string;
+    count: number;
+    sums: Record<NumericField, number>;
+    counts: Record<NumericField, number>;
+  }>();
+
+  for (const row of rows) {
+    const ts = new Date(row.timestamp).getTime();
+    const bucketStart = Math.floor(ts / bucketMs) * bucketMs;
+
+    let bucket = buckets.get(bucketStart);
+    if (!bucket) {
+      bucket = {
+        nodeId: row.nodeId,
+        count: 0,
+        sums: { peerCount: 0, latency: 0, storageUsed: 0, storageCapacity: 0, uptime: 0, healthScore: 0 },
+        counts: { peerCount: 0, latency: 0, storageUsed: 0, storageCapacity: 0, uptime: 0, healthScore: 0 },
+      };
+      buckets.set(bucketStart, bucket);
+    }
+
+    bucket.count++;
+    for (const field of NUMERIC_FIELDS) {
+      const value = row[field];
+      if (value !== null && value !== undefined) {
+        bucket.sums[field] += value;
+        bucket.counts[field]++;
+      }
+    }
+  }
+
+  const average = (sums: Record<NumericField, number>, counts: Record<NumericField, number>, field: NumericField) =>
+    counts[field] > 0 ? sums[field] / counts[field] : undefined;
+
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([bucketStart, bucket]) => {
+      const peerCount = average(bucket.sums, bucket.counts, 'peerCount');
+      const healthScore = average(bucket.sums, bucket.counts, 'healthScore');
+      return {
+        nodeId: bucket.nodeId,
+        timestamp: new Date(bucketStart).toISOString(),
+        latency: average(bucket.sums, bucket.counts, 'latency'),
+        peerCount: peerCount !== undefined ? Math.round(peerCount * 10) / 10 : undefined,
+        storageUsed: average(bucket.sums, bucket.counts, 'storageUsed'),
+        storageCapacity: average(bucket.sums, bucket.counts, 'storageCapacity'),
+        uptime: average(bucket.sums, bucket.counts, 'uptime'),
+        healthScore: healthScore !== undefined ? Math.round(healthScore) : undefined,
+        samples: bucket.count,
+      };
+    });
+}
+
+// ---------------------------------------------------------------------------
+// Rollups
+// ---------------------------------------------------------------------------
+
+export interface ValueSummary {
+  min: number;
+  max: number;
+  avg: number;
+  p95: number;
+}
+
+/**
+ * min/max/avg/p95 (nearest rank) of the non-null values, or null if there are none
+ */
+export function summarizeValues(values: Array<number | null | undefined>): ValueSummary | null {
+  const present = values.filter((v): v is number => v !== null && v !== undefined).sort((a, b) => a - b);
+  if (present.length === 0) return null;
+  const p95Index = Math.max(0, Math.ceil(0.95 * present.length) - 1);
+  return {
+    min: present[0],
+    max: present[present.length - 1],
+    avg: present.reduce((sum, v) => sum + v, 0) / present.length,
+    p95: present[p95Index],
+  };
+}
+
+type RollupMetric = 'latency' | 'peerCount' | 'storageUsed' | 'healthScore';
+
+const ROLLUP_METRICS: RollupMetric[] = ['latency', 'peerCount', 'storageUsed', 'healthScore'];
+
+/**
+ * NodeHistoryRollup row shape (subset of the Prisma model)
+ */
+export type NodeRollupRow = {
+  nodeId: string;
+  resolution: string;
+  bucketStart: Date;
+  samples: number;
+  storageCapacityAvg: number | null;
+  uptimeMax: number | null;
+} & {
+  [K in `${RollupMetric}${'Min' | 'Max' | 'Avg' | 'P95'}`]: number | null;
+};
+
+/**
+ * Fold raw NodeHistory rows into per-node rollup rows at the given resolution
+ */
+export function rollupNodeHistory(rows: NodeHistoryRow[], resolution: RollupResolution): NodeRollupRow[] {
+  const bucketMs = ROLLUP_RESOLUTIONS[resolution].bucketSeconds * 1000;
+  const groups = new Map<string, { nodeId: string; bucketStart: number; rows: NodeHistoryRow[] }>();
+
+  for (const row of rows) {
+    const bucketStart = Math.floor(new Date(row.timestamp).getTime() / bucketMs) * bucketMs;
+    const key = `${row.nodeId}|${bucketStart}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { nodeId: row.nodeId, bucketStart, rows: [] };
+      groups.set(key, group);
+    }
+    group.rows.push(row);
+  }
+
+  return Array.from(groups.values()).map(group => {
+    const rollup = {
+      nodeId: group.nodeId,
+      resolution,
+      bucketStart: new Date(group.bucketStart),
+      samples: group.rows.length,
+      storageCapacityAvg: summarizeValues(group.rows.map(r => r.storageCapacity))?.avg ?? null,
+      uptimeMax: summarizeValues(group.rows.map(r => r.uptime))?.max ?? null,
+    } as NodeRollupRow;
+
+    for (const metric of ROLLUP_METRICS) {
+      const summary = summarizeValues(group.rows.map(r => r[metric]));
+      rollup[`${metric}Min`] = summary?.min ?? null;
+      rollup[`${metric}Max`] = summary?.max ?? null;
+      rollup[`${metric}Avg`] = summary?.avg ?? null;
+      rollup[`${metric}P95`] = summary?.p95 ?? null;
+    }
+    return rollup;
+  });
+}
+
+/**
+ * Fold rollup rows (of one node) into chart buckets, like bucketNodeHistory.
+ * Averages are weighted by each rollup's sample count.
+ */
+export function bucketNodeRollups(rows: NodeRollupRow[], bucketSeconds: number): pNodeMetrics[] {
+  const bucketMs = bucketSeconds * 1000;
+  const fields = [...ROLLUP_METRICS, 'storageCapacity', 'uptime'] as const;
+  type Field = typeof fields[number];
+  const buckets = new Map<number, {
+    nodeId: string;
+    samples: number;
+    sums: Record<Field, number>;
+    weights: Record<Field, number>;
+  }>();
+
+  const valueOf = (row: NodeRollupRow, field: Field) =>
+    field === 'storageCapacity' ? row.storageCapacityAvg : field === 'uptime' ? row.uptimeMax : row[`${field}Avg`];
+
+  for (const row of rows) {
+    const bucketStart = Math.floor(new Date(row.bucketStart).getTime() / bucketMs) * bucketMs;
+    let bucket = buckets.get(bucketStart);
+    if (!bucket) {
+      const zero = () => ({ latency: 0, peerCount: 0, storageUsed: 0, healthScore: 0, storageCapacity: 0, uptime: 0 });
+      bucket = { nodeId: row.nodeId, samples: 0, sums: zero(), weights: zero() };
+      buckets.set(bucketStart, bucket);
+    }
+
+    bucket.samples += row.samples;
+    for (const field of fields) {
+      const value = valueOf(row, field);
+      if (value !== null && value !== undefined) {
+        bucket.sums[field] += value * row.samples;
+        bucket.weights[field] += row.samples;
+      }
+    }
+  }
+
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([bucketStart, bucket]) => {
+      const average = (field: Field) =>
+        bucket.weights[field] > 0 ? bucket.sums[field] / bucket.weights[field] : undefined;
+      const peerCount = average('peerCount');
+      const healthScore = average('healthScore');
+      return {
+        nodeId: bucket.nodeId,
+        timestamp: new Date(bucketStart).toISOString(),
+        latency: average('latency'),
+        peerCount: peerCount !== undefined ? Math.round(peerCount * 10) / 10 : undefined,
+        storageUsed: average('storageUsed'),
+        storageCapacity: average('storageCapacity'),
+        uptime: average('uptime'),
+        healthScore: healthScore !== undefined ? Math.round(healthScore) : undefined,
+        samples: bucket.samples,
+      };
+    });
+}
+
+/**
+ * NetworkSnapshot row shape used for rollups (subset of the Prisma model)
+ */
+export interface NetworkSnapshotRow {
+  timestamp: Date;
+  totalNodes: number;
+  onlineNodes: number;
+  offlineNodes: number;
+  healthyNodes: number;
+  warningNodes: number;
+  criticalNodes: number;
+  averagePeerCount: number | null;
+  averageLatency: number | null;
+  totalStorageCapacity: number | null;
+  totalStorageUsed: number | null;
+  versionDistribution: string | null;
+  regionDistribution: string | null;
+  asnDistribution: string | null;
+  providerDistribution: string | null;
+  providerHhi: number | null;
+  providerTop3Share: number | null;
+  providerNakamoto: number | null;
+  countryHhi: number | null;
+  countryTop3Share: number | null;
+  countryNakamoto: number | null;
+  peerNodes: number | null;
+  peerLinks: number | null;
+  peerComponents: number | null;
+  largestComponentShare: number | null;
+  isolatedNodes: number | null;
+  articulationPoints: number | null;
+  bridgeLinks: number | null;
+  peerMinCut: number | null;
+  stakeBasis: string | null;
+  totalStake: number | null;
+  onlineStakeShare: number | null;
+  stakeNakamoto: number | null;
+  stakeVersionDistribution: string | null;
+  stakeRegionDistribution: string | null;
+}
+
+/**
+ * Fold raw NetworkSnapshot rows into rollup rows at the given resolution
+ */
+export function rollupNetworkSnapshots(rows: NetworkSnapshotRow[], resolution: RollupResolution) {
+  const bucketMs = ROLLUP_RESOLUTIONS[resolution].bucketSeconds * 1000;
+  const groups = new Map<number, NetworkSnapshotRow[]>();
+  for (const row of rows) {
+    const bucketStart = Math.floor(new Date(row.timestamp).getTime() / bucketMs) * bucketMs;
+    const group = groups.get(bucketStart) || [];
+    group.push(row);
+    groups.set(bucketStart, group);
+  }
+
+  return Array.from(groups.entries()).map(([bucketStart, group]) => {
+    const sorted = [...group].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    const last = sorted[sorted.length - 1];
+    const stat = (pick: (row: NetworkSnapshotRow) => number | null) => summarizeValues(sorted.map(pick));
+    const totalNodes = stat(r => r.totalNodes);
+    const onlineNodes = stat(r => r.onlineNodes);
+    const latency = stat(r => r.averageLatency);
+    // The worst reading is kept too, so a brief partition isn't averaged away
+    const components = stat(r => r.peerComponents);
+    const largestShare = stat(r => r.largestComponentShare);
+    const minCut = stat(r => r.peerMinCut);
+    const onlineStake = stat(r => r.onlineStakeShare);
+    const stakeNakamoto = stat(r => r.stakeNakamoto);
+
+    return {
+      resolution,
+      bucketStart: new Date(bucketStart),
+      samples: sorted.length,
+      totalNodes: totalNodes?.avg ?? 0,
+      totalNodesMin: totalNodes?.min ?? 0,
+      totalNodesMax: totalNodes?.max ?? 0,
+      onlineNodes: onlineNodes?.avg ?? 0,
+      onlineNodesMin: onlineNodes?.min ?? 0,
+      offlineNodes: stat(r => r.offlineNodes)?.avg ?? 0,
+      healthyNodes: stat(r => r.healthyNodes)?.avg ?? 0,
+      warningNodes: stat(r => r.warningNodes)?.avg ?? 0,
+      criticalNodes: stat(r => r.criticalNodes)?.avg ?? 0,
+      averagePeerCount: stat(r => r.averagePeerCount)?.avg ?? null,
+      averageLatency: latency?.avg ?? null,
+      averageLatencyMax: latency?.max ?? null,
+      averageLatencyP95: latency?.p95 ?? null,
+      totalStorageCapacity: stat(r => r.totalStorageCapacity)?.avg ?? null,
+      totalStorageUsed: stat(r => r.totalStorageUsed)?.avg ?? null,
+      versionDistribution: last.versionDistribution,
+      regionDistribution: last.regionDistribution,
+      asnDistribution: last.asnDistribution,
+      providerDistribution: last.providerDistribution,
+      providerHhi: stat(r => r.providerHhi)?.avg ?? null,
+      providerTop3Share: stat(r => r.providerTop3Share)?.avg ?? null,
+      providerNakamoto: stat(r => r.providerNakamoto)?.avg ?? null,
+      countryHhi: stat(r => r.countryHhi)?.avg ?? null,
+      countryTop3Share: stat(r => r.countryTop3Share)?.avg ?? null,
+      countryNakamoto: stat(r => r.countryNakamoto)?.avg ?? null,
+      peerNodes: stat(r => r.peerNodes)?.avg ?? null,
+      peerLinks: stat(r => r.peerLinks)?.avg ?? null,
+      peerComponents: components?.avg ?? null,
+      peerComponentsMax: components?.max ?? null,
+      largestComponentShare: largestShare?.avg ?? null,
+      largestComponentShareMin: largestShare?.min ?? null,
+      isolatedNodes: stat(r => r.isolatedNodes)?.avg ?? null,
+      articulationPoints: stat(r => r.articulationPoints)?.avg ?? null,
+      bridgeLinks: stat(r => r.bridgeLinks)?.avg ?? null,
+      peerMinCut: minCut?.avg ?? null,
+      peerMinCutMin: minCut?.min ?? null,
+      stakeBasis: last.stakeBasis,
+      totalStake: stat(r => r.totalStake)?.avg ?? null,
+      onlineStakeShare: onlineStake?.avg ?? null,
+      onlineStakeShareMin: onlineStake?.min ?? null,
+      stakeNakamoto: stakeNakamoto?.avg ?? null,
+      stakeNakamotoMin: stakeNakamoto?.min ?? null,
+      stakeVersionDistribution: last.stakeVersionDistribution,
+      stakeRegionDistribution: last.stakeRegionDistribution,
+    };
+  });
+}
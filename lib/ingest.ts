@@ -0,0 +1,877 @@
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { AlertRule, Anomaly, HealthScore, pNode } from '@/types';
+import { prisma } from './db';
+import { fetchChainMetrics, calculateNetworkStats } from './prpc';
+import { fetchLiveNodes } from './liveNodes';
+import { getPoolStatus } from './rpcPool';
+import { calculateHealthScore } from './health';
+import { detectNodeAnomalies } from './anomalies';
+import { dbHistoryProvider } from './anomalyHistory';
+import { majorityVersionLine } from './versions';
+import { evaluateAlertRules, describeRuleDuration } from './alertRules';
+import { AlertCondition, AlertReopen, ResolvedAlertState, planAlertLifecycle, planReopen, ALERT_LIFECYCLE } from './alertLifecycle';
+import { buildNotificationDeliveries, deliverPendingNotifications } from './notifications';
+import { alertTeamResolver, buildEscalations } from './escalation';
+import { SilenceTarget, findActiveSilence, nodeRegions, parseSilence, unexpiredSilenceWhere } from './silences';
+import { NetworkBaseline, NETWORK_RULES, evaluateNetworkRules, networkAlertKey, regionOf } from './networkRules';
+import { buildDataQualityReport, isDefaulted } from './validation';
+import { NodeSnapshotScores, toNodeSnapshotData } from './nodeSnapshot';
+import { deriveRiskScore } from './clientAnalytics';
+import { buildPeerGraph } from './topology';
+import { VALIDATOR_RULES, assessValidators, commissionIncreaseSeverity, parseEpochCredits } from './validators';
+
+// Ingestion: fetch live nodes and write snapshots, history, alerts (per node,
+// network-wide from lib/networkRules.ts, and from operators' rules in
+// lib/alertRules.ts) and metrics to the database in one transaction. Open
+// alerts whose condition has cleared are resolved, and conditions that come
+// back soon after reopen their alert (lib/alertLifecycle.ts). New and
+// reopened alerts are queued for notification in the same transaction and
+// sent once the run has finished, unless a silence covers them
+// (lib/silences.ts); silenced alerts are still recorded. Alerts are tagged
+// with the team owning their node, and unacknowledged ones escalate
+// (lib/escalation.ts). Runs are single-flight (see acquireLock) and recorded
+// in IngestRun, whether triggered by the scheduler or the API.
+
+// How long a run may hold the ingest lease before another process may take it over
+const INGEST_LOCK_TTL_MS = parseInt(process.env.INGEST_LOCK_TTL_MS || '600000', 10);
+// Rows per createMany / IN query
+const INGEST_BATCH_SIZE = Math.max(1, parseInt(process.env.INGEST_BATCH_SIZE || '500', 10));
+// Upper bound on the write transaction
+const INGEST_TX_TIMEOUT_MS = parseInt(process.env.INGEST_TX_TIMEOUT_MS || '120000', 10);
+
+const LOCK_ID = 'ingest';
+
+export type IngestTrigger = 'scheduler' | 'api';
+
+export interface IngestResult {
+  nodes: number;
+  alerts: number;
+  silenced: number; // new alerts covered by a silence (recorded, not notified)
+  resolved: number; // open alerts whose condition cleared
+  reopened: number; // recently resolved alerts whose condition came back
+  notifications: number; // deliveries queued for the new and reopened alerts
+  escalated: number; // unacknowledged alerts escalated to a further tier
+  metrics: Awaited<ReturnType<typeof fetchChainMetrics>> | null;
+  networkStats: {
+    totalNodes: number;
+    healthyNodes: number;
+    warningNodes: number;
+    criticalNodes: number;
+  };
+  dataQuality: {
+    nodesWithIssues: number;
+    issueCount: number;
+  };
+  timings: IngestTimings;
+}
+
+// Milliseconds spent in each phase of a run
+export interface IngestTimings {
+  fetch?: number; // pRPC node fetch + enrichment (only when the run fetched its own nodes)
+  load: number; // previous snapshots, network baseline, alert rules and open alerts
+  score: number; // health scores, anomalies, network stats and rules, alert rules, data quality
+  metrics: number; // chain metrics
+  write: number; // the write transaction
+  total: number;
+}
+
+export type IngestOutcome =
+  | { status: 'success'; runId: number; result: IngestResult }
+  | { status: 'skipped'; reason: string };
+
+// In-process flag; the DB lease below covers other processes and instances
+const globalForIngest = globalThis as unknown as { ingestInFlight?: boolean };
+
+const lockOwner = () => `${hostname()}:${process.pid}`;
+
+/**
+ * Take the ingest lease. Returns false when another run holds an unexpired lease.
+ * An expired lease means its run died mid-way; that run is marked failed.
+ */
+async function acquireLock(now: Date): Promise<boolean> {
+  const expired = await prisma.ingestLock.deleteMany({
+    where: { id: LOCK_ID, expiresAt: { lt: now } },
+  });
+  if (expired.count > 0) {
+    await prisma.ingestRun.updateMany({
+      where: { status: 'running', startedAt: { lt: new Date(now.getTime() - INGEST_LOCK_TTL_MS) } },
+      data: { status: 'failed', finishedAt: now, error: 'Run did not finish before its lock expired' },
+    });
+  }
+
+  try {
+    await prisma.ingestLock.create({
+      data: {
+        id: LOCK_ID,
+        owner: lockOwner(),
+        acquiredAt: now,
+        expiresAt: new Date(now.getTime() + INGEST_LOCK_TTL_MS),
+      },
+    });
+    return true;
+  } catch (error) {
+    // Unique constraint: someone else holds the lease
+    if ((error as { code?: unknown }).code === 'P2002') return false;
+    throw error;
+  }
+}
+
+async function releaseLock(): Promise<void> {
+  await prisma.ingestLock.deleteMany({ where: { id: LOCK_ID, owner: lockOwner() } });
+}
+
+function describeSource(): string | null {
+  const served = getPoolStatus().lastServed;
+  if (!served) return null;
+  return served.mode === 'mock' ? 'mock' : served.endpoints.join(',');
+}
+
+function phaseTimer() {
+  const start = Date.now();
+  let last = start;
+  const phases: Partial<Record<keyof IngestTimings, number>> = {};
+  return {
+    mark(phase: Exclude<keyof IngestTimings, 'total'>) {
+      const now = Date.now();
+      phases[phase] = now - last;
+      last = now;
+    },
+    timings(): IngestTimings {
+      return {
+        load: 0,
+        score: 0,
+        metrics: 0,
+        write: 0,
+        ...phases,
+        total: Date.now() - start,
+      };
+    },
+  };
+}
+
+// Dedupe key of a node's alert: one open alert per node and type, or per node and rule
+function nodeAlertKey(nodeId: string, type: string, ruleId?: string | null): string {
+  return ruleId ? `${nodeId}:${type}:${ruleId}` : `${nodeId}:${type}`;
+}
+
+// Dedupe key of a stored alert (see nodeAlertKey and networkAlertKey)
+function storedAlertKey(alert: { nodeId: string | null; type: string; ruleId: string | null; details: string | null }): string {
+  if (alert.nodeId) return nodeAlertKey(alert.nodeId, alert.type, alert.ruleId);
+  const details = alert.details ? JSON.parse(alert.details) : {};
+  return networkAlertKey(details.rule, details.scope);
+}
+
+// Split a list into batches for createMany / IN queries (SQLite caps bound variables per statement)
+function chunk<T>(items: T[], size: number): T[][] {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    batches.push(items.slice(i, i + size));
+  }
+  return batches;
+}
+
+/**
+ * Earlier network state for the network rules: node statuses and regions at
+ * the previous ingest, and total storage capacity about an hour ago
+ */
+async function loadNetworkBaseline(current: Map<string, pNode>, timestamp: Date): Promise<NetworkBaseline> {
+  const baseline: NetworkBaseline = {};
+
+  const hourAgo = await prisma.networkSnapshot.findFirst({
+    where: {
+      timestamp: {
+        lte: new Date(timestamp.getTime() - NETWORK_RULES.storageDropWindowMs),
+        gte: new Date(timestamp.getTime() - 2 * NETWORK_RULES.storageDropWindowMs),
+      },
+    },
+    orderBy: { timestamp: 'desc' },
+    select: { timestamp: true, totalStorageCapacity: true },
+  });
+  if (hourAgo) baseline.hourAgo = hourAgo;
+
+  const previous = await prisma.networkSnapshot.findFirst({
+    where: { timestamp: { lt: timestamp, gte: new Date(timestamp.getTime() - NETWORK_RULES.previousMaxAgeMs) } },
+    orderBy: { timestamp: 'desc' },
+    select: { timestamp: true },
+  });
+  if (!previous) return baseline;
+
+  const rows = await prisma.nodeHistory.findMany({
+    where: { timestamp: previous.timestamp },
+    select: { nodeId: true, status: true },
+  });
+  // Nodes still listed carry their region; the rest keep the one on their stored snapshot
+  const regions = new Map<string, string>();
+  const gone = rows.filter(row => !current.has(row.nodeId)).map(row => row.nodeId);
+  for (const ids of chunk(gone, INGEST_BATCH_SIZE)) {
+    const snapshots = await prisma.nodeSnapshot.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, country: true, region: true },
+    });
+    snapshots.forEach(snapshot => regions.set(snapshot.id, regionOf(snapshot)));
+  }
+
+  baseline.previous = {
+    timestamp: previous.timestamp,
+    nodes: rows.map(row => ({
+      id: row.nodeId,
+      status: row.status as pNode['status'] | null,
+      region: current.has(row.nodeId) ? regionOf(current.get(row.nodeId)!.location) : regions.get(row.nodeId) ?? 'unknown',
+    })),
+  };
+  return baseline;
+}
+
+/**
+ * Store one ingest's worth of node snapshots, history, alerts, network and
+ * data-quality snapshots and chain metrics.
+ * Existing snapshots, recent history and open alerts are preloaded in a few batched queries, and
+ * everything is written in a single transaction, so a failure leaves no
+ * partial snapshot behind.
+ */
+export async function ingestNodes(nodes: pNode[], timestamp: Date = new Date()): Promise<IngestResult> {
+  const timer = phaseTimer();
+
+  // Last write wins if a node id shows up twice
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  nodes = Array.from(byId.values());
+
+  // --- load: existing snapshots, recent history, network baseline and open alerts ---
+  const existingIds = new Set<string>();
+  // Validators' commission as of the previous ingest
+  const previousCommission = new Map<string, number>();
+  for (const ids of chunk(Array.from(byId.keys()), INGEST_BATCH_SIZE)) {
+    const existing = await prisma.nodeSnapshot.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, commission: true },
+    });
+    existing.forEach(snapshot => {
+      existingIds.add(snapshot.id);
+      if (snapshot.commission !== null) previousCommission.set(snapshot.id, snapshot.commission);
+    });
+  }
+
+  // History before this ingest, for anomaly detection
+  const nodeHistory = await dbHistoryProvider.getHistory(Array.from(byId.keys()), timestamp);
+
+  const networkBaseline = await loadNetworkBaseline(byId, timestamp);
+
+  // Operators' rules, and which nodes matched them at previous ingests
+  const alertRules = await prisma.alertRule.findMany({ where: { enabled: true } });
+  const alertRuleStates = await prisma.alertRuleState.findMany();
+
+  // Open alerts suppress duplicates and are resolved once their condition clears
+  const openAlerts = await prisma.alert.findMany({
+    where: { resolved: false },
+    select: {
+      id: true,
+      nodeId: true,
+      type: true,
+      ruleId: true,
+      severity: true,
+      message: true,
+      details: true,
+      clearCount: true,
+      clearSince: true,
+      flapping: true,
+      silenceId: true,
+      acknowledged: true,
+      team: true,
+      escalationLevel: true,
+      escalationSince: true,
+      createdAt: true,
+    },
+  });
+  const openAlertKeys = new Set(openAlerts.map(storedAlertKey));
+  // Recently resolved alerts, reopened if their condition comes back
+  const recentlyResolved = await prisma.alert.findMany({
+    where: { resolved: true, resolvedAt: { gte: new Date(timestamp.getTime() - ALERT_LIFECYCLE.reopenWindowMs) } },
+    orderBy: { resolvedAt: 'asc' },
+    select: { id: true, nodeId: true, type: true, ruleId: true, details: true, resolvedAt: true, reopenCount: true, flapping: true },
+  });
+  // The latest per key wins
+  const resolvedByKey = new Map<string, ResolvedAlertState>(recentlyResolved.map(alert => [
+    storedAlertKey(alert),
+    { id: alert.id, resolvedAt: alert.resolvedAt!, reopenCount: alert.reopenCount, flapping: alert.flapping },
+  ]));
+
+  // Silences and maintenance windows that haven't ended
+  const silences = (await prisma.silence.findMany({ where: unexpiredSilenceWhere(timestamp) })).map(parseSilence);
+
+  // Commission changes whose alert is still due, and the stored rows of the epochs validators report
+  const recentCommissionChanges = await prisma.commissionChange.findMany({
+    where: { changedAt: { gte: new Date(timestamp.getTime() - VALIDATOR_RULES.commissionAlertWindowMs) } },
+    orderBy: { changedAt: 'asc' },
+  });
+  // One entry per vote account (the unique key), should two nodes claim the same one
+  const reportedCredits = Array.from(new Map(nodes
+    .filter(node => node.metadata?.isValidator === true && node.metadata.voteAccount)
+    .map(node => ({ node, voteAccount: String(node.metadata!.voteAccount), credits: parseEpochCredits(node.metadata!.epochCredits) }))
+    .filter(validator => validator.credits.length > 0)
+    .map(validator => [validator.voteAccount, validator])).values());
+  const storedCredits = new Map<string, { id: number; credits: number; previousCredits: number }>();
+  if (reportedCredits.length > 0) {
+    const oldestEpoch = Math.min(...reportedCredits.map(validator => validator.credits[0].epoch));
+    for (const voteAccounts of chunk(reportedCredits.map(validator => validator.voteAccount), INGEST_BATCH_SIZE)) {
+      const rows = await prisma.validatorEpochCredits.findMany({
+        where: { voteAccount: { in: voteAccounts }, epoch: { gte: oldestEpoch } },
+        select: { id: true, voteAccount: true, epoch: true, credits: true, previousCredits: true },
+      });
+      rows.forEach(row => storedCredits.set(`${row.voteAccount}:${row.epoch}`, row));
+    }
+  }
+  timer.mark('load');
+
+  // --- score: health, anomalies, network stats, data quality ---
+  const networkStats = calculateNetworkStats(nodes);
+  const peerEdges: Prisma.PeerEdgeCreateManyInput[] = buildPeerGraph(nodes).edges
+    .map(([source, target]) => ({ timestamp, source, target }));
+  // Version rules compare each node with this ingest's majority release line
+  const anomalyContext = { majorityVersion: majorityVersionLine(networkStats.versionDistribution) };
+  const history: Prisma.NodeHistoryCreateManyInput[] = [];
+  const alerts: Prisma.AlertCreateManyInput[] = [];
+  const reopens: Array<AlertReopen & { wasFlapping: boolean; alert: Prisma.AlertCreateManyInput }> = [];
+  const events: Prisma.AlertEventCreateManyInput[] = [];
+  // Keys of every condition that holds at this ingest, raised or not
+  const activeKeys = new Set<string>();
+  const scores = new Map<string, NodeSnapshotScores>();
+  const healthScores = new Map<string, HealthScore>();
+  let healthyNodes = 0;
+  let warningNodes = 0;
+  let criticalNodes = 0;
+
+  // What silences are checked against; a network alert's scope (e.g. a region) counts as its region
+  const silenceTargetOf = (alert: { nodeId?: string | null; type: string; severity: string; details?: string | null }): SilenceTarget => {
+    const node = alert.nodeId ? byId.get(alert.nodeId) : undefined;
+    const scope = !alert.nodeId && alert.details ? JSON.parse(alert.details).scope : undefined;
+    return {
+      nodeId: alert.nodeId ?? null,
+      type: alert.type,
+      severity: alert.severity as Anomaly['severity'],
+      regions: node ? nodeRegions(node) : scope ? [scope] : [],
+      version: node?.softwareVersion ?? null,
+    };
+  };
+
+  const teamOf = alertTeamResolver(byId);
+
+  // Raise an alert for a condition: nothing while one is open, otherwise
+  // reopen the key's recently resolved alert or create a new one
+  const raise = (key: string, fields: Omit<Prisma.AlertCreateManyInput, 'id'>) => {
+    activeKeys.add(key);
+    if (openAlertKeys.has(key)) return;
+    openAlertKeys.add(key);
+    const alert = {
+      ...fields,
+      team: teamOf(fields.nodeId),
+      silenceId: findActiveSilence(silences, silenceTargetOf(fields), timestamp)?.id ?? null,
+    };
+    const previous = resolvedByKey.get(key);
+    const reopen = planReopen(previous, timestamp);
+    if (reopen) {
+      reopens.push({ ...reopen, wasFlapping: previous!.flapping, alert: { id: reopen.id, ...alert } });
+      return;
+    }
+    alerts.push({ id: randomUUID(), ...alert });
+  };
+
+  for (const node of nodes) {
+    const healthScore = calculateHealthScore(node);
+    healthScores.set(node.id, healthScore);
+    if (healthScore.score >= 80) healthyNodes++;
+    else if (healthScore.score >= 50) warningNodes++;
+    else criticalNodes++;
+
+    history.push({
+      nodeId: node.id,
+      timestamp,
+      status: node.status,
+      peerCount: isDefaulted(node, 'peerCount') ? null : node.peerCount,
+      latency: node.latency ?? null,
+      storageUsed: node.storageUsed ?? null,
+      storageCapacity: node.storageCapacity ?? null,
+      uptime: node.uptime ?? null,
+      healthScore: healthScore.score,
+      healthProfile: healthScore.profile,
+    });
+
+    const anomalies = detectNodeAnomalies(node, nodeHistory.get(node.id), { now: timestamp.getTime(), context: anomalyContext });
+    scores.set(node.id, {
+      healthScore: healthScore.score,
+      healthProfile: healthScore.profile,
+      riskScore: deriveRiskScore(node, anomalies),
+    });
+
+    for (const anomaly of anomalies) {
+      raise(nodeAlertKey(node.id, anomaly.type), {
+        nodeId: node.id,
+        type: anomaly.type,
+        severity: anomaly.severity,
+        message: anomaly.message,
+        details: JSON.stringify(anomaly.details || {}),
+      });
+    }
+  }
+
+  // Network-wide rules; network alerts have no node
+  for (const anomaly of evaluateNetworkRules(nodes, networkStats, networkBaseline, timestamp)) {
+    raise(networkAlertKey(anomaly.rule, anomaly.scope), {
+      nodeId: null,
+      type: anomaly.type,
+      severity: anomaly.severity,
+      message: anomaly.message,
+      details: JSON.stringify({ rule: anomaly.rule, scope: anomaly.scope, ...anomaly.details }),
+    });
+  }
+
+  // Validators: delinquency, and commission increases until the alert window passes
+  for (const validator of assessValidators(nodes)) {
+    if (!validator.delinquent) continue;
+    raise(nodeAlertKey(validator.nodeId, 'validator_delinquent'), {
+      nodeId: validator.nodeId,
+      type: 'validator_delinquent',
+      severity: 'high',
+      message: validator.delinquentReason === 'reported'
+        ? 'Validator is delinquent: its vote account is listed as delinquent'
+        : `Validator is delinquent: last vote ${validator.voteLag} slots behind the cluster`,
+      details: JSON.stringify({
+        reason: validator.delinquentReason,
+        voteAccount: validator.voteAccount,
+        lastVote: validator.lastVote,
+        voteLag: validator.voteLag,
+      }),
+    });
+  }
+
+  const commissionChanges: Prisma.CommissionChangeCreateManyInput[] = [];
+  for (const node of nodes) {
+    const commission = node.metadata?.commission;
+    const previous = previousCommission.get(node.id);
+    if (node.metadata?.isValidator !== true || typeof commission !== 'number' || previous === undefined || previous === commission) continue;
+    commissionChanges.push({
+      nodeId: node.id,
+      voteAccount: node.metadata.voteAccount || null,
+      previous,
+      commission,
+      changedAt: timestamp,
+    });
+  }
+  // A node's latest change decides: lowering the commission again clears the alert
+  const latestCommissionChange = new Map(
+    [...recentCommissionChanges, ...commissionChanges].map(change => [change.nodeId, change])
+  );
+  for (const change of latestCommissionChange.values()) {
+    const severity = commissionIncreaseSeverity(change.previous, change.commission);
+    if (!severity || !byId.has(change.nodeId)) continue;
+    raise(nodeAlertKey(change.nodeId, 'commission_increase'), {
+      nodeId: change.nodeId,
+      type: 'commission_increase',
+      severity,
+      message: `Validator commission raised from ${change.previous}% to ${change.commission}%`,
+      details: JSON.stringify({
+        voteAccount: change.voteAccount,
+        previous: change.previous,
+        commission: change.commission,
+        changedAt: change.changedAt,
+      }),
+    });
+  }
+
+  // Each reported epoch's credits: new epochs are created, the current one updated as it accrues
+  const newEpochCredits: Prisma.ValidatorEpochCreditsCreateManyInput[] = [];
+  const changedEpochCredits: Array<{ id: number; credits: number; previousCredits: number; earned: number }> = [];
+  for (const { node, voteAccount, credits } of reportedCredits) {
+    for (const entry of credits) {
+      const stored = storedCredits.get(`${voteAccount}:${entry.epoch}`);
+      if (!stored) {
+        newEpochCredits.push({ voteAccount, nodeId: node.id, ...entry });
+      } else if (stored.credits !== entry.credits || stored.previousCredits !== entry.previousCredits) {
+        changedEpochCredits.push({ id: stored.id, credits: entry.credits, previousCredits: entry.previousCredits, earned: entry.earned });
+      }
+    }
+  }
+
+  // Operators' rules, once their condition has held long enough
+  const ruleEvaluation = evaluateAlertRules(alertRules as AlertRule[], nodes, healthScores, alertRuleStates, timestamp);
+  // A rule's alert stays open while the node matches, even before the duration is met again
+  for (const state of ruleEvaluation.states) {
+    activeKeys.add(nodeAlertKey(state.nodeId, 'custom_rule', state.ruleId));
+  }
+  for (const match of ruleEvaluation.firing) {
+    raise(nodeAlertKey(match.nodeId, 'custom_rule', match.rule.id), {
+      nodeId: match.nodeId,
+      type: 'custom_rule',
+      ruleId: match.rule.id,
+      severity: match.rule.severity,
+      message: `Rule "${match.rule.name}": ${match.rule.condition}`,
+      details: JSON.stringify({
+        ruleName: match.rule.name,
+        condition: match.rule.condition,
+        duration: describeRuleDuration(match.rule),
+        since: match.since,
+        matches: match.matches,
+        values: match.values,
+      }),
+    });
+  }
+
+  // Lifecycle of the alerts that were open: rules that are gone or disabled have cleared,
+  // and nodes missing from this ingest can't tell either way
+  const enabledRuleIds = new Set(alertRules.map(rule => rule.id));
+  const conditionOf = (alert: (typeof openAlerts)[number]): AlertCondition => {
+    if (alert.type === 'custom_rule' && !(alert.ruleId && enabledRuleIds.has(alert.ruleId))) return 'clear';
+    if (alert.nodeId && !byId.has(alert.nodeId)) return 'unknown';
+    return activeKeys.has(storedAlertKey(alert)) ? 'active' : 'clear';
+  };
+  const conditions = new Map(openAlerts.map(alert => [alert.id, conditionOf(alert)]));
+  const lifecycle = planAlertLifecycle(
+    openAlerts.map(alert => ({ ...alert, condition: conditions.get(alert.id)! })),
+    timestamp
+  );
+
+  const silenceComment = (silenceId: string) => silences.find(silence => silence.id === silenceId)?.comment;
+  for (const alert of alerts) {
+    events.push({
+      alertId: alert.id!,
+      type: 'created',
+      actor: 'ingest',
+      details: alert.silenceId ? JSON.stringify({ silenceId: alert.silenceId, comment: silenceComment(alert.silenceId) }) : null,
+      createdAt: timestamp,
+    });
+  }
+  for (const { id, clearCount } of lifecycle.resolve) {
+    events.push({ alertId: id, type: 'resolved', actor: 'ingest', details: JSON.stringify({ clearIngests: clearCount }), createdAt: timestamp });
+  }
+  for (const reopen of reopens) {
+    events.push({
+      alertId: reopen.id,
+      type: 'reopened',
+      actor: 'ingest',
+      details: JSON.stringify({ reopenCount: reopen.reopenCount, flapping: reopen.flapping }),
+      createdAt: timestamp,
+    });
+  }
+
+  // Silences that started or ended over alerts that stay open. Nodes missing from
+  // this ingest keep theirs. An alert still firing when its silence ends notifies then.
+  const resolving = new Set(lifecycle.resolve.map(({ id }) => id));
+  const silenceChanges = new Map<string | null, string[]>();
+  const silenceAfter = new Map(openAlerts.map(alert => [alert.id, alert.silenceId]));
+  const unsilenced: Prisma.AlertCreateManyInput[] = [];
+  for (const alert of openAlerts) {
+    if (resolving.has(alert.id) || (alert.nodeId && !byId.has(alert.nodeId))) continue;
+    const silenceId = findActiveSilence(silences, silenceTargetOf(alert), timestamp)?.id ?? null;
+    if (silenceId === alert.silenceId) continue;
+    silenceChanges.set(silenceId, [...(silenceChanges.get(silenceId) ?? []), alert.id]);
+    silenceAfter.set(alert.id, silenceId);
+    if (silenceId && !alert.silenceId) {
+      events.push({
+        alertId: alert.id,
+        type: 'silenced',
+        actor: 'ingest',
+        details: JSON.stringify({ silenceId, comment: silenceComment(silenceId) }),
+        createdAt: timestamp,
+      });
+    } else if (!silenceId) {
+      events.push({ alertId: alert.id, type: 'unsilenced', actor: 'ingest', createdAt: timestamp });
+      if (conditions.get(alert.id) === 'active') {
+        unsilenced.push({ ...alert, message: `Still open after its silence ended: ${alert.message}` });
+      }
+    }
+  }
+
+  // Reopened alerts notify again, until they're flapping; silenced alerts never do
+  const notifiedReopens = reopens
+    .filter(reopen => !reopen.wasFlapping && !reopen.alert.silenceId)
+    .map(reopen => ({
+      ...reopen.alert,
+      message: `${reopen.becameFlapping ? 'Flapping' : 'Reopened'}: ${reopen.alert.message}`,
+    }));
+  const notifications = buildNotificationDeliveries(
+    [...alerts.filter(alert => !alert.silenceId), ...notifiedReopens, ...unsilenced],
+    byId,
+    timestamp
+  );
+
+  // Escalation of the alerts that stay open, unacknowledged and unsilenced
+  const escalation = buildEscalations(
+    openAlerts.filter(alert => !resolving.has(alert.id) && !alert.acknowledged && !silenceAfter.get(alert.id)),
+    byId,
+    timestamp
+  );
+  for (const { id, policy, level, channels } of escalation.escalations) {
+    events.push({
+      alertId: id,
+      type: 'escalated',
+      actor: 'ingest',
+      details: JSON.stringify({ policy, tier: level, channels }),
+      createdAt: timestamp,
+    });
+  }
+  const dataQuality = buildDataQualityReport(nodes, timestamp);
+  timer.mark('score');
+
+  // --- metrics: chain metrics (network call, kept out of the transaction) ---
+  const metrics = await fetchChainMetrics();
+  const hasMetrics = metrics !== null && Object.values(metrics).some(v => v !== undefined);
+  timer.mark('metrics');
+
+  // --- write: everything in one transaction ---
+  const newSnapshots = nodes.filter(n => !existingIds.has(n.id));
+  const existingSnapshots = nodes.filter(n => existingIds.has(n.id));
+
+  await prisma.$transaction(async (tx) => {
+    for (const batch of chunk(newSnapshots, INGEST_BATCH_SIZE)) {
+      await tx.nodeSnapshot.createMany({
+        data: batch.map(node => ({ id: node.id, ...toNodeSnapshotData(node, scores.get(node.id)) })),
+      });
+    }
+    // Each row's values differ, so updates can't be merged; inside the transaction they stay cheap
+    for (const node of existingSnapshots) {
+      await tx.nodeSnapshot.update({ where: { id: node.id }, data: toNodeSnapshotData(node, scores.get(node.id)) });
+    }
+
+    for (const batch of chunk(history, INGEST_BATCH_SIZE)) {
+      await tx.nodeHistory.createMany({ data: batch });
+    }
+    for (const batch of chunk(peerEdges, INGEST_BATCH_SIZE)) {
+      await tx.peerEdge.createMany({ data: batch });
+    }
+    for (const batch of chunk(newEpochCredits, INGEST_BATCH_SIZE)) {
+      await tx.validatorEpochCredits.createMany({ data: batch });
+    }
+    for (const { id, ...credits } of changedEpochCredits) {
+      await tx.validatorEpochCredits.update({ where: { id }, data: credits });
+    }
+    for (const batch of chunk(commissionChanges, INGEST_BATCH_SIZE)) {
+      await tx.commissionChange.createMany({ data: batch });
+    }
+    for (const batch of chunk(alerts, INGEST_BATCH_SIZE)) {
+      await tx.alert.createMany({ data: batch });
+    }
+
+    // Alert lifecycle; guarded on `resolved` in case someone changed an alert during the run
+    const updateOpenAlerts = async (ids: string[], data: Prisma.AlertUpdateManyMutationInput) => {
+      for (const batch of chunk(ids, INGEST_BATCH_SIZE)) {
+        await tx.alert.updateMany({ where: { id: { in: batch }, resolved: false }, data });
+      }
+    };
+    await updateOpenAlerts(lifecycle.recovered, { clearCount: 0, clearSince: null });
+    await updateOpenAlerts(lifecycle.startedClearing, { clearCount: 1, clearSince: timestamp });
+    await updateOpenAlerts(lifecycle.stillClearing, { clearCount: { increment: 1 } });
+    await updateOpenAlerts(lifecycle.resolve.map(({ id }) => id), {
+      resolved: true,
+      resolvedAt: timestamp,
+      resolvedBy: 'ingest',
+      clearCount: 0,
+      clearSince: null,
+    });
+    for (const reopen of reopens) {
+      await tx.alert.updateMany({
+        where: { id: reopen.id, resolved: true },
+        data: {
+          severity: reopen.alert.severity,
+          message: reopen.alert.message,
+          details: reopen.alert.details,
+          resolved: false,
+          resolvedAt: null,
+          resolvedBy: null,
+          acknowledged: false,
+          acknowledgedAt: null,
+          acknowledgedBy: null,
+          ackNote: null,
+          team: reopen.alert.team,
+          escalationLevel: 0,
+          escalationSince: timestamp,
+          reopenCount: reopen.reopenCount,
+          flapping: reopen.flapping,
+          silenceId: reopen.alert.silenceId,
+        },
+      });
+    }
+    // Skipped if someone acknowledged the alert during the run; its deliveries are then suppressed when due
+    for (const { id, level } of escalation.escalations) {
+      await tx.alert.updateMany({ where: { id, resolved: false, acknowledged: false }, data: { escalationLevel: level } });
+    }
+    for (const [silenceId, ids] of silenceChanges) {
+      await updateOpenAlerts(ids, { silenceId });
+    }
+    for (const batch of chunk(events, INGEST_BATCH_SIZE)) {
+      await tx.alertEvent.createMany({ data: batch });
+    }
+    for (const batch of chunk([...notifications, ...escalation.deliveries], INGEST_BATCH_SIZE)) {
+      await tx.notificationDelivery.createMany({ data: batch });
+    }
+
+    // Rule states are replaced wholesale; skip rules deleted since they were loaded
+    await tx.alertRuleState.deleteMany();
+    const liveRuleIds = new Set(
+      (await tx.alertRule.findMany({ where: { enabled: true }, select: { id: true } })).map(rule => rule.id)
+    );
+    for (const batch of chunk(ruleEvaluation.states.filter(state => liveRuleIds.has(state.ruleId)), INGEST_BATCH_SIZE)) {
+      await tx.alertRuleState.createMany({ data: batch });
+    }
+
+    await tx.networkSnapshot.create({
+      data: {
+        timestamp,
+        totalNodes: networkStats.totalNodes,
+        onlineNodes: networkStats.onlineNodes,
+        offlineNodes: networkStats.offlineNodes,
+        healthyNodes,
+        warningNodes,
+        criticalNodes,
+        averagePeerCount: networkStats.averagePeerCount || null,
+        averageLatency: networkStats.averageLatency || null,
+        totalStorageCapacity: networkStats.totalStorageCapacity || null,
+        totalStorageUsed: networkStats.totalStorageUsed || null,
+        versionDistribution: JSON.stringify(networkStats.versionDistribution),
+        regionDistribution: JSON.stringify(networkStats.regionDistribution),
+        asnDistribution: JSON.stringify(networkStats.asnDistribution),
+        providerDistribution: JSON.stringify(networkStats.providerDistribution),
+        providerHhi: networkStats.concentration.provider.hhi,
+        providerTop3Share: networkStats.concentration.provider.top3Share,
+        providerNakamoto: networkStats.concentration.provider.nakamoto,
+        countryHhi: networkStats.concentration.country.hhi,
+        countryTop3Share: networkStats.concentration.country.top3Share,
+        countryNakamoto: networkStats.concentration.country.nakamoto,
+        peerNodes: networkStats.connectivity?.nodes ?? null,
+        peerLinks: networkStats.connectivity?.links ?? null,
+        peerComponents: networkStats.connectivity?.components ?? null,
+        largestComponentShare: networkStats.connectivity?.largestComponentShare ?? null,
+        isolatedNodes: networkStats.connectivity?.isolated ?? null,
+        articulationPoints: networkStats.connectivity?.articulationPoints ?? null,
+        bridgeLinks: networkStats.connectivity?.bridges ?? null,
+        peerMinCut: networkStats.connectivity?.minCut ?? null,
+        stakeBasis: networkStats.stakeWeighted?.basis ?? null,
+        totalStake: networkStats.stakeWeighted?.totalWeight ?? null,
+        onlineStakeShare: networkStats.stakeWeighted?.onlineShare ?? null,
+        stakeNakamoto: networkStats.stakeWeighted?.nakamoto ?? null,
+        stakeVersionDistribution: networkStats.stakeWeighted ? JSON.stringify(networkStats.stakeWeighted.versionDistribution) : null,
+        stakeRegionDistribution: networkStats.stakeWeighted ? JSON.stringify(networkStats.stakeWeighted.regionDistribution) : null,
+      },
+    });
+
+    await tx.dataQualityReport.create({
+      data: {
+        timestamp,
+        totalNodes: dataQuality.totalNodes,
+        nodesWithIssues: dataQuality.nodesWithIssues,
+        issueCount: dataQuality.issueCount,
+        fields: JSON.stringify(dataQuality.fields),
+        sampleIssues: JSON.stringify(dataQuality.sampleIssues),
+      },
+    });
+
+    if (hasMetrics) {
+      await tx.metricSnapshot.create({
+        data: {
+          tps: metrics.tps,
+          blockTimeMs: metrics.blockTimeMs,
+          slot: metrics.slot ?? null,
+          epoch: metrics.epoch ?? null,
+        },
+      });
+    }
+  }, { maxWait: 10000, timeout: INGEST_TX_TIMEOUT_MS });
+  timer.mark('write');
+
+  return {
+    nodes: nodes.length,
+    metrics: hasMetrics ? metrics : null,
+    alerts: alerts.length,
+    silenced: alerts.filter(alert => alert.silenceId).length,
+    resolved: lifecycle.resolve.length,
+    reopened: reopens.length,
+    notifications: notifications.length,
+    escalated: escalation.escalations.length,
+    networkStats: {
+      totalNodes: networkStats.totalNodes,
+      healthyNodes,
+      warningNodes,
+      criticalNodes,
+    },
+    dataQuality: {
+      nodesWithIssues: dataQuality.nodesWithIssues,
+      issueCount: dataQuality.issueCount,
+    },
+    timings: timer.timings(),
+  };
+}
+
+/**
+ * Run one ingest into the database (which must be available).
+ * Skips instead of running when another ingest is already in flight, in this
+ * process or any other sharing the database. Failures are recorded on the
+ * IngestRun row and rethrown.
+ */
+export async function runIngest(trigger: IngestTrigger): Promise<IngestOutcome> {
+  if (globalForIngest.ingestInFlight) {
+    return { status: 'skipped', reason: 'An ingest is already running in this process' };
+  }
+  globalForIngest.ingestInFlight = true;
+
+  try {
+    const startedAt = new Date();
+    if (!(await acquireLock(startedAt))) {
+      return { status: 'skipped', reason: 'An ingest is already running in another process' };
+    }
+
+    // The lease is released however the run ends, including failing to record it
+    let runId: number | null = null;
+    try {
+      const run = await prisma.ingestRun.create({ data: { trigger, startedAt } });
+      runId = run.id;
+      await prisma.ingestLock.update({ where: { id: LOCK_ID }, data: { runId: run.id } });
+
+      const fetchStart = Date.now();
+      const nodes = await fetchLiveNodes();
+      const sourceEndpoint = describeSource();
+      const fetchMs = Date.now() - fetchStart;
+
+      const stored = await ingestNodes(nodes, startedAt);
+      const result: IngestResult = {
+        ...stored,
+        timings: { ...stored.timings, fetch: fetchMs, total: stored.timings.total + fetchMs },
+      };
+
+      const finishedAt = new Date();
+      await prisma.ingestRun.update({
+        where: { id: run.id },
+        data: {
+          status: 'success',
+          finishedAt,
+          durationMs: finishedAt.getTime() - startedAt.getTime(),
+          nodeCount: result.nodes,
+          alertCount: result.alerts,
+          sourceEndpoint,
+          timings: JSON.stringify(result.timings),
+        },
+      });
+
+      // Send the queued notifications (and retries left over from earlier runs) without holding up the run
+      deliverPendingNotifications().catch(error => console.warn('Notification delivery failed:', error));
+      return { status: 'success', runId: run.id, result };
+    } catch (error) {
+      if (runId === null) throw error;
+      const finishedAt = new Date();
+      await prisma.ingestRun.update({
+        where: { id: runId },
+        data: {
+          status: 'failed',
+          finishedAt,
+          durationMs: finishedAt.getTime() - startedAt.getTime(),
+          sourceEndpoint: describeSource(),
+          error: error instanceof Error ? error.message : String(error),
+        },
+      }).catch(updateError => console.warn('Failed to record failed ingest run:', updateError));
+      throw error;
+    } finally {
+      await releaseLock().catch(releaseError => console.warn('Failed to release ingest lock:', releaseError));
+    }
+  } finally {
+    globalForIngest.ingestInFlight = false;
+  }
+}
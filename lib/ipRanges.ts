@@ -0,0 +1,76 @@
+// IPv4 range tables shared by the offline IP databases (GeoIP CSV, IP-to-ASN TSV).
+
+export function ipv4ToInt(ip: string): number | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4) return null;
+  let value = 0;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part)) return null;
+    const octet = Number(part);
+    if (octet > 255) return null;
+    value = value * 256 + octet;
+  }
+  return value;
+}
+
+export function cidrToRange(cidr: string): [number, number] | null {
+  const [ip, bits] = cidr.split('/');
+  const start = ipv4ToInt(ip);
+  const prefix = bits === undefined ? 32 : Number(bits);
+  if (start === null || !Number.isInteger(prefix) || prefix < 0 || prefix > 32) return null;
+  const size = 2 ** (32 - prefix);
+  const base = Math.floor(start / size) * size;
+  return [base, base + size - 1];
+}
+
+export interface IpRange<T> {
+  start: number;
+  end: number;
+  record: T;
+}
+
+/**
+ * Sorted IPv4 ranges with binary-search lookup.
+ * Ranges may overlap; lookups resolve to the narrowest range containing the address.
+ */
+export class IpRangeTable<T> {
+  private ranges: IpRange<T>[];
+
+  constructor(ranges: IpRange<T>[]) {
+    // Sorted by start, narrowest first for equal starts
+    this.ranges = ranges.sort((a, b) => a.start - b.start || (a.end - a.start) - (b.end - b.start));
+  }
+
+  get size(): number {
+    return this.ranges.length;
+  }
+
+  lookup(ip: string): T | null {
+    const value = ipv4ToInt(ip);
+    if (value === null) return null;
+
+    // Last range starting at or before the address
+    let lo = 0;
+    let hi = this.ranges.length - 1;
+    let idx = -1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (this.ranges[mid].start <= value) {
+        idx = mid;
+        lo = mid + 1;
+      } else {
+        hi = mid - 1;
+      }
+    }
+
+    // Walk back to find the narrowest range that contains the address
+    let best: IpRange<T> | null = null;
+    for (let i = idx; i >= 0 && i > idx - 64; i--) {
+      const range = this.ranges[i];
+      if (range.end >= value && (!best || range.end - range.start < best.end - best.start)) {
+        best = range;
+      }
+    }
+    return best ? best.record : null;
+  }
+}
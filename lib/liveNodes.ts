@@ -0,0 +1,38 @@
+import { pNode } from '@/types';
+import { fetchAllpNodes, fetchpNodeById } from './prpc';
+import { enrichNodesWithLocation } from './geoip';
+import { enrichNodesWithNetwork } from './asn';
+
+// Server-side entry points for live pRPC data: fetch, then resolve
+// locations and ASNs from the local IP databases (which the browser can't read).
+
+async function enrich(nodes: pNode[]): Promise<void> {
+  try {
+    await enrichNodesWithLocation(nodes);
+  } catch (error) {
+    console.warn('Failed to enrich nodes with location data:', error);
+  }
+  try {
+    await enrichNodesWithNetwork(nodes);
+  } catch (error) {
+    console.warn('Failed to enrich nodes with ASN data:', error);
+  }
+}
+
+/**
+ * Fetch all nodes from pRPC with locations and ASNs resolved
+ */
+export async function fetchLiveNodes(): Promise<pNode[]> {
+  const nodes = await fetchAllpNodes();
+  await enrich(nodes);
+  return nodes;
+}
+
+/**
+ * Fetch a single node from pRPC with its location and ASN resolved
+ */
+export async function fetchLiveNodeById(nodeId: string): Promise<pNode | null> {
+  const node = await fetchpNodeById(nodeId);
+  if (node) await enrich([node]);
+  return node;
+}
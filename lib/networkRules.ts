@@ -0,0 +1,208 @@
+import { NetworkAnomaly, NetworkRule, NetworkStats, pNode } from '@/types';
+
+// Network-wide alert rules, evaluated by ingest after each NetworkSnapshot.
+// Per-node anomalies live in lib/anomalies.ts; these look at the network as a
+// whole (availability, capacity, version monoculture) and at correlated
+// changes since the previous ingest (many nodes or a whole region vanishing
+// at once), and at the peer graph splitting apart. They raise network_issue
+// alerts with no nodeId.
+
+/**
+ * Network rule thresholds
+ */
+export const NETWORK_RULES = {
+  // Ratio rules need at least this many nodes to mean anything
+  minNodes: 5,
+  // Online share of all nodes: below warn → high, below critical → critical
+  onlineWarnPercent: parseInt(process.env.NETWORK_MIN_ONLINE_PERCENT || '80', 10),
+  onlineCriticalPercent: 50,
+  // Total storage capacity drop against about an hour ago: ≥ drop → high, ≥ twice that → critical
+  storageDropPercent: parseInt(process.env.NETWORK_STORAGE_DROP_PERCENT || '20', 10),
+  storageDropWindowMs: 60 * 60 * 1000,
+  // Share of nodes with a known version on a single release line → medium
+  versionMaxSharePercent: parseInt(process.env.NETWORK_VERSION_MAX_SHARE_PERCENT || '90', 10),
+  // Nodes available at the previous ingest that vanished or went offline:
+  // ≥ percent (and ≥ minNodes) → high, ≥ twice the percent → critical
+  disappearancePercent: parseInt(process.env.NETWORK_DISAPPEARANCE_PERCENT || '20', 10),
+  disappearanceMinNodes: 5,
+  // Regions with at least minNodes available nodes losing ≥ percent of them → high
+  regionLossPercent: parseInt(process.env.NETWORK_REGION_LOSS_PERCENT || '60', 10),
+  regionMinNodes: 3,
+  // Nodes with known peering that can't reach the largest peer-graph component:
+  // ≥ percent → high; the largest component holding half of them or fewer → critical
+  partitionPercent: parseInt(process.env.NETWORK_PARTITION_PERCENT || '10', 10),
+  // The previous ingest only counts as "simultaneous" if it is this recent
+  previousMaxAgeMs: 2 * 60 * 60 * 1000,
+} as const;
+
+/**
+ * A node as of an earlier ingest
+ */
+export interface NetworkRuleNode {
+  id: string;
+  status: pNode['status'] | null;
+  region: string;
+}
+
+/**
+ * Earlier network state the current ingest is compared with
+ */
+export interface NetworkBaseline {
+  previous?: { timestamp: Date; nodes: NetworkRuleNode[] }; // the previous ingest
+  hourAgo?: { timestamp: Date; totalStorageCapacity: number | null }; // a snapshot about storageDropWindowMs old
+}
+
+/**
+ * Region label used for network rules, matching the region distribution
+ */
+export function regionOf(location: { country?: string | null; region?: string | null } | null | undefined): string {
+  return location?.country || location?.region || 'unknown';
+}
+
+/**
+ * Dedupe key of a network alert: one open alert per rule and scope
+ */
+export function networkAlertKey(rule: NetworkRule, scope?: string | null): string {
+  return `network:${rule}:${scope ?? ''}`;
+}
+
+const percent = (part: number, whole: number) => (whole > 0 ? (part / whole) * 100 : 0);
+
+/**
+ * Evaluate the network rules for one ingest
+ */
+export function evaluateNetworkRules(
+  nodes: pNode[],
+  stats: NetworkStats,
+  baseline: NetworkBaseline,
+  now: Date = new Date()
+): NetworkAnomaly[] {
+  const anomalies: NetworkAnomaly[] = [];
+  const add = (anomaly: Omit<NetworkAnomaly, 'type' | 'timestamp'>) =>
+    anomalies.push({ type: 'network_issue', timestamp: now, ...anomaly });
+
+  // Online ratio
+  if (stats.totalNodes >= NETWORK_RULES.minNodes) {
+    const onlinePercent = percent(stats.onlineNodes, stats.totalNodes);
+    if (onlinePercent < NETWORK_RULES.onlineWarnPercent) {
+      add({
+        rule: 'online_ratio',
+        severity: onlinePercent < NETWORK_RULES.onlineCriticalPercent ? 'critical' : 'high',
+        message: `Only ${onlinePercent.toFixed(1)}% of nodes online (${stats.onlineNodes}/${stats.totalNodes})`,
+        details: { onlinePercent, onlineNodes: stats.onlineNodes, totalNodes: stats.totalNodes },
+      });
+    }
+  }
+
+  // Total storage capacity, hour over hour
+  const before = baseline.hourAgo?.totalStorageCapacity;
+  if (before && before > 0) {
+    const dropPercent = percent(before - stats.totalStorageCapacity, before);
+    if (dropPercent >= NETWORK_RULES.storageDropPercent) {
+      add({
+        rule: 'storage_capacity_drop',
+        severity: dropPercent >= NETWORK_RULES.storageDropPercent * 2 ? 'critical' : 'high',
+        message: `Total storage capacity down ${dropPercent.toFixed(1)}% in the last hour`,
+        details: {
+          dropPercent,
+          previous: before,
+          current: stats.totalStorageCapacity,
+          since: baseline.hourAgo!.timestamp,
+        },
+      });
+    }
+  }
+
+  // A single release line dominating the network
+  const versioned = Object.entries(stats.versionDistribution).filter(([line]) => line !== 'unknown');
+  const versionedNodes = versioned.reduce((sum, [, count]) => sum + count, 0);
+  if (versionedNodes >= NETWORK_RULES.minNodes && versioned.length > 0) {
+    const [line, count] = versioned.reduce((top, entry) => (entry[1] > top[1] ? entry : top));
+    const share = percent(count, versionedNodes);
+    if (share > NETWORK_RULES.versionMaxSharePercent) {
+      add({
+        rule: 'version_dominance',
+        severity: 'medium',
+        message: `${share.toFixed(1)}% of nodes run ${line}; a bug in that release would hit nearly the whole network`,
+        details: { version: line, share, nodes: count, versionedNodes },
+      });
+    }
+  }
+
+  // Peer graph split apart: nodes cut off from the main part of the network
+  const connectivity = stats.connectivity;
+  if (connectivity && connectivity.nodes >= NETWORK_RULES.minNodes && connectivity.components > 1) {
+    const unreachable = connectivity.nodes - Math.round(connectivity.largestComponentShare * connectivity.nodes);
+    const unreachablePercent = percent(unreachable, connectivity.nodes);
+    if (unreachablePercent >= NETWORK_RULES.partitionPercent) {
+      add({
+        rule: 'peer_partition',
+        severity: connectivity.largestComponentShare <= 0.5 ? 'critical' : 'high',
+        message: `Peer graph split into ${connectivity.components} parts; ${unreachable} of ${connectivity.nodes} nodes (${unreachablePercent.toFixed(1)}%) can't reach the largest`,
+        details: {
+          components: connectivity.components,
+          unreachable,
+          unreachablePercent,
+          isolated: connectivity.isolated,
+          nodes: connectivity.nodes,
+          links: connectivity.links,
+        },
+      });
+    }
+  }
+
+  // Correlated outages: nodes available at the previous ingest that are now gone or offline
+  const previous = baseline.previous;
+  if (previous && now.getTime() - previous.timestamp.getTime() <= NETWORK_RULES.previousMaxAgeMs) {
+    const current = new Map(nodes.map(node => [node.id, node]));
+    const available = previous.nodes.filter(node => node.status !== 'offline');
+    const lost = available.filter(node => {
+      const state = current.get(node.id);
+      return !state || state.status === 'offline';
+    });
+
+    const lostPercent = percent(lost.length, available.length);
+    if (lost.length >= NETWORK_RULES.disappearanceMinNodes && lostPercent >= NETWORK_RULES.disappearancePercent) {
+      const missing = lost.filter(node => !current.has(node.id)).length;
+      add({
+        rule: 'mass_disappearance',
+        severity: lostPercent >= NETWORK_RULES.disappearancePercent * 2 ? 'critical' : 'high',
+        message: `${lost.length} of ${available.length} nodes (${lostPercent.toFixed(1)}%) went offline or disappeared since the last ingest`,
+        details: {
+          lost: lost.length,
+          missing,
+          offline: lost.length - missing,
+          previouslyAvailable: available.length,
+          lostPercent,
+          since: previous.timestamp,
+          sampleNodeIds: lost.slice(0, 10).map(node => node.id),
+        },
+      });
+    }
+
+    const byRegion = new Map<string, { available: number; lost: number }>();
+    for (const node of available) {
+      if (node.region === 'unknown') continue;
+      const counts = byRegion.get(node.region) ?? { available: 0, lost: 0 };
+      counts.available++;
+      byRegion.set(node.region, counts);
+    }
+    for (const node of lost) {
+      const counts = byRegion.get(node.region);
+      if (counts) counts.lost++;
+    }
+    for (const [region, counts] of byRegion) {
+      const regionLostPercent = percent(counts.lost, counts.available);
+      if (counts.available < NETWORK_RULES.regionMinNodes || regionLostPercent < NETWORK_RULES.regionLossPercent) continue;
+      add({
+        rule: 'region_loss',
+        scope: region,
+        severity: 'high',
+        message: `${region} lost ${counts.lost} of ${counts.available} nodes since the last ingest`,
+        details: { region, lost: counts.lost, previouslyAvailable: counts.available, lostPercent: regionLostPercent },
+      });
+    }
+  }
+
+  return anomalies;
+}
@@ -0,0 +1,278 @@
+import type { Prisma } from '@prisma/client';
+import { FilterOptions, NodeQuery, NodeSortField, pNode } from '@/types';
+import { calculateHealthScore } from './health';
+import { deriveRiskScore } from './clientAnalytics';
+
+// Node list queries: FilterOptions, free-text search, sorting and keyset
+// (cursor) pagination. The same query runs against NodeSnapshot in the
+// database, or in memory over live nodes when there is no database.
+// Nodes without a value for the sort column always come last, and ties are
+// broken by id, so pages never skip or repeat nodes.
+
+export const DEFAULT_NODE_PAGE_SIZE = 200;
+export const MAX_NODE_PAGE_SIZE = 500;
+
+const NODE_SORT_FIELDS: NodeSortField[] = ['id', 'status', 'peerCount', 'storageUsed', 'latency', 'health', 'risk'];
+const NODE_STATUSES = ['online', 'offline', 'unknown'] as const;
+
+// NodeSnapshot column behind each sort field
+const SORT_COLUMNS = {
+  id: 'id',
+  status: 'status',
+  peerCount: 'peerCount',
+  storageUsed: 'storageUsed',
+  latency: 'latency',
+  health: 'healthScore',
+  risk: 'riskScore',
+} as const satisfies Record<NodeSortField, keyof Prisma.NodeSnapshotWhereInput>;
+
+type SortValue = string | number | null;
+
+interface NodeCursor {
+  v: SortValue; // sort column value of the last node on the page
+  id: string;
+}
+
+/**
+ * Storage used as a percentage of capacity, or null when either is unknown
+ */
+export function storageUsagePercent(node: Pick<pNode, 'storageUsed' | 'storageCapacity'>): number | null {
+  if (node.storageUsed === undefined || !node.storageCapacity) return null;
+  return (node.storageUsed / node.storageCapacity) * 100;
+}
+
+function encodeCursor(cursor: NodeCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(value: string | undefined): NodeCursor | null {
+  if (!value) return null;
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    return typeof cursor?.id === 'string' ? cursor : null;
+  } catch {
+    return null;
+  }
+}
+
+function parseList(value: string | null): string[] | undefined {
+  const items = value?.split(',').map(item => item.trim()).filter(Boolean);
+  return items && items.length > 0 ? items : undefined;
+}
+
+function parseNumber(value: string | null): number | undefined {
+  if (value === null || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Read a NodeQuery from /api/nodes search params.
+ * Lists are comma-separated: ?status=online,offline&version=0.7.1&sort=latency&direction=desc
+ */
+export function parseNodeQuery(params: URLSearchParams): NodeQuery {
+  const sort = params.get('sort') as NodeSortField | null;
+  const limit = parseInt(params.get('limit') || params.get('pageSize') || String(DEFAULT_NODE_PAGE_SIZE), 10);
+
+  return {
+    filters: {
+      status: parseList(params.get('status'))
+        ?.filter((s): s is pNode['status'] => (NODE_STATUSES as readonly string[]).includes(s)),
+      version: parseList(params.get('version')),
+      region: parseList(params.get('region')),
+      minPeerCount: parseNumber(params.get('minPeerCount')),
+      maxPeerCount: parseNumber(params.get('maxPeerCount')),
+      minStorageUsage: parseNumber(params.get('minStorageUsage')),
+      maxStorageUsage: parseNumber(params.get('maxStorageUsage')),
+    },
+    search: params.get('q')?.trim() || undefined,
+    sort: sort && NODE_SORT_FIELDS.includes(sort) ? sort : 'id',
+    direction: params.get('direction') === 'desc' ? 'desc' : 'asc',
+    cursor: params.get('cursor') || undefined,
+    limit: Math.min(MAX_NODE_PAGE_SIZE, Math.max(1, Number.isFinite(limit) ? limit : DEFAULT_NODE_PAGE_SIZE)),
+  };
+}
+
+/**
+ * Search params for a (partial) NodeQuery; the inverse of parseNodeQuery
+ */
+export function nodeQueryToSearchParams(query: Partial<NodeQuery>): URLSearchParams {
+  const params = new URLSearchParams();
+  const filters: FilterOptions = query.filters ?? {};
+
+  if (filters.status?.length) params.set('status', filters.status.join(','));
+  if (filters.version?.length) params.set('version', filters.version.join(','));
+  if (filters.region?.length) params.set('region', filters.region.join(','));
+  for (const key of ['minPeerCount', 'maxPeerCount', 'minStorageUsage', 'maxStorageUsage'] as const) {
+    if (filters[key] !== undefined) params.set(key, String(filters[key]));
+  }
+  if (query.search) params.set('q', query.search);
+  if (query.sort) params.set('sort', query.sort);
+  if (query.direction) params.set('direction', query.direction);
+  if (query.cursor) params.set('cursor', query.cursor);
+  if (query.limit) params.set('limit', String(query.limit));
+  return params;
+}
+
+// ---------------------------------------------------------------------------
+// Database (NodeSnapshot)
+// ---------------------------------------------------------------------------
+
+function filterWhere(query: NodeQuery): Prisma.NodeSnapshotWhereInput[] {
+  const { filters, search } = query;
+  const where: Prisma.NodeSnapshotWhereInput[] = [];
+
+  if (filters.status?.length) where.push({ status: { in: filters.status } });
+  if (filters.version?.length) where.push({ version: { in: filters.version } });
+  if (filters.region?.length) {
+    where.push({ OR: [{ country: { in: filters.region } }, { region: { in: filters.region } }] });
+  }
+  if (filters.minPeerCount !== undefined || filters.maxPeerCount !== undefined) {
+    where.push({ peerCount: { gte: filters.minPeerCount, lte: filters.maxPeerCount } });
+  }
+  if (filters.minStorageUsage !== undefined || filters.maxStorageUsage !== undefined) {
+    where.push({ storageUsagePercent: { gte: filters.minStorageUsage, lte: filters.maxStorageUsage } });
+  }
+  if (search) {
+    // LIKE in SQLite is case-insensitive for ASCII
+    where.push({
+      OR: [
+        { id: { contains: search } },
+        { publicKey: { contains: search } },
+        { ipAddress: { contains: search } },
+        { country: { contains: search } },
+      ],
+    });
+  }
+  return where;
+}
+
+// Rows after the cursor in (sort column, id) order, with nulls last
+function keysetWhere(query: NodeQuery, cursor: NodeCursor): Prisma.NodeSnapshotWhereInput {
+  const column = SORT_COLUMNS[query.sort];
+  const beyond = query.direction === 'asc' ? 'gt' : 'lt';
+
+  if (column === 'id') return { id: { [beyond]: cursor.id } };
+  if (cursor.v === null) return { [column]: null, id: { gt: cursor.id } };
+  return {
+    OR: [
+      { [column]: { [beyond]: cursor.v } },
+      { [column]: cursor.v, id: { gt: cursor.id } },
+      { [column]: null },
+    ],
+  };
+}
+
+/**
+ * Prisma where / orderBy for a NodeQuery. An invalid cursor starts from the first page.
+ */
+export function nodeQueryArgs(query: NodeQuery) {
+  const filters = filterWhere(query);
+  const cursor = decodeCursor(query.cursor);
+  const page = cursor ? [...filters, keysetWhere(query, cursor)] : filters;
+  const column = SORT_COLUMNS[query.sort];
+
+  const orderBy: Prisma.NodeSnapshotOrderByWithRelationInput[] = column === 'id'
+    ? [{ id: query.direction }]
+    : [{ [column]: { sort: query.direction, nulls: 'last' } }, { id: 'asc' }];
+
+  return {
+    // Total matching the filters, ignoring the cursor
+    countWhere: { AND: filters } satisfies Prisma.NodeSnapshotWhereInput,
+    where: { AND: page } satisfies Prisma.NodeSnapshotWhereInput,
+    orderBy,
+  };
+}
+
+/**
+ * Cursor for the page after `last` (a NodeSnapshot row)
+ */
+export function nextSnapshotCursor(query: NodeQuery, last: Record<string, unknown> & { id: string }): string {
+  const value = last[SORT_COLUMNS[query.sort]];
+  return encodeCursor({ v: typeof value === 'string' || typeof value === 'number' ? value : null, id: last.id });
+}
+
+// ---------------------------------------------------------------------------
+// In memory (live nodes)
+// ---------------------------------------------------------------------------
+
+function sortValue(node: pNode, sort: NodeSortField): SortValue {
+  switch (sort) {
+    case 'id':
+      return node.id;
+    case 'status':
+      return node.status;
+    case 'peerCount':
+      return node.peerCount;
+    case 'storageUsed':
+      return node.storageUsed ?? null;
+    case 'latency':
+      return node.latency ?? null;
+    case 'health':
+      return calculateHealthScore(node).score;
+    case 'risk':
+      // No history without a database, so no anomaly penalties
+      return deriveRiskScore(node, []);
+  }
+}
+
+function matchesFilters(node: pNode, query: NodeQuery): boolean {
+  const { filters } = query;
+  const search = query.search?.toLowerCase();
+
+  if (filters.status?.length && !filters.status.includes(node.status)) return false;
+  if (filters.version?.length && !filters.version.includes(node.softwareVersion ?? '')) return false;
+  if (filters.region?.length &&
+      !filters.region.includes(node.location?.country ?? '') &&
+      !filters.region.includes(node.location?.region ?? '')) {
+    return false;
+  }
+  if (filters.minPeerCount !== undefined && node.peerCount < filters.minPeerCount) return false;
+  if (filters.maxPeerCount !== undefined && node.peerCount > filters.maxPeerCount) return false;
+  if (filters.minStorageUsage !== undefined || filters.maxStorageUsage !== undefined) {
+    const usage = storageUsagePercent(node);
+    if (usage === null) return false;
+    if (filters.minStorageUsage !== undefined && usage < filters.minStorageUsage) return false;
+    if (filters.maxStorageUsage !== undefined && usage > filters.maxStorageUsage) return false;
+  }
+  if (search) {
+    const fields = [node.id, node.publicKey, node.ipAddress, node.location?.country];
+    if (!fields.some(field => field?.toLowerCase().includes(search))) return false;
+  }
+  return true;
+}
+
+function compareEntries(a: NodeCursor, b: NodeCursor, query: NodeQuery): number {
+  if (query.sort === 'id') {
+    const order = a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+    return query.direction === 'asc' ? order : -order;
+  }
+  if (a.v !== b.v) {
+    if (a.v === null) return 1;
+    if (b.v === null) return -1;
+    const order = a.v < b.v ? -1 : 1;
+    return query.direction === 'asc' ? order : -order;
+  }
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+/**
+ * Run a NodeQuery over an in-memory node list, with the same ordering and cursors as the database
+ */
+export function applyNodeQuery(nodes: pNode[], query: NodeQuery): { nodes: pNode[]; total: number; nextCursor: string | null } {
+  const entries = nodes
+    .filter(node => matchesFilters(node, query))
+    .map(node => ({ node, key: { v: sortValue(node, query.sort), id: node.id } }))
+    .sort((a, b) => compareEntries(a.key, b.key, query));
+
+  const cursor = decodeCursor(query.cursor);
+  const start = cursor ? entries.findIndex(entry => compareEntries(entry.key, cursor, query) > 0) : 0;
+  const page = start === -1 ? [] : entries.slice(start, start + query.limit);
+  const hasMore = start !== -1 && start + query.limit < entries.length;
+
+  return {
+    nodes: page.map(entry => entry.node),
+    total: entries.length,
+    nextCursor: hasMore ? encodeCursor(page[page.length - 1].key) : null,
+  };
+}
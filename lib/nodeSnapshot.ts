@@ -0,0 +1,127 @@
+import type { NodeSnapshot } from '@prisma/client';
+import { LocationSource, pNode } from '@/types';
+import { storageUsagePercent } from './nodeQuery';
+
+// Mapping between pNode and the NodeSnapshot table. NodeSnapshot holds the
+// complete current state of each node, so nodes read back from the database
+// have the same shape as nodes fetched live.
+
+function toJson(value: unknown): string | null {
+  return value === undefined || value === null ? null : JSON.stringify(value);
+}
+
+function fromJson<T>(value: string | null): T | undefined {
+  return value ? (JSON.parse(value) as T) : undefined;
+}
+
+// Scores computed at ingest, stored for sorting the node list
+export interface NodeSnapshotScores {
+  healthScore: number;
+  healthProfile: string;
+  riskScore: number;
+}
+
+/**
+ * NodeSnapshot columns (everything except the id) for a node
+ */
+export function toNodeSnapshotData(node: pNode, scores?: NodeSnapshotScores) {
+  const commission = typeof node.metadata?.commission === 'number' ? node.metadata.commission : null;
+  const location = node.location;
+  return {
+    publicKey: node.publicKey ?? null,
+    ipAddress: node.ipAddress ?? null,
+    endpoint: node.endpoint ?? null,
+    status: node.status,
+    version: node.softwareVersion ?? null,
+    protocolVersion: node.protocolVersion ?? null,
+    buildInfo: node.buildInfo ?? null,
+    region: location?.region ?? null,
+    country: location?.country ?? null,
+    countryCode: location?.countryCode ?? null,
+    city: location?.city ?? null,
+    latitude: location?.latitude ?? null,
+    longitude: location?.longitude ?? null,
+    locationSource: location?.source ?? null,
+    locationApproximate: location?.approximate === true,
+    asn: node.network?.asn ?? null,
+    asOrganization: node.network?.organization ?? null,
+    provider: node.network?.provider ?? null,
+    peerCount: node.peerCount,
+    storageCapacity: node.storageCapacity ?? null,
+    storageUsed: node.storageUsed ?? null,
+    storageFree: node.storageFree ?? null,
+    latency: node.latency ?? null,
+    uptime: node.uptime ?? null,
+    availability: node.availability ?? null,
+    storageUsagePercent: storageUsagePercent(node),
+    healthScore: scores?.healthScore ?? null,
+    healthProfile: scores?.healthProfile ?? null,
+    riskScore: scores?.riskScore ?? null,
+    isValidator: node.metadata?.isValidator === true,
+    voteAccount: node.metadata?.voteAccount || null,
+    commission,
+    lastSeen: node.lastSeen ? new Date(node.lastSeen) : null,
+    provenance: toJson(node.provenance),
+    validationIssues: node.validationIssues?.length ? JSON.stringify(node.validationIssues) : null,
+    peers: toJson(node.peers),
+    metadata: toJson(node.metadata),
+    rawData: toJson(node.rawData),
+  };
+}
+
+/**
+ * Rebuild a pNode from its NodeSnapshot row
+ */
+export function fromNodeSnapshot(row: NodeSnapshot): pNode {
+  const hasLocation = [row.country, row.region, row.city, row.latitude, row.longitude, row.locationSource]
+    .some(value => value !== null);
+  const hasNetwork = row.asn !== null || row.asOrganization !== null || row.provider !== null;
+
+  return {
+    id: row.id,
+    publicKey: row.publicKey ?? undefined,
+    ipAddress: row.ipAddress ?? undefined,
+    endpoint: row.endpoint ?? undefined,
+    status: (row.status as pNode['status']) || 'unknown',
+    lastSeen: row.lastSeen ?? row.updatedAt,
+    peerCount: row.peerCount ?? 0,
+    storageCapacity: row.storageCapacity ?? undefined,
+    storageUsed: row.storageUsed ?? undefined,
+    storageFree: row.storageFree ?? undefined,
+    softwareVersion: row.version ?? undefined,
+    protocolVersion: row.protocolVersion ?? undefined,
+    buildInfo: row.buildInfo ?? undefined,
+    latency: row.latency ?? undefined,
+    uptime: row.uptime ?? undefined,
+    availability: row.availability ?? undefined,
+    location: hasLocation
+      ? {
+          country: row.country ?? undefined,
+          countryCode: row.countryCode ?? undefined,
+          region: row.region ?? undefined,
+          city: row.city ?? undefined,
+          latitude: row.latitude ?? undefined,
+          longitude: row.longitude ?? undefined,
+          source: (row.locationSource as LocationSource) ?? undefined,
+          approximate: row.locationApproximate || undefined,
+        }
+      : undefined,
+    network: hasNetwork
+      ? {
+          asn: row.asn ?? undefined,
+          organization: row.asOrganization ?? undefined,
+          provider: row.provider ?? undefined,
+        }
+      : undefined,
+    peers: fromJson<string[]>(row.peers),
+    // Older rows predate the metadata column; fall back to the validator columns
+    metadata: fromJson<Record<string, unknown>>(row.metadata) ?? {
+      isValidator: row.isValidator,
+      voteAccount: row.voteAccount ?? undefined,
+      commission: row.commission ?? undefined,
+    },
+    rawData: fromJson<Record<string, unknown>>(row.rawData),
+    provenance: fromJson<pNode['provenance']>(row.provenance),
+    validationIssues: fromJson<string[]>(row.validationIssues),
+  };
+}
@@ -0,0 +1,215 @@
+import { createHmac } from 'crypto';
+import { NotificationChannelConfig, NotificationChannelType, NotificationMessage } from '@/types';
+import { sendMail } from './smtp';
+
+// Notification channel types (server-only). Each type validates its settings
+// from the notifications config and sends one message; queueing, retries and
+// routing live in lib/notifications.ts. To add a channel type, add it to
+// NotificationChannelType and NOTIFICATION_CHANNELS.
+
+export interface NotificationChannel {
+  /** Throws an Error naming the first missing or invalid setting */
+  validate(config: NotificationChannelConfig): void;
+  /** Rejects when the message could not be delivered (retried by the caller) */
+  send(config: NotificationChannelConfig, message: NotificationMessage, timeoutMs: number): Promise<void>;
+}
+
+const severityColors: Record<NotificationMessage['severity'], string> = {
+  critical: '#dc2626',
+  high: '#ea580c',
+  medium: '#ca8a04',
+  low: '#2563eb',
+};
+
+/**
+ * One-line summary, e.g. "[HIGH] offline on node 3fa8c2d1…"
+ */
+export function notificationTitle(message: NotificationMessage): string {
+  const subject = message.nodeId
+    ? `${message.type} on node ${message.nodeId.length > 12 ? `${message.nodeId.slice(0, 8)}…` : message.nodeId}`
+    : `${message.type} on the network`;
+  return `${message.test ? '[TEST] ' : ''}[${message.severity.toUpperCase()}] ${subject}`;
+}
+
+function notificationText(message: NotificationMessage): string {
+  return [
+    notificationTitle(message),
+    message.message,
+    message.nodeId ? `Node: ${message.nodeId}` : null,
+    message.tags.length > 0 ? `Tags: ${message.tags.join(', ')}` : null,
+    `Raised: ${message.createdAt}`,
+    message.url ?? null,
+  ].filter(Boolean).join('\n');
+}
+
+function requireString(config: NotificationChannelConfig, key: string): string {
+  const value = config[key];
+  if (typeof value !== 'string' || !value) {
+    throw new Error(`Notification channel "${config.name}": ${config.type} needs "${key}"`);
+  }
+  return value;
+}
+
+function requireUrl(config: NotificationChannelConfig, key = 'url'): string {
+  const value = requireString(config, key);
+  try {
+    new URL(value);
+  } catch {
+    throw new Error(`Notification channel "${config.name}": "${key}" is not a valid URL`);
+  }
+  return value;
+}
+
+async function postJson(url: string, body: string, timeoutMs: number, headers: Record<string, string> = {}): Promise<void> {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body,
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+  if (!res.ok) {
+    const text = await res.text().catch(() => '');
+    throw new Error(`HTTP ${res.status}${text ? `: ${text.slice(0, 200)}` : ''}`);
+  }
+}
+
+/**
+ * Signature of a webhook body: hex HMAC-SHA256 of "<timestamp>.<body>" with the channel secret
+ */
+export function signWebhook(secret: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// Generic JSON webhook, optionally signed (X-Xpic-Timestamp / X-Xpic-Signature: sha256=<hex>)
+const webhook: NotificationChannel = {
+  validate(config) {
+    requireUrl(config);
+    if (config.secret !== undefined) requireString(config, 'secret');
+    if (config.headers !== undefined && (typeof config.headers !== 'object' || config.headers === null)) {
+      throw new Error(`Notification channel "${config.name}": "headers" must be an object`);
+    }
+  },
+  async send(config, message, timeoutMs) {
+    const body = JSON.stringify({ event: message.test ? 'test' : 'alert', alert: message });
+    const headers: Record<string, string> = { ...(config.headers as Record<string, string> | undefined) };
+    if (typeof config.secret === 'string') {
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      headers['X-Xpic-Timestamp'] = timestamp;
+      headers['X-Xpic-Signature'] = `sha256=${signWebhook(config.secret, timestamp, body)}`;
+    }
+    await postJson(config.url as string, body, timeoutMs, headers);
+  },
+};
+
+// Slack incoming webhook (also accepted by Mattermost and Rocket.Chat)
+const slack: NotificationChannel = {
+  validate(config) {
+    requireUrl(config);
+  },
+  async send(config, message, timeoutMs) {
+    const fields = [
+      { title: 'Severity', value: message.severity, short: true },
+      { title: 'Type', value: message.type, short: true },
+      ...(message.nodeId ? [{ title: 'Node', value: message.nodeId, short: false }] : []),
+    ];
+    await postJson(config.url as string, JSON.stringify({
+      text: notificationTitle(message),
+      attachments: [{
+        color: severityColors[message.severity],
+        title: notificationTitle(message),
+        title_link: message.url,
+        text: message.message,
+        fields,
+        ts: Math.floor(new Date(message.createdAt).getTime() / 1000),
+      }],
+    }), timeoutMs);
+  },
+};
+
+// Discord webhook
+const discord: NotificationChannel = {
+  validate(config) {
+    requireUrl(config);
+  },
+  async send(config, message, timeoutMs) {
+    await postJson(config.url as string, JSON.stringify({
+      username: typeof config.username === 'string' ? config.username : undefined,
+      embeds: [{
+        title: notificationTitle(message),
+        url: message.url,
+        description: message.message,
+        color: parseInt(severityColors[message.severity].slice(1), 16),
+        fields: [
+          { name: 'Severity', value: message.severity, inline: true },
+          { name: 'Type', value: message.type, inline: true },
+          ...(message.nodeId ? [{ name: 'Node', value: message.nodeId, inline: false }] : []),
+        ],
+        timestamp: message.createdAt,
+      }],
+    }), timeoutMs);
+  },
+};
+
+// Telegram Bot API sendMessage; apiUrl points elsewhere for compatible or stub servers
+const telegram: NotificationChannel = {
+  validate(config) {
+    requireString(config, 'botToken');
+    if (typeof config.chatId !== 'string' && typeof config.chatId !== 'number') {
+      throw new Error(`Notification channel "${config.name}": telegram needs "chatId"`);
+    }
+    if (config.apiUrl !== undefined) requireUrl(config, 'apiUrl');
+  },
+  async send(config, message, timeoutMs) {
+    const apiUrl = ((config.apiUrl as string | undefined) ?? 'https://api.telegram.org').replace(/\/$/, '');
+    await postJson(`${apiUrl}/bot${config.botToken}/sendMessage`, JSON.stringify({
+      chat_id: config.chatId,
+      text: notificationText(message),
+      disable_web_page_preview: true,
+    }), timeoutMs);
+  },
+};
+
+// Email over SMTP
+const email: NotificationChannel = {
+  validate(config) {
+    requireString(config, 'host');
+    requireString(config, 'from');
+    if (!Array.isArray(config.to) || config.to.length === 0 || config.to.some(to => typeof to !== 'string')) {
+      throw new Error(`Notification channel "${config.name}": email needs "to", a list of addresses`);
+    }
+    if (config.port !== undefined && !Number.isInteger(config.port)) {
+      throw new Error(`Notification channel "${config.name}": "port" must be a number`);
+    }
+  },
+  async send(config, message, timeoutMs) {
+    await sendMail(
+      {
+        host: config.host as string,
+        port: (config.port as number | undefined) ?? (config.secure ? 465 : 587),
+        secure: config.secure === true,
+        startTls: config.startTls !== false,
+        username: config.username as string | undefined,
+        password: config.password as string | undefined,
+        allowInsecureAuth: config.allowInsecureAuth === true,
+        timeoutMs,
+      },
+      {
+        from: config.from as string,
+        to: config.to as string[],
+        subject: notificationTitle(message),
+        text: notificationText(message),
+      }
+    );
+  },
+};
+
+/**
+ * Channel implementations by type
+ */
+export const NOTIFICATION_CHANNELS: Record<NotificationChannelType, NotificationChannel> = {
+  webhook,
+  slack,
+  discord,
+  telegram,
+  email,
+};
@@ -0,0 +1,475 @@
+import { readFileSync, statSync } from 'fs';
+import path from 'path';
+import { Prisma } from '@prisma/client';
+import {
+  Anomaly,
+  EscalationPolicy,
+  NotificationChannelConfig,
+  NotificationConfig,
+  NotificationMessage,
+  NotificationRoute,
+  NotificationTeam,
+  pNode,
+} from '@/types';
+import { prisma } from './db';
+import { versionBucket } from './versions';
+import { NOTIFICATION_CHANNELS } from './notificationChannels';
+import { findActiveSilence, nodeRegions, parseSilence, unexpiredSilenceWhere } from './silences';
+
+// Alert notifications (server-only). Channels and their routing live in a
+// JSON file named by NOTIFICATIONS_CONFIG; "${VAR}" in any string is replaced
+// with that environment variable, so secrets can stay out of the file.
+// Ingest queues one NotificationDelivery row per new alert and matching
+// channel in its write transaction; deliverPendingNotifications sends them
+// afterwards, retrying failures with exponential backoff. Deliveries for
+// alerts a silence covers by the time they're sent are marked suppressed
+// instead, as are escalations for alerts acknowledged or resolved in the
+// meantime. The rows double as the delivery log. The same file names the
+// teams owning nodes and the escalation policies (lib/escalation.ts).
+
+const NOTIFICATIONS_CONFIG = process.env.NOTIFICATIONS_CONFIG;
+// Attempts per delivery before it is marked failed
+const NOTIFICATION_MAX_ATTEMPTS = Math.max(1, parseInt(process.env.NOTIFICATION_MAX_ATTEMPTS || '5', 10));
+// Delay before the first retry; doubles with each further attempt
+const NOTIFICATION_RETRY_BASE_MS = Math.max(1000, parseInt(process.env.NOTIFICATION_RETRY_BASE_MS || '30000', 10));
+// Per-send timeout
+const NOTIFICATION_TIMEOUT_MS = parseInt(process.env.NOTIFICATION_TIMEOUT_MS || '10000', 10);
+// Base URL of this dashboard, for links in notifications
+const NOTIFICATIONS_DASHBOARD_URL = process.env.NOTIFICATIONS_DASHBOARD_URL?.replace(/\/$/, '');
+
+// Deliveries loaded per query while draining the queue
+const DELIVERY_BATCH = 50;
+
+const SEVERITIES: Anomaly['severity'][] = ['low', 'medium', 'high', 'critical'];
+
+// --- config ---
+
+function expandEnv<T>(value: T): T {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{([A-Za-z0-9_]+)\}/g, (_, name: string) => {
+      const env = process.env[name];
+      if (env === undefined) throw new Error(`Notification config: environment variable ${name} is not set`);
+      return env;
+    }) as T;
+  }
+  if (Array.isArray(value)) return value.map(expandEnv) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, expandEnv(v)])) as T;
+  }
+  return value;
+}
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+// `owner` names what the route belongs to in errors, e.g. 'Notification channel "ops"'
+function validateRoute(owner: string, route: NotificationRoute): void {
+  if (route.minSeverity !== undefined && !SEVERITIES.includes(route.minSeverity)) {
+    throw new Error(`${owner}: route.minSeverity must be one of ${SEVERITIES.join(', ')}`);
+  }
+  if (route.types !== undefined && !isStringList(route.types)) {
+    throw new Error(`${owner}: route.types must be a list of alert types`);
+  }
+  if (route.nodeTags !== undefined && !isStringList(route.nodeTags)) {
+    throw new Error(`${owner}: route.nodeTags must be a list of tags`);
+  }
+}
+
+function validateTeams(teams: NotificationTeam[]): void {
+  if (!Array.isArray(teams)) throw new Error('Notification config: "teams" must be a list');
+  const names = new Set<string>();
+  for (const team of teams) {
+    if (!team.name || typeof team.name !== 'string') throw new Error('Notification teams need a name');
+    if (names.has(team.name)) throw new Error(`Team "${team.name}" is defined twice`);
+    names.add(team.name);
+    for (const key of ['members', 'nodeIds', 'nodeTags'] as const) {
+      if (team[key] !== undefined && !isStringList(team[key])) {
+        throw new Error(`Team "${team.name}": ${key} must be a list of strings`);
+      }
+    }
+  }
+}
+
+function validateEscalation(policies: EscalationPolicy[], channels: Set<string>, teams: Set<string>): void {
+  if (!Array.isArray(policies)) throw new Error('Notification config: "escalation" must be a list');
+  const names = new Set<string>();
+  for (const policy of policies) {
+    if (!policy.name || typeof policy.name !== 'string') throw new Error('Escalation policies need a name');
+    if (names.has(policy.name)) throw new Error(`Escalation policy "${policy.name}" is defined twice`);
+    names.add(policy.name);
+    const owner = `Escalation policy "${policy.name}"`;
+    if (policy.route) validateRoute(owner, policy.route);
+    if (policy.teams !== undefined) {
+      if (!isStringList(policy.teams)) throw new Error(`${owner}: teams must be a list of team names`);
+      const unknown = policy.teams.find(team => !teams.has(team));
+      if (unknown) throw new Error(`${owner}: no team named "${unknown}"`);
+    }
+    if (!Array.isArray(policy.tiers) || policy.tiers.length === 0) throw new Error(`${owner} needs at least one tier`);
+    let previous = -1;
+    policy.tiers.forEach((tier, index) => {
+      if (typeof tier.afterMinutes !== 'number' || !(tier.afterMinutes >= 0) || tier.afterMinutes <= previous) {
+        throw new Error(`${owner}: tier ${index + 1} afterMinutes must be a number of minutes, larger than the tier before`);
+      }
+      previous = tier.afterMinutes;
+      if (!isStringList(tier.channels) || tier.channels.length === 0) {
+        throw new Error(`${owner}: tier ${index + 1} needs a list of channels`);
+      }
+      const unknown = tier.channels.find(channel => !channels.has(channel));
+      if (unknown) throw new Error(`${owner}: tier ${index + 1} names unknown channel "${unknown}"`);
+    });
+  }
+}
+
+/**
+ * Check a notifications config; throws on the first problem found
+ */
+export function validateNotificationConfig(config: NotificationConfig): NotificationConfig {
+  if (!config || !Array.isArray(config.channels)) {
+    throw new Error('Notification config needs a "channels" list');
+  }
+  if (config.tags !== undefined) {
+    for (const [tag, nodeIds] of Object.entries(config.tags)) {
+      if (!isStringList(nodeIds)) throw new Error(`Notification config: tag "${tag}" must list node ids`);
+    }
+  }
+  const names = new Set<string>();
+  for (const channel of config.channels) {
+    if (!channel.name || typeof channel.name !== 'string') {
+      throw new Error('Notification channels need a name');
+    }
+    if (names.has(channel.name)) throw new Error(`Notification channel "${channel.name}" is defined twice`);
+    names.add(channel.name);
+    if (!Object.hasOwn(NOTIFICATION_CHANNELS, channel.type)) {
+      throw new Error(
+        `Notification channel "${channel.name}": type must be one of ${Object.keys(NOTIFICATION_CHANNELS).join(', ')}`
+      );
+    }
+    if (channel.route) validateRoute(`Notification channel "${channel.name}"`, channel.route);
+    NOTIFICATION_CHANNELS[channel.type].validate(channel);
+  }
+  if (config.teams !== undefined) validateTeams(config.teams);
+  if (config.escalation !== undefined) {
+    validateEscalation(config.escalation, names, new Set((config.teams ?? []).map(team => team.name)));
+  }
+  return config;
+}
+
+let cachedConfig: { file: string; mtimeMs: number; config: NotificationConfig } | null = null;
+
+/**
+ * The notifications config, or null when NOTIFICATIONS_CONFIG isn't set.
+ * Re-read when the file changes; throws when it can't be read or is invalid.
+ */
+export function loadNotificationConfig(): NotificationConfig | null {
+  if (!NOTIFICATIONS_CONFIG) return null;
+  const file = path.resolve(NOTIFICATIONS_CONFIG);
+  const { mtimeMs } = statSync(file);
+  if (cachedConfig?.file === file && cachedConfig.mtimeMs === mtimeMs) return cachedConfig.config;
+
+  const config = validateNotificationConfig(expandEnv(JSON.parse(readFileSync(file, 'utf8'))));
+  cachedConfig = { file, mtimeMs, config };
+  return config;
+}
+
+/**
+ * A channel as shown by the API: routing only, no URLs or credentials
+ */
+export function describeChannel(channel: NotificationChannelConfig) {
+  return { name: channel.name, type: channel.type, enabled: channel.enabled !== false, route: channel.route ?? {} };
+}
+
+// --- routing ---
+
+/**
+ * Tags a node can be routed by: "validator", "country:<code>", "region:<name>",
+ * "provider:<name>", "version:<line>", plus the config's own tags listing the node
+ */
+export function nodeTags(node: pNode, groups: NotificationConfig['tags'] = {}): string[] {
+  const tags: string[] = [];
+  if (node.metadata?.isValidator) tags.push('validator');
+  if (node.location?.countryCode) tags.push(`country:${node.location.countryCode}`);
+  if (node.location?.region) tags.push(`region:${node.location.region}`);
+  if (node.network?.provider) tags.push(`provider:${node.network.provider}`);
+  const line = versionBucket(node.softwareVersion);
+  if (line !== 'unknown') tags.push(`version:${line}`);
+  for (const [tag, nodeIds] of Object.entries(groups)) {
+    if (nodeIds.includes(node.id)) tags.push(tag);
+  }
+  return tags;
+}
+
+/**
+ * Whether a channel's route accepts a message
+ */
+export function matchesRoute(route: NotificationRoute | undefined, message: NotificationMessage): boolean {
+  if (!route) return true;
+  if (route.minSeverity && SEVERITIES.indexOf(message.severity) < SEVERITIES.indexOf(route.minSeverity)) return false;
+  if (route.types && !route.types.includes(message.type)) return false;
+  if (route.nodeTags && !route.nodeTags.some(tag => message.tags.includes(tag))) return false;
+  return true;
+}
+
+function dashboardUrl(nodeId: string | null): string | undefined {
+  if (!NOTIFICATIONS_DASHBOARD_URL) return undefined;
+  return nodeId ? `${NOTIFICATIONS_DASHBOARD_URL}/nodes/${nodeId}` : `${NOTIFICATIONS_DASHBOARD_URL}/alerts`;
+}
+
+/**
+ * What channels are sent for an alert
+ */
+export function alertMessage(
+  alert: Pick<Prisma.AlertCreateManyInput, 'id' | 'type' | 'severity' | 'message' | 'nodeId' | 'details' | 'team'>,
+  node: pNode | undefined,
+  config: NotificationConfig,
+  now: Date
+): NotificationMessage {
+  return {
+    alertId: alert.id ?? null,
+    type: alert.type,
+    severity: alert.severity as Anomaly['severity'],
+    message: alert.message,
+    nodeId: alert.nodeId ?? null,
+    tags: node ? nodeTags(node, config.tags) : alert.nodeId ? [] : ['network'],
+    regions: node ? nodeRegions(node) : undefined,
+    version: node ? node.softwareVersion ?? null : undefined,
+    details: alert.details ? JSON.parse(alert.details) : undefined,
+    team: alert.team ?? null,
+    createdAt: now.toISOString(),
+    url: dashboardUrl(alert.nodeId ?? null),
+  };
+}
+
+/**
+ * Queue rows for new alerts, one per matching enabled channel.
+ * A broken config is logged and queues nothing, so it never fails an ingest.
+ */
+export function buildNotificationDeliveries(
+  alerts: Prisma.AlertCreateManyInput[],
+  nodes: Map<string, pNode>,
+  now: Date = new Date()
+): Prisma.NotificationDeliveryCreateManyInput[] {
+  let config: NotificationConfig | null;
+  try {
+    config = loadNotificationConfig();
+  } catch (error) {
+    console.warn('Notification config unusable, not queueing notifications:', error);
+    return [];
+  }
+  const channels = config?.channels.filter(channel => channel.enabled !== false) ?? [];
+  if (channels.length === 0) return [];
+
+  const deliveries: Prisma.NotificationDeliveryCreateManyInput[] = [];
+  for (const alert of alerts) {
+    const message = alertMessage(alert, alert.nodeId ? nodes.get(alert.nodeId) : undefined, config!, now);
+    for (const channel of channels) {
+      if (!matchesRoute(channel.route, message)) continue;
+      deliveries.push({
+        alertId: message.alertId,
+        channel: channel.name,
+        channelType: channel.type,
+        payload: JSON.stringify(message),
+        nextAttemptAt: now,
+      });
+    }
+  }
+  return deliveries;
+}
+
+// --- delivery ---
+
+export interface DeliveryRunResult {
+  sent: number;
+  failed: number; // gave up after the last attempt
+  retrying: number;
+  suppressed: number; // covered by a silence, or an escalation no longer needed, when due
+}
+
+interface DrainState {
+  running: boolean;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+// On globalThis so dev hot reloads share one drain loop
+const globalForNotifications = globalThis as unknown as { notificationDrain?: DrainState };
+
+function drainState(): DrainState {
+  globalForNotifications.notificationDrain ??= { running: false, timer: null };
+  return globalForNotifications.notificationDrain;
+}
+
+// Wake up for the next retry that falls due
+async function scheduleRetry(state: DrainState): Promise<void> {
+  if (state.timer) clearTimeout(state.timer);
+  state.timer = null;
+  const next = await prisma.notificationDelivery.findFirst({
+    where: { status: 'pending' },
+    orderBy: { nextAttemptAt: 'asc' },
+    select: { nextAttemptAt: true },
+  });
+  if (!next) return;
+  const delayMs = Math.max(1000, next.nextAttemptAt.getTime() - Date.now());
+  state.timer = setTimeout(() => {
+    deliverPendingNotifications().catch(error => console.warn('Notification delivery failed:', error));
+  }, delayMs);
+  // Don't keep the process alive just for retries
+  state.timer.unref?.();
+}
+
+async function attemptDelivery(
+  delivery: { id: number; channel: string; payload: string; attempts: number },
+  channel: NotificationChannelConfig | undefined,
+  result: DeliveryRunResult
+): Promise<void> {
+  const attempts = delivery.attempts + 1;
+  try {
+    if (!channel || channel.enabled === false) {
+      throw new Error(`Channel "${delivery.channel}" is no longer configured or is disabled`);
+    }
+    await NOTIFICATION_CHANNELS[channel.type].send(channel, JSON.parse(delivery.payload), NOTIFICATION_TIMEOUT_MS);
+    await prisma.notificationDelivery.update({
+      where: { id: delivery.id },
+      data: { status: 'sent', attempts, sentAt: new Date(), lastError: null },
+    });
+    result.sent++;
+  } catch (error) {
+    const giveUp = !channel || channel.enabled === false || attempts >= NOTIFICATION_MAX_ATTEMPTS;
+    await prisma.notificationDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: giveUp ? 'failed' : 'pending',
+        attempts,
+        lastError: error instanceof Error ? error.message : String(error),
+        nextAttemptAt: new Date(Date.now() + NOTIFICATION_RETRY_BASE_MS * 2 ** (attempts - 1)),
+      },
+    });
+    if (giveUp) result.failed++;
+    else result.retrying++;
+  }
+}
+
+/**
+ * Send every queued delivery that is due, then schedule a wake-up for the next
+ * retry. Runs once at a time per process; each delivery is claimed before it is
+ * sent, so processes sharing the database don't send it twice.
+ */
+export async function deliverPendingNotifications(): Promise<DeliveryRunResult> {
+  const result: DeliveryRunResult = { sent: 0, failed: 0, retrying: 0, suppressed: 0 };
+  const state = drainState();
+  if (state.running) return result;
+  state.running = true;
+
+  try {
+    const config = loadNotificationConfig();
+    const channels = new Map((config?.channels ?? []).map(channel => [channel.name, channel]));
+    const silences = (await prisma.silence.findMany({ where: unexpiredSilenceWhere(new Date()) })).map(parseSilence);
+    const seen = new Set<number>();
+
+    for (;;) {
+      const now = new Date();
+      const due = await prisma.notificationDelivery.findMany({
+        where: { status: 'pending', nextAttemptAt: { lte: now } },
+        orderBy: { nextAttemptAt: 'asc' },
+        take: DELIVERY_BATCH,
+        select: { id: true, channel: true, payload: true, attempts: true, nextAttemptAt: true },
+      });
+      const fresh = due.filter(delivery => !seen.has(delivery.id));
+      if (fresh.length === 0) break;
+
+      for (const delivery of fresh) {
+        seen.add(delivery.id);
+        // Claim: push the due time past this attempt, unless someone else got there first
+        const claimed = await prisma.notificationDelivery.updateMany({
+          where: { id: delivery.id, status: 'pending', nextAttemptAt: delivery.nextAttemptAt },
+          data: { nextAttemptAt: new Date(now.getTime() + 2 * NOTIFICATION_TIMEOUT_MS) },
+        });
+        if (claimed.count === 0) continue;
+
+        const message: NotificationMessage = JSON.parse(delivery.payload);
+        const scope = message.details?.scope;
+        const silence = message.test ? undefined : findActiveSilence(silences, {
+          nodeId: message.nodeId,
+          type: message.type,
+          severity: message.severity,
+          regions: message.regions ?? (!message.nodeId && typeof scope === 'string' ? [scope] : []),
+          version: message.version ?? null,
+        }, now);
+        const escalatedAlert = !silence && message.escalation && message.alertId
+          ? await prisma.alert.findUnique({ where: { id: message.alertId }, select: { acknowledged: true, resolved: true } })
+          : null;
+        const reason = silence
+          ? `Silenced: ${silence.comment}`
+          : escalatedAlert && (escalatedAlert.acknowledged || escalatedAlert.resolved)
+            ? `Escalation not needed: the alert was ${escalatedAlert.resolved ? 'resolved' : 'acknowledged'}`
+            : null;
+        if (reason) {
+          await prisma.notificationDelivery.update({
+            where: { id: delivery.id },
+            data: { status: 'suppressed', lastError: reason },
+          });
+          result.suppressed++;
+          continue;
+        }
+        await attemptDelivery(delivery, channels.get(delivery.channel), result);
+      }
+    }
+
+    await scheduleRetry(state);
+    return result;
+  } finally {
+    state.running = false;
+  }
+}
+
+export interface TestNotificationResult {
+  channel: string;
+  type: NotificationChannelConfig['type'];
+  ok: boolean;
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * Send a test message to each channel right away (no routing, no retries).
+ * With `log`, each attempt is recorded as a NotificationDelivery.
+ */
+export async function sendTestNotification(
+  channels: NotificationChannelConfig[],
+  log: boolean
+): Promise<TestNotificationResult[]> {
+  const message: NotificationMessage = {
+    alertId: null,
+    type: 'test',
+    severity: 'low',
+    message: 'Test notification from the pNode dashboard. If you can read this, the channel works.',
+    nodeId: null,
+    tags: [],
+    createdAt: new Date().toISOString(),
+    url: dashboardUrl(null),
+    test: true,
+  };
+
+  return Promise.all(channels.map(async channel => {
+    const started = Date.now();
+    let error: string | undefined;
+    try {
+      await NOTIFICATION_CHANNELS[channel.type].send(channel, message, NOTIFICATION_TIMEOUT_MS);
+    } catch (sendError) {
+      error = sendError instanceof Error ? sendError.message : String(sendError);
+    }
+
+    if (log) {
+      await prisma.notificationDelivery.create({
+        data: {
+          channel: channel.name,
+          channelType: channel.type,
+          payload: JSON.stringify(message),
+          status: error ? 'failed' : 'sent',
+          attempts: 1,
+          lastError: error ?? null,
+          sentAt: error ? null : new Date(),
+        },
+      }).catch(logError => console.warn('Failed to log test notification:', logError));
+    }
+    return { channel: channel.name, type: channel.type, ok: !error, error, durationMs: Date.now() - started };
+  }));
+}
@@ -0,0 +1,240 @@
+import { HistoryResolution, RollupResolution } from '@/types';
+import { prisma } from './db';
+import { ROLLUP_RESOLUTIONS, rollupNetworkSnapshots, rollupNodeHistory } from './history';
+
+// History retention and downsampling.
+// Raw NodeHistory / NetworkSnapshot rows are kept for RETENTION_RAW_HOURS,
+// 5-minute rollups for RETENTION_5M_DAYS and hourly rollups for
+// RETENTION_1H_DAYS. compactHistory() builds rollups for completed buckets,
+// then deletes whatever has aged out. Raw rows are only deleted once both
+// rollup resolutions cover them. PeerEdge rows have no rollup and go with
+// the raw NetworkSnapshot they belong to.
+
+const RETENTION_RAW_HOURS = Math.max(1, parseInt(process.env.RETENTION_RAW_HOURS || '48', 10));
+const RETENTION_5M_DAYS = Math.max(1, parseInt(process.env.RETENTION_5M_DAYS || '30', 10));
+const RETENTION_1H_DAYS = Math.max(1, parseInt(process.env.RETENTION_1H_DAYS || '365', 10));
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Raw rows are rolled up an hour (of ingests) at a time to bound memory on large networks
+const COMPACTION_WINDOW_MS = HOUR_MS;
+// Rows per createMany
+const ROLLUP_BATCH_SIZE = 500;
+// Rows are timestamped when an ingest starts but committed when it finishes;
+// buckets are only rolled up once they're this far in the past
+const SETTLE_MS = 10 * 60 * 1000;
+
+// Network history responses are thinned to at most this many points
+export const MAX_NETWORK_HISTORY_POINTS = 1000;
+
+/**
+ * How long each resolution is kept, in hours
+ */
+export const RETENTION_HOURS: Record<HistoryResolution, number> = {
+  raw: RETENTION_RAW_HOURS,
+  '5m': RETENTION_5M_DAYS * 24,
+  '1h': RETENTION_1H_DAYS * 24,
+};
+
+// Coarsest first
+const ROLLUP_ORDER: RollupResolution[] = ['1h', '5m'];
+
+/**
+ * Resolution to read for a history range of `hours` that will be charted in
+ * `bucketSeconds` buckets: the coarsest rollup that is no coarser than the
+ * chart buckets and still retained for the whole range, raw data for short
+ * ranges with sub-5-minute buckets, and otherwise the finest level that
+ * still covers the range.
+ */
+export function pickHistoryResolution(hours: number, bucketSeconds: number): HistoryResolution {
+  if (hours <= RETENTION_HOURS.raw && bucketSeconds < ROLLUP_RESOLUTIONS['5m'].bucketSeconds) {
+    return 'raw';
+  }
+  for (const resolution of ROLLUP_ORDER) {
+    if (ROLLUP_RESOLUTIONS[resolution].bucketSeconds <= bucketSeconds && hours <= RETENTION_HOURS[resolution]) {
+      return resolution;
+    }
+  }
+  if (hours <= RETENTION_HOURS.raw) return 'raw';
+  if (hours <= RETENTION_HOURS['5m']) return '5m';
+  return '1h';
+}
+
+/**
+ * Resolution for network history: the finest level retained for the whole
+ * range that stays within MAX_NETWORK_HISTORY_POINTS (raw snapshots are
+ * assumed to arrive about every 5 minutes)
+ */
+export function pickNetworkHistoryResolution(hours: number): HistoryResolution {
+  const points = (resolution: RollupResolution) => (hours * 3600) / ROLLUP_RESOLUTIONS[resolution].bucketSeconds;
+  if (hours <= RETENTION_HOURS.raw && points('5m') <= MAX_NETWORK_HISTORY_POINTS) return 'raw';
+  if (hours <= RETENTION_HOURS['5m'] && points('5m') <= MAX_NETWORK_HISTORY_POINTS) return '5m';
+  return '1h';
+}
+
+/**
+ * End of the time covered by node rollups at this resolution (exclusive), or
+ * null before the first compaction. Raw rows from here on aren't rolled up yet.
+ */
+export async function getNodeRollupWatermark(resolution: RollupResolution): Promise<Date | null> {
+  const latest = await prisma.nodeHistoryRollup.findFirst({
+    where: { resolution },
+    orderBy: { bucketStart: 'desc' },
+    select: { bucketStart: true },
+  });
+  return latest ? new Date(latest.bucketStart.getTime() + ROLLUP_RESOLUTIONS[resolution].bucketSeconds * 1000) : null;
+}
+
+/**
+ * Same as getNodeRollupWatermark, for network snapshot rollups
+ */
+export async function getNetworkRollupWatermark(resolution: RollupResolution): Promise<Date | null> {
+  const latest = await prisma.networkSnapshotRollup.findFirst({
+    where: { resolution },
+    orderBy: { bucketStart: 'desc' },
+    select: { bucketStart: true },
+  });
+  return latest ? new Date(latest.bucketStart.getTime() + ROLLUP_RESOLUTIONS[resolution].bucketSeconds * 1000) : null;
+}
+
+function floorTo(time: number, ms: number): number {
+  return Math.floor(time / ms) * ms;
+}
+
+/**
+ * Roll up completed buckets of raw NodeHistory not yet covered at this resolution.
+ * Returns the number of rollup rows written.
+ */
+async function compactNodeHistory(resolution: RollupResolution, now: Date): Promise<number> {
+  const bucketMs = ROLLUP_RESOLUTIONS[resolution].bucketSeconds * 1000;
+  const end = floorTo(now.getTime() - SETTLE_MS, bucketMs);
+
+  let from = (await getNodeRollupWatermark(resolution))?.getTime();
+  if (from === undefined) {
+    const oldest = await prisma.nodeHistory.findFirst({ orderBy: { timestamp: 'asc' }, select: { timestamp: true } });
+    if (!oldest) return 0;
+    from = floorTo(oldest.timestamp.getTime(), bucketMs);
+  }
+
+  const windowMs = Math.max(bucketMs, COMPACTION_WINDOW_MS);
+  let written = 0;
+  let windowStart = from;
+  while (windowStart < end) {
+    const windowEnd = Math.min(windowStart + windowMs, end);
+    const rows = await prisma.nodeHistory.findMany({
+      where: { timestamp: { gte: new Date(windowStart), lt: new Date(windowEnd) } },
+      select: {
+        nodeId: true,
+        timestamp: true,
+        peerCount: true,
+        latency: true,
+        storageUsed: true,
+        storageCapacity: true,
+        uptime: true,
+        healthScore: true,
+      },
+    });
+    if (rows.length === 0) {
+      // Skip over gaps (ingestion paused) straight to the next raw row
+      const next = await prisma.nodeHistory.findFirst({
+        where: { timestamp: { gte: new Date(windowEnd) } },
+        orderBy: { timestamp: 'asc' },
+        select: { timestamp: true },
+      });
+      if (!next) break;
+      windowStart = Math.max(windowEnd, floorTo(next.timestamp.getTime(), bucketMs));
+      continue;
+    }
+
+    const rollups = rollupNodeHistory(rows, resolution);
+    await prisma.$transaction(async (tx) => {
+      for (let i = 0; i < rollups.length; i += ROLLUP_BATCH_SIZE) {
+        await tx.nodeHistoryRollup.createMany({ data: rollups.slice(i, i + ROLLUP_BATCH_SIZE) });
+      }
+    });
+    written += rollups.length;
+    windowStart = windowEnd;
+  }
+  return written;
+}
+
+/**
+ * Roll up completed buckets of raw NetworkSnapshot rows not yet covered at this resolution
+ */
+async function compactNetworkSnapshots(resolution: RollupResolution, now: Date): Promise<number> {
+  const bucketMs = ROLLUP_RESOLUTIONS[resolution].bucketSeconds * 1000;
+  const end = floorTo(now.getTime() - SETTLE_MS, bucketMs);
+  const from = (await getNetworkRollupWatermark(resolution)) ?? new Date(0);
+
+  // One row per ingest, so the whole backlog fits in memory
+  const rows = await prisma.networkSnapshot.findMany({
+    where: { timestamp: { gte: from, lt: new Date(end) } },
+    orderBy: { timestamp: 'asc' },
+  });
+  if (rows.length === 0) return 0;
+
+  const rollups = rollupNetworkSnapshots(rows, resolution);
+  await prisma.networkSnapshotRollup.createMany({ data: rollups });
+  return rollups.length;
+}
+
+export interface CompactionResult {
+  nodeRollups: Record<RollupResolution, number>;
+  networkRollups: Record<RollupResolution, number>;
+  deleted: {
+    nodeHistory: number;
+    networkSnapshots: number;
+    peerEdges: number;
+    nodeRollups: number;
+    networkRollups: number;
+  };
+  durationMs: number;
+}
+
+/**
+ * Build rollups for completed buckets, then apply the retention policy
+ */
+export async function compactHistory(now: Date = new Date()): Promise<CompactionResult> {
+  const start = Date.now();
+  const nodeRollups = { '5m': 0, '1h': 0 } as Record<RollupResolution, number>;
+  const networkRollups = { '5m': 0, '1h': 0 } as Record<RollupResolution, number>;
+
+  for (const resolution of ROLLUP_ORDER) {
+    nodeRollups[resolution] = await compactNodeHistory(resolution, now);
+    networkRollups[resolution] = await compactNetworkSnapshots(resolution, now);
+  }
+
+  // Raw rows go once they're past retention *and* covered by every rollup resolution
+  const rawCutoff = now.getTime() - RETENTION_HOURS.raw * HOUR_MS;
+  const coveredUntil = async (getWatermark: (r: RollupResolution) => Promise<Date | null>) => {
+    const watermarks = await Promise.all(ROLLUP_ORDER.map(getWatermark));
+    return Math.min(rawCutoff, ...watermarks.map(w => w?.getTime() ?? 0));
+  };
+  const nodeCutoff = new Date(await coveredUntil(getNodeRollupWatermark));
+  const networkCutoff = new Date(await coveredUntil(getNetworkRollupWatermark));
+
+  const rollupCutoff = (resolution: RollupResolution) => new Date(now.getTime() - RETENTION_HOURS[resolution] * HOUR_MS);
+
+  const [nodeHistory, networkSnapshots, peerEdges, node5m, node1h, network5m, network1h] = await Promise.all([
+    prisma.nodeHistory.deleteMany({ where: { timestamp: { lt: nodeCutoff } } }),
+    prisma.networkSnapshot.deleteMany({ where: { timestamp: { lt: networkCutoff } } }),
+    prisma.peerEdge.deleteMany({ where: { timestamp: { lt: networkCutoff } } }),
+    prisma.nodeHistoryRollup.deleteMany({ where: { resolution: '5m', bucketStart: { lt: rollupCutoff('5m') } } }),
+    prisma.nodeHistoryRollup.deleteMany({ where: { resolution: '1h', bucketStart: { lt: rollupCutoff('1h') } } }),
+    prisma.networkSnapshotRollup.deleteMany({ where: { resolution: '5m', bucketStart: { lt: rollupCutoff('5m') } } }),
+    prisma.networkSnapshotRollup.deleteMany({ where: { resolution: '1h', bucketStart: { lt: rollupCutoff('1h') } } }),
+  ]);
+
+  return {
+    nodeRollups,
+    networkRollups,
+    deleted: {
+      nodeHistory: nodeHistory.count,
+      networkSnapshots: networkSnapshots.count,
+      peerEdges: peerEdges.count,
+      nodeRollups: node5m.count + node1h.count,
+      networkRollups: network5m.count + network1h.count,
+    },
+    durationMs: Date.now() - start,
+  };
+}
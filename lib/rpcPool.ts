@@ -0,0 +1,255 @@
+// pRPC seed endpoint pool: failover, circuit breaking and per-endpoint health tracking
+
+// Comma-separated list of seeds; falls back to the single-endpoint setting
+const PRPC_ENDPOINTS = (process.env.NEXT_PUBLIC_PRPC_ENDPOINTS || process.env.NEXT_PUBLIC_PRPC_ENDPOINT || 'http://localhost:8080')
+  .split(',')
+  .map(e => e.trim())
+  .filter(Boolean);
+// Consecutive failures before an endpoint's circuit opens
+const FAILURE_THRESHOLD = parseInt(process.env.NEXT_PUBLIC_PRPC_FAILURE_THRESHOLD || '3', 10);
+// How long an open circuit stays open before a half-open probe is allowed
+const CIRCUIT_COOLDOWN_MS = parseInt(process.env.NEXT_PUBLIC_PRPC_CIRCUIT_COOLDOWN_MS || '60000', 10);
+// Number of seeds to query and merge per node listing (1 = plain failover)
+export const PRPC_QUORUM = Math.max(1, parseInt(process.env.NEXT_PUBLIC_PRPC_QUORUM || '1', 10));
+// Per-request timeout
+export const PRPC_TIMEOUT_MS = parseInt(process.env.NEXT_PUBLIC_PRPC_TIMEOUT_MS || '10000', 10);
+
+// Weight of the newest sample in the latency moving average
+const LATENCY_EWMA_ALPHA = 0.3;
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface EndpointStatus {
+  url: string;
+  state: CircuitState;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  avgLatencyMs: number | null;
+  lastLatencyMs: number | null;
+  lastError: string | null;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  openUntil: string | null;
+}
+
+export interface PoolStatus {
+  endpoints: EndpointStatus[];
+  quorum: number;
+  lastServed: {
+    endpoints: string[];
+    mode: 'failover' | 'quorum' | 'mock';
+    nodeCount: number;
+    at: string;
+  } | null;
+}
+
+interface PoolState {
+  endpoints: Map<string, EndpointStatus>;
+  lastServed: PoolStatus['lastServed'];
+}
+
+// Keep pool state on globalThis so every route (and dev hot reloads) share it
+const globalForPool = globalThis as unknown as { prpcPool?: PoolState };
+
+function getState(): PoolState {
+  if (!globalForPool.prpcPool) {
+    const endpoints = new Map<string, EndpointStatus>();
+    for (const url of PRPC_ENDPOINTS) {
+      endpoints.set(url, {
+        url,
+        state: 'closed',
+        successes: 0,
+        failures: 0,
+        consecutiveFailures: 0,
+        avgLatencyMs: null,
+        lastLatencyMs: null,
+        lastError: null,
+        lastSuccessAt: null,
+        lastFailureAt: null,
+        openUntil: null,
+      });
+    }
+    globalForPool.prpcPool = { endpoints, lastServed: null };
+  }
+  return globalForPool.prpcPool;
+}
+
+/**
+ * Refresh circuit state: open circuits past their cooldown become half-open
+ */
+function refreshState(status: EndpointStatus, now: number) {
+  if (status.state === 'open' && status.openUntil && new Date(status.openUntil).getTime() <= now) {
+    status.state = 'half-open';
+  }
+}
+
+/**
+ * Configured seed endpoints, in configuration order
+ */
+export function getConfiguredEndpoints(): string[] {
+  return Array.from(getState().endpoints.keys());
+}
+
+/**
+ * Endpoints in the order they should be tried:
+ * closed circuits first (fastest first), then half-open probes.
+ * If every circuit is open we still return them (soonest to recover first)
+ * rather than failing without trying anything.
+ */
+export function getOrderedEndpoints(): string[] {
+  const now = Date.now();
+  const statuses = Array.from(getState().endpoints.values());
+  statuses.forEach(s => refreshState(s, now));
+
+  const byLatency = (a: EndpointStatus, b: EndpointStatus) =>
+    (a.avgLatencyMs ?? Number.MAX_SAFE_INTEGER) - (b.avgLatencyMs ?? Number.MAX_SAFE_INTEGER);
+
+  const closed = statuses.filter(s => s.state === 'closed').sort(byLatency);
+  const halfOpen = statuses.filter(s => s.state === 'half-open').sort(byLatency);
+  const available = [...closed, ...halfOpen];
+
+  if (available.length > 0) {
+    return available.map(s => s.url);
+  }
+
+  return statuses
+    .sort((a, b) => new Date(a.openUntil || 0).getTime() - new Date(b.openUntil || 0).getTime())
+    .map(s => s.url);
+}
+
+export function recordSuccess(url: string, latencyMs: number) {
+  const status = getState().endpoints.get(url);
+  if (!status) return;
+
+  status.successes++;
+  status.consecutiveFailures = 0;
+  status.state = 'closed';
+  status.openUntil = null;
+  status.lastLatencyMs = Math.round(latencyMs);
+  status.avgLatencyMs = status.avgLatencyMs === null
+    ? Math.round(latencyMs)
+    : Math.round(status.avgLatencyMs * (1 - LATENCY_EWMA_ALPHA) + latencyMs * LATENCY_EWMA_ALPHA);
+  status.lastSuccessAt = new Date().toISOString();
+}
+
+export function recordFailure(url: string, error: unknown) {
+  const status = getState().endpoints.get(url);
+  if (!status) return;
+
+  status.failures++;
+  status.consecutiveFailures++;
+  status.lastError = error instanceof Error ? error.message : String(error);
+  status.lastFailureAt = new Date().toISOString();
+
+  // A failed half-open probe re-opens immediately; closed circuits open at the threshold
+  if (status.state === 'half-open' || status.consecutiveFailures >= FAILURE_THRESHOLD) {
+    status.state = 'open';
+    status.openUntil = new Date(Date.now() + CIRCUIT_COOLDOWN_MS).toISOString();
+    console.warn(`🔌 Circuit opened for pRPC endpoint ${url} after ${status.consecutiveFailures} failures`);
+  }
+}
+
+async function timed<T>(url: string, operation: (endpoint: string) => Promise<T>): Promise<T> {
+  const start = Date.now();
+  try {
+    const result = await operation(url);
+    recordSuccess(url, Date.now() - start);
+    return result;
+  } catch (error) {
+    // Errors flagged for fallback (e.g. Solscan detection) are configuration problems,
+    // not endpoint health problems - don't trip the circuit for them
+    if ((error as { shouldFallback?: boolean })?.shouldFallback !== true) {
+      recordFailure(url, error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Run an operation against the best available endpoint, failing over
+ * to the next one on error. Throws the last error if all endpoints fail.
+ */
+export async function withFailover<T>(
+  operation: (endpoint: string) => Promise<T>
+): Promise<{ result: T; endpoint: string }> {
+  const endpoints = getOrderedEndpoints();
+  let lastError: unknown = null;
+
+  for (const endpoint of endpoints) {
+    try {
+      const result = await timed(endpoint, operation);
+      return { result, endpoint };
+    } catch (error) {
+      lastError = error;
+      if ((error as { shouldFallback?: boolean })?.shouldFallback === true) {
+        throw error;
+      }
+      if (endpoints.length > 1) {
+        console.warn(`pRPC endpoint ${endpoint} failed, trying next seed:`, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+
+  throw lastError instanceof Error ? lastError : new Error(`All pRPC endpoints failed: ${String(lastError)}`);
+}
+
+/**
+ * Run an operation against up to `count` endpoints concurrently.
+ * Endpoints that fail are replaced by the next available seed until
+ * `count` successes are collected or the pool is exhausted.
+ * Throws only if no endpoint succeeded.
+ */
+export async function withQuorum<T>(
+  count: number,
+  operation: (endpoint: string) => Promise<T>
+): Promise<Array<{ result: T; endpoint: string }>> {
+  const queue = getOrderedEndpoints();
+  const successes: Array<{ result: T; endpoint: string }> = [];
+  let lastError: unknown = null;
+
+  while (successes.length < count && queue.length > 0) {
+    const batch = queue.splice(0, count - successes.length);
+    const settled = await Promise.allSettled(batch.map(endpoint => timed(endpoint, operation)));
+
+    settled.forEach((outcome, i) => {
+      if (outcome.status === 'fulfilled') {
+        successes.push({ result: outcome.value, endpoint: batch[i] });
+      } else {
+        lastError = outcome.reason;
+      }
+    });
+  }
+
+  if (successes.length === 0) {
+    throw lastError instanceof Error ? lastError : new Error(`All pRPC endpoints failed: ${String(lastError)}`);
+  }
+
+  if (successes.length < count) {
+    console.warn(`⚠️ pRPC quorum not met: ${successes.length}/${count} seeds responded`);
+  }
+
+  return successes;
+}
+
+export function setLastServed(served: NonNullable<PoolStatus['lastServed']>) {
+  getState().lastServed = served;
+}
+
+/**
+ * Snapshot of the pool for the status API
+ */
+export function getPoolStatus(): PoolStatus {
+  const now = Date.now();
+  const state = getState();
+  const endpoints = Array.from(state.endpoints.values()).map(s => {
+    refreshState(s, now);
+    return { ...s };
+  });
+
+  return {
+    endpoints,
+    quorum: PRPC_QUORUM,
+    lastServed: state.lastServed,
+  };
+}
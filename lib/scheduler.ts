@@ -0,0 +1,119 @@
+import { prisma } from './db';
+import { runIngest } from './ingest';
+import { CompactionResult, compactHistory } from './retention';
+
+// In-process ingestion scheduler, started from instrumentation.ts when the
+// server boots. Each run is scheduled after the previous one finishes, with
+// random jitter so several instances don't all hit the seeds at once.
+// History compaction (rollups + retention) piggybacks on the same loop.
+
+const INGEST_SCHEDULER_ENABLED = process.env.INGEST_SCHEDULER_ENABLED === 'true';
+// Time between the end of one run and the start of the next
+const INGEST_INTERVAL_MS = Math.max(10000, parseInt(process.env.INGEST_INTERVAL_MS || '300000', 10));
+// Up to this much random delay is added to each interval
+const INGEST_JITTER_MS = Math.max(0, parseInt(process.env.INGEST_JITTER_MS || '30000', 10));
+// Minimum time between history compactions
+const COMPACTION_INTERVAL_MS = Math.max(60000, parseInt(process.env.COMPACTION_INTERVAL_MS || '3600000', 10));
+
+export interface SchedulerStatus {
+  enabled: boolean;
+  running: boolean;
+  intervalMs: number;
+  jitterMs: number;
+  nextRunAt: string | null;
+  lastCompaction: { at: string; result: CompactionResult | null; error: string | null } | null;
+}
+
+interface SchedulerState {
+  timer: ReturnType<typeof setTimeout> | null;
+  running: boolean;
+  nextRunAt: Date | null;
+  lastCompaction: SchedulerStatus['lastCompaction'];
+}
+
+// Keep scheduler state on globalThis so dev hot reloads don't start a second loop
+const globalForScheduler = globalThis as unknown as { ingestScheduler?: SchedulerState };
+
+function scheduleNext(state: SchedulerState, delayMs: number) {
+  state.nextRunAt = new Date(Date.now() + delayMs);
+  state.timer = setTimeout(() => void tick(state), delayMs);
+  // Don't keep the process alive just for the scheduler
+  state.timer.unref?.();
+}
+
+async function maybeCompact(state: SchedulerState) {
+  const lastAt = state.lastCompaction ? new Date(state.lastCompaction.at).getTime() : 0;
+  if (Date.now() - lastAt < COMPACTION_INTERVAL_MS) return;
+
+  const at = new Date().toISOString();
+  try {
+    const result = await compactHistory();
+    state.lastCompaction = { at, result, error: null };
+    console.log(
+      `🗜️ History compacted in ${result.durationMs}ms: ` +
+      `${result.nodeRollups['5m'] + result.nodeRollups['1h']} node rollups, ` +
+      `${result.deleted.nodeHistory} raw history rows removed`
+    );
+  } catch (error) {
+    state.lastCompaction = { at, result: null, error: error instanceof Error ? error.message : String(error) };
+    console.error('🗜️ History compaction failed:', error);
+  }
+}
+
+async function tick(state: SchedulerState) {
+  state.timer = null;
+  state.nextRunAt = null;
+  state.running = true;
+
+  try {
+    await prisma.$queryRaw`SELECT 1`;
+  } catch {
+    console.warn('⏱️ Scheduled ingest skipped: database not available');
+    state.running = false;
+    scheduleNext(state, INGEST_INTERVAL_MS + Math.random() * INGEST_JITTER_MS);
+    return;
+  }
+
+  try {
+    const outcome = await runIngest('scheduler');
+    if (outcome.status === 'skipped') {
+      console.log(`⏱️ Scheduled ingest skipped: ${outcome.reason}`);
+    } else {
+      console.log(`⏱️ Scheduled ingest #${outcome.runId}: ${outcome.result.nodes} nodes, ${outcome.result.alerts} alerts`);
+    }
+  } catch (error) {
+    console.error('⏱️ Scheduled ingest failed:', error);
+  }
+
+  try {
+    await maybeCompact(state);
+  } finally {
+    state.running = false;
+    scheduleNext(state, INGEST_INTERVAL_MS + Math.random() * INGEST_JITTER_MS);
+  }
+}
+
+/**
+ * Start the ingestion loop if INGEST_SCHEDULER_ENABLED=true. Safe to call more than once.
+ * The first run starts after a jittered delay rather than during boot.
+ */
+export function startIngestScheduler(): void {
+  if (!INGEST_SCHEDULER_ENABLED || globalForScheduler.ingestScheduler) return;
+
+  const state: SchedulerState = { timer: null, running: false, nextRunAt: null, lastCompaction: null };
+  globalForScheduler.ingestScheduler = state;
+  scheduleNext(state, Math.random() * INGEST_JITTER_MS);
+  console.log(`⏱️ Ingest scheduler started: every ${INGEST_INTERVAL_MS / 1000}s (+ up to ${INGEST_JITTER_MS / 1000}s jitter)`);
+}
+
+export function getSchedulerStatus(): SchedulerStatus {
+  const state = globalForScheduler.ingestScheduler;
+  return {
+    enabled: INGEST_SCHEDULER_ENABLED,
+    running: state?.running ?? false,
+    intervalMs: INGEST_INTERVAL_MS,
+    jitterMs: INGEST_JITTER_MS,
+    nextRunAt: state?.nextRunAt ? state.nextRunAt.toISOString() : null,
+    lastCompaction: state?.lastCompaction ?? null,
+  };
+}
@@ -0,0 +1,286 @@
+import { Anomaly, Silence, SilenceMatchers, SilenceRecurrence, SilenceState, pNode } from '@/types';
+import { versionBucket } from './versions';
+
+// Alert silences and maintenance windows. A silence matches alerts by node,
+// region, version, type and severity, either between two times or, as a
+// maintenance window, on a daily or weekly schedule (UTC). Silenced alerts are
+// still recorded; ingest marks them with the silence and their notifications
+// are suppressed. Pure, so the alerts page can describe silences the same way.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SEVERITIES: Anomaly['severity'][] = ['low', 'medium', 'high', 'critical'];
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MATCHER_KEYS: Array<keyof SilenceMatchers> = ['nodeIds', 'regions', 'versions', 'types', 'severities'];
+// Longest maintenance window
+const MAX_WINDOW_MINUTES = 7 * 24 * 60;
+
+/**
+ * What a silence is checked against: an alert and the node it is about
+ */
+export interface SilenceTarget {
+  nodeId: string | null;
+  type: string;
+  severity: Anomaly['severity'];
+  regions: string[]; // country name, country code and region; a region_loss alert's scope
+  version: string | null;
+}
+
+// A validated silence, ready to store with serializeSilence
+export type SilenceData = Pick<Silence, 'comment' | 'createdBy' | 'matchers' | 'recurrence'> & {
+  startsAt: Date;
+  endsAt: Date | null;
+};
+
+export interface SilenceWindow {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Names a node can be silenced by region
+ */
+export function nodeRegions(node: Pick<pNode, 'location'> | undefined): string[] {
+  const location = node?.location;
+  return [location?.country, location?.countryCode, location?.region].filter((name): name is string => Boolean(name));
+}
+
+/**
+ * A silence row from the database, with its JSON columns parsed
+ */
+export function parseSilence(row: Omit<Silence, 'matchers' | 'recurrence'> & { matchers: string; recurrence: string | null }): Silence {
+  return {
+    ...row,
+    matchers: JSON.parse(row.matchers),
+    recurrence: row.recurrence ? JSON.parse(row.recurrence) : null,
+  };
+}
+
+/**
+ * Prisma filter for silences that may still apply at or after `now`
+ */
+export function unexpiredSilenceWhere(now: Date) {
+  return { OR: [{ endsAt: null }, { endsAt: { gt: now } }] };
+}
+
+const lower = (value: string) => value.toLowerCase();
+
+/**
+ * Whether every matcher the silence sets matches the target
+ */
+export function silenceMatches(matchers: SilenceMatchers, target: SilenceTarget): boolean {
+  if (matchers.nodeIds?.length && !(target.nodeId && matchers.nodeIds.includes(target.nodeId))) return false;
+  if (matchers.regions?.length) {
+    const regions = target.regions.map(lower);
+    if (!matchers.regions.some(region => regions.includes(lower(region)))) return false;
+  }
+  if (matchers.versions?.length) {
+    if (!target.version) return false;
+    const line = versionBucket(target.version);
+    if (!matchers.versions.some(version => version === target.version || version === line)) return false;
+  }
+  if (matchers.types?.length && !matchers.types.includes(target.type)) return false;
+  if (matchers.severities?.length && !matchers.severities.includes(target.severity)) return false;
+  return true;
+}
+
+function windowStartOn(day: number, recurrence: SilenceRecurrence): Date {
+  const [hours, minutes] = recurrence.startTime.split(':').map(Number);
+  return new Date(day * DAY_MS + (hours * 60 + minutes) * 60000);
+}
+
+// Windows of a recurring silence that end after `from`, soonest first, up to `count`
+function recurringWindows(silence: Silence, from: Date, count: number): SilenceWindow[] {
+  const recurrence = silence.recurrence!;
+  const seriesStart = new Date(silence.startsAt).getTime();
+  const seriesEnd = silence.endsAt ? new Date(silence.endsAt).getTime() : Infinity;
+  const lookbackDays = Math.ceil(recurrence.durationMinutes / 1440);
+  const windows: SilenceWindow[] = [];
+
+  // Two weeks ahead is always enough to find the next weekly window
+  const firstDay = Math.floor(from.getTime() / DAY_MS) - lookbackDays;
+  for (let day = firstDay; day <= firstDay + lookbackDays + 14 && windows.length < count; day++) {
+    const start = windowStartOn(day, recurrence);
+    if (recurrence.frequency === 'weekly' && !recurrence.weekdays?.includes(start.getUTCDay())) continue;
+    if (start.getTime() < seriesStart || start.getTime() >= seriesEnd) continue;
+    const end = new Date(start.getTime() + recurrence.durationMinutes * 60000);
+    if (end.getTime() > from.getTime()) windows.push({ start, end });
+  }
+  return windows;
+}
+
+/**
+ * The window the silence is in at `now`, if any
+ */
+export function activeWindow(silence: Silence, now: Date): SilenceWindow | null {
+  const window = nextWindow(silence, now);
+  return window && window.start.getTime() <= now.getTime() ? window : null;
+}
+
+/**
+ * The current window, or else the next one; null once the silence is over
+ */
+export function nextWindow(silence: Silence, now: Date): SilenceWindow | null {
+  if (silence.recurrence) return recurringWindows(silence, now, 1)[0] ?? null;
+  const start = new Date(silence.startsAt);
+  const end = new Date(silence.endsAt!);
+  return end.getTime() > now.getTime() ? { start, end } : null;
+}
+
+export function silenceState(silence: Silence, now: Date): SilenceState {
+  const window = nextWindow(silence, now);
+  if (!window) return 'expired';
+  return window.start.getTime() <= now.getTime() ? 'active' : 'scheduled';
+}
+
+/**
+ * A silence as the API returns it: with its state and current or next window
+ */
+export function presentSilence(silence: Silence, now: Date) {
+  return { ...silence, state: silenceState(silence, now), window: nextWindow(silence, now) };
+}
+
+/**
+ * The first silence covering the target at `now`
+ */
+export function findActiveSilence(silences: Silence[], target: SilenceTarget, now: Date): Silence | undefined {
+  return silences.find(silence => silenceMatches(silence.matchers, target) && activeWindow(silence, now) !== null);
+}
+
+/**
+ * e.g. "type: offline, peer_drop • region: Germany"
+ */
+export function describeMatchers(matchers: SilenceMatchers): string {
+  const labels: Record<keyof SilenceMatchers, string> = {
+    nodeIds: 'node',
+    regions: 'region',
+    versions: 'version',
+    types: 'type',
+    severities: 'severity',
+  };
+  return MATCHER_KEYS
+    .filter(key => matchers[key]?.length)
+    .map(key => `${labels[key]}: ${matchers[key]!.map(value => (key === 'nodeIds' && value.length > 16 ? `${value.slice(0, 8)}…` : value)).join(', ')}`)
+    .join(' • ');
+}
+
+/**
+ * e.g. "Weekly on Tue, Thu at 02:00 UTC for 2h"
+ */
+export function describeRecurrence(recurrence: SilenceRecurrence): string {
+  const minutes = recurrence.durationMinutes;
+  const duration = minutes % 60 === 0 ? `${minutes / 60}h` : minutes > 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+  const days = recurrence.frequency === 'daily'
+    ? 'Daily'
+    : `Weekly on ${[...(recurrence.weekdays ?? [])].sort().map(day => WEEKDAYS[day]).join(', ')}`;
+  return `${days} at ${recurrence.startTime} UTC for ${duration}`;
+}
+
+// --- silence input ---
+
+function parseDate(value: unknown, field: string): Date {
+  const date = typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+  if (!date || isNaN(date.getTime())) throw new Error(`Silence ${field} must be a date`);
+  return date;
+}
+
+function validateMatchers(value: unknown): SilenceMatchers {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Silence matchers must be an object');
+  }
+  const input = value as Record<string, unknown>;
+  const matchers: SilenceMatchers = {};
+  for (const key of Object.keys(input)) {
+    if (!MATCHER_KEYS.includes(key as keyof SilenceMatchers)) {
+      throw new Error(`Unknown silence matcher "${key}"; use ${MATCHER_KEYS.join(', ')}`);
+    }
+  }
+  for (const key of MATCHER_KEYS) {
+    const list = input[key];
+    if (list === undefined || list === null) continue;
+    if (!Array.isArray(list) || list.some(item => typeof item !== 'string')) {
+      throw new Error(`Silence matcher ${key} must be a list of strings`);
+    }
+    const values = Array.from(new Set(list.map(item => item.trim()).filter(Boolean)));
+    if (values.length === 0) continue;
+    if (key === 'severities' && values.some(item => !SEVERITIES.includes(item as Anomaly['severity']))) {
+      throw new Error(`Silence severities must be from ${SEVERITIES.join(', ')}`);
+    }
+    (matchers as Record<string, string[]>)[key] = values;
+  }
+  if (Object.keys(matchers).length === 0) {
+    throw new Error('Silence needs at least one matcher (nodeIds, regions, versions, types or severities)');
+  }
+  return matchers;
+}
+
+function validateRecurrence(value: unknown): SilenceRecurrence {
+  if (!value || typeof value !== 'object') throw new Error('Silence recurrence must be an object');
+  const input = value as Record<string, unknown>;
+  if (input.frequency !== 'daily' && input.frequency !== 'weekly') {
+    throw new Error('Silence recurrence frequency must be daily or weekly');
+  }
+  if (typeof input.startTime !== 'string' || !/^([01]\d|2[0-3]):[0-5]\d$/.test(input.startTime)) {
+    throw new Error('Silence recurrence startTime must be "HH:MM" (UTC)');
+  }
+  const duration = input.durationMinutes;
+  if (!Number.isInteger(duration) || (duration as number) < 1 || (duration as number) > MAX_WINDOW_MINUTES) {
+    throw new Error(`Silence recurrence durationMinutes must be a whole number from 1 to ${MAX_WINDOW_MINUTES}`);
+  }
+  const recurrence: SilenceRecurrence = {
+    frequency: input.frequency,
+    startTime: input.startTime,
+    durationMinutes: duration as number,
+  };
+  if (input.frequency === 'weekly') {
+    const weekdays = input.weekdays;
+    if (!Array.isArray(weekdays) || weekdays.length === 0 || weekdays.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+      throw new Error('Weekly silence recurrence needs weekdays, a list of 0 (Sunday) to 6 (Saturday)');
+    }
+    recurrence.weekdays = Array.from(new Set(weekdays as number[])).sort();
+  }
+  return recurrence;
+}
+
+/**
+ * Check a silence from the API and normalize it for storage. Updates pass the
+ * stored silence merged with the changes. Throws an Error describing the first
+ * problem found.
+ */
+export function validateSilenceInput(input: unknown, now: Date = new Date()): SilenceData {
+  if (!input || typeof input !== 'object') throw new Error('Silence must be a JSON object');
+  const body = input as Record<string, unknown>;
+
+  if (typeof body.comment !== 'string' || !body.comment.trim()) {
+    throw new Error('Silence needs a comment saying why');
+  }
+  if (body.createdBy !== undefined && typeof body.createdBy !== 'string') {
+    throw new Error('Silence createdBy must be a string');
+  }
+  const matchers = validateMatchers(body.matchers);
+  const recurrence = body.recurrence === undefined || body.recurrence === null ? null : validateRecurrence(body.recurrence);
+  const startsAt = body.startsAt === undefined || body.startsAt === null ? now : parseDate(body.startsAt, 'startsAt');
+  const endsAt = body.endsAt === undefined || body.endsAt === null ? null : parseDate(body.endsAt, 'endsAt');
+
+  if (!recurrence && !endsAt) throw new Error('Silence needs endsAt (or a recurrence for a maintenance window)');
+  if (endsAt && endsAt.getTime() <= startsAt.getTime()) throw new Error('Silence endsAt must be after startsAt');
+
+  return {
+    comment: body.comment.trim(),
+    createdBy: (body.createdBy as string | undefined)?.trim() || 'api',
+    matchers,
+    startsAt,
+    endsAt,
+    recurrence,
+  };
+}
+
+/**
+ * Database columns for a validated silence
+ */
+export function serializeSilence(silence: SilenceData) {
+  return {
+    ...silence,
+    matchers: JSON.stringify(silence.matchers),
+    recurrence: silence.recurrence ? JSON.stringify(silence.recurrence) : null,
+  };
+}
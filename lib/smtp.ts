@@ -0,0 +1,208 @@
+import net from 'net';
+import tls from 'tls';
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+
+// Minimal SMTP client for email notifications (server-only). Speaks just
+// enough SMTP for relays and local test servers: EHLO, optional STARTTLS or
+// implicit TLS, AUTH PLAIN, and a single text/plain message per connection.
+// Credentials are only sent over TLS unless allowInsecureAuth says otherwise.
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure?: boolean; // implicit TLS (usually port 465)
+  startTls?: boolean; // upgrade with STARTTLS when the server offers it
+  username?: string;
+  password?: string;
+  allowInsecureAuth?: boolean; // authenticate over plaintext TCP (local test servers only)
+  timeoutMs?: number; // the whole exchange, connecting and TLS handshakes included
+}
+
+export interface SmtpMail {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+// Reads SMTP replies (multi-line replies use "250-" continuation lines) from a socket
+class ReplyReader {
+  private buffer = '';
+  private lines: string[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+  private socket: net.Socket | null = null;
+  private readonly handlers = {
+    data: (chunk: Buffer) => this.onData(chunk.toString('utf8')),
+    error: (error: Error) => this.fail(error),
+    close: () => this.fail(new Error('SMTP connection closed')),
+  };
+
+  constructor(socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  // Read from `socket` from now on (after STARTTLS, the TLS socket wrapping the old one)
+  attach(socket: net.Socket) {
+    this.detach();
+    this.socket = socket;
+    socket.on('data', this.handlers.data);
+    socket.on('error', this.handlers.error);
+    socket.on('close', this.handlers.close);
+  }
+
+  detach() {
+    if (!this.socket) return;
+    this.socket.off('data', this.handlers.data);
+    this.socket.off('error', this.handlers.error);
+    this.socket.off('close', this.handlers.close);
+    this.socket = null;
+  }
+
+  private onData(data: string) {
+    this.buffer += data;
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(newline + 1);
+      this.lines.push(line);
+      if (/^\d{3} /.test(line) || /^\d{3}$/.test(line)) {
+        const reply = { code: parseInt(line.slice(0, 3), 10), lines: this.lines.map(l => l.slice(4)) };
+        this.lines = [];
+        const waiting = this.waiting;
+        this.waiting = null;
+        waiting?.resolve(reply);
+      }
+    }
+  }
+
+  private fail(error: Error) {
+    this.failure ??= error;
+    const waiting = this.waiting;
+    this.waiting = null;
+    waiting?.reject(error);
+  }
+
+  next(): Promise<SmtpReply> {
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+}
+
+// Connected (and with `secure`, TLS-established) socket; fails after `timeoutMs`
+function connect(options: SmtpOptions, timeoutMs: number): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const onReady = () => {
+      socket.setTimeout(0);
+      resolve(socket);
+    };
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host }, onReady)
+      : net.connect({ host: options.host, port: options.port }, onReady);
+    socket.setTimeout(timeoutMs, () => socket.destroy(new Error(`SMTP connection timed out after ${timeoutMs}ms`)));
+    socket.once('error', reject);
+  });
+}
+
+function upgrade(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secured = tls.connect({ socket, servername: host }, () => resolve(secured));
+    secured.once('error', reject);
+  });
+}
+
+// RFC 2047 encoded-word for non-ASCII header values
+function encodeHeader(value: string): string {
+  return /^[\x00-\x7F]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function buildMessage(mail: SmtpMail, domain: string): string {
+  const body = Buffer.from(mail.text, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+  return [
+    `From: ${mail.from}`,
+    `To: ${mail.to.join(', ')}`,
+    `Subject: ${encodeHeader(mail.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body,
+  ].join('\r\n');
+}
+
+// Bare address from "Name <address>" or "address"
+function address(value: string): string {
+  return value.match(/<([^>]+)>/)?.[1] ?? value.trim();
+}
+
+/**
+ * Send one message. Rejects with the server's reply when a command is refused.
+ */
+export async function sendMail(options: SmtpOptions, mail: SmtpMail): Promise<void> {
+  const timeoutMs = options.timeoutMs ?? 10000;
+  const deadline = Date.now() + timeoutMs;
+  let socket = await connect(options, timeoutMs);
+  const reader = new ReplyReader(socket);
+  // What is left of the timeout after connecting; destroying the TCP socket also ends a STARTTLS handshake
+  const timer = setTimeout(
+    () => socket.destroy(new Error(`SMTP timed out after ${timeoutMs}ms`)),
+    Math.max(0, deadline - Date.now())
+  );
+  const domain = hostname();
+
+  const expect = async (command: string | null, codes: number[]): Promise<SmtpReply> => {
+    if (command !== null) socket.write(`${command}\r\n`);
+    const reply = await reader.next();
+    if (!codes.includes(reply.code)) {
+      const shown = command?.startsWith('AUTH') ? 'AUTH' : command ?? 'greeting';
+      throw new Error(`SMTP ${shown} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  };
+
+  try {
+    await expect(null, [220]);
+    const ehlo = await expect(`EHLO ${domain}`, [250]);
+
+    let encrypted = options.secure === true;
+    if (!options.secure && options.startTls && ehlo.lines.some(line => /^STARTTLS\b/i.test(line))) {
+      await expect('STARTTLS', [220]);
+      reader.detach();
+      socket = await upgrade(socket, options.host);
+      reader.attach(socket);
+      encrypted = true;
+      await expect(`EHLO ${domain}`, [250]);
+    }
+
+    if (options.username) {
+      if (!encrypted && !options.allowInsecureAuth) {
+        throw new Error('Refusing to send SMTP credentials without TLS (no STARTTLS offered, or startTls is off); set allowInsecureAuth for local test servers');
+      }
+      const credentials = Buffer.from(`\0${options.username}\0${options.password ?? ''}`, 'utf8').toString('base64');
+      await expect(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    await expect(`MAIL FROM:<${address(mail.from)}>`, [250]);
+    for (const recipient of mail.to) {
+      await expect(`RCPT TO:<${address(recipient)}>`, [250, 251]);
+    }
+    await expect('DATA', [354]);
+    // Dot-stuffing: lines starting with "." get an extra one
+    const data = buildMessage(mail, domain).replace(/\r\n\./g, '\r\n..');
+    await expect(`${data}\r\n.`, [250]);
+    await expect('QUIT', [221]).catch(() => undefined);
+  } finally {
+    clearTimeout(timer);
+    socket.destroy();
+  }
+}
@@ -0,0 +1,119 @@
+import { StakeWeightBasis, StakeWeightedStats, pNode } from '@/types';
+import { NAKAMOTO_THRESHOLD } from './concentration';
+import { regionOf } from './networkRules';
+import { buildVersionDistribution } from './versions';
+import { formatBytes } from './utils';
+
+// Stake-weighted network statistics. Node counts treat a validator holding 2%
+// of stake like one holding 40%; these weigh each node by its activated stake
+// (from getVoteAccounts, see enrichSolanaNodes in lib/prpcLegacy.ts). Pure
+// pNode deployments have no stake, so there the same statistics weigh nodes
+// by storage capacity instead.
+
+export const LAMPORTS_PER_SOL = 1_000_000_000;
+
+/**
+ * Activated stake of a node in lamports (0 for non-validators)
+ */
+export function activatedStake(node: pNode): number {
+  const stake = Number(node.metadata?.activatedStake);
+  return Number.isFinite(stake) && stake > 0 ? stake : 0;
+}
+
+/**
+ * What to weigh `nodes` by: stake once any node has some, otherwise storage
+ * capacity; null when neither is known
+ */
+export function stakeWeightBasis(nodes: pNode[]): StakeWeightBasis | null {
+  if (nodes.some(node => activatedStake(node) > 0)) return 'stake';
+  if (nodes.some(node => (node.storageCapacity || 0) > 0)) return 'storage';
+  return null;
+}
+
+/**
+ * A node's weight under the given basis
+ */
+export function nodeWeight(node: pNode, basis: StakeWeightBasis): number {
+  return basis === 'stake' ? activatedStake(node) : Math.max(0, node.storageCapacity || 0);
+}
+
+/**
+ * Fewest nodes that together hold more than `threshold` of the weight, largest
+ * first. With the default one-third threshold this is Solana's superminority:
+ * the nodes that could halt consensus together.
+ */
+export function superminority(
+  weights: Array<{ id: string; weight: number }>,
+  threshold: number = NAKAMOTO_THRESHOLD
+): string[] {
+  const sorted = weights.filter(entry => entry.weight > 0).sort((a, b) => b.weight - a.weight || a.id.localeCompare(b.id));
+  const total = sorted.reduce((sum, entry) => sum + entry.weight, 0);
+  const members: string[] = [];
+  let held = 0;
+  for (const entry of sorted) {
+    if (total === 0 || held / total > threshold) break;
+    members.push(entry.id);
+    held += entry.weight;
+  }
+  return members;
+}
+
+/**
+ * Stake-weighted online share, version and region distributions and
+ * superminority; null when no node has stake or storage capacity
+ */
+export function calculateStakeWeightedStats(nodes: pNode[]): StakeWeightedStats | null {
+  const basis = stakeWeightBasis(nodes);
+  if (!basis) return null;
+
+  const weighted = nodes
+    .map(node => ({ node, weight: nodeWeight(node, basis) }))
+    .filter(entry => entry.weight > 0);
+  const totalWeight = weighted.reduce((sum, entry) => sum + entry.weight, 0);
+  // A delinquent validator's stake isn't voting, whatever its gossip status says
+  const onlineWeight = weighted
+    .filter(({ node }) => node.status === 'online' && node.metadata?.delinquent !== true)
+    .reduce((sum, entry) => sum + entry.weight, 0);
+
+  const regionDistribution: Record<string, number> = {};
+  weighted.forEach(({ node, weight }) => {
+    const region = regionOf(node.location);
+    regionDistribution[region] = (regionDistribution[region] || 0) + weight;
+  });
+
+  const members = superminority(weighted.map(({ node, weight }) => ({ id: node.id, weight })));
+
+  return {
+    basis,
+    totalWeight,
+    onlineWeight,
+    onlineShare: totalWeight > 0 ? Math.round((onlineWeight / totalWeight) * 10000) / 10000 : 0,
+    weightedNodes: weighted.length,
+    versionDistribution: buildVersionDistribution(
+      weighted.map(({ node }) => node.softwareVersion),
+      weighted.map(({ weight }) => weight)
+    ),
+    regionDistribution,
+    nakamoto: members.length,
+    superminority: members,
+  };
+}
+
+/**
+ * A weight for display: SOL for stake, bytes for storage capacity
+ */
+export function formatWeight(weight: number, basis: StakeWeightBasis): string {
+  if (basis === 'storage') return formatBytes(weight);
+  return `${Math.round(weight / LAMPORTS_PER_SOL).toLocaleString()} SOL`;
+}
+
+/**
+ * A weighted distribution as percentage shares (one decimal), for charts
+ */
+export function weightShares(distribution: Record<string, number>): Record<string, number> {
+  const total = Object.values(distribution).reduce((sum, weight) => sum + weight, 0);
+  if (total <= 0) return {};
+  return Object.fromEntries(
+    Object.entries(distribution).map(([key, weight]) => [key, Math.round((weight / total) * 1000) / 10])
+  );
+}
@@ -0,0 +1,339 @@
+import { ConnectivityMetrics, PeerGraphMetrics, pNode } from '@/types';
+
+// Peer topology: the undirected graph of nodes and the peers they report,
+// its structural metrics, and a force-directed layout for drawing it. Peer
+// entries may name a node by id, public key or IP address; entries naming no
+// known node are counted but left out of the graph. Pure, so the topology
+// page computes everything in the browser; ingest stores the links and a
+// connectivity summary with each NetworkSnapshot.
+
+export interface PeerGraph {
+  ids: string[];
+  adjacency: Map<string, Set<string>>;
+  edges: Array<[string, string]>; // each link once
+  unresolvedPeers: number;
+}
+
+export interface LayoutPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * The peer graph of a set of nodes. A link counts once, whichever side reports it.
+ */
+export function buildPeerGraph(nodes: pNode[]): PeerGraph {
+  const lookup = new Map<string, string>();
+  for (const node of nodes) {
+    if (node.ipAddress) lookup.set(node.ipAddress, node.id);
+    if (node.publicKey) lookup.set(node.publicKey, node.id);
+  }
+  // Ids win over other names
+  for (const node of nodes) lookup.set(node.id, node.id);
+
+  const adjacency = new Map<string, Set<string>>(nodes.map(node => [node.id, new Set<string>()]));
+  const edges: Array<[string, string]> = [];
+  let unresolvedPeers = 0;
+
+  for (const node of nodes) {
+    for (const peer of node.peers ?? []) {
+      const id = lookup.get(peer);
+      if (!id) {
+        unresolvedPeers++;
+        continue;
+      }
+      if (id === node.id || adjacency.get(node.id)!.has(id)) continue;
+      adjacency.get(node.id)!.add(id);
+      adjacency.get(id)!.add(node.id);
+      edges.push([node.id, id]);
+    }
+  }
+  return { ids: Array.from(adjacency.keys()), adjacency, edges, unresolvedPeers };
+}
+
+/**
+ * Connected components, largest first. `without` leaves one node out, as if it were gone.
+ */
+export function connectedComponents(graph: PeerGraph, without?: string): string[][] {
+  const seen = new Set<string>(without ? [without] : []);
+  const components: string[][] = [];
+  for (const start of graph.ids) {
+    if (seen.has(start)) continue;
+    seen.add(start);
+    const component = [start];
+    for (let i = 0; i < component.length; i++) {
+      for (const next of graph.adjacency.get(component[i])!) {
+        if (seen.has(next)) continue;
+        seen.add(next);
+        component.push(next);
+      }
+    }
+    components.push(component);
+  }
+  return components.sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Nodes (articulation points) and links (bridges) whose loss splits their
+ * component, and the sizes of the parts each articulation point's loss leaves.
+ * Tarjan's low-link method, iterative so large graphs can't overflow the stack.
+ */
+export function findCutPoints(graph: PeerGraph): {
+  articulationPoints: string[];
+  bridges: Array<[string, string]>;
+  parts: Map<string, number[]>;
+} {
+  const discovered = new Map<string, number>();
+  const low = new Map<string, number>();
+  // DFS subtree sizes; a child whose subtree can't reach above its parent is cut off with it
+  const subtreeSize = new Map<string, number>();
+  const cutOffSubtrees = new Map<string, number[]>();
+  const articulationPoints = new Set<string>();
+  const bridges: Array<[string, string]> = [];
+  const parts = new Map<string, number[]>();
+  let time = 0;
+
+  for (const root of graph.ids) {
+    if (discovered.has(root)) continue;
+    discovered.set(root, time);
+    low.set(root, time++);
+    subtreeSize.set(root, 1);
+    const tree = [root];
+    let rootChildren = 0;
+    const stack = [{ id: root, parent: null as string | null, neighbors: Array.from(graph.adjacency.get(root)!), next: 0 }];
+
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      if (frame.next < frame.neighbors.length) {
+        const neighbor = frame.neighbors[frame.next++];
+        if (!discovered.has(neighbor)) {
+          discovered.set(neighbor, time);
+          low.set(neighbor, time++);
+          subtreeSize.set(neighbor, 1);
+          tree.push(neighbor);
+          if (frame.id === root) rootChildren++;
+          stack.push({ id: neighbor, parent: frame.id, neighbors: Array.from(graph.adjacency.get(neighbor)!), next: 0 });
+        } else if (neighbor !== frame.parent) {
+          low.set(frame.id, Math.min(low.get(frame.id)!, discovered.get(neighbor)!));
+        }
+        continue;
+      }
+
+      stack.pop();
+      const parent = frame.parent;
+      if (parent === null) continue;
+      low.set(parent, Math.min(low.get(parent)!, low.get(frame.id)!));
+      subtreeSize.set(parent, subtreeSize.get(parent)! + subtreeSize.get(frame.id)!);
+      if (low.get(frame.id)! > discovered.get(parent)!) bridges.push([parent, frame.id]);
+      if (low.get(frame.id)! >= discovered.get(parent)!) {
+        if (!cutOffSubtrees.has(parent)) cutOffSubtrees.set(parent, []);
+        cutOffSubtrees.get(parent)!.push(subtreeSize.get(frame.id)!);
+        if (parent !== root) articulationPoints.add(parent);
+      }
+    }
+    if (rootChildren > 1) articulationPoints.add(root);
+
+    // The cut-off subtrees, plus whatever else of the component stays connected through the parent
+    const componentSize = subtreeSize.get(root)!;
+    for (const id of tree) {
+      if (!articulationPoints.has(id)) continue;
+      const cutOff = cutOffSubtrees.get(id)!;
+      const rest = componentSize - 1 - cutOff.reduce((sum, size) => sum + size, 0);
+      parts.set(id, rest > 0 ? [...cutOff, rest] : cutOff);
+    }
+  }
+  return { articulationPoints: Array.from(articulationPoints), bridges, parts };
+}
+
+/**
+ * Local clustering coefficient: the share of a node's peer pairs that are peers themselves
+ * (0 for nodes with fewer than two peers)
+ */
+export function clusteringCoefficients(graph: PeerGraph): Map<string, number> {
+  const coefficients = new Map<string, number>();
+  for (const id of graph.ids) {
+    const neighbors = Array.from(graph.adjacency.get(id)!);
+    const k = neighbors.length;
+    if (k < 2) {
+      coefficients.set(id, 0);
+      continue;
+    }
+    let links = 0;
+    for (let i = 0; i < k; i++) {
+      const peers = graph.adjacency.get(neighbors[i])!;
+      for (let j = i + 1; j < k; j++) {
+        if (peers.has(neighbors[j])) links++;
+      }
+    }
+    coefficients.set(id, (2 * links) / (k * (k - 1)));
+  }
+  return coefficients;
+}
+
+/**
+ * Structural metrics of the peer graph
+ */
+export function analyzePeerGraph(graph: PeerGraph): PeerGraphMetrics {
+  const degrees = graph.ids.map(id => graph.adjacency.get(id)!.size);
+  const degreeDistribution: Record<number, number> = {};
+  for (const degree of degrees) degreeDistribution[degree] = (degreeDistribution[degree] ?? 0) + 1;
+
+  const components = connectedComponents(graph);
+
+  const { articulationPoints, bridges, parts } = findCutPoints(graph);
+  // Nodes that losing an articulation point separates from the largest part left of its component
+  const criticalNodes = articulationPoints
+    .map(id => {
+      const sizes = parts.get(id)!;
+      const remaining = sizes.reduce((sum, size) => sum + size, 0);
+      return { id, cutOff: remaining - Math.max(...sizes) };
+    })
+    .sort((a, b) => b.cutOff - a.cutOff);
+
+  const clustering = clusteringCoefficients(graph);
+  const n = graph.ids.length;
+  return {
+    nodes: n,
+    edges: graph.edges.length,
+    unresolvedPeers: graph.unresolvedPeers,
+    isolated: degrees.filter(degree => degree === 0).length,
+    averageDegree: n > 0 ? (2 * graph.edges.length) / n : 0,
+    maxDegree: degrees.length > 0 ? Math.max(...degrees) : 0,
+    degreeDistribution,
+    components: components.length,
+    largestComponent: components[0]?.length ?? 0,
+    averageClustering: n > 0 ? Array.from(clustering.values()).reduce((sum, c) => sum + c, 0) / n : 0,
+    articulationPoints,
+    bridges,
+    criticalNodes,
+  };
+}
+
+/**
+ * Partition risk of the peer graph, for network snapshots and rules. Nodes
+ * that report no peer list and that no other node names are left out: nothing
+ * is known about their links, and counting them as isolated would read as a
+ * partition. Null when no node reports peers at all.
+ */
+export function summarizeConnectivity(nodes: pNode[]): ConnectivityMetrics | null {
+  if (!nodes.some(node => node.peers !== undefined)) return null;
+
+  const full = buildPeerGraph(nodes);
+  const reporting = new Set(nodes.filter(node => node.peers !== undefined).map(node => node.id));
+  const ids = full.ids.filter(id => reporting.has(id) || full.adjacency.get(id)!.size > 0);
+  // Left-out nodes have no links, so the edges stay as they are
+  const graph: PeerGraph = { ...full, ids, adjacency: new Map(ids.map(id => [id, full.adjacency.get(id)!])) };
+
+  const components = connectedComponents(graph);
+  const { articulationPoints, bridges } = findCutPoints(graph);
+  const largest = new Set(components[0] ?? []);
+
+  // Edge connectivity of the largest component: a bridge makes it 1, otherwise
+  // its smallest degree bounds it from above (the exact value needs max-flow)
+  let minCut = 0;
+  if (largest.size > 1) {
+    minCut = bridges.some(([a]) => largest.has(a))
+      ? 1
+      : Math.min(...Array.from(largest, id => graph.adjacency.get(id)!.size));
+  }
+
+  return {
+    nodes: ids.length,
+    links: graph.edges.length,
+    components: components.length,
+    largestComponentShare: ids.length > 0 ? largest.size / ids.length : 0,
+    isolated: ids.filter(id => graph.adjacency.get(id)!.size === 0).length,
+    articulationPoints: articulationPoints.length,
+    bridges: bridges.length,
+    minCut,
+  };
+}
+
+/**
+ * Fruchterman-Reingold layout, scaled to fit width × height. Starts from a
+ * fixed spiral, so the same graph always gets the same picture. Every pair of
+ * nodes repels, so larger graphs get fewer iterations.
+ */
+export function forceLayout(
+  graph: PeerGraph,
+  width: number,
+  height: number,
+  iterations?: number
+): Map<string, LayoutPoint> {
+  const n = graph.ids.length;
+  const positions = new Map<string, LayoutPoint>();
+  if (n === 0) return positions;
+
+  const index = new Map(graph.ids.map((id, i) => [id, i]));
+  const cx = width / 2;
+  const cy = height / 2;
+  const margin = Math.min(width, height) * 0.04;
+  const k = Math.sqrt((width * height) / n);
+  const xs = new Float64Array(n);
+  const ys = new Float64Array(n);
+  const dx = new Float64Array(n);
+  const dy = new Float64Array(n);
+
+  // Sunflower spiral: even, deterministic start
+  const radius = Math.min(width, height) * 0.45;
+  for (let i = 0; i < n; i++) {
+    const r = radius * Math.sqrt((i + 0.5) / n);
+    const angle = i * 2.399963229728653; // golden angle
+    xs[i] = cx + r * Math.cos(angle);
+    ys[i] = cy + r * Math.sin(angle);
+  }
+
+  const rounds = iterations ?? Math.max(30, Math.min(300, Math.round(2e7 / (n * n))));
+  let temperature = Math.min(width, height) / 10;
+  const cooling = temperature / (rounds + 1);
+  const edges = graph.edges.map(([a, b]) => [index.get(a)!, index.get(b)!]);
+
+  for (let round = 0; round < rounds; round++) {
+    dx.fill(0);
+    dy.fill(0);
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const ddx = xs[i] - xs[j];
+        const ddy = ys[i] - ys[j];
+        const distance = Math.max(0.01, Math.sqrt(ddx * ddx + ddy * ddy));
+        const force = (k * k) / distance / distance;
+        dx[i] += ddx * force;
+        dy[i] += ddy * force;
+        dx[j] -= ddx * force;
+        dy[j] -= ddy * force;
+      }
+    }
+    for (const [a, b] of edges) {
+      const ddx = xs[a] - xs[b];
+      const ddy = ys[a] - ys[b];
+      const distance = Math.max(0.01, Math.sqrt(ddx * ddx + ddy * ddy));
+      const force = distance / k;
+      dx[a] -= ddx * force;
+      dy[a] -= ddy * force;
+      dx[b] += ddx * force;
+      dy[b] += ddy * force;
+    }
+    for (let i = 0; i < n; i++) {
+      // Pull to the centre keeps separate components and isolated nodes from drifting off
+      const fromCentre = Math.sqrt((xs[i] - cx) ** 2 + (ys[i] - cy) ** 2);
+      dx[i] += ((cx - xs[i]) * fromCentre) / k / 2;
+      dy[i] += ((cy - ys[i]) * fromCentre) / k / 2;
+      const length = Math.max(0.01, Math.sqrt(dx[i] * dx[i] + dy[i] * dy[i]));
+      const step = Math.min(length, temperature);
+      xs[i] += (dx[i] / length) * step;
+      ys[i] += (dy[i] / length) * step;
+    }
+    temperature = Math.max(1, temperature - cooling);
+  }
+
+  // Fit the result into the frame, keeping its proportions
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const spanX = Math.max(...xs) - minX;
+  const spanY = Math.max(...ys) - minY;
+  const scale = Math.min((width - 2 * margin) / (spanX || 1), (height - 2 * margin) / (spanY || 1));
+  const offsetX = (width - spanX * scale) / 2;
+  const offsetY = (height - spanY * scale) / 2;
+  graph.ids.forEach((id, i) => positions.set(id, { x: offsetX + (xs[i] - minX) * scale, y: offsetY + (ys[i] - minY) * scale }));
+  return positions;
+}
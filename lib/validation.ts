@@ -0,0 +1,197 @@
+import {
+  pNode,
+  DataQualityReport,
+  FieldProvenance,
+  FieldQuality,
+  NodeProvenance,
+  TrackedNodeField,
+} from '@/types';
+
+export const TRACKED_NODE_FIELDS: TrackedNodeField[] = [
+  'publicKey',
+  'ipAddress',
+  'status',
+  'lastSeen',
+  'peerCount',
+  'storageCapacity',
+  'storageUsed',
+  'softwareVersion',
+  'latency',
+  'uptime',
+  'availability',
+  'location',
+];
+
+// Issues kept verbatim in a report; the rest are only counted
+const MAX_SAMPLE_ISSUES = 50;
+
+// Allow some clock skew between us and the pNodes before a lastSeen counts as "in the future"
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+/**
+ * Provenance for a value taken straight from a payload: 'reported' if present,
+ * otherwise nothing (the field is missing)
+ */
+export function reportedIf(value: unknown): FieldProvenance | undefined {
+  return value === undefined || value === null || value === '' ? undefined : 'reported';
+}
+
+/**
+ * True when the field's value is a placeholder rather than real data.
+ * Nodes without provenance (mock data, rows stored before tracking) count as reported.
+ */
+export function isDefaulted(node: pNode, field: TrackedNodeField): boolean {
+  return node.provenance?.[field] === 'defaulted';
+}
+
+function isNonNegativeNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Validate a mapped node in place.
+ * Values that fail validation are dropped (set to undefined, provenance
+ * cleared) so they can't feed health scores or aggregates, and the reason
+ * is recorded in node.validationIssues.
+ */
+export function validateNode(node: pNode, now: number = Date.now()): pNode {
+  const issues: string[] = [];
+  const provenance: NodeProvenance = { ...node.provenance };
+
+  const drop = (field: TrackedNodeField, issue: string) => {
+    issues.push(issue);
+    delete provenance[field];
+  };
+
+  if (!node.id || typeof node.id !== 'string') {
+    issues.push('missing node id');
+  }
+
+  if (!['online', 'offline', 'unknown'].includes(node.status)) {
+    issues.push(`invalid status "${String(node.status)}"`);
+    node.status = 'unknown';
+    provenance.status = 'defaulted';
+  }
+
+  const lastSeen = new Date(node.lastSeen);
+  if (Number.isNaN(lastSeen.getTime())) {
+    // lastSeen is required on pNode; keep a value but make clear it's invented
+    issues.push(`invalid lastSeen "${String(node.lastSeen)}"`);
+    node.lastSeen = new Date(now);
+    provenance.lastSeen = 'defaulted';
+  } else if (lastSeen.getTime() - now > MAX_CLOCK_SKEW_MS) {
+    issues.push(`lastSeen ${lastSeen.toISOString()} is in the future`);
+  }
+
+  if (!Number.isInteger(node.peerCount) || node.peerCount < 0) {
+    issues.push(`invalid peerCount "${String(node.peerCount)}"`);
+    node.peerCount = 0;
+    provenance.peerCount = 'defaulted';
+  }
+
+  for (const field of ['storageCapacity', 'storageUsed', 'latency', 'uptime'] as const) {
+    const value = node[field];
+    if (value !== undefined && !isNonNegativeNumber(value)) {
+      drop(field, `invalid ${field} "${String(value)}"`);
+      node[field] = undefined;
+    }
+  }
+
+  if (
+    node.storageCapacity !== undefined &&
+    node.storageUsed !== undefined &&
+    node.storageUsed > node.storageCapacity
+  ) {
+    drop('storageUsed', `storageUsed (${node.storageUsed}) exceeds storageCapacity (${node.storageCapacity})`);
+    node.storageUsed = undefined;
+    node.storageFree = undefined;
+  }
+
+  if (node.availability !== undefined && !(isNonNegativeNumber(node.availability) && node.availability <= 100)) {
+    drop('availability', `invalid availability "${String(node.availability)}"`);
+    node.availability = undefined;
+  }
+
+  const location = node.location;
+  if (location) {
+    const badLat = location.latitude !== undefined && !(Math.abs(location.latitude) <= 90);
+    const badLng = location.longitude !== undefined && !(Math.abs(location.longitude) <= 180);
+    if (badLat || badLng) {
+      issues.push(`invalid coordinates (${location.latitude}, ${location.longitude})`);
+      node.location = { ...location, latitude: undefined, longitude: undefined };
+    }
+  }
+
+  if (node.softwareVersion !== undefined && typeof node.softwareVersion !== 'string') {
+    drop('softwareVersion', `invalid softwareVersion "${String(node.softwareVersion)}"`);
+    node.softwareVersion = undefined;
+  }
+
+  node.provenance = provenance;
+  node.validationIssues = [...(node.validationIssues || []), ...issues];
+  return node;
+}
+
+export function validateNodes(nodes: pNode[]): pNode[] {
+  const now = Date.now();
+  nodes.forEach(node => validateNode(node, now));
+
+  const withIssues = nodes.filter(n => n.validationIssues && n.validationIssues.length > 0).length;
+  if (withIssues > 0) {
+    console.warn(`⚠️ ${withIssues} of ${nodes.length} nodes had invalid fields`);
+  }
+  return nodes;
+}
+
+function hasValue(node: pNode, field: TrackedNodeField): boolean {
+  const value = node[field];
+  if (field === 'location') {
+    return !!node.location && Object.values(node.location).some(v => v !== undefined && v !== null && v !== '');
+  }
+  return value !== undefined && value !== null && value !== '';
+}
+
+/**
+ * Summarize field coverage and validation issues across a set of nodes
+ */
+export function buildDataQualityReport(nodes: pNode[], timestamp: Date = new Date()): DataQualityReport {
+  const fields = {} as Record<TrackedNodeField, FieldQuality>;
+  for (const field of TRACKED_NODE_FIELDS) {
+    fields[field] = { reported: 0, inferred: 0, defaulted: 0, missing: 0 };
+  }
+
+  const sampleIssues: DataQualityReport['sampleIssues'] = [];
+  let issueCount = 0;
+  let nodesWithIssues = 0;
+
+  for (const node of nodes) {
+    for (const field of TRACKED_NODE_FIELDS) {
+      if (!hasValue(node, field)) {
+        fields[field].missing++;
+      } else {
+        // A value with no recorded provenance came from an untracked source; count it as reported
+        fields[field][node.provenance?.[field] || 'reported']++;
+      }
+    }
+
+    const issues = node.validationIssues || [];
+    if (issues.length > 0) {
+      nodesWithIssues++;
+      issueCount += issues.length;
+      for (const issue of issues) {
+        if (sampleIssues.length < MAX_SAMPLE_ISSUES) {
+          sampleIssues.push({ nodeId: node.id, issue });
+        }
+      }
+    }
+  }
+
+  return {
+    timestamp,
+    totalNodes: nodes.length,
+    nodesWithIssues,
+    issueCount,
+    fields,
+    sampleIssues,
+  };
+}
@@ -0,0 +1,146 @@
+import { Anomaly, EpochCredits, ValidatorPerformance, pNode } from '@/types';
+
+// Validator performance from vote accounts (getVoteAccounts, see
+// enrichSolanaNodes in lib/prpcLegacy.ts): vote credits earned per epoch
+// against the cluster median, delinquency, and commission increases. Ingest
+// raises validator_delinquent and commission_increase alerts from these and
+// stores each epoch's credits; /api/validators ranks validators over the
+// stored epochs.
+
+/**
+ * Validator rule thresholds
+ */
+export const VALIDATOR_RULES = {
+  // Last vote trailing the newest vote in the cluster by more than this many slots → delinquent (Solana's own cut-off)
+  delinquentSlotDistance: parseInt(process.env.VALIDATOR_DELINQUENT_SLOTS || '128', 10),
+  // Epochs averaged into a validator's long-run credit ratio
+  performanceEpochs: 5,
+  // A commission increase keeps its alert open this long
+  commissionAlertWindowMs: parseInt(process.env.VALIDATOR_COMMISSION_ALERT_HOURS || '24', 10) * 60 * 60 * 1000,
+  // Increases of at least this many percentage points → high; to 100% → critical; otherwise medium
+  commissionHighIncrease: 10,
+} as const;
+
+/**
+ * Parse getVoteAccounts epochCredits ([epoch, credits, previousCredits] triples), oldest first.
+ * Malformed entries are dropped.
+ */
+export function parseEpochCredits(raw: unknown): EpochCredits[] {
+  if (!Array.isArray(raw)) return [];
+  const entries: EpochCredits[] = [];
+  for (const entry of raw) {
+    if (!Array.isArray(entry) || entry.length < 3) continue;
+    const [epoch, credits, previousCredits] = entry.slice(0, 3).map(Number);
+    if (![epoch, credits, previousCredits].every(Number.isFinite) || credits < previousCredits) continue;
+    entries.push({ epoch, credits, previousCredits, earned: credits - previousCredits });
+  }
+  return entries.sort((a, b) => a.epoch - b.epoch);
+}
+
+/**
+ * Stored epochs completed by freshly reported ones; the report wins for epochs in both
+ */
+export function mergeEpochCredits(stored: EpochCredits[], reported: EpochCredits[]): EpochCredits[] {
+  const byEpoch = new Map(stored.map(entry => [entry.epoch, entry]));
+  reported.forEach(entry => byEpoch.set(entry.epoch, entry));
+  return Array.from(byEpoch.values()).sort((a, b) => a.epoch - b.epoch);
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+const numberOrNull = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+/**
+ * Median credits earned per epoch across the validators that have the epoch
+ */
+export function clusterCreditMedians(credits: EpochCredits[][]): Map<number, number> {
+  const byEpoch = new Map<number, number[]>();
+  for (const entries of credits) {
+    for (const entry of entries) {
+      const earned = byEpoch.get(entry.epoch) ?? [];
+      earned.push(entry.earned);
+      byEpoch.set(entry.epoch, earned);
+    }
+  }
+  return new Map(Array.from(byEpoch, ([epoch, earned]) => [epoch, median(earned)!]));
+}
+
+/**
+ * Assess every validator among `nodes`, best first. `storedCredits` (by node
+ * id) adds epochs older than the handful getVoteAccounts reports.
+ */
+export function assessValidators(nodes: pNode[], storedCredits?: Map<string, EpochCredits[]>): ValidatorPerformance[] {
+  const validators = nodes
+    .filter(node => node.metadata?.isValidator === true)
+    .map(node => ({
+      node,
+      credits: mergeEpochCredits(storedCredits?.get(node.id) ?? [], parseEpochCredits(node.metadata?.epochCredits)),
+      lastVote: numberOrNull(node.metadata?.lastVote) ?? numberOrNull(node.metadata?.rootSlot),
+    }));
+
+  const medians = clusterCreditMedians(validators.map(validator => validator.credits));
+  const epochs = Array.from(medians.keys()).sort((a, b) => a - b);
+  const latestEpoch = epochs.length > 0 ? epochs[epochs.length - 1] : null;
+  const recentEpochs = epochs.slice(-VALIDATOR_RULES.performanceEpochs);
+  const votes = validators.map(validator => validator.lastVote).filter((vote): vote is number => vote !== null);
+  const newestVote = votes.length > 0 ? Math.max(...votes) : null;
+
+  const assessed = validators.map(({ node, credits, lastVote }) => {
+    const earnedIn = (epoch: number) => credits.find(entry => entry.epoch === epoch)?.earned ?? 0;
+    const ratioIn = (epoch: number) => {
+      const clusterMedian = medians.get(epoch)!;
+      return clusterMedian > 0 ? earnedIn(epoch) / clusterMedian : null;
+    };
+
+    // Epochs before a validator's first credits don't count against it
+    const firstEpoch = credits[0]?.epoch;
+    const ratios = firstEpoch === undefined
+      ? []
+      : recentEpochs.filter(epoch => epoch >= firstEpoch).map(ratioIn).filter((ratio): ratio is number => ratio !== null);
+
+    const voteLag = lastVote !== null && newestVote !== null ? newestVote - lastVote : null;
+    const reported = node.metadata?.delinquent === true;
+    const lagging = voteLag !== null && voteLag > VALIDATOR_RULES.delinquentSlotDistance;
+
+    const performance: ValidatorPerformance = {
+      nodeId: node.id,
+      voteAccount: node.metadata?.voteAccount || undefined,
+      status: node.status,
+      commission: numberOrNull(node.metadata?.commission),
+      delinquent: reported || lagging,
+      delinquentReason: reported ? 'reported' : lagging ? 'vote_lag' : undefined,
+      lastVote,
+      voteLag,
+      epoch: latestEpoch,
+      earned: latestEpoch !== null && credits.length > 0 ? earnedIn(latestEpoch) : null,
+      creditRatio: latestEpoch !== null && credits.length > 0 ? ratioIn(latestEpoch) : null,
+      averageRatio: ratios.length > 0 ? ratios.reduce((sum, ratio) => sum + ratio, 0) / ratios.length : null,
+      credits,
+      rank: 0,
+    };
+    return performance;
+  });
+
+  assessed.sort((a, b) =>
+    (b.averageRatio ?? -1) - (a.averageRatio ?? -1) ||
+    (b.creditRatio ?? -1) - (a.creditRatio ?? -1) ||
+    a.nodeId.localeCompare(b.nodeId)
+  );
+  assessed.forEach((validator, i) => { validator.rank = i + 1; });
+  return assessed;
+}
+
+/**
+ * Alert severity of a commission change, or null when it didn't go up
+ */
+export function commissionIncreaseSeverity(previous: number, commission: number): Anomaly['severity'] | null {
+  if (commission <= previous) return null;
+  if (commission >= 100) return 'critical';
+  return commission - previous >= VALIDATOR_RULES.commissionHighIncrease ? 'high' : 'medium';
+}
@@ -0,0 +1,174 @@
+import { Anomaly, VersionCheck, VersionLine, VersionPolicy } from '@/types';
+
+// pNode software versions: semver parsing and comparison, grouping into
+// major.minor release lines, and the version policy behind version_mismatch
+// anomalies. The policy is read from NEXT_PUBLIC_ variables at build time, so
+// ingest and the browser judge versions identically.
+
+export interface ParsedVersion {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+// Optional "v", major.minor with optional patch, optional -prerelease and +build
+const VERSION_PATTERN = /^v?(\d+)\.(\d+)(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+/**
+ * Parse a version string; null when it isn't semver-like
+ */
+export function parseVersion(version: string | undefined | null): ParsedVersion | null {
+  const match = version?.trim().match(VERSION_PATTERN);
+  if (!match) return null;
+  return {
+    major: parseInt(match[1], 10),
+    minor: parseInt(match[2], 10),
+    patch: match[3] !== undefined ? parseInt(match[3], 10) : 0,
+    prerelease: match[4] ? match[4].split('.') : [],
+  };
+}
+
+function compareIdentifiers(a: string, b: string): number {
+  const aNumeric = /^\d+$/.test(a);
+  const bNumeric = /^\d+$/.test(b);
+  if (aNumeric && bNumeric) return Math.sign(parseInt(a, 10) - parseInt(b, 10));
+  if (aNumeric) return -1;
+  if (bNumeric) return 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Semver precedence: negative if a is older than b, positive if newer, 0 if equal.
+ * Prereleases sort before their release (1.0.0-beta < 1.0.0); build metadata is ignored.
+ */
+export function compareVersions(a: ParsedVersion, b: ParsedVersion): number {
+  const core = Math.sign(a.major - b.major) || Math.sign(a.minor - b.minor) || Math.sign(a.patch - b.patch);
+  if (core !== 0) return core;
+  if (!a.prerelease.length || !b.prerelease.length) {
+    return Math.sign(b.prerelease.length - a.prerelease.length);
+  }
+  for (let i = 0; i < Math.min(a.prerelease.length, b.prerelease.length); i++) {
+    const order = compareIdentifiers(a.prerelease[i], b.prerelease[i]);
+    if (order !== 0) return order;
+  }
+  return Math.sign(a.prerelease.length - b.prerelease.length);
+}
+
+/**
+ * Release line label, e.g. "0.7.x" for 0.7.3 and 0.7.0-beta.1.
+ * Missing versions are "unknown"; versions that aren't semver are kept as-is.
+ */
+export function versionBucket(version: string | undefined | null): string {
+  if (!version) return 'unknown';
+  const parsed = parseVersion(version);
+  return parsed ? `${parsed.major}.${parsed.minor}.x` : version;
+}
+
+/**
+ * Node counts per release line, ordered from newest to oldest line
+ * (unknown and non-semver versions last). With `weights`, each version
+ * counts its weight (same index) instead of 1.
+ */
+export function buildVersionDistribution(versions: Array<string | undefined | null>, weights?: number[]): Record<string, number> {
+  const counts = new Map<string, number>();
+  versions.forEach((version, i) => {
+    const bucket = versionBucket(version);
+    counts.set(bucket, (counts.get(bucket) || 0) + (weights ? weights[i] : 1));
+  });
+  const line = (bucket: string) => parseVersion(bucket.replace(/\.x$/, '.0'));
+  const ordered = Array.from(counts.entries()).sort(([a], [b]) => {
+    const lineA = line(a);
+    const lineB = line(b);
+    if (lineA && lineB) return compareVersions(lineB, lineA);
+    if (lineA) return -1;
+    if (lineB) return 1;
+    return a < b ? -1 : a > b ? 1 : 0;
+  });
+  return Object.fromEntries(ordered);
+}
+
+/**
+ * Release line run by the most nodes, from a version distribution.
+ * Ties go to the newer line; null when no version is semver-like.
+ */
+export function majorityVersionLine(distribution: Record<string, number>): VersionLine | null {
+  let majority: VersionLine | null = null;
+  let majorityCount = 0;
+  for (const [bucket, count] of Object.entries(distribution)) {
+    const match = bucket.match(/^(\d+)\.(\d+)\.x$/);
+    if (!match) continue;
+    const line = { major: parseInt(match[1], 10), minor: parseInt(match[2], 10) };
+    const newer = majority !== null &&
+      (line.major > majority.major || (line.major === majority.major && line.minor > majority.minor));
+    if (count > majorityCount || (count === majorityCount && newer)) {
+      majority = line;
+      majorityCount = count;
+    }
+  }
+  return majority;
+}
+
+function readPolicyVersion(name: string, value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  if (!parseVersion(value)) {
+    console.warn(`⚠️ Ignoring ${name}="${value}": not a semver version`);
+    return undefined;
+  }
+  return value;
+}
+
+// Read at build time; NEXT_PUBLIC_ variables must be referenced literally
+export const VERSION_POLICY: VersionPolicy = {
+  minimumVersion: readPolicyVersion('NEXT_PUBLIC_MIN_NODE_VERSION', process.env.NEXT_PUBLIC_MIN_NODE_VERSION),
+  recommendedVersion: readPolicyVersion('NEXT_PUBLIC_RECOMMENDED_NODE_VERSION', process.env.NEXT_PUBLIC_RECOMMENDED_NODE_VERSION),
+  maxMinorBehind: Math.max(0, parseInt(process.env.NEXT_PUBLIC_MAX_MINOR_VERSIONS_BEHIND || '2', 10)),
+};
+
+const severityRank: Record<Anomaly['severity'], number> = { low: 1, medium: 2, high: 3, critical: 4 };
+
+/**
+ * Check a version against the policy and the network's majority release line
+ */
+export function checkVersion(
+  version: string | undefined,
+  majority: VersionLine | null,
+  policy: VersionPolicy = VERSION_POLICY
+): VersionCheck {
+  const parsed = parseVersion(version);
+  if (!parsed) {
+    return { version, status: 'unknown', reasons: [version ? `"${version}" is not a semver version` : 'No version reported'] };
+  }
+
+  const reasons: string[] = [];
+  let severity: Anomaly['severity'] | undefined;
+  const flag = (level: Anomaly['severity'], reason: string) => {
+    reasons.push(reason);
+    if (!severity || severityRank[level] > severityRank[severity]) severity = level;
+  };
+
+  const minimum = parseVersion(policy.minimumVersion);
+  if (minimum && compareVersions(parsed, minimum) < 0) {
+    flag('high', `Below the minimum supported version ${policy.minimumVersion}`);
+  }
+
+  if (majority) {
+    // An older major is always too far behind
+    const behind = parsed.major < majority.major
+      ? Infinity
+      : parsed.major === majority.major ? majority.minor - parsed.minor : 0;
+    if (behind > policy.maxMinorBehind) {
+      flag('medium', Number.isFinite(behind)
+        ? `${behind} minor releases behind the network majority (${majority.major}.${majority.minor}.x)`
+        : `Older major version than the network majority (${majority.major}.${majority.minor}.x)`);
+    }
+  }
+
+  const recommended = parseVersion(policy.recommendedVersion);
+  if (recommended && compareVersions(parsed, recommended) < 0) {
+    flag('low', `Older than the recommended version ${policy.recommendedVersion}`);
+  }
+
+  if (!severity) return { version, status: 'current', reasons };
+  return { version, status: severity === 'high' ? 'unsupported' : 'outdated', severity, reasons };
+}
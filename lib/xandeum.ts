@@ -0,0 +1,377 @@
+import { pNode } from '@/types';
+import { PRPC_TIMEOUT_MS } from './rpcPool';
+import { reportedIf } from './validation';
+
+// Typed client for the Xandeum pNode pRPC API (JSON-RPC 2.0 over POST /rpc).
+// Every response is checked against an explicit schema before it is mapped
+// into a pNode, so a protocol change surfaces as a clear error instead of
+// silently producing half-empty nodes.
+
+// Pods seen in gossip within this window are considered online
+const POD_ONLINE_WINDOW_SECONDS = 5 * 60;
+
+// JSON-RPC "method not found"
+const METHOD_NOT_FOUND = -32601;
+
+/**
+ * A pod as reported by get-pods
+ */
+export interface XandeumPod {
+  address: string; // gossip address, "ip:port"
+  pubkey?: string;
+  version?: string;
+  lastSeenTimestamp: number; // unix seconds
+}
+
+/**
+ * A pod as reported by get-pods-with-stats (get-pods plus storage/uptime)
+ */
+export interface XandeumPodWithStats extends XandeumPod {
+  isPublic?: boolean;
+  rpcPort?: number;
+  storageCommitted?: number; // bytes
+  storageUsed?: number; // bytes
+  storageUsagePercent?: number;
+  uptime?: number; // seconds
+}
+
+/**
+ * Stats reported by get-stats for the pNode being queried
+ */
+export interface XandeumNodeStats {
+  cpuPercent: number;
+  ramUsed: number; // bytes
+  ramTotal: number; // bytes
+  uptime: number; // seconds
+  packetsReceived: number;
+  packetsSent: number;
+  activeStreams: number;
+  fileSize?: number; // bytes
+  totalBytes?: number;
+  totalPages?: number;
+  currentIndex?: number;
+  lastUpdated?: number; // unix seconds
+}
+
+export interface XandeumVersion {
+  version: string;
+}
+
+export interface XandeumPodsResult<T extends XandeumPod> {
+  pods: T[];
+  totalCount: number;
+  skipped: number; // pods dropped because they failed validation
+}
+
+// ---------------------------------------------------------------------------
+// Schema guards
+// ---------------------------------------------------------------------------
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function schemaError(method: string, path: string, expected: string): Error {
+  return new Error(`Invalid ${method} response: ${path} must be ${expected}`);
+}
+
+function requireNumber(obj: Record<string, unknown>, key: string, method: string, path: string): number {
+  const value = obj[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw schemaError(method, `${path}.${key}`, 'a number');
+  }
+  return value;
+}
+
+function requireString(obj: Record<string, unknown>, key: string, method: string, path: string): string {
+  const value = obj[key];
+  if (typeof value !== 'string' || value.length === 0) {
+    throw schemaError(method, `${path}.${key}`, 'a non-empty string');
+  }
+  return value;
+}
+
+// Optional fields may be missing or null; anything else must have the right type
+function optionalNumber(obj: Record<string, unknown>, key: string, method: string, path: string): number | undefined {
+  const value = obj[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw schemaError(method, `${path}.${key}`, 'a number or null');
+  }
+  return value;
+}
+
+function optionalString(obj: Record<string, unknown>, key: string, method: string, path: string): string | undefined {
+  const value = obj[key];
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string') {
+    throw schemaError(method, `${path}.${key}`, 'a string or null');
+  }
+  return value;
+}
+
+function optionalBoolean(obj: Record<string, unknown>, key: string, method: string, path: string): boolean | undefined {
+  const value = obj[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'boolean') {
+    throw schemaError(method, `${path}.${key}`, 'a boolean or null');
+  }
+  return value;
+}
+
+function parsePod(raw: unknown, method: string, path: string): XandeumPod {
+  if (!isRecord(raw)) throw schemaError(method, path, 'an object');
+  return {
+    address: requireString(raw, 'address', method, path),
+    pubkey: optionalString(raw, 'pubkey', method, path),
+    version: optionalString(raw, 'version', method, path),
+    lastSeenTimestamp: requireNumber(raw, 'last_seen_timestamp', method, path),
+  };
+}
+
+function parsePodWithStats(raw: unknown, method: string, path: string): XandeumPodWithStats {
+  const pod = parsePod(raw, method, path);
+  const obj = raw as Record<string, unknown>;
+  return {
+    ...pod,
+    isPublic: optionalBoolean(obj, 'is_public', method, path),
+    rpcPort: optionalNumber(obj, 'rpc_port', method, path),
+    storageCommitted: optionalNumber(obj, 'storage_committed', method, path),
+    storageUsed: optionalNumber(obj, 'storage_used', method, path),
+    storageUsagePercent: optionalNumber(obj, 'storage_usage_percent', method, path),
+    uptime: optionalNumber(obj, 'uptime', method, path),
+  };
+}
+
+/**
+ * Validate a get-pods / get-pods-with-stats result.
+ * A malformed envelope throws; individual malformed pods are dropped and
+ * counted so one bad gossip entry doesn't hide the rest of the network.
+ */
+function parsePodsResult<T extends XandeumPod>(
+  raw: unknown,
+  method: string,
+  parseOne: (pod: unknown, method: string, path: string) => T
+): XandeumPodsResult<T> {
+  if (!isRecord(raw)) throw schemaError(method, 'result', 'an object');
+  if (!Array.isArray(raw.pods)) throw schemaError(method, 'result.pods', 'an array');
+
+  const pods: T[] = [];
+  let skipped = 0;
+  raw.pods.forEach((pod, i) => {
+    try {
+      pods.push(parseOne(pod, method, `result.pods[${i}]`));
+    } catch (error) {
+      skipped++;
+      console.warn(error instanceof Error ? error.message : error);
+    }
+  });
+
+  const totalCount = optionalNumber(raw, 'total_count', method, 'result') ?? raw.pods.length;
+  return { pods, totalCount, skipped };
+}
+
+export function parsePodsResponse(raw: unknown): XandeumPodsResult<XandeumPod> {
+  return parsePodsResult(raw, 'get-pods', parsePod);
+}
+
+export function parsePodsWithStatsResponse(raw: unknown): XandeumPodsResult<XandeumPodWithStats> {
+  return parsePodsResult(raw, 'get-pods-with-stats', parsePodWithStats);
+}
+
+export function parseStatsResponse(raw: unknown): XandeumNodeStats {
+  const method = 'get-stats';
+  if (!isRecord(raw)) throw schemaError(method, 'result', 'an object');
+  return {
+    cpuPercent: requireNumber(raw, 'cpu_percent', method, 'result'),
+    ramUsed: requireNumber(raw, 'ram_used', method, 'result'),
+    ramTotal: requireNumber(raw, 'ram_total', method, 'result'),
+    uptime: requireNumber(raw, 'uptime', method, 'result'),
+    packetsReceived: requireNumber(raw, 'packets_received', method, 'result'),
+    packetsSent: requireNumber(raw, 'packets_sent', method, 'result'),
+    activeStreams: requireNumber(raw, 'active_streams', method, 'result'),
+    fileSize: optionalNumber(raw, 'file_size', method, 'result'),
+    totalBytes: optionalNumber(raw, 'total_bytes', method, 'result'),
+    totalPages: optionalNumber(raw, 'total_pages', method, 'result'),
+    currentIndex: optionalNumber(raw, 'current_index', method, 'result'),
+    lastUpdated: optionalNumber(raw, 'last_updated', method, 'result'),
+  };
+}
+
+export function parseVersionResponse(raw: unknown): XandeumVersion {
+  if (!isRecord(raw)) throw schemaError('get-version', 'result', 'an object');
+  return { version: requireString(raw, 'version', 'get-version', 'result') };
+}
+
+// ---------------------------------------------------------------------------
+// Transport
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolve the JSON-RPC URL for a pNode: pRPC is served under /rpc
+ */
+export function toRpcUrl(baseEndpoint: string): string {
+  let url = baseEndpoint.startsWith('http') ? baseEndpoint : `http://${baseEndpoint}`;
+  url = url.replace(/\/$/, '');
+  return url.endsWith('/rpc') ? url : `${url}/rpc`;
+}
+
+/**
+ * Call a pRPC method and return the raw (unvalidated) result
+ */
+async function callRpc(baseEndpoint: string, method: string, params: unknown[] = []): Promise<unknown> {
+  const url = toRpcUrl(baseEndpoint);
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+    signal: AbortSignal.timeout(PRPC_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => '');
+    throw new Error(`pRPC ${method} failed: ${response.status} ${response.statusText}. ${errorText}`);
+  }
+
+  const data: unknown = await response.json();
+  if (!isRecord(data)) {
+    throw new Error(`pRPC ${method} returned a non-object response`);
+  }
+
+  if (data.error) {
+    const rpcError = isRecord(data.error) ? data.error : {};
+    throw Object.assign(
+      new Error(`pRPC ${method} error: ${rpcError.message || JSON.stringify(data.error)}`),
+      { code: rpcError.code }
+    );
+  }
+
+  if (!('result' in data)) {
+    throw new Error(`pRPC ${method} response has no result`);
+  }
+
+  return data.result;
+}
+
+export async function getPods(baseEndpoint: string): Promise<XandeumPodsResult<XandeumPod>> {
+  return parsePodsResponse(await callRpc(baseEndpoint, 'get-pods'));
+}
+
+export async function getPodsWithStats(baseEndpoint: string): Promise<XandeumPodsResult<XandeumPodWithStats>> {
+  return parsePodsWithStatsResponse(await callRpc(baseEndpoint, 'get-pods-with-stats'));
+}
+
+export async function getStats(baseEndpoint: string): Promise<XandeumNodeStats> {
+  return parseStatsResponse(await callRpc(baseEndpoint, 'get-stats'));
+}
+
+export async function getVersion(baseEndpoint: string): Promise<XandeumVersion> {
+  return parseVersionResponse(await callRpc(baseEndpoint, 'get-version'));
+}
+
+// ---------------------------------------------------------------------------
+// Mapping
+// ---------------------------------------------------------------------------
+
+function hostOf(address: string): string {
+  // "ip:port" or "[ipv6]:port"
+  const bracketed = address.match(/^\[([^\]]+)\]/);
+  if (bracketed) return bracketed[1];
+  const lastColon = address.lastIndexOf(':');
+  return lastColon > 0 && address.indexOf(':') === lastColon ? address.slice(0, lastColon) : address;
+}
+
+/**
+ * Map a pod (and optionally the stats reported by that pod) into a pNode.
+ * Gossip doesn't report per-pod peer lists, so peerCount stays 0 here.
+ */
+export function mapPodToPNode(pod: XandeumPod | XandeumPodWithStats, stats?: XandeumNodeStats, now: number = Date.now()): pNode {
+  const withStats = pod as XandeumPodWithStats;
+  const ipAddress = hostOf(pod.address);
+  const lastSeen = new Date(pod.lastSeenTimestamp * 1000);
+  const ageSeconds = (now - lastSeen.getTime()) / 1000;
+  const status: pNode['status'] = ageSeconds <= POD_ONLINE_WINDOW_SECONDS ? 'online' : 'offline';
+
+  const storageCapacity = withStats.storageCommitted;
+  const storageUsed = withStats.storageUsed;
+  const uptime = stats?.uptime ?? withStats.uptime;
+
+  return {
+    id: pod.pubkey || pod.address,
+    publicKey: pod.pubkey,
+    ipAddress,
+    endpoint: withStats.isPublic && withStats.rpcPort ? `http://${ipAddress}:${withStats.rpcPort}` : undefined,
+    status,
+    lastSeen,
+    peerCount: 0,
+    storageCapacity,
+    storageUsed,
+    storageFree: storageCapacity !== undefined && storageUsed !== undefined ? storageCapacity - storageUsed : undefined,
+    softwareVersion: pod.version,
+    uptime,
+    metadata: {
+      source: 'xandeum',
+      gossip: pod.address,
+      isPublic: withStats.isPublic,
+      rpcPort: withStats.rpcPort,
+      storageUsagePercent: withStats.storageUsagePercent,
+      ...(stats ? {
+        cpuPercent: stats.cpuPercent,
+        ramUsed: stats.ramUsed,
+        ramTotal: stats.ramTotal,
+        packetsReceived: stats.packetsReceived,
+        packetsSent: stats.packetsSent,
+        activeStreams: stats.activeStreams,
+      } : {}),
+    },
+    rawData: { pod, ...(stats ? { stats } : {}) },
+    provenance: {
+      publicKey: reportedIf(pod.pubkey),
+      ipAddress: 'inferred', // from the gossip address
+      status: 'inferred', // from last-seen age
+      lastSeen: 'reported',
+      peerCount: 'defaulted',
+      storageCapacity: reportedIf(storageCapacity),
+      storageUsed: reportedIf(storageUsed),
+      softwareVersion: reportedIf(pod.version),
+      uptime: reportedIf(uptime),
+    },
+  };
+}
+
+/**
+ * Fetch the network's pods from one pNode.
+ * Prefers get-pods-with-stats and falls back to get-pods on pNodes that
+ * predate it. The queried pNode's own get-stats are attached to its pod.
+ */
+export async function fetchNodesViaXandeum(baseEndpoint: string): Promise<pNode[]> {
+  let result: XandeumPodsResult<XandeumPod | XandeumPodWithStats>;
+  try {
+    result = await getPodsWithStats(baseEndpoint);
+  } catch (error) {
+    if ((error as { code?: unknown })?.code !== METHOD_NOT_FOUND) throw error;
+    console.log('get-pods-with-stats not supported, falling back to get-pods');
+    result = await getPods(baseEndpoint);
+  }
+
+  if (result.skipped > 0) {
+    console.warn(`⚠️ Skipped ${result.skipped} malformed pods from ${baseEndpoint}`);
+  }
+
+  // Stats are optional - the listing is still useful without them
+  let seedStats: XandeumNodeStats | undefined;
+  try {
+    seedStats = await getStats(baseEndpoint);
+  } catch (error) {
+    console.debug(`get-stats unavailable on ${baseEndpoint}:`, error);
+  }
+
+  const seedHost = hostOf(new URL(toRpcUrl(baseEndpoint)).host);
+  const now = Date.now();
+  const nodes = result.pods.map(pod =>
+    mapPodToPNode(pod, hostOf(pod.address) === seedHost ? seedStats : undefined, now)
+  );
+
+  console.log(`✅ Fetched ${nodes.length} pods via Xandeum pRPC (total_count ${result.totalCount})`);
+  return nodes;
+}
@@ -0,0 +1,111 @@
+// Ingest benchmark: writes a synthetic network into a scratch SQLite database
+// twice (first run creates every NodeSnapshot, second run updates them) and
+// checks the row counts.
+//
+//   npm run bench:ingest
+//   BENCH_NODES=50000 npm run bench:ingest
+//
+// Options (env):
+//   BENCH_NODES=10000     nodes per run
+//   BENCH_MAX_MS=60000    fail if either run takes longer than this
+//   BENCH_DATABASE_URL    database to use (default: a fresh file in the OS temp dir;
+//                         the schema is force-reset, so never point this at real data)
+
+import { execSync } from 'child_process';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { pNode } from '@/types';
+
+const NODES = parseInt(process.env.BENCH_NODES || '10000', 10);
+const MAX_MS = parseInt(process.env.BENCH_MAX_MS || '60000', 10);
+const DATABASE_URL = process.env.BENCH_DATABASE_URL || `file:${path.join(tmpdir(), 'xpic-ingest-bench.db')}`;
+
+const versions = ['0.6.0', '0.6.1', '0.7.0', '0.7.1'];
+const providers = [
+  { asn: 24940, organization: 'Hetzner Online GmbH', provider: 'Hetzner' },
+  { asn: 16276, organization: 'OVH SAS', provider: 'OVHcloud' },
+  { asn: 16509, organization: 'Amazon.com, Inc.', provider: 'AWS' },
+  { asn: 14061, organization: 'DigitalOcean, LLC', provider: 'DigitalOcean' },
+];
+const countries = ['Germany', 'France', 'United States', 'Singapore', 'Brazil'];
+
+// Deterministic synthetic nodes; `round` shifts a few values so the second run sees changes
+function generateNodes(count: number, round: number): pNode[] {
+  const now = Date.now();
+  return Array.from({ length: count }, (_, i) => {
+    const id = `bench-${i.toString().padStart(6, '0')}`;
+    const capacity = (100 + (i % 900)) * 1024 ** 3;
+    return {
+      id,
+      publicKey: id,
+      ipAddress: `10.${(i >> 16) & 255}.${(i >> 8) & 255}.${i & 255}`,
+      status: i % 17 === 0 ? 'offline' : 'online',
+      lastSeen: new Date(now - (i % 600) * 1000),
+      // Every 50th node loses most of its peers on the second run (peer_drop anomalies)
+      peerCount: round > 0 && i % 50 === 0 ? 1 : 8 + (i % 40),
+      storageCapacity: capacity,
+      storageUsed: capacity * (((i * 7) % 90) / 100),
+      softwareVersion: versions[i % versions.length],
+      latency: 20 + ((i * 13) % 400),
+      uptime: 3600 * (1 + (i % 720)),
+      location: { country: countries[i % countries.length], source: 'geoip' },
+      network: providers[i % providers.length],
+      provenance: { status: 'reported', peerCount: 'reported', lastSeen: 'reported' },
+    };
+  });
+}
+
+async function main() {
+  console.log(`Preparing scratch database ${DATABASE_URL}`);
+  execSync('npx prisma db push --force-reset --skip-generate', {
+    stdio: 'inherit',
+    env: { ...process.env, DATABASE_URL },
+  });
+
+  // Import after DATABASE_URL is set so the Prisma client connects to the scratch database
+  process.env.DATABASE_URL = DATABASE_URL;
+  const { prisma } = await import('@/lib/db');
+  const { ingestNodes } = await import('@/lib/ingest');
+
+  let failed = false;
+  try {
+    for (let round = 0; round < 2; round++) {
+      const nodes = generateNodes(NODES, round);
+      const result = await ingestNodes(nodes, new Date());
+      const { timings } = result;
+      console.log(
+        `Run ${round + 1} (${round === 0 ? 'create' : 'update'}): ${result.nodes} nodes, ${result.alerts} alerts in ${timings.total}ms ` +
+        `(load ${timings.load}ms, score ${timings.score}ms, metrics ${timings.metrics}ms, write ${timings.write}ms)`
+      );
+      if (timings.total > MAX_MS) {
+        console.error(`✗ Run ${round + 1} exceeded BENCH_MAX_MS (${MAX_MS}ms)`);
+        failed = true;
+      }
+    }
+
+    const [snapshots, history, networkSnapshots] = await Promise.all([
+      prisma.nodeSnapshot.count(),
+      prisma.nodeHistory.count(),
+      prisma.networkSnapshot.count(),
+    ]);
+    const expected = { snapshots: NODES, history: NODES * 2, networkSnapshots: 2 };
+    const actual = { snapshots, history, networkSnapshots };
+    console.log('Row counts:', actual);
+    for (const key of Object.keys(expected) as Array<keyof typeof expected>) {
+      if (actual[key] !== expected[key]) {
+        console.error(`✗ Expected ${expected[key]} ${key}, found ${actual[key]}`);
+        failed = true;
+      }
+    }
+  } finally {
+    await prisma.$disconnect();
+  }
+
+  if (failed) process.exit(1);
+  console.log('✓ Ingest benchmark passed');
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
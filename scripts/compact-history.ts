@@ -0,0 +1,24 @@
+// Runs one history compaction pass (5m/1h rollups + retention) against
+// DATABASE_URL. Useful when the in-process scheduler is disabled, e.g. from cron.
+//
+//   npm run history:compact
+
+async function main() {
+  const { prisma } = await import('@/lib/db');
+  const { compactHistory } = await import('@/lib/retention');
+
+  try {
+    const result = await compactHistory();
+    console.log(`Compacted history in ${result.durationMs}ms`);
+    console.log('Node rollups written:', result.nodeRollups);
+    console.log('Network rollups written:', result.networkRollups);
+    console.log('Rows deleted:', result.deleted);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
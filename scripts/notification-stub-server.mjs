@@ -0,0 +1,163 @@
+#!/usr/bin/env node
+// Local notification stub server.
+// Accepts everything the notification channels send and prints it, so
+// channels can be tried without real Slack, Discord, Telegram or mail accounts:
+//
+//   npm run fixture:notifications
+//   NOTIFICATIONS_CONFIG=config/notifications.example.json npm run dev
+//
+// HTTP (webhook, slack, discord, telegram): any POST is accepted and logged,
+// e.g. /webhook, /slack, /discord or /bot<token>/sendMessage. Signed webhooks
+// are checked against STUB_SECRET when it is set.
+// SMTP (email): plain SMTP without TLS or auth checks; messages are decoded
+// and logged.
+//
+// Options (env):
+//   PORT=8090            HTTP port
+//   SMTP_PORT=2525       SMTP port
+//   STUB_SECRET=         webhook secret; requests with a bad or missing
+//                        signature are answered with HTTP 401
+//   STUB_FAIL_RATE=0     fraction of HTTP requests answered with 503,
+//                        useful for exercising retries
+
+import { createServer } from 'node:http';
+import { createServer as createTcpServer } from 'node:net';
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+const PORT = parseInt(process.env.PORT || '8090', 10);
+const SMTP_PORT = parseInt(process.env.SMTP_PORT || '2525', 10);
+const SECRET = process.env.STUB_SECRET || '';
+const FAIL_RATE = parseFloat(process.env.STUB_FAIL_RATE || '0');
+
+function log(kind, summary, detail) {
+  console.log(`${new Date().toISOString()} ${kind} ${summary}`);
+  if (detail) console.log(detail.replace(/^/gm, '  '));
+}
+
+// Same scheme as signWebhook in lib/notificationChannels.ts
+function checkSignature(req, body) {
+  const timestamp = req.headers['x-xpic-timestamp'];
+  const signature = req.headers['x-xpic-signature'];
+  if (typeof timestamp !== 'string' || typeof signature !== 'string') return 'missing signature headers';
+  const expected = Buffer.from(`sha256=${createHmac('sha256', SECRET).update(`${timestamp}.${body}`).digest('hex')}`);
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return 'signature mismatch';
+  if (Math.abs(Date.now() / 1000 - parseInt(timestamp, 10)) > 300) return 'timestamp too old';
+  return null;
+}
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+const http = createServer((req, res) => {
+  if (req.method !== 'POST') {
+    send(res, 404, { error: 'Not found. POST notifications to any path' });
+    return;
+  }
+
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    if (FAIL_RATE > 0 && Math.random() < FAIL_RATE) {
+      log('HTTP', `${req.url} -> 503 (simulated failure)`);
+      send(res, 503, { error: 'Simulated failure' });
+      return;
+    }
+
+    const signed = req.headers['x-xpic-signature'] !== undefined;
+    if (SECRET && (signed || req.url === '/webhook')) {
+      const problem = checkSignature(req, body);
+      if (problem) {
+        log('HTTP', `${req.url} -> 401 (${problem})`);
+        send(res, 401, { error: problem });
+        return;
+      }
+    }
+
+    let pretty = body;
+    try {
+      pretty = JSON.stringify(JSON.parse(body), null, 2);
+    } catch {
+      // not JSON; log as-is
+    }
+    log('HTTP', `${req.url}${signed ? (SECRET ? ' (signature ok)' : ' (signed, not checked)') : ''}`, pretty);
+    // Telegram clients expect {ok: true}; the others ignore the body
+    send(res, 200, { ok: true });
+  });
+});
+
+function decodeMessage(data) {
+  const [head, ...rest] = data.split('\r\n\r\n');
+  const body = rest.join('\r\n\r\n').replace(/\r\n\.\./g, '\r\n.');
+  const subject = head.match(/^Subject: (.*)$/m)?.[1] ?? '';
+  const decodedSubject = subject.replace(/=\?UTF-8\?B\?([^?]+)\?=/g, (_, b64) => Buffer.from(b64, 'base64').toString('utf8'));
+  const text = /Content-Transfer-Encoding: base64/i.test(head)
+    ? Buffer.from(body.replace(/\s+/g, ''), 'base64').toString('utf8')
+    : body;
+  return { subject: decodedSubject, text };
+}
+
+const smtp = createTcpServer(socket => {
+  let buffer = '';
+  let data = null; // collecting DATA when not null
+  let envelope = { from: '', to: [] };
+  const reply = line => socket.write(`${line}\r\n`);
+
+  reply('220 notification-stub ESMTP');
+  socket.on('error', () => undefined);
+  socket.on('data', chunk => {
+    buffer += chunk.toString('utf8');
+    let newline;
+    while ((newline = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 2);
+
+      if (data !== null) {
+        if (line === '.') {
+          const { subject, text } = decodeMessage(data.join('\r\n'));
+          log('SMTP', `${envelope.from} -> ${envelope.to.join(', ')}: ${subject}`, text);
+          data = null;
+          envelope = { from: '', to: [] };
+          reply('250 OK queued');
+        } else {
+          data.push(line);
+        }
+        continue;
+      }
+
+      const command = line.slice(0, 4).toUpperCase();
+      if (command === 'EHLO' || command === 'HELO') {
+        reply('250-notification-stub');
+        reply('250 AUTH PLAIN');
+      } else if (command === 'AUTH') {
+        reply('235 Authentication succeeded');
+      } else if (command === 'MAIL') {
+        envelope.from = line.match(/<([^>]*)>/)?.[1] ?? '';
+        reply('250 OK');
+      } else if (command === 'RCPT') {
+        envelope.to.push(line.match(/<([^>]*)>/)?.[1] ?? '');
+        reply('250 OK');
+      } else if (command === 'DATA') {
+        data = [];
+        reply('354 End data with <CR><LF>.<CR><LF>');
+      } else if (command === 'RSET') {
+        envelope = { from: '', to: [] };
+        reply('250 OK');
+      } else if (command === 'QUIT') {
+        reply('221 Bye');
+        socket.end();
+      } else {
+        reply('502 Command not implemented');
+      }
+    }
+  });
+});
+
+http.listen(PORT, () => {
+  console.log(`Notification stub listening on http://localhost:${PORT}${SECRET ? ' (checking webhook signatures)' : ''}`);
+});
+smtp.listen(SMTP_PORT, () => {
+  console.log(`SMTP stub listening on localhost:${SMTP_PORT}`);
+});
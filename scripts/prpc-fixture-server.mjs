@@ -0,0 +1,103 @@
+#!/usr/bin/env node
+// Local Xandeum pRPC fixture server.
+// Serves get-pods, get-pods-with-stats, get-stats and get-version from
+// scripts/fixtures/xandeum so the dashboard can run without a real pNode:
+//
+//   npm run fixture:prpc
+//   NEXT_PUBLIC_PRPC_ENDPOINT=http://127.0.0.1:8080 npm run dev
+//
+// Timestamps in the fixtures (last_seen_timestamp, last_updated) are seconds
+// relative to now, so pods stay online/offline no matter when this runs.
+//
+// Options (env):
+//   PORT=8080            port to listen on
+//   FIXTURE_LEGACY=1     answer get-pods-with-stats with "method not found",
+//                        like pNodes that predate it
+//   FIXTURE_FAIL_RATE=0  fraction of requests answered with HTTP 503,
+//                        useful for exercising seed failover
+
+import { createServer } from 'node:http';
+import { readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const PORT = parseInt(process.env.PORT || '8080', 10);
+const LEGACY = process.env.FIXTURE_LEGACY === '1';
+const FAIL_RATE = parseFloat(process.env.FIXTURE_FAIL_RATE || '0');
+
+const fixturesDir = join(dirname(fileURLToPath(import.meta.url)), 'fixtures', 'xandeum');
+
+function loadFixture(name) {
+  return JSON.parse(readFileSync(join(fixturesDir, `${name}.json`), 'utf8'));
+}
+
+function toAbsolute(relativeSeconds) {
+  return Math.floor(Date.now() / 1000) + relativeSeconds;
+}
+
+function podsWithStats() {
+  const fixture = loadFixture('get-pods-with-stats');
+  return {
+    ...fixture,
+    pods: fixture.pods.map(pod => ({ ...pod, last_seen_timestamp: toAbsolute(pod.last_seen_timestamp) })),
+  };
+}
+
+const methods = {
+  'get-pods': () => {
+    const { pods, total_count } = podsWithStats();
+    return {
+      pods: pods.map(({ address, pubkey, version, last_seen_timestamp }) => ({ address, pubkey, version, last_seen_timestamp })),
+      total_count,
+    };
+  },
+  'get-pods-with-stats': () => (LEGACY ? undefined : podsWithStats()),
+  'get-stats': () => {
+    const stats = loadFixture('get-stats');
+    return { ...stats, last_updated: toAbsolute(stats.last_updated) };
+  },
+  'get-version': () => loadFixture('get-version'),
+};
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+const server = createServer((req, res) => {
+  if (req.method !== 'POST' || req.url !== '/rpc') {
+    send(res, 404, { error: 'Not found. POST JSON-RPC requests to /rpc' });
+    return;
+  }
+
+  if (FAIL_RATE > 0 && Math.random() < FAIL_RATE) {
+    send(res, 503, { error: 'Simulated failure' });
+    return;
+  }
+
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    let request;
+    try {
+      request = JSON.parse(body);
+    } catch {
+      send(res, 200, { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+      return;
+    }
+
+    const handler = methods[request.method];
+    const result = handler ? handler(request.params) : undefined;
+    console.log(`${new Date().toISOString()} ${request.method}${result === undefined ? ' (not found)' : ''}`);
+
+    if (result === undefined) {
+      send(res, 200, { jsonrpc: '2.0', id: request.id ?? null, error: { code: -32601, message: 'Method not found' } });
+      return;
+    }
+    send(res, 200, { jsonrpc: '2.0', id: request.id ?? null, result });
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`pRPC fixture server listening on http://localhost:${PORT}/rpc${LEGACY ? ' (legacy: no get-pods-with-stats)' : ''}`);
+});
@@ -0,0 +1,19 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { compileCondition, validateAlertRuleInput } from '@/lib/alertRules';
+
+// Alert rule conditions (lib/alertRules.ts)
+
+const rule = (condition: string) => ({ name: 'test', condition, severity: 'high' });
+
+describe('validateAlertRuleInput', () => {
+  it('accepts known fields', () => {
+    assert.equal(validateAlertRuleInput(rule("latency > 800 and status in ['offline']")).condition, "latency > 800 and status in ['offline']");
+  });
+
+  it('rejects inherited object keys as fields', () => {
+    assert.throws(() => validateAlertRuleInput(rule('constructor in []')), /Unknown field "constructor" at position 1/);
+    assert.throws(() => validateAlertRuleInput(rule('toString == 1')), /Unknown field "toString" at position 1/);
+    assert.throws(() => compileCondition('latency > 1 or __proto__ == 1'), /Unknown field "__proto__"/);
+  });
+});
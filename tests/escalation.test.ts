@@ -0,0 +1,130 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import type { EscalationPolicy } from '@/types';
+import type { EscalationCandidate } from '@/lib/escalation';
+
+// Escalation tier timing (lib/escalation.ts)
+
+const MINUTE = 60_000;
+const now = new Date('2026-03-01T12:00:00Z');
+const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * MINUTE);
+
+const policy: EscalationPolicy = {
+  name: 'on-call',
+  route: { minSeverity: 'high' },
+  tiers: [
+    { afterMinutes: 15, channels: ['pager'] },
+    { afterMinutes: 60, channels: ['phone', 'lead'] },
+    { afterMinutes: 240, channels: ['director'] },
+  ],
+};
+
+function candidate(overrides: Partial<EscalationCandidate> = {}): EscalationCandidate {
+  return {
+    id: 'alert-1',
+    type: 'offline',
+    severity: 'critical',
+    message: 'Node is offline',
+    nodeId: null,
+    details: null,
+    team: null,
+    escalationLevel: 0,
+    escalationSince: null,
+    createdAt: minutesAgo(20),
+    ...overrides,
+  };
+}
+
+describe('escalation', () => {
+  const dir = mkdtempSync(path.join(tmpdir(), 'xpic-escalation-test-'));
+  let escalation: typeof import('@/lib/escalation');
+
+  before(async () => {
+    const config = path.join(dir, 'notifications.json');
+    writeFileSync(config, JSON.stringify({
+      channels: [
+        { name: 'pager', type: 'webhook', url: 'http://127.0.0.1:1/pager' },
+        { name: 'phone', type: 'webhook', url: 'http://127.0.0.1:1/phone' },
+        { name: 'lead', type: 'webhook', url: 'http://127.0.0.1:1/lead', enabled: false },
+        { name: 'director', type: 'webhook', url: 'http://127.0.0.1:1/director' },
+      ],
+      escalation: [policy],
+    }));
+    // Read when lib/notifications is first imported
+    process.env.NOTIFICATIONS_CONFIG = config;
+    escalation = await import('@/lib/escalation');
+  });
+
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  describe('dueTier', () => {
+    it('is 0 before the first tier\'s delay', () => {
+      assert.equal(escalation.dueTier(policy, 0, minutesAgo(14), now), 0);
+    });
+
+    it('reaches a tier once its delay has passed', () => {
+      assert.equal(escalation.dueTier(policy, 0, minutesAgo(15), now), 1);
+      assert.equal(escalation.dueTier(policy, 1, minutesAgo(60), now), 2);
+      assert.equal(escalation.dueTier(policy, 2, minutesAgo(300), now), 3);
+    });
+
+    it('returns the last due tier when several fall due at once', () => {
+      assert.equal(escalation.dueTier(policy, 0, minutesAgo(90), now), 2);
+      assert.equal(escalation.dueTier(policy, 0, minutesAgo(240), now), 3);
+    });
+
+    it('is 0 when the alert already reached every due tier', () => {
+      assert.equal(escalation.dueTier(policy, 1, minutesAgo(30), now), 0);
+      assert.equal(escalation.dueTier(policy, 3, minutesAgo(1000), now), 0);
+    });
+  });
+
+  describe('buildEscalations', () => {
+    it('notifies the enabled channels of the tier reached', () => {
+      const { escalations, deliveries } = escalation.buildEscalations([candidate()], new Map(), now);
+      assert.deepEqual(escalations, [{ id: 'alert-1', policy: 'on-call', level: 1, channels: ['pager'] }]);
+      assert.equal(deliveries.length, 1);
+      assert.equal(deliveries[0].channel, 'pager');
+      assert.equal(deliveries[0].nextAttemptAt, now);
+
+      const payload = JSON.parse(deliveries[0].payload);
+      assert.deepEqual(payload.escalation, { policy: 'on-call', tier: 1, afterMinutes: 15 });
+      assert.match(payload.message, /^Escalated \(tier 1, unacknowledged for 20m\): Node is offline$/);
+    });
+
+    it('only notifies the last of several tiers falling due at once', () => {
+      const { escalations, deliveries } = escalation.buildEscalations([candidate({ createdAt: minutesAgo(90) })], new Map(), now);
+      assert.deepEqual(escalations.map(e => e.level), [2]);
+      // "lead" is disabled
+      assert.deepEqual(deliveries.map(d => d.channel), ['phone']);
+    });
+
+    it('does not repeat a tier already reached', () => {
+      const { escalations, deliveries } = escalation.buildEscalations(
+        [candidate({ createdAt: minutesAgo(90), escalationLevel: 2 })],
+        new Map(),
+        now
+      );
+      assert.deepEqual(escalations, []);
+      assert.deepEqual(deliveries, []);
+    });
+
+    it('restarts the clock when an alert is unacknowledged', () => {
+      // Raised hours ago, but unacknowledged (level reset, since = then) ten minutes ago
+      const reset = candidate({ createdAt: minutesAgo(300), escalationLevel: 0, escalationSince: minutesAgo(10) });
+      assert.deepEqual(escalation.buildEscalations([reset], new Map(), now).escalations, []);
+
+      const later = new Date(now.getTime() + 5 * MINUTE);
+      const { escalations } = escalation.buildEscalations([reset], new Map(), later);
+      assert.deepEqual(escalations.map(e => e.level), [1]);
+    });
+
+    it('skips alerts no policy selects', () => {
+      const { escalations } = escalation.buildEscalations([candidate({ severity: 'medium' })], new Map(), now);
+      assert.deepEqual(escalations, []);
+    });
+  });
+});
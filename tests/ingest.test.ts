@@ -0,0 +1,91 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { pNode } from '@/types';
+import { createScratchDatabase } from './support/database';
+
+// What ingestNodes writes, against a scratch SQLite database
+
+function makeNodes(count: number, prefix = 'node'): pNode[] {
+  const now = Date.now();
+  return Array.from({ length: count }, (_, i) => ({
+    id: `${prefix}-${i}`,
+    publicKey: `${prefix}-${i}`,
+    ipAddress: `10.0.0.${i}`,
+    // One node offline so the run has an alert to deduplicate
+    status: i === 0 ? 'offline' : 'online',
+    lastSeen: new Date(now - i * 1000),
+    peerCount: 8 + i,
+    storageCapacity: 100 * 1024 ** 3,
+    storageUsed: 40 * 1024 ** 3,
+    softwareVersion: '0.7.3',
+    latency: 40,
+    uptime: 86_400,
+  }));
+}
+
+describe('ingestNodes', () => {
+  let database: ReturnType<typeof createScratchDatabase>;
+  let db: typeof import('@/lib/db');
+  let ingest: typeof import('@/lib/ingest');
+
+  before(async () => {
+    database = createScratchDatabase();
+    db = await import('@/lib/db');
+    ingest = await import('@/lib/ingest');
+  });
+
+  after(async () => {
+    await db?.prisma.$disconnect();
+    database?.remove();
+  });
+
+  const counts = async () => {
+    const { prisma } = db;
+    const [snapshots, history, networkSnapshots, alerts] = await Promise.all([
+      prisma.nodeSnapshot.count(),
+      prisma.nodeHistory.count(),
+      prisma.networkSnapshot.count(),
+      prisma.alert.count(),
+    ]);
+    return { snapshots, history, networkSnapshots, alerts };
+  };
+
+  it('writes one snapshot and one history row per node', async () => {
+    const result = await ingest.ingestNodes(makeNodes(5), new Date());
+    assert.equal(result.nodes, 5);
+    assert.ok(result.alerts > 0);
+
+    assert.deepEqual(await counts(), { snapshots: 5, history: 5, networkSnapshots: 1, alerts: result.alerts });
+  });
+
+  it('updates snapshots and does not repeat open alerts when the same nodes are ingested again', async () => {
+    const before = await counts();
+    const result = await ingest.ingestNodes(makeNodes(5), new Date());
+    assert.equal(result.alerts, 0);
+
+    const after = await counts();
+    assert.deepEqual(after, {
+      snapshots: before.snapshots,
+      history: before.history + 5,
+      networkSnapshots: before.networkSnapshots + 1,
+      alerts: before.alerts,
+    });
+  });
+
+  it('writes nothing when the transaction fails', async () => {
+    const { prisma } = db;
+    const before = await counts();
+    // The network snapshot is the transaction's last write
+    await prisma.$executeRawUnsafe(
+      `CREATE TRIGGER fail_network_snapshot BEFORE INSERT ON NetworkSnapshot BEGIN SELECT RAISE(ABORT, 'injected failure'); END`
+    );
+    try {
+      await assert.rejects(ingest.ingestNodes([...makeNodes(5), ...makeNodes(3, 'new')], new Date()));
+    } finally {
+      await prisma.$executeRawUnsafe('DROP TRIGGER fail_network_snapshot');
+    }
+
+    assert.deepEqual(await counts(), before);
+    assert.equal(await prisma.nodeSnapshot.count({ where: { id: { startsWith: 'new-' } } }), 0);
+  });
+});
@@ -0,0 +1,199 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import type { NotificationChannelConfig, NotificationMessage } from '@/types';
+import { NOTIFICATION_CHANNELS, notificationTitle, signWebhook } from '@/lib/notificationChannels';
+import { createScratchDatabase } from './support/database';
+import { ScriptServer, freePort, startScript } from './support/servers';
+
+// Notification channels and delivery retries against scripts/notification-stub-server.mjs
+
+const SECRET = 'stub-secret';
+
+const message: NotificationMessage = {
+  alertId: 'alert-1',
+  type: 'offline',
+  severity: 'critical',
+  message: 'Node is offline',
+  nodeId: '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU',
+  tags: ['eu'],
+  createdAt: '2026-01-02T03:04:05.000Z',
+  url: 'http://dashboard.test/nodes/7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU',
+};
+
+// The body the stub logged for the last request to `url`
+function loggedBody(output: string, url: string): unknown {
+  const lines = output.split('\n');
+  const start = lines.findLastIndex(line => line.endsWith(` HTTP ${url}`) || line.includes(` HTTP ${url} (`));
+  assert.ok(start >= 0, `no request to ${url} in stub output`);
+  const body = [];
+  for (const line of lines.slice(start + 1)) {
+    if (!line.startsWith('  ')) break;
+    body.push(line.slice(2));
+  }
+  return JSON.parse(body.join('\n'));
+}
+
+function send(config: Omit<NotificationChannelConfig, 'name'>) {
+  const channel = { name: config.type, ...config } as NotificationChannelConfig;
+  NOTIFICATION_CHANNELS[channel.type].validate(channel);
+  return NOTIFICATION_CHANNELS[channel.type].send(channel, message, 5000);
+}
+
+describe('notification channels', () => {
+  let stub: ScriptServer;
+  let smtpPort: number;
+  before(async () => {
+    smtpPort = await freePort();
+    stub = await startScript(
+      'notification-stub-server.mjs',
+      { STUB_SECRET: SECRET, SMTP_PORT: String(smtpPort) },
+      ['Notification stub listening', 'SMTP stub listening']
+    );
+  });
+  after(() => stub.stop());
+
+  it('signs webhooks so the receiver can check them', async () => {
+    await send({ type: 'webhook', url: `${stub.url}/webhook`, secret: SECRET });
+    assert.deepEqual(loggedBody(stub.output(), '/webhook'), { event: 'alert', alert: message });
+    assert.match(stub.output(), /HTTP \/webhook \(signature ok\)/);
+  });
+
+  it('signs "<timestamp>.<body>" with HMAC-SHA256', () => {
+    // printf '1700000000.{}' | openssl dgst -sha256 -hmac stub-secret
+    assert.equal(signWebhook(SECRET, '1700000000', '{}'), 'f0effbfaf0cb5552a6bf5b5913b3e87200f3dec022a4b82abfe030b9f559a5ef');
+  });
+
+  it('fails webhooks the receiver rejects', async () => {
+    await assert.rejects(send({ type: 'webhook', url: `${stub.url}/webhook`, secret: 'wrong' }), /HTTP 401: .*signature mismatch/);
+    await assert.rejects(send({ type: 'webhook', url: `${stub.url}/webhook` }), /HTTP 401: .*missing signature headers/);
+  });
+
+  it('posts Slack attachments', async () => {
+    await send({ type: 'slack', url: `${stub.url}/slack` });
+    const body = loggedBody(stub.output(), '/slack') as { text: string; attachments: Array<Record<string, unknown>> };
+    assert.equal(body.text, notificationTitle(message));
+    assert.equal(body.attachments.length, 1);
+    assert.deepEqual(body.attachments[0], {
+      color: '#dc2626',
+      title: '[CRITICAL] offline on node 7xKXtg2C…',
+      title_link: message.url,
+      text: 'Node is offline',
+      fields: [
+        { title: 'Severity', value: 'critical', short: true },
+        { title: 'Type', value: 'offline', short: true },
+        { title: 'Node', value: message.nodeId, short: false },
+      ],
+      ts: 1767323045,
+    });
+  });
+
+  it('posts Discord embeds', async () => {
+    await send({ type: 'discord', url: `${stub.url}/discord`, username: 'pNode alerts' });
+    assert.deepEqual(loggedBody(stub.output(), '/discord'), {
+      username: 'pNode alerts',
+      embeds: [{
+        title: '[CRITICAL] offline on node 7xKXtg2C…',
+        url: message.url,
+        description: 'Node is offline',
+        color: 0xdc2626,
+        fields: [
+          { name: 'Severity', value: 'critical', inline: true },
+          { name: 'Type', value: 'offline', inline: true },
+          { name: 'Node', value: message.nodeId, inline: false },
+        ],
+        timestamp: message.createdAt,
+      }],
+    });
+  });
+
+  it('calls the Telegram sendMessage method', async () => {
+    await send({ type: 'telegram', botToken: '123:abc', chatId: -100, apiUrl: stub.url });
+    const body = loggedBody(stub.output(), '/bot123:abc/sendMessage') as Record<string, unknown>;
+    assert.equal(body.chat_id, -100);
+    assert.equal(body.disable_web_page_preview, true);
+    assert.equal(body.text, [
+      '[CRITICAL] offline on node 7xKXtg2C…',
+      'Node is offline',
+      `Node: ${message.nodeId}`,
+      'Tags: eu',
+      `Raised: ${message.createdAt}`,
+      message.url,
+    ].join('\n'));
+  });
+
+  it('sends email over SMTP', async () => {
+    await send({ type: 'email', host: '127.0.0.1', port: smtpPort, from: 'alerts@example.com', to: ['ops@example.com'] });
+    assert.match(stub.output(), /SMTP alerts@example\.com -> ops@example\.com: \[CRITICAL\] offline on node 7xKXtg2C…/);
+    assert.match(stub.output(), / {2}Node is offline/);
+  });
+});
+
+describe('notification delivery retries', () => {
+  const dir = mkdtempSync(path.join(tmpdir(), 'xpic-notifications-test-'));
+  let stub: ScriptServer;
+  let database: ReturnType<typeof createScratchDatabase>;
+  let db: typeof import('@/lib/db');
+  let notifications: typeof import('@/lib/notifications');
+
+  before(async () => {
+    // Every request fails, so each attempt is retried until the last
+    stub = await startScript('notification-stub-server.mjs', { STUB_FAIL_RATE: '1', SMTP_PORT: String(await freePort()) }, [
+      'Notification stub listening',
+      'SMTP stub listening',
+    ]);
+    const config = path.join(dir, 'notifications.json');
+    writeFileSync(config, JSON.stringify({ channels: [{ name: 'ops', type: 'webhook', url: `${stub.url}/webhook` }] }));
+
+    // Read when lib/notifications is first imported
+    process.env.NOTIFICATIONS_CONFIG = config;
+    process.env.NOTIFICATION_MAX_ATTEMPTS = '3';
+    process.env.NOTIFICATION_RETRY_BASE_MS = '1000';
+    database = createScratchDatabase();
+    db = await import('@/lib/db');
+    notifications = await import('@/lib/notifications');
+  });
+
+  after(async () => {
+    await db?.prisma.$disconnect();
+    database?.remove();
+    await stub?.stop();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('backs off exponentially and gives up after the last attempt', async () => {
+    const { prisma } = db;
+    const { id } = await prisma.notificationDelivery.create({
+      data: { alertId: message.alertId, channel: 'ops', channelType: 'webhook', payload: JSON.stringify(message) },
+    });
+
+    const delays: number[] = [];
+    for (let attempt = 1; attempt <= 3; attempt++) {
+      const started = Date.now();
+      const result = await notifications.deliverPendingNotifications();
+      const delivery = await prisma.notificationDelivery.findUniqueOrThrow({ where: { id } });
+
+      assert.equal(delivery.attempts, attempt);
+      assert.match(delivery.lastError ?? '', /HTTP 503/);
+      if (attempt < 3) {
+        assert.deepEqual(result, { sent: 0, failed: 0, retrying: 1, suppressed: 0 });
+        assert.equal(delivery.status, 'pending');
+      } else {
+        assert.deepEqual(result, { sent: 0, failed: 1, retrying: 0, suppressed: 0 });
+        assert.equal(delivery.status, 'failed');
+      }
+      delays.push(delivery.nextAttemptAt.getTime() - started);
+
+      // Make the retry due now instead of waiting for it
+      await prisma.notificationDelivery.update({ where: { id }, data: { nextAttemptAt: new Date(Date.now() - 1) } });
+    }
+
+    // 1s, 2s, 4s (give or take the time each attempt took)
+    [1000, 2000, 4000].forEach((expected, i) => {
+      assert.ok(delays[i] >= expected && delays[i] < expected + 1000, `retry ${i + 1} after ${delays[i]}ms`);
+    });
+    assert.equal((await prisma.notificationDelivery.findUniqueOrThrow({ where: { id } })).status, 'failed');
+  });
+});
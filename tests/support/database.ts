@@ -0,0 +1,25 @@
+import { execSync } from 'node:child_process';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+/**
+ * Create an empty SQLite database with the current schema in the OS temp dir
+ * and point DATABASE_URL at it. Import '@/lib/db' (and anything using it)
+ * only afterwards, so the Prisma client connects to the scratch database.
+ */
+export function createScratchDatabase(): { url: string; remove: () => void } {
+  const dir = mkdtempSync(path.join(tmpdir(), 'xpic-test-'));
+  const url = `file:${path.join(dir, 'test.db')}`;
+  try {
+    execSync('npx prisma db push --force-reset --skip-generate', {
+      stdio: 'ignore',
+      env: { ...process.env, DATABASE_URL: url },
+    });
+  } catch (error) {
+    rmSync(dir, { recursive: true, force: true });
+    throw error;
+  }
+  process.env.DATABASE_URL = url;
+  return { url, remove: () => rmSync(dir, { recursive: true, force: true }) };
+}
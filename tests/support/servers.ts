@@ -0,0 +1,69 @@
+import { ChildProcess, spawn } from 'node:child_process';
+import { createServer } from 'node:net';
+import { join } from 'node:path';
+
+// Start the repo's local stub servers (scripts/*.mjs) on free ports for tests
+
+export interface ScriptServer {
+  port: number;
+  url: string;
+  output: () => string;
+  stop: () => Promise<void>;
+}
+
+export function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const address = server.address();
+      const port = typeof address === 'object' && address ? address.port : 0;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+/**
+ * Run `node scripts/<script>` with `env` and wait until it has printed
+ * every `ready` string
+ */
+export async function startScript(
+  script: string,
+  env: Record<string, string> = {},
+  ready: string | string[] = 'listening'
+): Promise<ScriptServer> {
+  const readyLines = Array.isArray(ready) ? ready : [ready];
+  const port = await freePort();
+  const child: ChildProcess = spawn(process.execPath, [join(__dirname, '..', '..', 'scripts', script)], {
+    env: { ...process.env, ...env, PORT: String(port) },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+
+  let output = '';
+  await new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`${script} did not start: ${output}`)), 10_000);
+    child.stdout?.on('data', chunk => {
+      output += chunk;
+      if (readyLines.every(line => output.includes(line))) {
+        clearTimeout(timer);
+        resolve();
+      }
+    });
+    child.stderr?.on('data', chunk => { output += chunk; });
+    child.once('exit', code => {
+      clearTimeout(timer);
+      reject(new Error(`${script} exited with code ${code}: ${output}`));
+    });
+  });
+
+  return {
+    port,
+    url: `http://127.0.0.1:${port}`,
+    output: () => output,
+    stop: () => new Promise<void>(resolve => {
+      if (child.exitCode !== null) return resolve();
+      child.once('exit', () => resolve());
+      child.kill();
+    }),
+  };
+}
@@ -0,0 +1,41 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { pNode } from '@/types';
+import { analyzePeerGraph, buildPeerGraph } from '@/lib/topology';
+
+// Cut points of the peer graph (lib/topology.ts)
+
+function graphOf(links: Record<string, string[]>) {
+  const nodes = Object.entries(links).map(([id, peers]): pNode => ({
+    id,
+    status: 'online',
+    lastSeen: new Date(0),
+    peerCount: peers.length,
+    peers,
+  }));
+  return buildPeerGraph(nodes);
+}
+
+describe('analyzePeerGraph', () => {
+  it('ranks articulation points by the nodes their loss cuts off', () => {
+    // a - b - c - d, with e and f hanging off c, and a separate g - h
+    const metrics = analyzePeerGraph(graphOf({ a: ['b'], b: ['c'], c: ['d', 'e', 'f'], d: [], e: [], f: [], g: ['h'], h: [] }));
+    assert.deepEqual(metrics.criticalNodes, [
+      { id: 'c', cutOff: 3 }, // leaves {a, b}, {d}, {e}, {f}
+      { id: 'b', cutOff: 1 }, // leaves {a}, {c, d, e, f}
+    ]);
+    assert.equal(metrics.bridges.length, 6);
+  });
+
+  it('finds no critical nodes in a cycle', () => {
+    const metrics = analyzePeerGraph(graphOf({ a: ['b'], b: ['c'], c: ['d'], d: ['a'] }));
+    assert.deepEqual(metrics.articulationPoints, []);
+    assert.deepEqual(metrics.criticalNodes, []);
+  });
+
+  it('counts the root of the search like any other node', () => {
+    // Two triangles sharing a
+    const metrics = analyzePeerGraph(graphOf({ a: ['b', 'c', 'd', 'e'], b: ['c'], c: [], d: ['e'], e: [] }));
+    assert.deepEqual(metrics.criticalNodes, [{ id: 'a', cutOff: 2 }]);
+  });
+});
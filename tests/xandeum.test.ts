@@ -0,0 +1,90 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { fetchNodesViaXandeum, getPods, getPodsWithStats, getStats, getVersion } from '@/lib/xandeum';
+import { ScriptServer, startScript } from './support/servers';
+
+// The pRPC client against scripts/prpc-fixture-server.mjs (fixtures in scripts/fixtures/xandeum)
+
+describe('Xandeum pRPC client', () => {
+  let server: ScriptServer;
+  before(async () => { server = await startScript('prpc-fixture-server.mjs'); });
+  after(() => server.stop());
+
+  it('parses get-pods', async () => {
+    const result = await getPods(server.url);
+    assert.equal(result.totalCount, 6);
+    assert.equal(result.pods.length, 5);
+    assert.equal(result.skipped, 1); // last_seen_timestamp "yesterday"
+    assert.deepEqual(Object.keys(result.pods[0]).sort(), ['address', 'lastSeenTimestamp', 'pubkey', 'version']);
+    assert.equal(result.pods[0].address, '127.0.0.1:9001');
+    assert.equal(result.pods[4].pubkey, undefined);
+    assert.equal(result.pods[4].version, undefined);
+  });
+
+  it('parses get-pods-with-stats', async () => {
+    const result = await getPodsWithStats(server.url);
+    assert.equal(result.pods.length, 5);
+    assert.equal(result.skipped, 1);
+    const [first, , third] = result.pods;
+    assert.equal(first.isPublic, true);
+    assert.equal(first.rpcPort, 6000);
+    assert.equal(first.storageCommitted, 107374182400);
+    assert.equal(first.storageUsed, 48318382080);
+    assert.equal(first.storageUsagePercent, 45);
+    assert.equal(first.uptime, 864000);
+    assert.equal(third.isPublic, false);
+    assert.equal(third.rpcPort, undefined);
+  });
+
+  it('parses get-stats', async () => {
+    const stats = await getStats(server.url);
+    assert.equal(stats.cpuPercent, 12.5);
+    assert.equal(stats.ramUsed, 2147483648);
+    assert.equal(stats.ramTotal, 8589934592);
+    assert.equal(stats.activeStreams, 4);
+    assert.equal(stats.totalPages, 11796480);
+    assert.ok(Math.abs((stats.lastUpdated ?? 0) - Date.now() / 1000) < 60);
+  });
+
+  it('parses get-version', async () => {
+    assert.deepEqual(await getVersion(server.url), { version: '0.7.3' });
+  });
+
+  it('maps pods into nodes and attaches the seed\'s own stats', async () => {
+    const nodes = await fetchNodesViaXandeum(server.url);
+    assert.equal(nodes.length, 5);
+
+    const seed = nodes.find(node => node.ipAddress === '127.0.0.1');
+    assert.ok(seed);
+    assert.equal(seed.status, 'online');
+    assert.equal(seed.endpoint, 'http://127.0.0.1:6000');
+    assert.equal(seed.storageFree, 107374182400 - 48318382080);
+    assert.equal(seed.metadata?.cpuPercent, 12.5);
+
+    const stale = nodes.find(node => node.ipAddress === '192.0.2.77');
+    assert.equal(stale?.status, 'offline'); // last seen two hours ago
+    assert.equal(stale?.metadata?.cpuPercent, undefined);
+
+    const anonymous = nodes.find(node => node.ipAddress === '233.252.0.5');
+    assert.equal(anonymous?.id, '233.252.0.5:9001');
+    assert.equal(anonymous?.publicKey, undefined);
+  });
+});
+
+describe('Xandeum pRPC client against pNodes without get-pods-with-stats', () => {
+  let server: ScriptServer;
+  before(async () => { server = await startScript('prpc-fixture-server.mjs', { FIXTURE_LEGACY: '1' }); });
+  after(() => server.stop());
+
+  it('reports method not found for get-pods-with-stats', async () => {
+    await assert.rejects(getPodsWithStats(server.url), { code: -32601 });
+  });
+
+  it('falls back to get-pods', async () => {
+    const nodes = await fetchNodesViaXandeum(server.url);
+    assert.equal(nodes.length, 5);
+    assert.ok(nodes.every(node => node.storageCapacity === undefined));
+    assert.match(server.output(), /get-pods-with-stats \(not found\)/);
+    assert.match(server.output(), /get-pods\n/);
+  });
+});
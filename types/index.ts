@@ -18,14 +18,70 @@ export interface pNode {
   availability?: number; // percentage
   location?: {
     country?: string;
+    countryCode?: string; // ISO 3166-1 alpha-2
     region?: string;
     city?: string;
     latitude?: number;
     longitude?: number;
+    source?: LocationSource;
+    approximate?: boolean; // true when derived from IP-range heuristics rather than a GeoIP database
   };
+  network?: NodeNetwork; // autonomous system / hosting provider the node's IP belongs to
   peers?: string[]; // list of peer node IDs
   metadata?: Record<string, any>;
   rawData?: Record<string, any>; // full raw JSON from pRPC
+  provenance?: NodeProvenance; // where each tracked field's value came from
+  validationIssues?: string[]; // problems found (and values dropped) when validating the payload
+}
+
+// How a node's location was determined
+export type LocationSource = 'reported' | 'geoip' | 'heuristic';
+
+// Autonomous system a node's IP is announced from, and the hosting provider it maps to
+export interface NodeNetwork {
+  asn?: number;
+  organization?: string; // AS organization name as listed in the IP-to-ASN dataset
+  provider?: string; // normalized provider (e.g. "Hetzner", "AWS"), or the organization when unrecognized
+}
+
+// Where a node field's value came from:
+// - reported: present in the pRPC payload
+// - inferred: derived from other data (e.g. status from last-seen age, location from IP)
+// - defaulted: filled with a placeholder because the payload didn't have it
+export type FieldProvenance = 'reported' | 'inferred' | 'defaulted';
+
+export type TrackedNodeField =
+  | 'publicKey'
+  | 'ipAddress'
+  | 'status'
+  | 'lastSeen'
+  | 'peerCount'
+  | 'storageCapacity'
+  | 'storageUsed'
+  | 'softwareVersion'
+  | 'latency'
+  | 'uptime'
+  | 'availability'
+  | 'location';
+
+// Fields without an entry are missing (no value); nodes with no provenance at all predate tracking
+export type NodeProvenance = Partial<Record<TrackedNodeField, FieldProvenance>>;
+
+export interface FieldQuality {
+  reported: number;
+  inferred: number;
+  defaulted: number;
+  missing: number;
+}
+
+// Per-ingest summary of how complete and trustworthy the node payloads were
+export interface DataQualityReport {
+  timestamp: Date | string;
+  totalNodes: number;
+  nodesWithIssues: number;
+  issueCount: number;
+  fields: Record<TrackedNodeField, FieldQuality>;
+  sampleIssues: Array<{ nodeId: string; issue: string }>;
 }
 
 export interface pNodeMetrics {
@@ -36,19 +92,60 @@ export interface pNodeMetrics {
   storageUsed?: number;
   storageCapacity?: number;
   uptime?: number;
+  healthScore?: number;
+  samples?: number; // number of raw history rows folded into this point
 }
 
+// Selectable time ranges for per-node metrics history
+export type MetricsRange = '1h' | '24h' | '7d' | '30d';
+
+// Stored history resolutions: raw ingest rows, or downsampled rollups
+export type RollupResolution = '5m' | '1h';
+export type HistoryResolution = 'raw' | RollupResolution;
+
 export interface HealthScore {
   nodeId: string;
   score: number; // 0-100
   status: 'healthy' | 'warning' | 'critical';
-  factors: {
-    uptime: number;
-    latency: number;
-    peerCount: number;
-    lastSeen: number;
-    storageUsage: number;
-  };
+  factors: Record<HealthFactor, number>; // per-factor score, 100 when excluded
+  excludedFactors?: string[]; // factors skipped because their input was defaulted, not reported
+  profile: string; // "<name>@<version>" of the HealthProfile that produced the score
+  breakdown: HealthFactorResult[];
+  cap?: string; // status rule that capped the score, if any
+}
+
+export type HealthFactor = 'uptime' | 'latency' | 'peerCount' | 'lastSeen' | 'storageUsage';
+
+// One score band of a factor. Bands are checked in order and the first whose
+// `below` exceeds the value applies; the last band has no `below` and catches the rest.
+export interface HealthBand {
+  below?: number;
+  score: number; // 0-100
+}
+
+export interface HealthFactorConfig {
+  weight: number; // relative; normalized over the factors a node actually reports
+  bands: HealthBand[];
+}
+
+// Named, versioned health scoring configuration (config/health-profiles.json)
+export interface HealthProfile {
+  name: string;
+  version: number; // bump whenever weights or bands change
+  description?: string;
+  factors: Record<HealthFactor, HealthFactorConfig>;
+  statusCaps: { offline: number; unknown: number }; // highest score a node with this status can get
+  thresholds: { healthy: number; warning: number }; // lowest score for each health status
+}
+
+export interface HealthFactorResult {
+  factor: HealthFactor;
+  value?: number; // input in the factor's unit (see HEALTH_FACTORS in lib/healthProfiles.ts)
+  score?: number; // from the matching band
+  weight: number; // share of the total weight (0-1); 0 when excluded
+  contribution: number; // points this factor adds to the score
+  rule: string; // the band that matched, or why the factor was excluded
+  excluded?: 'defaulted' | 'missing';
 }
 
 export interface Anomaly {
@@ -60,6 +157,237 @@ export interface Anomaly {
   details?: Record<string, any>;
 }
 
+// Network-wide rules evaluated after each ingest (see lib/networkRules.ts)
+export type NetworkRule =
+  | 'online_ratio'
+  | 'storage_capacity_drop'
+  | 'version_dominance'
+  | 'mass_disappearance'
+  | 'region_loss'
+  | 'peer_partition';
+
+export interface NetworkAnomaly {
+  type: 'network_issue';
+  rule: NetworkRule;
+  scope?: string; // what the rule fired for, e.g. the region for region_loss
+  severity: Anomaly['severity'];
+  message: string;
+  timestamp: Date | string;
+  details?: Record<string, unknown>;
+}
+
+// Operator-defined alert rule; see lib/alertRules.ts for the condition language
+export interface AlertRule {
+  id: string;
+  name: string;
+  description?: string | null;
+  condition: string; // e.g. "latency > 800 and region == 'Europe'"
+  severity: Anomaly['severity'];
+  forIngests: number; // consecutive ingests the condition must hold on
+  forMinutes: number; // minimum time the condition must have held
+  enabled: boolean;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+}
+
+export type AlertRuleInput = Pick<AlertRule, 'name' | 'condition' | 'severity'> &
+  Partial<Pick<AlertRule, 'description' | 'forIngests' | 'forMinutes' | 'enabled'>>;
+
+// Alert lifecycle transitions (see lib/alertLifecycle.ts)
+export type AlertEventType =
+  | 'created'
+  | 'acknowledged'
+  | 'unacknowledged'
+  | 'resolved'
+  | 'reopened'
+  | 'silenced'
+  | 'unsilenced'
+  | 'assigned'
+  | 'escalated';
+
+export interface AlertEvent {
+  id: number;
+  alertId: string;
+  type: AlertEventType;
+  actor: string; // 'ingest' for automatic transitions, otherwise whoever made the change
+  details?: Record<string, unknown> | null;
+  createdAt: Date | string;
+}
+
+// Time from an alert being raised to its resolution
+export interface AlertDurationStats {
+  resolved: number;
+  autoResolved: number;
+  meanMs: number | null; // mean time to resolve (MTTR)
+  medianMs: number | null;
+  p90Ms: number | null;
+}
+
+// Alert silences and maintenance windows (see lib/silences.ts).
+// Every matcher given must match; within a matcher, any listed value does.
+export interface SilenceMatchers {
+  nodeIds?: string[];
+  regions?: string[]; // country name, country code or region
+  versions?: string[]; // exact version or release line, e.g. "0.8.x"
+  types?: string[]; // alert types, e.g. "offline"
+  severities?: Anomaly['severity'][];
+}
+
+// Recurring maintenance window; times are UTC
+export interface SilenceRecurrence {
+  frequency: 'daily' | 'weekly';
+  weekdays?: number[]; // weekly: 0 = Sunday ... 6 = Saturday
+  startTime: string; // "HH:MM"
+  durationMinutes: number;
+}
+
+export interface Silence {
+  id: string;
+  comment: string;
+  createdBy: string;
+  matchers: SilenceMatchers;
+  startsAt: Date | string; // one-off: start of the silence; recurring: windows starting earlier are skipped
+  endsAt: Date | string | null; // one-off: end of the silence; recurring: end of the series, null for none
+  recurrence: SilenceRecurrence | null;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+}
+
+export type SilenceInput = Pick<Silence, 'comment' | 'matchers'> &
+  Partial<Pick<Silence, 'createdBy' | 'startsAt' | 'endsAt' | 'recurrence'>>;
+
+export type SilenceState = 'active' | 'scheduled' | 'expired';
+
+// Alert notifications (see lib/notifications.ts)
+export type NotificationChannelType = 'webhook' | 'slack' | 'discord' | 'email' | 'telegram';
+export type NotificationDeliveryStatus = 'pending' | 'sent' | 'failed' | 'suppressed';
+
+// Which alerts a channel receives; every condition given must match
+export interface NotificationRoute {
+  minSeverity?: Anomaly['severity'];
+  types?: string[]; // alert types, e.g. "offline", "network_issue"
+  nodeTags?: string[]; // any of these node tags, e.g. "validator", "country:DE"
+}
+
+// One channel from the notifications config file. Settings besides these
+// depend on the type (url, secret, host, to, botToken, ...).
+export interface NotificationChannelConfig {
+  name: string;
+  type: NotificationChannelType;
+  enabled?: boolean;
+  route?: NotificationRoute;
+  [setting: string]: unknown;
+}
+
+// A team owning nodes, by id or node tag; the "network" tag covers network alerts
+export interface NotificationTeam {
+  name: string;
+  members?: string[]; // operators, as they name themselves on the dashboard
+  nodeIds?: string[];
+  nodeTags?: string[];
+}
+
+// Channels notified once an alert has been unacknowledged for afterMinutes
+export interface EscalationTier {
+  afterMinutes: number;
+  channels: string[];
+}
+
+// Escalation for the alerts a route (and, optionally, owning teams) selects
+export interface EscalationPolicy {
+  name: string;
+  route?: NotificationRoute;
+  teams?: string[];
+  tiers: EscalationTier[]; // in order of afterMinutes
+}
+
+export interface NotificationConfig {
+  tags?: Record<string, string[]>; // extra node tags: tag → node ids
+  teams?: NotificationTeam[];
+  escalation?: EscalationPolicy[];
+  channels: NotificationChannelConfig[];
+}
+
+// What a channel is asked to send, for an alert or a test
+export interface NotificationMessage {
+  alertId: string | null; // null for test notifications
+  type: string;
+  severity: Anomaly['severity'];
+  message: string;
+  nodeId: string | null; // null for network alerts
+  tags: string[];
+  regions?: string[]; // the node's country, country code and region, for silences
+  version?: string | null; // the node's software version, for silences
+  details?: Record<string, unknown>;
+  team?: string | null; // team owning the alert
+  escalation?: { policy: string; tier: number; afterMinutes: number }; // set on escalations
+  createdAt: string; // ISO timestamp
+  url?: string; // dashboard link, when NOTIFICATIONS_DASHBOARD_URL is set
+  test?: boolean;
+}
+
+// Node metrics watched by the statistical anomaly detectors (see lib/detectors.ts)
+export type DetectorMetric = 'latency' | 'peerCount' | 'storageUsed';
+export type DetectorMethod = 'robust_z' | 'ewma' | 'change_point';
+
+// Sensitivity settings for one metric. Scores are in robust standard deviations.
+export interface MetricDetectorConfig {
+  enabled: boolean;
+  direction: 'up' | 'down' | 'both'; // which deviations count
+  minSamples: number; // history needed before the detectors run
+  minScale: number; // floor for the spread, in the metric's unit, so flat series don't fire on tiny changes
+  minRelativeChange: number; // ignore deviations smaller than this fraction of the baseline
+  seasonal: boolean; // compare against hour-of-day baselines when there is enough history
+  maxSeverity: Exclude<Anomaly['severity'], 'critical'>;
+  robustZ: { medium: number; high: number }; // median/MAD z-score
+  ewma: { alpha: number; medium: number; high: number }; // exponentially weighted baseline
+  changePoint: { threshold: number; drift: number; minRun: number }; // CUSUM step detection
+}
+
+// Named anomaly detection configuration (config/anomaly-detection.json)
+export interface AnomalyDetectionConfig {
+  name: string;
+  window: {
+    recentHours: number; // raw history compared against
+    maxSamples: number;
+    seasonalDays: number; // hourly rollups behind the hour-of-day baselines
+  };
+  metrics: Record<DetectorMetric, MetricDetectorConfig>;
+}
+
+// What a detector found for one metric
+export interface DetectorFinding {
+  metric: DetectorMetric;
+  method: DetectorMethod;
+  severity: Anomaly['severity'];
+  value: number;
+  expected: number; // baseline the value was compared with
+  score: number; // deviation in robust standard deviations (CUSUM sum for change points)
+}
+
+// Which pNode software versions are acceptable (see lib/versions.ts)
+export interface VersionPolicy {
+  minimumVersion?: string; // older nodes are unsupported
+  recommendedVersion?: string; // older nodes are outdated
+  maxMinorBehind: number; // minor releases a node may trail the network majority by
+}
+
+// A major.minor release line, e.g. 0.7.x
+export interface VersionLine {
+  major: number;
+  minor: number;
+}
+
+export type VersionStatus = 'current' | 'outdated' | 'unsupported' | 'unknown';
+
+// A node's version checked against the VersionPolicy
+export interface VersionCheck {
+  version?: string;
+  status: VersionStatus;
+  severity?: Anomaly['severity']; // set when status is outdated or unsupported
+  reasons: string[];
+}
+
 export interface NetworkStats {
   totalNodes: number;
   onlineNodes: number;
@@ -70,9 +398,110 @@ export interface NetworkStats {
   averageLatency: number;
   versionDistribution: Record<string, number>;
   regionDistribution: Record<string, number>;
+  asnDistribution: Record<string, number>; // keyed "AS<number> <organization>"
+  providerDistribution: Record<string, number>;
+  concentration: {
+    provider: ConcentrationMetrics;
+    country: ConcentrationMetrics;
+  };
+  connectivity: ConnectivityMetrics | null; // null when no node reports peers
+  stakeWeighted: StakeWeightedStats | null; // null when no node has stake or storage capacity
   validatorCount?: number;
 }
 
+// How concentrated nodes are across entities (providers, countries, ...).
+// Nodes whose entity is unknown are left out of the shares.
+export interface ConcentrationMetrics {
+  entities: number; // distinct known entities
+  hhi: number; // Herfindahl-Hirschman index, 0-10000 (10000 = a single entity)
+  top1Share: number; // fraction (0-1) of known nodes held by the largest entity
+  top3Share: number;
+  top5Share: number;
+  nakamoto: number; // fewest entities that together hold more than the threshold share
+  unknownShare: number; // fraction of all nodes whose entity is unknown
+}
+
+// Structure of the peer graph (see lib/topology.ts)
+export interface PeerGraphMetrics {
+  nodes: number;
+  edges: number; // distinct peer links
+  unresolvedPeers: number; // peer entries naming no known node
+  isolated: number; // nodes without a known peer
+  averageDegree: number;
+  maxDegree: number;
+  degreeDistribution: Record<number, number>; // peers → nodes with that many
+  components: number;
+  largestComponent: number; // nodes in the largest component
+  averageClustering: number; // mean local clustering coefficient, 0-1
+  articulationPoints: string[]; // nodes whose loss splits their component
+  bridges: Array<[string, string]>; // links whose loss splits their component
+  criticalNodes: Array<{ id: string; cutOff: number }>; // articulation points by the nodes their loss cuts off, most first
+}
+
+// Partition risk of the peer graph, stored on each NetworkSnapshot. Counts
+// only nodes with known peering (see lib/topology.ts summarizeConnectivity).
+export interface ConnectivityMetrics {
+  nodes: number;
+  links: number;
+  components: number;
+  largestComponentShare: number; // fraction (0-1) of nodes in the largest component
+  isolated: number;
+  articulationPoints: number;
+  bridges: number;
+  minCut: number; // links that must fail to split the largest component (an upper bound)
+}
+
+// One epoch of a vote account's credits, from getVoteAccounts epochCredits
+export interface EpochCredits {
+  epoch: number;
+  credits: number; // cumulative at the end of the epoch (so far, for the current one)
+  previousCredits: number;
+  earned: number; // credits - previousCredits
+}
+
+// A validator's voting performance (see lib/validators.ts)
+export interface ValidatorPerformance {
+  nodeId: string;
+  voteAccount?: string;
+  status: pNode['status'];
+  commission: number | null;
+  delinquent: boolean;
+  delinquentReason?: 'reported' | 'vote_lag'; // listed delinquent by getVoteAccounts, or last vote too far behind
+  lastVote: number | null;
+  voteLag: number | null; // slots behind the newest vote in the cluster
+  epoch: number | null; // latest epoch with credits in the cluster
+  earned: number | null; // credits earned in that epoch
+  creditRatio: number | null; // earned / cluster median for the epoch
+  averageRatio: number | null; // mean ratio over recent epochs
+  credits: EpochCredits[]; // oldest first
+  rank: number; // 1 = best average ratio
+}
+
+// A validator's commission as seen to change between ingests
+export interface CommissionChange {
+  nodeId: string;
+  voteAccount: string | null;
+  previous: number;
+  commission: number;
+  changedAt: Date | string;
+}
+
+// What stake-weighted statistics weigh nodes by: activated stake from vote
+// accounts, or storage capacity when no node has stake (see lib/stake.ts)
+export type StakeWeightBasis = 'stake' | 'storage';
+
+export interface StakeWeightedStats {
+  basis: StakeWeightBasis;
+  totalWeight: number; // lamports of activated stake, or bytes of capacity
+  onlineWeight: number; // held by online nodes (not delinquent validators)
+  onlineShare: number; // 0-1
+  weightedNodes: number; // nodes with any weight
+  versionDistribution: Record<string, number>; // weight per release line
+  regionDistribution: Record<string, number>; // weight per country or region
+  nakamoto: number; // fewest nodes holding more than a third of the weight
+  superminority: string[]; // those nodes' ids, largest first
+}
+
 export type Theme = 'light' | 'dark';
 
 export interface FilterOptions {
@@ -81,7 +510,21 @@ export interface FilterOptions {
   region?: string[];
   minPeerCount?: number;
   maxPeerCount?: number;
-  minStorageUsage?: number;
+  minStorageUsage?: number; // percent of capacity
   maxStorageUsage?: number;
 }
 
+// Sortable node list columns; health and risk are the scores computed at ingest
+export type NodeSortField = 'id' | 'status' | 'peerCount' | 'storageUsed' | 'latency' | 'health' | 'risk';
+export type SortDirection = 'asc' | 'desc';
+
+// Node list query accepted by /api/nodes
+export interface NodeQuery {
+  filters: FilterOptions;
+  search?: string; // substring of id, public key, IP address or country
+  sort: NodeSortField;
+  direction: SortDirection;
+  cursor?: string; // opaque; the nextCursor of the previous page
+  limit: number;
+}
+